@@ -0,0 +1,78 @@
+/**
+ * GalleryItemsFields Component
+ *
+ * Caption and link inputs for each image of a gallery post.
+ * Used under the media upload and for per-community overrides.
+ */
+
+import React from 'react';
+import NextImage from 'next/image';
+import { Input } from '@/components/ui/input';
+import type { GalleryItemDetails } from '@/lib/queueJob';
+import { GALLERY_CAPTION_MAX_LENGTH } from '@/lib/galleryItems';
+
+interface GalleryItemsFieldsProps {
+  /** Number of gallery images */
+  count: number;
+  items: GalleryItemDetails[];
+  onItemsChange: (items: GalleryItemDetails[]) => void;
+  /** Preview image per index */
+  previewUrls?: string[];
+  /** Per-image placeholders, e.g. the global caption an override replaces */
+  placeholders?: GalleryItemDetails[];
+  disabled?: boolean;
+}
+
+const GalleryItemsFields: React.FC<GalleryItemsFieldsProps> = ({
+  count,
+  items,
+  onItemsChange,
+  previewUrls,
+  placeholders,
+  disabled = false,
+}) => {
+  const update = (index: number, field: keyof GalleryItemDetails, value: string) => {
+    const next = Array.from({ length: count }, (_, i) => ({ ...items[i] }));
+    next[index][field] = value;
+    onItemsChange(next);
+  };
+
+  return (
+    <ol className="space-y-2" aria-label="Gallery captions and links">
+      {Array.from({ length: count }, (_, index) => (
+        <li key={index} className="flex items-start gap-2">
+          {previewUrls?.[index] ? (
+            <div className="relative h-9 w-9 shrink-0 overflow-hidden rounded bg-secondary">
+              <NextImage src={previewUrls[index]} alt="" fill unoptimized className="object-cover" />
+            </div>
+          ) : (
+            <span className="flex h-9 w-9 shrink-0 items-center justify-center rounded bg-secondary text-xs text-muted-foreground">
+              {index + 1}
+            </span>
+          )}
+          <div className="grid flex-1 gap-1.5 sm:grid-cols-2">
+            <Input
+              value={items[index]?.caption ?? ''}
+              onChange={(e) => update(index, 'caption', e.target.value.slice(0, GALLERY_CAPTION_MAX_LENGTH))}
+              placeholder={placeholders?.[index]?.caption || `Caption for image ${index + 1}`}
+              aria-label={`Caption for image ${index + 1}`}
+              disabled={disabled}
+              className="h-9 text-sm"
+            />
+            <Input
+              type="url"
+              value={items[index]?.outboundUrl ?? ''}
+              onChange={(e) => update(index, 'outboundUrl', e.target.value)}
+              placeholder={placeholders?.[index]?.outboundUrl || 'Link (optional)'}
+              aria-label={`Link for image ${index + 1}`}
+              disabled={disabled}
+              className="h-9 text-sm"
+            />
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default GalleryItemsFields;
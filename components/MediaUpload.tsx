@@ -3,15 +3,29 @@ import NextImage from 'next/image';
 import { useDropzone, FileRejection } from 'react-dropzone';
 import { Upload, Image, Video, Link, X, AlertCircle } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import GalleryItemsFields from '@/components/GalleryItemsFields';
+import type { GalleryItemDetails } from '@/lib/queueJob';
 
 interface Props {
   onUrl: (url: string) => void;
   onFile: (files: File[]) => void;
   mode: 'image' | 'video' | 'url';
   resetSignal?: number;
+  /** Caption and link of each gallery image */
+  galleryItems?: GalleryItemDetails[];
+  onGalleryItemsChange?: (items: GalleryItemDetails[]) => void;
 }
 
-export default function MediaUpload({ onUrl, onFile, mode, resetSignal }: Props) {
+const NO_GALLERY_ITEMS: GalleryItemDetails[] = [];
+
+export default function MediaUpload({
+  onUrl,
+  onFile,
+  mode,
+  resetSignal,
+  galleryItems = NO_GALLERY_ITEMS,
+  onGalleryItemsChange,
+}: Props) {
   const [mediaUrl, setMediaUrl] = React.useState('');
   const [selectedFiles, setSelectedFiles] = React.useState<File[]>([]);
   const [previewUrls, setPreviewUrls] = React.useState<string[]>([]);
@@ -19,6 +33,7 @@ export default function MediaUpload({ onUrl, onFile, mode, resetSignal }: Props)
   const previewUrlsRef = React.useRef<string[]>([]);
   const onFileRef = React.useRef(onFile);
   const onUrlRef = React.useRef(onUrl);
+  const onGalleryItemsChangeRef = React.useRef(onGalleryItemsChange);
 
   const handleDropRejected = React.useCallback((fileRejections: FileRejection[]) => {
     const errors: string[] = [];
@@ -77,6 +92,7 @@ export default function MediaUpload({ onUrl, onFile, mode, resetSignal }: Props)
     setMediaUrl('');
     onFile(files);
     onUrl('');
+    onGalleryItemsChange?.([]);
     const previews = files.map(file => URL.createObjectURL(file));
     setPreviewUrls(previews);
   };
@@ -97,6 +113,7 @@ export default function MediaUpload({ onUrl, onFile, mode, resetSignal }: Props)
     setSelectedFiles(newFiles);
     setPreviewUrls(newPreviews);
     onFile(newFiles);
+    onGalleryItemsChange?.(galleryItems.filter((_, i) => i !== index));
   };
 
   const clearMedia = React.useCallback(() => {
@@ -104,6 +121,7 @@ export default function MediaUpload({ onUrl, onFile, mode, resetSignal }: Props)
     setMediaUrl('');
     onFileRef.current([]);
     onUrlRef.current('');
+    onGalleryItemsChangeRef.current?.([]);
     previewUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
     setPreviewUrls([]);
   }, []);
@@ -115,7 +133,8 @@ export default function MediaUpload({ onUrl, onFile, mode, resetSignal }: Props)
   React.useEffect(() => {
     onFileRef.current = onFile;
     onUrlRef.current = onUrl;
-  }, [onFile, onUrl]);
+    onGalleryItemsChangeRef.current = onGalleryItemsChange;
+  }, [onFile, onUrl, onGalleryItemsChange]);
 
   React.useEffect(() => {
     return () => {
@@ -220,6 +239,19 @@ export default function MediaUpload({ onUrl, onFile, mode, resetSignal }: Props)
               <span>{rejectionError}</span>
             </div>
           )}
+
+          {/* Gallery Captions & Links */}
+          {onGalleryItemsChange && mode === 'image' && selectedFiles.length > 1 && (
+            <div className="mt-3 space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">Captions & links (optional)</p>
+              <GalleryItemsFields
+                count={selectedFiles.length}
+                items={galleryItems}
+                onItemsChange={onGalleryItemsChange}
+                previewUrls={previewUrls}
+              />
+            </div>
+          )}
         </div>
       ) : (
         /* URL Input */
@@ -0,0 +1,106 @@
+/**
+ * PollFields Component
+ *
+ * Options and voting duration of a poll post. Shown in place of the media
+ * upload when the composer is in poll mode.
+ */
+
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import type { PollDetails } from '@/lib/queueJob';
+import {
+  POLL_MAX_DURATION_DAYS,
+  POLL_MAX_OPTIONS,
+  POLL_MIN_DURATION_DAYS,
+  POLL_MIN_OPTIONS,
+  POLL_OPTION_MAX_LENGTH,
+} from '@/lib/pollPost';
+
+interface PollFieldsProps {
+  poll: PollDetails;
+  onPollChange: (poll: PollDetails) => void;
+  disabled?: boolean;
+}
+
+const DURATION_OPTIONS = Array.from(
+  { length: POLL_MAX_DURATION_DAYS - POLL_MIN_DURATION_DAYS + 1 },
+  (_, index) => {
+    const days = POLL_MIN_DURATION_DAYS + index;
+    return { value: String(days), label: `${days} day${days === 1 ? '' : 's'}` };
+  }
+);
+
+const PollFields: React.FC<PollFieldsProps> = ({ poll, onPollChange, disabled = false }) => {
+  const setOption = (index: number, value: string) => {
+    const options = [...poll.options];
+    options[index] = value.slice(0, POLL_OPTION_MAX_LENGTH);
+    onPollChange({ ...poll, options });
+  };
+
+  const addOption = () => {
+    onPollChange({ ...poll, options: [...poll.options, ''] });
+  };
+
+  const removeOption = (index: number) => {
+    onPollChange({ ...poll, options: poll.options.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-2" aria-label="Poll options">
+        {poll.options.map((option, index) => (
+          <li key={index} className="flex items-center gap-2">
+            <Input
+              value={option}
+              onChange={(e) => setOption(index, e.target.value)}
+              placeholder={`Option ${index + 1}`}
+              aria-label={`Poll option ${index + 1}`}
+              disabled={disabled}
+              className="h-9 text-sm"
+            />
+            {poll.options.length > POLL_MIN_OPTIONS && (
+              <button
+                type="button"
+                onClick={() => removeOption(index)}
+                disabled={disabled}
+                className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted cursor-pointer disabled:cursor-not-allowed"
+                aria-label={`Remove option ${index + 1}`}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {poll.options.length < POLL_MAX_OPTIONS ? (
+          <button
+            type="button"
+            onClick={addOption}
+            disabled={disabled}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground cursor-pointer disabled:cursor-not-allowed"
+          >
+            <Plus className="h-4 w-4" />
+            Add option
+          </button>
+        ) : (
+          <span className="text-xs text-muted-foreground">Up to {POLL_MAX_OPTIONS} options</span>
+        )}
+        <NativeSelect
+          value={String(poll.durationDays)}
+          onValueChange={(value) => onPollChange({ ...poll, durationDays: Number(value) })}
+          options={DURATION_OPTIONS}
+          disabled={disabled}
+          className="w-32"
+          triggerClassName="h-8 text-xs"
+          aria-label="Voting duration"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PollFields;
@@ -1,7 +1,9 @@
 import React, { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
 import { Textarea } from '@/components/ui/textarea';
-import { ChevronDown, ChevronRight, Crown, Sparkles } from 'lucide-react';
+import { ChevronDown, ChevronRight, Crown, ImagePlus, Sparkles, X } from 'lucide-react';
 import { usePersistentState } from '@/hooks/usePersistentState';
+import { inlineImageMarkdown, getInlineImageNumbers, removeInlineImage } from '@/lib/richtext';
+import { QUEUE_LIMITS } from '@/lib/queueLimits';
 import CopyGenerationDialog from '@/components/ai/CopyGenerationDialog';
 import { ProUpgradeHint } from '@/components/ui/pro-upgrade-hint';
 
@@ -10,6 +12,9 @@ interface Props {
   onChange: (value: string) => void;
   body?: string;
   onBodyChange?: (value: string) => void;
+  /** Images placed in the body; inserting is offered only with onInlineImagesChange (text posts) */
+  inlineImages?: File[];
+  onInlineImagesChange?: (files: File[]) => void;
   prefixes: { f: boolean; c: boolean };
   onPrefixesChange: (prefixes: { f: boolean; c: boolean }) => void;
   resetSignal?: number;
@@ -31,6 +36,8 @@ const PostComposer = forwardRef<PostComposerRef, Props>(function PostComposer({
   onChange,
   body,
   onBodyChange,
+  inlineImages = [],
+  onInlineImagesChange,
   prefixes,
   onPrefixesChange,
   resetSignal,
@@ -43,6 +50,7 @@ const PostComposer = forwardRef<PostComposerRef, Props>(function PostComposer({
   const [titleError, setTitleError] = React.useState(false);
   const titleRef = useRef<HTMLTextAreaElement>(null);
   const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const inlineImageInputRef = useRef<HTMLInputElement>(null);
   const count = value.length;
   const limit = 300;
   const bodyLimit = 40000;
@@ -109,6 +117,30 @@ const PostComposer = forwardRef<PostComposerRef, Props>(function PostComposer({
     }
   };
 
+  // Insert the image on its own paragraph at the cursor
+  const handleInsertImage = (file: File | undefined) => {
+    if (!file || !onBodyChange || !onInlineImagesChange) return;
+    const current = body ?? '';
+    const cursor = bodyRef.current?.selectionStart ?? current.length;
+    const next = [
+      current.slice(0, cursor).trimEnd(),
+      inlineImageMarkdown(inlineImages.length + 1),
+      current.slice(cursor).trimStart(),
+    ].filter(Boolean).join('\n\n');
+    if (next.length > bodyLimit) return;
+
+    onInlineImagesChange([...inlineImages, file]);
+    onBodyChange(next);
+  };
+
+  const handleRemoveImage = (index: number) => {
+    if (!onBodyChange || !onInlineImagesChange) return;
+    onInlineImagesChange(inlineImages.filter((_, i) => i !== index));
+    onBodyChange(removeInlineImage(body ?? '', index + 1));
+  };
+
+  const placedImages = getInlineImageNumbers(body ?? '');
+
   const handleBodyToggle = () => {
     if (hasBody) {
       setShowBody(true);
@@ -202,10 +234,59 @@ const PostComposer = forwardRef<PostComposerRef, Props>(function PostComposer({
               className="resize-none min-h-[120px] overflow-hidden"
               rows={4}
             />
+            {onInlineImagesChange && inlineImages.length > 0 && (
+              <ol className="mt-2 flex flex-wrap gap-1.5" aria-label="Inline images">
+                {inlineImages.map((file, index) => (
+                  <li
+                    key={`${file.name}-${index}`}
+                    className="inline-flex items-center gap-1 rounded-md bg-secondary px-2 py-1 text-xs"
+                  >
+                    <span className="max-w-[10rem] truncate">
+                      {index + 1}. {file.name}
+                    </span>
+                    {!placedImages.includes(index + 1) && (
+                      <span className="text-yellow-500">not placed</span>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveImage(index)}
+                      className="text-muted-foreground hover:text-foreground cursor-pointer"
+                      aria-label={`Remove image ${index + 1}`}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
             <div className="flex justify-between mt-1">
-              <span className="text-xs text-muted-foreground">
-                Description (optional)
-              </span>
+              {onInlineImagesChange ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => inlineImageInputRef.current?.click()}
+                    disabled={inlineImages.length >= QUEUE_LIMITS.MAX_FILES_PER_ITEM}
+                    className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <ImagePlus className="h-3.5 w-3.5" />
+                    Insert image
+                  </button>
+                  <input
+                    ref={inlineImageInputRef}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      handleInsertImage(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </>
+              ) : (
+                <span className="text-xs text-muted-foreground">
+                  Description (optional)
+                </span>
+              )}
               <span className={`text-xs ${(body?.length || 0) > bodyLimit * 0.9 ? 'text-yellow-500' : 'text-muted-foreground'}`}>
                 {body?.length || 0}/{bodyLimit}
               </span>
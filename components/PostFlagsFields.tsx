@@ -0,0 +1,65 @@
+/**
+ * PostFlagsFields Component
+ *
+ * Toggle chips for the NSFW, spoiler, send-replies and OC flags of a post.
+ * Used for the composer's global flags and for per-community overrides.
+ */
+
+import React from 'react';
+import type { PostFlags } from '@/lib/queueJob';
+import { POST_FLAG_KEYS, POST_FLAG_LABELS, resolveSubmitFlags, type PostFlagKey } from '@/lib/postFlags';
+
+interface PostFlagsFieldsProps {
+  flags: PostFlags;
+  onFlagsChange: (flags: PostFlags) => void;
+  /** Short note under the chips */
+  hint?: string;
+  disabled?: boolean;
+}
+
+const FLAG_TITLES: Record<PostFlagKey, string> = {
+  nsfw: 'Mark as not safe for work',
+  spoiler: 'Blur the post as a spoiler',
+  sendReplies: 'Get comment replies in your Reddit inbox',
+  originalContent: 'Tag as original content where the community allows it',
+};
+
+const PostFlagsFields: React.FC<PostFlagsFieldsProps> = ({
+  flags,
+  onFlagsChange,
+  hint,
+  disabled = false,
+}) => {
+  const resolved = resolveSubmitFlags(flags);
+
+  const toggle = (key: PostFlagKey) => {
+    onFlagsChange({ ...flags, [key]: !resolved[key] });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Post flags">
+        {POST_FLAG_KEYS.map(key => (
+          <button
+            key={key}
+            type="button"
+            aria-pressed={resolved[key]}
+            onClick={() => toggle(key)}
+            disabled={disabled}
+            title={FLAG_TITLES[key]}
+            className={`inline-flex h-7 items-center rounded-full border px-3 text-xs font-medium transition-colors cursor-pointer disabled:cursor-not-allowed disabled:opacity-50 ${
+              resolved[key]
+                ? 'border-orange-500/60 bg-orange-500/15 text-orange-400'
+                : 'border-border text-muted-foreground hover:text-foreground hover:bg-secondary/40'
+            }`}
+          >
+            {POST_FLAG_LABELS[key]}
+          </button>
+        ))}
+      </div>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+};
+
+export default PostFlagsFields;
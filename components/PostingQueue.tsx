@@ -15,7 +15,14 @@ import {
   RotateCcw,
 } from 'lucide-react';
 import { useQueueJob, RetryItemInput } from '../hooks/useQueueJob';
-import { QueueProgressList, FailedPostsPanel, EditFailedPostDialog, ValidationWarnings } from './posting-queue';
+import { QueueProgressList, FailedPostsPanel, EditFailedPostDialog, ValidationWarnings, ScheduledJobsPanel, DryRunReport, buildLogEntries } from './posting-queue';
+import { useScheduledJobs } from '../hooks/useScheduledJobs';
+import { toast } from '../hooks/useToast';
+import type { GalleryItemDetails, PollDetails, PostFlags, QueueItemEdit, QueueJobPacing, QueueJobSchedule } from '@/lib/queueJob';
+import { formatScheduledTime } from '@/lib/scheduling';
+import { describePacing } from '@/lib/pacing';
+import type { RepeatRule } from '@/lib/recurringJob';
+import { describeRepeatRule } from '@/lib/recurrence';
 import { QUEUE_LIMITS, formatFileSize, calculateItemsFileSize } from '@/lib/queueLimits';
 import { MobileStickyQueue } from './MobileStickyQueue';
 import { LogEntry } from './posting-queue/types';
@@ -27,16 +34,19 @@ import type { PreflightResult } from '@/lib/preflightValidation';
 import type { PerSubredditOverride } from './subreddit-picker';
 import { normalizeSubredditKey } from '@/lib/subredditKey';
 
-interface Item {
+interface Item extends PostFlags {
   subreddit: string;
   flairId?: string;
+  flairText?: string;
   titleSuffix?: string;
   customTitle?: string;
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   url?: string;
   text?: string;
   file?: File;
   files?: File[];
+  galleryItems?: GalleryItemDetails[];
+  poll?: PollDetails;
 }
 
 interface Props {
@@ -49,6 +59,8 @@ interface Props {
   /** Legacy per-subreddit custom titles */
   customTitles?: Record<string, string>;
   prefixes: { f?: boolean; c?: boolean };
+  /** Post the first item, then crosspost it to the others (not used for dry runs) */
+  crosspost?: boolean;
   hasFlairErrors?: boolean;
   /** Returns true to allow posting, false to block. Errors also block posting. */
   onPostAttempt?: () => boolean;
@@ -71,6 +83,10 @@ interface Props {
   }) => void;
   mode?: 'inline' | 'review-entry';
   onPostActionReady?: (handler: () => void) => void;
+  /** Exposes the schedule handler to parent (for the "Schedule" and "Drip" menu actions) */
+  onScheduleActionReady?: (handler: ScheduleActionHandler) => void;
+  /** Exposes the dry-run handler to parent (for the "Dry run" menu action) */
+  onDryRunActionReady?: (handler: () => void) => void;
   onReviewRequest?: () => void;
   hideMobileBar?: boolean;
   /** Notifies parent when posting state changes (for desktop stop button) */
@@ -79,6 +95,17 @@ interface Props {
   onCancelReady?: (cancelFn: () => void) => void;
 }
 
+/**
+ * Posts via the server: later when `schedule` is given, now otherwise;
+ * spread out over time when `pacing` is given; again and again when
+ * `repeat` is given (with a schedule).
+ */
+export type ScheduleActionHandler = (
+  schedule: QueueJobSchedule | null,
+  pacing?: QueueJobPacing,
+  repeat?: RepeatRule
+) => void;
+
 export interface PostingQueueHandle {
   triggerPost: () => void;
 }
@@ -189,6 +216,7 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
   contentOverrides,
   customTitles,
   prefixes,
+  crosspost = false,
   hasFlairErrors,
   onPostAttempt,
   onUnselectSuccessItems,
@@ -200,6 +228,8 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
   onValidationStateChange,
   mode = 'inline',
   onPostActionReady,
+  onScheduleActionReady,
+  onDryRunActionReady,
   onReviewRequest,
   hideMobileBar = false,
   onProcessingChange,
@@ -213,9 +243,15 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
     retryItem,
     retryItems,
     cancel,
+    pause,
+    resume,
+    editItems,
     reset,
   } = useQueueJob();
 
+  // Upcoming scheduled posts
+  const scheduledJobs = useScheduledJobs();
+
   // Failed posts management
   const failedPostsHook = useFailedPosts();
 
@@ -256,6 +292,8 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
     const titleSuffixes: Record<string, string | undefined> = {};
     const titleBySubreddit: Record<string, string | undefined> = {};
     const bodyBySubreddit: Record<string, string | undefined> = {};
+    const galleryItemsBySubreddit: Record<string, GalleryItemDetails[] | undefined> = {};
+    const allowPolls: Record<string, boolean | undefined> = {};
 
     items.forEach(item => {
       const key = normalizeSubredditKey(item.subreddit);
@@ -269,12 +307,15 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
       if (override?.body !== undefined) {
         bodyBySubreddit[key] = override.body;
       }
+      galleryItemsBySubreddit[key] = item.galleryItems;
+      allowPolls[key] = flairDataResult.eligibilityData[key]?.allowPolls;
     });
 
     // Determine kind and url from the first item (all items in a post share the same type)
     const firstItem = items[0];
     const kind = firstItem?.kind || 'self';
     const url = firstItem?.url;
+    const mediaCount = firstItem?.files?.length ?? (firstItem?.file ? 1 : 0);
 
     return {
       title: caption,
@@ -289,8 +330,12 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
       titleSuffixes,
       titleBySubreddit,
       bodyBySubreddit,
+      mediaCount,
+      galleryItemsBySubreddit,
+      poll: firstItem?.poll,
+      allowPolls,
     };
-  }, [items, caption, body, contentOverrides, customTitles, flairDataResult.flairRequired, flairDataResult.flairOptions, flairDataResult.postRequirements]);
+  }, [items, caption, body, contentOverrides, customTitles, flairDataResult.flairRequired, flairDataResult.flairOptions, flairDataResult.postRequirements, flairDataResult.eligibilityData]);
 
   // Run pre-flight validation
   const validation = usePreflightValidation(validationInput);
@@ -335,8 +380,8 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
   const processedJobRef = React.useRef<string | null>(null);
 
   useEffect(() => {
-    // Only process when job transitions to completed/failed
-    if (state.status === 'completed' || state.status === 'failed') {
+    // Only process when job transitions to completed/failed (dry runs posted nothing)
+    if ((state.status === 'completed' || state.status === 'failed') && !state.dryRun) {
       // Generate a unique key for this job result set to prevent re-processing
       const jobKey = `${state.status}-${state.results.length}-${state.items.length}`;
       
@@ -359,7 +404,7 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
       // Reset when a new job starts
       processedJobRef.current = null;
     }
-  }, [state.status, state.results, state.items, caption, prefixes, failedPostsHook.addFromResults]);
+  }, [state.status, state.dryRun, state.results, state.items, caption, prefixes, failedPostsHook.addFromResults]);
 
   // Handle retry for a single failed post
   const handleRetryFailedPost = useCallback(async (postId: string) => {
@@ -377,6 +422,7 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
       const retryInput: RetryItemInput = {
         subreddit: post.subreddit,
         flairId: post.flairId,
+        flairText: post.flairText,
         titleSuffix: post.titleSuffix,
         customTitle: post.customTitle ?? post.originalItem.customTitle,
         kind: post.originalItem.kind,
@@ -384,6 +430,12 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
         text: effectiveBody,
         file: post.originalItem.file,
         files: post.originalItem.files,
+        nsfw: post.originalItem.nsfw,
+        spoiler: post.originalItem.spoiler,
+        sendReplies: post.originalItem.sendReplies,
+        originalContent: post.originalItem.originalContent,
+        galleryItems: post.originalItem.galleryItems,
+        poll: post.originalItem.poll,
       };
 
       const jobId = await retryItem(retryInput, effectiveTitle, post.originalPrefixes);
@@ -422,6 +474,8 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
       const retryInput: RetryItemInput = {
         subreddit: editingPost.subreddit,
         flairId: updates.flairId ?? editingPost.flairId,
+        // A different flair drops the text written for the old one
+        flairText: (updates.flairId ?? editingPost.flairId) === editingPost.flairId ? editingPost.flairText : undefined,
         titleSuffix: updates.titleSuffix ?? editingPost.titleSuffix,
         customTitle: updates.customTitle ?? editingPost.customTitle ?? editingPost.originalItem.customTitle,
         kind: editingPost.originalItem.kind,
@@ -429,6 +483,12 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
         text: effectiveBody,
         file: editingPost.originalItem.file,
         files: editingPost.originalItem.files,
+        nsfw: editingPost.originalItem.nsfw,
+        spoiler: editingPost.originalItem.spoiler,
+        sendReplies: editingPost.originalItem.sendReplies,
+        originalContent: editingPost.originalItem.originalContent,
+        galleryItems: editingPost.originalItem.galleryItems,
+        poll: editingPost.originalItem.poll,
       };
 
       const jobId = await retryItem(retryInput, effectiveTitle, editingPost.originalPrefixes);
@@ -459,6 +519,7 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
       const retryInputs: RetryItemInput[] = postsToRetry.map(post => ({
         subreddit: post.subreddit,
         flairId: post.flairId,
+        flairText: post.flairText,
         titleSuffix: post.titleSuffix,
         customTitle: post.customTitle ?? post.originalItem.customTitle,
         kind: post.originalItem.kind,
@@ -466,6 +527,12 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
         text: post.customBody ?? post.originalItem.text,
         file: post.originalItem.file,
         files: post.originalItem.files,
+        nsfw: post.originalItem.nsfw,
+        spoiler: post.originalItem.spoiler,
+        sendReplies: post.originalItem.sendReplies,
+        originalContent: post.originalItem.originalContent,
+        galleryItems: post.originalItem.galleryItems,
+        poll: post.originalItem.poll,
       }));
 
       const titles = postsToRetry.map(post => post.customTitle ?? post.originalCaption);
@@ -520,6 +587,7 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
       const retryInputs: RetryItemInput[] = retryablePosts.map(post => ({
         subreddit: post.subreddit,
         flairId: post.flairId,
+        flairText: post.flairText,
         titleSuffix: post.titleSuffix,
         customTitle: post.customTitle ?? post.originalItem.customTitle,
         kind: post.originalItem.kind,
@@ -527,6 +595,12 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
         text: post.customBody ?? post.originalItem.text,
         file: post.originalItem.file,
         files: post.originalItem.files,
+        nsfw: post.originalItem.nsfw,
+        spoiler: post.originalItem.spoiler,
+        sendReplies: post.originalItem.sendReplies,
+        originalContent: post.originalItem.originalContent,
+        galleryItems: post.originalItem.galleryItems,
+        poll: post.originalItem.poll,
       }));
 
       const titles = retryablePosts.map(post => post.customTitle ?? post.originalCaption);
@@ -575,27 +649,13 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
   }, [failedPostsHook]);
 
   // Convert queue job state to log entries for the progress list
-  const logs: LogEntry[] = state.items.map((item, index) => {
-    const result = state.results.find(r => r.index === index);
-
-    let status: LogEntry['status'] = 'queued';
-    if (result) {
-      status = result.status === 'success' ? 'success' : 'error';
-    } else if (index === state.currentIndex && state.isProcessing) {
-      status = state.waitingSeconds ? 'waiting' : 'posting';
-    }
-
-    return {
-      index,
-      status,
-      subreddit: item.subreddit,
-      url: result?.url,
-      error: result?.error,
-    };
-  });
+  const logs: LogEntry[] = buildLogEntries(state);
 
   // Derive state flags
-  const running = state.isSubmitting || state.isProcessing || state.status === 'processing';
+  // A submitted job counts as running until it ends, even before a runner claims it
+  const running = state.isSubmitting || state.isProcessing || state.status === 'processing'
+    || (state.status === 'pending' && !!state.jobId && !state.error);
+  const paused = state.status === 'paused';
   const completed = state.status === 'completed';
   const cancelled = state.status === 'cancelled';
   const failed = state.status === 'failed';
@@ -618,20 +678,24 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
     const isTerminal = completed || cancelled || failed;
     const wasProcessing = prevStatusRef.current === 'processing';
     
-    if (isTerminal && wasProcessing && state.results.length > 0 && onResultsAvailable) {
+    if (isTerminal && wasProcessing && !state.dryRun && state.results.length > 0 && onResultsAvailable) {
       // Map results to the expected format
-      const resultsWithSubreddit = state.results.map(r => ({
-        index: r.index,
-        status: r.status,
-        subreddit: state.items[r.index]?.subreddit || '',
-        error: r.error,
-        url: r.url,
-      }));
+      // Job items may have been reordered or removed after submit, so match by subreddit
+      const resultsWithSubreddit = state.results.map(r => {
+        const subreddit = state.items[r.index]?.subreddit || '';
+        return {
+          index: items.findIndex(item => item.subreddit === subreddit),
+          status: r.status,
+          subreddit,
+          error: r.error,
+          url: r.url,
+        };
+      });
       onResultsAvailable(resultsWithSubreddit, items);
     }
     
     prevStatusRef.current = state.status;
-  }, [state.status, state.results, state.items, completed, cancelled, failed, onResultsAvailable, items]);
+  }, [state.status, state.dryRun, state.results, state.items, completed, cancelled, failed, onResultsAvailable, items]);
 
   // Build error object with proper typing
   // Detect limit errors to filter them out from display
@@ -651,6 +715,9 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
       batchIndex: undefined,
     } : null;
 
+  // Next planned post time of a drip-paced job
+  const nextPlannedAt = state.items[state.currentIndex]?.notBefore ?? null;
+
   // Current wait for progress display
   const currentWait = state.waitingSeconds ? {
     index: state.currentIndex,
@@ -680,6 +747,10 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
     }
   };
 
+  const handleEditItem = useCallback((edit: QueueItemEdit) => {
+    void editItems(edit);
+  }, [editItems]);
+
   const handleResetJobState = useCallback(() => {
     reset();
     failedPostsHook.clearAll();
@@ -704,8 +775,85 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
         items,
         caption,
         prefixes,
+      }, { crosspost });
+    }
+  };
+
+  const handleSchedule: ScheduleActionHandler = async (schedule, pacing, repeat) => {
+    if (running) return;
+    if (onPostAttempt) {
+      try {
+        const canProceed = onPostAttempt();
+        if (!canProceed) {
+          return;
+        }
+      } catch {
+        return; // Abort on error
+      }
+    }
+    const jobId = await submit({
+      items,
+      caption,
+      prefixes,
+    }, {
+      schedule: schedule ?? undefined,
+      pacing,
+      repeat,
+      crosspost,
+      toastTitle: schedule ? 'Scheduling Failed' : 'Drip Posting Failed',
+    });
+    if (!jobId) return;
+
+    // The dispatcher creates each run - free the composer for the next post
+    if (schedule && repeat) {
+      reset();
+      toast.success({
+        title: 'Recurring post saved',
+        description: `${describeRepeatRule(repeat)} (${schedule.timezone}). Manage it on the Recurring page.`,
+      });
+      return;
+    }
+
+    // Drip posting that starts now stays in the progress list with its planned times
+    if (!schedule) {
+      toast.success({
+        title: 'Drip posting started',
+        description: pacing ? `Posting ${describePacing(pacing)}` : undefined,
       });
+      return;
     }
+
+    // The server posts it later - free the composer for the next post
+    reset();
+    await scheduledJobs.refresh();
+    toast.success({
+      title: 'Post scheduled',
+      description: pacing
+        ? `${formatScheduledTime(schedule.scheduledAt, schedule.timezone)}, ${describePacing(pacing)}`
+        : formatScheduledTime(schedule.scheduledAt, schedule.timezone),
+    });
+  };
+
+  const handleDryRun = async () => {
+    if (running) return;
+    if (onPostAttempt) {
+      try {
+        const canProceed = onPostAttempt();
+        if (!canProceed) {
+          return;
+        }
+      } catch {
+        return; // Abort on error
+      }
+    }
+    await submit({
+      items,
+      caption,
+      prefixes,
+    }, {
+      dryRun: true,
+      toastTitle: 'Dry Run Failed',
+    });
   };
 
   const handleCancel = async () => {
@@ -729,7 +877,7 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
       items,
       caption,
       prefixes,
-    });
+    }, { crosspost });
   };
 
   const handleMobileReset = useCallback(() => {
@@ -780,6 +928,18 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
     }
   }, [onPostActionReady, handleButtonClick]);
 
+  useEffect(() => {
+    if (onScheduleActionReady) {
+      onScheduleActionReady(handleSchedule);
+    }
+  }, [onScheduleActionReady, handleSchedule]);
+
+  useEffect(() => {
+    if (onDryRunActionReady) {
+      onDryRunActionReady(handleDryRun);
+    }
+  }, [onDryRunActionReady, handleDryRun]);
+
   useEffect(() => {
     onProcessingChange?.({
       isProcessing: running,
@@ -807,9 +967,30 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
           </div>
           {running && (
             <p className="text-xs sm:text-sm text-muted-foreground">
-              Posting can take a few minutes. Please keep this tab open and wait.
+              {state.runner === 'server'
+                ? 'Posting can take a few minutes. You can close this tab - posting continues on the server.'
+                : 'Posting can take a few minutes. Please keep this tab open and wait.'}
             </p>
           )}
+          {/* Server-run jobs queue up - free the composer for the next post */}
+          {running && state.runner === 'server' && state.jobId && (
+            <div className="flex items-center gap-3 text-xs sm:text-sm">
+              <button
+                type="button"
+                onClick={reset}
+                className="text-primary hover:text-primary/80 transition-colors cursor-pointer"
+              >
+                Queue another post
+              </button>
+              <button
+                type="button"
+                onClick={() => router.push({ pathname: '/jobs', query: { job: state.jobId } })}
+                className="text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+              >
+                View all jobs
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -986,21 +1167,40 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
         </div>
       )}
 
+      {/* Upcoming Scheduled Posts */}
+      <ScheduledJobsPanel
+        jobs={scheduledJobs.jobs}
+        onReschedule={scheduledJobs.reschedule}
+        onCancel={scheduledJobs.cancel}
+      />
+
       {/* Progress Log */}
-      {(running || logs.length > 0) && (
+      {(running || paused || logs.length > 0) && (
         <QueueProgressList
           logs={logs}
           running={running}
-          itemsCount={items.length}
+          itemsCount={state.jobId ? state.items.length : items.length}
           currentWait={currentWait}
           startedAtMs={state.startedAtMs}
           endedAtMs={state.endedAtMs}
+          nextPlannedAt={nextPlannedAt}
+          paused={paused}
+          onPause={state.jobId && !state.isSubmitting ? pause : undefined}
+          onResume={resume}
+          onStop={handleCancel}
+          editableFromIndex={paused ? state.currentIndex : undefined}
+          onEditItem={paused ? handleEditItem : undefined}
           onUnselectSuccess={onUnselectSuccessItems ? handleUnselectSuccess : undefined}
         />
       )}
 
+      {/* Dry Run Report */}
+      {state.dryRun && (completed || failed) && (
+        <DryRunReport results={state.results} onClose={handleResetJobState} />
+      )}
+
       {/* Success Message */}
-      {completed && failedPostsHook.state.posts.length === 0 && (
+      {completed && !state.dryRun && failedPostsHook.state.posts.length === 0 && (
         <div className="rounder-md bg-green-600/20 border border-green-600/30 p-3 text-green-500 hidden lg:block">
           <div className="flex items-center justify-between gap-3">
             <div className="flex items-center gap-2">
@@ -1060,7 +1260,7 @@ const PostingQueue = React.forwardRef<PostingQueueHandle, Props>(({
       )}
 
       {/* Failed Message */}
-      {failed && !error && failedPostsHook.state.posts.length === 0 && (
+      {failed && !error && !state.dryRun && failedPostsHook.state.posts.length === 0 && (
         <div className="rounded-md bg-red-600/20 border border-red-600/30 p-3 text-red-500 hidden lg:block">
           <div className="flex items-center gap-2">
             <XCircle className="h-5 w-5" aria-hidden="true" />
@@ -162,7 +162,7 @@ const ReviewPanel: React.FC<ReviewPanelProps> = ({
                     const titleTag = !isProfile ? titleSuffixes[subredditKey] : undefined;
                     const flairMissing = !isProfile && flairRequired[subredditKey] && !flairValue[subredditKey];
                     const hasCustomContent = !isProfile && contentOverrides?.[subredditKey] && 
-                      (contentOverrides[subredditKey].title || contentOverrides[subredditKey].body);
+                      (contentOverrides[subredditKey].title || contentOverrides[subredditKey].body || contentOverrides[subredditKey].flags || contentOverrides[subredditKey].galleryItems);
 
                     return (
                       <div key={target} className="flex items-center justify-between gap-2 px-3.5 py-2.5 bg-card/50 hover:bg-secondary/20 transition-colors">
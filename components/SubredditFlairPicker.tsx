@@ -30,6 +30,9 @@ interface Props {
   onFlairChange: (v: Record<string, string | undefined>) => void;
   titleSuffixValue: Record<string, string | undefined>;
   onTitleSuffixChange: (v: Record<string, string | undefined>) => void;
+  /** Own flair text per subreddit, for flair templates that allow editing */
+  flairTextValue?: Record<string, string | undefined>;
+  onFlairTextChange?: (v: Record<string, string | undefined>) => void;
   onValidationChange?: (hasErrors: boolean, missingFlairs: string[]) => void;
   showValidationErrors?: boolean;
   /** If false, hide search and temporary subreddits. Default true */
@@ -57,7 +60,7 @@ interface Props {
   /** User data for eligibility checks */
   userData?: RedditUser;
   /** Post kind for eligibility checks - determines if submission type is valid */
-  postKind?: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  postKind?: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   /** Trigger upgrade flow for gated actions */
   onRequestUpgrade?: (context?: { title?: string; message: string }) => void;
   onIssueFieldInteraction?: () => void;
@@ -74,6 +77,8 @@ const SubredditFlairPicker: React.FC<Props> = ({
   onFlairChange,
   titleSuffixValue,
   onTitleSuffixChange,
+  flairTextValue,
+  onFlairTextChange,
   onValidationChange,
   showValidationErrors,
   temporarySelectionEnabled = true,
@@ -230,8 +235,17 @@ const SubredditFlairPicker: React.FC<Props> = ({
   const handleFlairChange = useCallback((sr: string, id: string) => {
     const key = normalizeSubredditKey(sr);
     onFlairChange({ ...flairValue, [key]: id || undefined });
+    // Text written for one flair doesn't carry over to another
+    if (flairTextValue?.[key]) {
+      onFlairTextChange?.({ ...flairTextValue, [key]: undefined });
+    }
     onIssueFieldInteraction?.();
-  }, [flairValue, onFlairChange, onIssueFieldInteraction]);
+  }, [flairValue, onFlairChange, flairTextValue, onFlairTextChange, onIssueFieldInteraction]);
+
+  const handleFlairTextChange = useCallback((sr: string, text: string) => {
+    const key = normalizeSubredditKey(sr);
+    onFlairTextChange?.({ ...flairTextValue, [key]: text || undefined });
+  }, [flairTextValue, onFlairTextChange]);
 
   const handleTitleSuffixChange = useCallback((sr: string, suffix: string) => {
     const key = normalizeSubredditKey(sr);
@@ -597,9 +611,11 @@ const SubredditFlairPicker: React.FC<Props> = ({
                       postRequirements={postRequirements[key]}
                       titleSuffix={titleSuffixValue[key]}
                       flairValue={flairValue[key]}
+                      flairText={flairTextValue?.[key]}
                       onToggle={handleToggle}
                       onFlairChange={handleFlairChange}
                       onTitleSuffixChange={handleTitleSuffixChange}
+                      onFlairTextChange={onFlairTextChange && handleFlairTextChange}
                       failedPost={failedPost}
                       onRetryPost={onRetryPost}
                       onEditPost={onEditPost}
@@ -652,9 +668,11 @@ const SubredditFlairPicker: React.FC<Props> = ({
                 postRequirements={postRequirements[key]}
                 titleSuffix={titleSuffixValue[key]}
                 flairValue={flairValue[key]}
+                flairText={flairTextValue?.[key]}
                 onToggle={handleToggle}
                 onFlairChange={handleFlairChange}
                 onTitleSuffixChange={handleTitleSuffixChange}
+                onFlairTextChange={onFlairTextChange && handleFlairTextChange}
                 failedPost={failedPost}
                 onRetryPost={onRetryPost}
                 onEditPost={onEditPost}
@@ -687,6 +705,7 @@ const SubredditFlairPicker: React.FC<Props> = ({
           flairRequired={flairRequired}
           flairValue={flairValue}
           titleSuffixValue={titleSuffixValue}
+          flairTextValue={flairTextValue}
           subredditRules={subredditRules}
           postRequirements={postRequirements}
           eligibilityData={eligibilityData}
@@ -712,6 +731,7 @@ const SubredditFlairPicker: React.FC<Props> = ({
           onSelectAllInCategory={handleSelectAllInCategory}
           onFlairChange={handleFlairChange}
           onTitleSuffixChange={handleTitleSuffixChange}
+          onFlairTextChange={onFlairTextChange && handleFlairTextChange}
           hasMissingFlair={hasMissingFlair}
         />
       )}
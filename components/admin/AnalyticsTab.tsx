@@ -6,6 +6,7 @@ import {
   RecentPostsTable,
 } from '@/components/analytics';
 import { TopPostersLeaderboard } from './TopPostersLeaderboard';
+import type { QueuePostState } from '@/lib/queueJob';
 
 const PostsChart = dynamic(() => import('@/components/analytics/PostsChart'), { ssr: false });
 const SubredditChart = dynamic(() => import('@/components/analytics/SubredditChart'), { ssr: false });
@@ -46,6 +47,9 @@ interface AnalyticsData {
     redditUrl: string | null;
     createdAt: string;
     username: string | null;
+    postState: QueuePostState | null;
+    removedByCategory: string | null;
+    removalReason: string | null;
   }>;
   totalUsers: number;
   topPosters: TopPoster[];
@@ -0,0 +1,78 @@
+/**
+ * DateRangeFilter Component
+ *
+ * Picks the days analytics cover: quick presets or a custom from/to.
+ * Presets and dates beyond the plan's history are not offered.
+ */
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { getRecentRange, type AnalyticsRange } from '@/lib/userAnalytics';
+
+interface DateRangeFilterProps {
+  range: AnalyticsRange;
+  /** Days of history the plan allows */
+  historyDays: number;
+  onChange: (range: AnalyticsRange) => void;
+  className?: string;
+}
+
+const PRESET_DAYS = [7, 30, 90, 365];
+
+const formatPreset = (days: number): string => (days === 365 ? '1 year' : `${days} days`);
+
+const DateRangeFilter: React.FC<DateRangeFilterProps> = ({ range, historyDays, onChange, className }) => {
+  const limits = getRecentRange(historyDays);
+
+  return (
+    <div className={cn('flex flex-wrap items-end gap-2', className)}>
+      <div className="flex flex-wrap gap-1" role="group" aria-label="Date range presets">
+        {PRESET_DAYS.filter(days => days <= historyDays).map(days => {
+          const preset = getRecentRange(days);
+          const active = preset.from === range.from && preset.to === range.to;
+          return (
+            <Button
+              key={days}
+              type="button"
+              variant={active ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => onChange(preset)}
+              className="min-h-[36px] cursor-pointer"
+              aria-pressed={active}
+            >
+              {formatPreset(days)}
+            </Button>
+          );
+        })}
+      </div>
+      <div className="flex items-end gap-2 ml-auto">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>From</span>
+          <Input
+            type="date"
+            value={range.from}
+            min={limits.from}
+            max={range.to}
+            onChange={event => event.target.value && onChange({ ...range, from: event.target.value })}
+            className="h-9 w-auto"
+          />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>To</span>
+          <Input
+            type="date"
+            value={range.to}
+            min={range.from}
+            max={limits.to}
+            onChange={event => event.target.value && onChange({ ...range, to: event.target.value })}
+            className="h-9 w-auto"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default DateRangeFilter;
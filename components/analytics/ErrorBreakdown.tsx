@@ -0,0 +1,45 @@
+/**
+ * ErrorBreakdown Component
+ *
+ * Why posts failed: failed posts grouped by error code, most common first,
+ * with each code's share of all failures.
+ */
+
+import React from 'react';
+import { XCircle } from 'lucide-react';
+import type { ErrorCodeCount } from '@/lib/userAnalytics';
+
+interface ErrorBreakdownProps {
+  data: ErrorCodeCount[];
+  className?: string;
+}
+
+const ErrorBreakdown: React.FC<ErrorBreakdownProps> = ({ data, className = '' }) => (
+  <div className={`rounded-xl border border-border/50 bg-card p-5 ${className}`}>
+    <h3 className="text-sm font-medium text-muted-foreground mb-4">
+      Failures by Reason
+    </h3>
+    {data.length === 0 ? (
+      <p className="text-sm text-muted-foreground">No failed posts in this range</p>
+    ) : (
+      <ul className="space-y-3">
+        {data.map(item => (
+          <li key={item.code} className="space-y-1">
+            <div className="flex items-center gap-2 text-sm">
+              <XCircle className="h-4 w-4 text-red-500 shrink-0" aria-hidden="true" />
+              <span className="flex-1 truncate">{item.label}</span>
+              <span className="tabular-nums text-muted-foreground">
+                {item.count} ({item.share}%)
+              </span>
+            </div>
+            <div className="h-1.5 rounded-full bg-muted overflow-hidden" aria-hidden="true">
+              <div className="h-full rounded-full bg-red-500/70" style={{ width: `${item.share}%` }} />
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default ErrorBreakdown;
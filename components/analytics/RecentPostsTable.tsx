@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import { ExternalLink, CheckCircle2, XCircle, Image, Link2, FileText, Film, Images, ChevronUp, ChevronDown } from 'lucide-react';
+import { ExternalLink, CheckCircle2, XCircle, ShieldAlert, Image, Link2, FileText, Film, Images, BarChart3, ChevronUp, ChevronDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import type { QueuePostState } from '@/lib/queueJob';
+import { describePostRemoval, isRemovedAfterPosting } from '@/lib/postCheck';
 
 interface RecentPost {
   id: string;
@@ -11,6 +13,10 @@ interface RecentPost {
   redditUrl: string | null;
   createdAt: string;
   username: string | null;
+  /** State at the last check after posting (null until checked) */
+  postState: QueuePostState | null;
+  removedByCategory: string | null;
+  removalReason: string | null;
 }
 
 interface RecentPostsTableProps {
@@ -64,6 +70,8 @@ const RecentPostsTable: React.FC<RecentPostsTableProps> = ({ data, className = '
         return <Film className="w-4 h-4" />;
       case 'gallery':
         return <Images className="w-4 h-4" />;
+      case 'poll':
+        return <BarChart3 className="w-4 h-4" />;
       default:
         return <FileText className="w-4 h-4" />;
     }
@@ -232,7 +240,21 @@ const RecentPostsTable: React.FC<RecentPostsTableProps> = ({ data, className = '
                     </div>
                   </td>
                   <td className="px-5 py-3">
-                    {post.status === 'success' ? (
+                    {post.status === 'success' && post.postState && isRemovedAfterPosting({ state: post.postState }) ? (
+                      <div className="flex items-center gap-1.5 text-amber-500">
+                        <ShieldAlert className="w-4 h-4" />
+                        <span
+                          className="text-xs font-medium"
+                          title={describePostRemoval({
+                            state: post.postState,
+                            removedByCategory: post.removedByCategory ?? undefined,
+                            removalReason: post.removalReason ?? undefined,
+                          }) ?? undefined}
+                        >
+                          Removed after posting
+                        </span>
+                      </div>
+                    ) : post.status === 'success' ? (
                       <div className="flex items-center gap-1.5 text-emerald-500">
                         <CheckCircle2 className="w-4 h-4" />
                         <span className="text-xs font-medium">Success</span>
@@ -0,0 +1,49 @@
+/**
+ * Sparkline Component
+ *
+ * Tiny score-over-time line of one post from its metrics snapshots, with
+ * the latest score next to it.
+ */
+
+import React from 'react';
+import type { PostMetricsSnapshot } from '@/lib/postMetrics';
+import { getSparklinePoints } from '@/lib/postMetrics';
+import { cn } from '@/lib/utils';
+
+interface SparklineProps {
+  snapshots: PostMetricsSnapshot[];
+  /** Posting time, where the line starts */
+  postedAt?: string;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+const Sparkline: React.FC<SparklineProps> = ({ snapshots, postedAt, width = 48, height = 14, className }) => {
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest) return null;
+
+  const points = getSparklinePoints(snapshots, width, height, postedAt);
+  const trend = snapshots.length > 1 ? latest.score - snapshots[0].score : 0;
+  const title = `Score ${latest.score} · ${latest.comments} comment${latest.comments === 1 ? '' : 's'} · ${Math.round(latest.upvoteRatio * 100)}% upvoted`;
+
+  return (
+    <span className={cn('inline-flex items-center gap-1 text-xs tabular-nums text-muted-foreground', className)} title={title}>
+      {points && (
+        <svg width={width} height={height} viewBox={`-1 -1 ${width + 2} ${height + 2}`} aria-hidden="true">
+          <polyline
+            points={points}
+            fill="none"
+            strokeWidth={1.5}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+            className={trend < 0 ? 'stroke-red-400' : 'stroke-green-500'}
+          />
+        </svg>
+      )}
+      <span>{latest.score}</span>
+    </span>
+  );
+};
+
+export default Sparkline;
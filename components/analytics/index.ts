@@ -2,4 +2,7 @@ export { default as StatsCard } from './StatsCard';
 export { default as PostsChart } from './PostsChart';
 export { default as SubredditChart } from './SubredditChart';
 export { default as RecentPostsTable } from './RecentPostsTable';
-export { AdminUsers } from './AdminUsers';
\ No newline at end of file
+export { default as Sparkline } from './Sparkline';
+export { AdminUsers } from './AdminUsers';
+export { default as ErrorBreakdown } from './ErrorBreakdown';
+export { default as DateRangeFilter } from './DateRangeFilter';
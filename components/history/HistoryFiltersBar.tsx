@@ -0,0 +1,140 @@
+/**
+ * HistoryFiltersBar Component
+ *
+ * Search and filters of the history page: caption text, subreddit, what
+ * became of the post, post kind and a date range. Text fields apply on
+ * submit, the rest right away.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import {
+  HISTORY_KIND_LABELS,
+  HISTORY_POST_KINDS,
+  HISTORY_POST_STATUSES,
+  HISTORY_STATUS_LABELS,
+  type HistoryFilters,
+  type HistoryPostStatus,
+} from '@/lib/postHistory';
+import type { QueueJobItem } from '@/lib/queueJob';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface HistoryFiltersBarProps {
+  filters: HistoryFilters;
+  onChange: (filters: HistoryFilters) => void;
+}
+
+const STATUS_OPTIONS = [
+  { value: '', label: 'Any status' },
+  ...HISTORY_POST_STATUSES.map(status => ({ value: status, label: HISTORY_STATUS_LABELS[status] })),
+];
+
+const KIND_OPTIONS = [
+  { value: '', label: 'Any kind' },
+  ...HISTORY_POST_KINDS.map(kind => ({ value: kind, label: HISTORY_KIND_LABELS[kind] })),
+];
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const HistoryFiltersBar: React.FC<HistoryFiltersBarProps> = ({ filters, onChange }) => {
+  const [q, setQ] = useState(filters.q ?? '');
+  const [subreddit, setSubreddit] = useState(filters.subreddit ?? '');
+
+  useEffect(() => {
+    setQ(filters.q ?? '');
+    setSubreddit(filters.subreddit ?? '');
+  }, [filters.q, filters.subreddit]);
+
+  const update = (changes: Partial<HistoryFilters>) => {
+    const next: HistoryFilters = { ...filters, ...changes };
+    for (const key of Object.keys(next) as (keyof HistoryFilters)[]) {
+      if (!next[key]) delete next[key];
+    }
+    onChange(next);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    update({ q: q.trim(), subreddit: subreddit.trim().replace(/^r\//i, '') });
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2" role="search">
+      <div className="flex gap-2">
+        <Input
+          value={q}
+          onChange={event => setQ(event.target.value)}
+          placeholder="Search titles"
+          aria-label="Search titles"
+          className="h-9"
+        />
+        <Input
+          value={subreddit}
+          onChange={event => setSubreddit(event.target.value)}
+          placeholder="Subreddit"
+          aria-label="Subreddit"
+          className="h-9 w-36 shrink-0"
+        />
+        <Button type="submit" size="sm" variant="secondary" className="min-h-[36px] cursor-pointer" aria-label="Search">
+          <Search className="h-4 w-4" aria-hidden="true" />
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <NativeSelect
+          options={STATUS_OPTIONS}
+          value={filters.status ?? ''}
+          onValueChange={value => update({ status: (value || undefined) as HistoryPostStatus | undefined })}
+          ariaLabel="Status"
+          className="w-36"
+        />
+        <NativeSelect
+          options={KIND_OPTIONS}
+          value={filters.kind ?? ''}
+          onValueChange={value => update({ kind: (value || undefined) as QueueJobItem['kind'] | undefined })}
+          ariaLabel="Kind"
+          className="w-32"
+        />
+        <Input
+          type="date"
+          value={filters.from ?? ''}
+          max={filters.to}
+          onChange={event => update({ from: event.target.value })}
+          aria-label="From"
+          className="h-9 w-auto"
+        />
+        <Input
+          type="date"
+          value={filters.to ?? ''}
+          min={filters.from}
+          onChange={event => update({ to: event.target.value })}
+          aria-label="To"
+          className="h-9 w-auto"
+        />
+        {hasFilters && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({})}
+            className="min-h-[36px] cursor-pointer"
+          >
+            <X className="h-4 w-4 mr-1" aria-hidden="true" />
+            Clear
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default HistoryFiltersBar;
@@ -0,0 +1,187 @@
+/**
+ * HistoryList Component
+ *
+ * Past jobs of the user with what became of each post: a link to it on
+ * Reddit, whether it was removed since, and its latest score. Each job
+ * can be posted again, and its posts changed all at once.
+ */
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { ExternalLink, FlaskConical, History, Loader2, RotateCcw, Wrench } from 'lucide-react';
+import type { QueueJobStatus } from '@/lib/queueJob';
+import { formatPlannedTime } from '@/lib/pacing';
+import { describePostRemoval } from '@/lib/postCheck';
+import {
+  HISTORY_KIND_LABELS,
+  HISTORY_STATUS_LABELS,
+  type HistoryEntry,
+  type HistoryPost,
+} from '@/lib/postHistory';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface HistoryListProps {
+  entries: HistoryEntry[];
+  /** Whether any filter is set, for the empty state */
+  filtered: boolean;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+  onPostAgain: (entry: HistoryEntry) => void;
+  /** Open the bulk actions of a job's posts */
+  onManagePosts: (jobId: string) => void;
+}
+
+const STATUS_BADGES: Partial<Record<QueueJobStatus, { label: string; variant: BadgeProps['variant'] }>> = {
+  completed: { label: 'Done', variant: 'success' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  cancelled: { label: 'Cancelled', variant: 'outline' },
+};
+
+const POST_STATUS_CLASSES: Record<HistoryPost['status'], string> = {
+  success: 'text-green-500',
+  error: 'text-red-500',
+  skipped: 'text-muted-foreground',
+  not_posted: 'text-muted-foreground',
+};
+
+const formatSubreddit = (subreddit: string): string =>
+  subreddit.startsWith('u_') ? `u/${subreddit.substring(2)}` : `r/${subreddit}`;
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const HistoryList: React.FC<HistoryListProps> = ({
+  entries,
+  filtered,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  onPostAgain,
+  onManagePosts,
+}) => {
+  if (entries.length === 0) {
+    return (
+      <div className="rounded-md border border-border bg-card/50 px-4 py-10 text-center">
+        <History className="h-6 w-6 mx-auto mb-2 text-muted-foreground" aria-hidden="true" />
+        <p className="text-sm text-muted-foreground">
+          {filtered ? 'No posts match these filters.' : 'No finished posts yet.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="rounded-md border border-border bg-card/50">
+        {entries.map(entry => {
+          const badge = STATUS_BADGES[entry.status];
+          const hiddenCount = entry.subreddits.length - entry.posts.length;
+          const canManagePosts = !entry.dryRun && entry.posts.some(post => post.status === 'success');
+
+          return (
+            <li key={entry.jobId} className="px-3 py-2.5 border-b border-border/50 last:border-b-0">
+              <div className="flex items-center gap-2 min-w-0">
+                {badge && <Badge variant={badge.variant} className="shrink-0">{badge.label}</Badge>}
+                <p className="flex-1 text-sm font-medium truncate">{entry.caption || 'Untitled post'}</p>
+                {entry.dryRun && (
+                  <FlaskConical
+                    className="h-3.5 w-3.5 shrink-0 text-muted-foreground"
+                    aria-label="Dry run - nothing was posted"
+                  />
+                )}
+                {canManagePosts && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onManagePosts(entry.jobId)}
+                    className="h-8 px-2 shrink-0 cursor-pointer"
+                    aria-label="Change posts"
+                    title="Edit, delete, mark or re-flair every copy"
+                  >
+                    <Wrench className="h-3.5 w-3.5 sm:mr-1.5" />
+                    <span className="hidden sm:inline">Manage</span>
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onPostAgain(entry)}
+                  className="h-8 px-2 shrink-0 cursor-pointer"
+                  aria-label="Post again"
+                  title="Post again"
+                >
+                  <RotateCcw className="h-3.5 w-3.5 sm:mr-1.5" />
+                  <span className="hidden sm:inline">Post again</span>
+                </Button>
+              </div>
+              <p className="mt-0.5 text-xs text-muted-foreground">
+                {formatPlannedTime(entry.createdAt)}
+                {hiddenCount > 0 && ` · ${hiddenCount} more not matching the filters`}
+              </p>
+
+              <ul className="mt-2 space-y-1">
+                {entry.posts.map(post => {
+                  const removal = post.postState && describePostRemoval({ state: post.postState });
+
+                  return (
+                    <li key={post.index} className="flex items-center gap-2 text-xs min-w-0">
+                      <span className="font-medium truncate">{formatSubreddit(post.subreddit)}</span>
+                      <span className="text-muted-foreground shrink-0">{HISTORY_KIND_LABELS[post.kind]}</span>
+                      <span className={`shrink-0 ${POST_STATUS_CLASSES[post.status]}`}>
+                        {HISTORY_STATUS_LABELS[post.status]}
+                      </span>
+                      {removal && <span className="text-red-400 truncate">{removal}</span>}
+                      {post.error && (
+                        <span className="text-red-400 truncate" title={post.error}>{post.error}</span>
+                      )}
+                      {post.score !== undefined && (
+                        <span className="text-muted-foreground tabular-nums shrink-0">
+                          score {post.score} · {post.comments ?? 0} comment{post.comments === 1 ? '' : 's'}
+                        </span>
+                      )}
+                      {post.url && (
+                        <a
+                          href={post.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="ml-auto inline-flex items-center gap-1 shrink-0 text-primary hover:underline"
+                        >
+                          View
+                          <ExternalLink className="h-3 w-3" aria-hidden="true" />
+                          <span className="sr-only">{formatSubreddit(post.subreddit)} post on Reddit</span>
+                        </a>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </li>
+          );
+        })}
+      </ul>
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            className="min-h-[36px] cursor-pointer"
+          >
+            {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />}
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryList;
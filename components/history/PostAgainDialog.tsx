@@ -0,0 +1,105 @@
+/**
+ * PostAgainDialog Component
+ *
+ * Picks which communities of a past post to post to again before the
+ * composer is filled with it. More can be added in the composer.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { HistoryEntry } from '@/lib/postHistory';
+
+interface PostAgainDialogProps {
+  /** Entry to post again (null when closed) */
+  entry: HistoryEntry | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (subreddits: string[]) => Promise<void>;
+}
+
+const formatSubreddit = (subreddit: string): string =>
+  subreddit.startsWith('u_') ? `u/${subreddit.substring(2)}` : `r/${subreddit}`;
+
+const PostAgainDialog: React.FC<PostAgainDialogProps> = ({ entry, onOpenChange, onConfirm }) => {
+  const subreddits = useMemo(() => entry?.subreddits ?? [], [entry]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setSelected(subreddits);
+  }, [subreddits]);
+
+  const toggle = (subreddit: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, subreddit] : prev.filter(s => s !== subreddit));
+  };
+
+  const handleConfirm = async () => {
+    setLoading(true);
+    try {
+      await onConfirm(subreddits.filter(s => selected.includes(s)));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RotateCcw className="h-4 w-4" aria-hidden="true" />
+            Post again
+          </DialogTitle>
+          <DialogDescription>
+            The composer is filled with this post: title, text, flairs and per-community changes. Media has to be
+            attached again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {entry && (
+          <div className="space-y-3 py-2">
+            <p className="text-sm font-medium truncate">{entry.caption || 'Untitled post'}</p>
+            <ul className="max-h-64 overflow-y-auto space-y-2">
+              {subreddits.map(subreddit => (
+                <li key={subreddit}>
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selected.includes(subreddit)}
+                      onCheckedChange={checked => toggle(subreddit, checked === true)}
+                    />
+                    {formatSubreddit(subreddit)}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} className="cursor-pointer">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => void handleConfirm()}
+            disabled={loading || selected.length === 0}
+            className="cursor-pointer"
+          >
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />}
+            Open in composer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PostAgainDialog;
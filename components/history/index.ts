@@ -0,0 +1,3 @@
+export { default as HistoryFiltersBar } from './HistoryFiltersBar';
+export { default as HistoryList } from './HistoryList';
+export { default as PostAgainDialog } from './PostAgainDialog';
@@ -0,0 +1,125 @@
+/**
+ * JobLiveLog Component
+ *
+ * Live progress of one queue job on the jobs dashboard. Watches the job
+ * through Realtime without driving it, and offers the same pause, resume,
+ * stop and item controls as the posting screen, plus the job's event timeline.
+ */
+
+import React, { useCallback, useEffect } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useQueueJob } from '@/hooks/useQueueJob';
+import { useJobMetrics } from '@/hooks/usePostMetrics';
+import type { QueueItemEdit } from '@/lib/queueJob';
+import { QueueProgressList, buildLogEntries } from '@/components/posting-queue';
+import JobTimeline from './JobTimeline';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface JobLiveLogProps {
+  jobId: string;
+  onClose: () => void;
+  /** Called after the job was changed from here (to refresh the list) */
+  onJobChanged?: () => void;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const JobLiveLog: React.FC<JobLiveLogProps> = ({ jobId, onClose, onJobChanged }) => {
+  const { state, resumeJob, pause, resume, cancel, editItems, reset } = useQueueJob();
+
+  useEffect(() => {
+    reset();
+    void resumeJob(jobId, { watchOnly: true });
+  }, [jobId, resumeJob, reset]);
+
+  const handleAction = useCallback(async (action: () => Promise<boolean>) => {
+    if (await action()) {
+      onJobChanged?.();
+    }
+  }, [onJobChanged]);
+
+  const handleEditItem = useCallback((edit: QueueItemEdit) => {
+    void handleAction(() => editItems(edit));
+  }, [handleAction, editItems]);
+
+  const paused = state.status === 'paused';
+  const running = state.status === 'pending' || state.status === 'processing';
+  const isLoaded = state.jobId === jobId;
+
+  // Score and comments of the posted items (dry runs post nothing)
+  const metrics = useJobMetrics(isLoaded && !state.dryRun ? jobId : null);
+  const logs = buildLogEntries(state).map(entry => ({
+    ...entry,
+    metrics: metrics.posts.find(post => post.resultIndex === entry.index),
+  }));
+  const summary = metrics.summary?.sampled ? metrics.summary : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold">Live log</h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="h-7 w-7 p-0 cursor-pointer"
+          aria-label="Close live log"
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {!isLoaded && !state.error && (
+        <div className="rounded-md border border-border py-6 text-center">
+          <Loader2 className="w-5 h-5 mx-auto animate-spin text-primary" aria-label="Loading" />
+        </div>
+      )}
+
+      {state.error && (
+        <p className="rounded-md border border-red-600/30 bg-red-600/10 px-3 py-2 text-xs text-red-400" role="alert">
+          {state.error}
+        </p>
+      )}
+
+      {summary && (
+        <p className="text-xs text-muted-foreground tabular-nums">
+          Score {summary.totalScore} in total · median {summary.medianScore}
+          {' · '}{summary.totalComments} comment{summary.totalComments === 1 ? '' : 's'}
+          {summary.averageUpvoteRatio !== null && ` · ${Math.round(summary.averageUpvoteRatio * 100)}% upvoted`}
+          {summary.sampled < summary.posts && ` · ${summary.sampled} of ${summary.posts} posts sampled`}
+        </p>
+      )}
+
+      {isLoaded && (
+        <QueueProgressList
+          logs={logs}
+          running={running}
+          itemsCount={state.items.length}
+          currentWait={null}
+          startedAtMs={state.startedAtMs}
+          endedAtMs={state.endedAtMs}
+          nextPlannedAt={state.items[state.currentIndex]?.notBefore ?? null}
+          paused={paused}
+          onPause={running ? () => void handleAction(pause) : undefined}
+          onResume={() => void handleAction(resume)}
+          onStop={() => void handleAction(cancel)}
+          editableFromIndex={paused ? state.currentIndex : undefined}
+          onEditItem={paused ? handleEditItem : undefined}
+        />
+      )}
+
+      <JobTimeline
+        jobId={jobId}
+        active={!isLoaded || !['completed', 'failed', 'cancelled'].includes(state.status ?? '')}
+      />
+    </div>
+  );
+};
+
+export default JobLiveLog;
@@ -0,0 +1,145 @@
+/**
+ * JobTimeline Component
+ *
+ * Server-side event timeline of one queue job: when it was claimed and by
+ * which runner, each post's start, media upload and Reddit response, waits,
+ * retries and user actions.
+ */
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import type { QueueJobEvent, QueueJobEventType } from '@/lib/queueJob';
+import { useJobTimeline } from '@/hooks/useJobTimeline';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const EVENT_LABELS: Record<QueueJobEventType, string> = {
+  created: 'Queued',
+  claimed: 'Claimed',
+  released: 'Released',
+  item_started: 'Posting',
+  media_uploaded: 'Media uploaded',
+  reddit_response: 'Reddit response',
+  item_skipped: 'Skipped',
+  item_interrupted: 'Interrupted',
+  item_checked: 'Checked',
+  waiting: 'Waiting',
+  retry_scheduled: 'Retry scheduled',
+  paused: 'Paused',
+  resumed: 'Resumed',
+  rescheduled: 'Rescheduled',
+  items_edited: 'Posts edited',
+  post_action: 'Posts changed',
+  cancelled: 'Stopped',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+/** Events shown in red */
+const isErrorEvent = (event: QueueJobEvent): boolean =>
+  event.type === 'failed' ||
+  event.type === 'item_interrupted' ||
+  ((event.type === 'reddit_response' || event.type === 'item_checked' || event.type === 'post_action') &&
+    typeof event.data?.error === 'string');
+
+const formatEventTime = (iso: string): string =>
+  new Intl.DateTimeFormat(undefined, { timeStyle: 'medium' }).format(new Date(iso));
+
+const formatSubreddit = (subreddit: string): string =>
+  subreddit.startsWith('u_') ? `u/${subreddit.substring(2)}` : `r/${subreddit}`;
+
+/** Extra detail for events whose message doesn't say it all */
+const getEventDetail = (event: QueueJobEvent): string | null => {
+  const data = event.data ?? {};
+  switch (event.type) {
+    case 'waiting':
+    case 'retry_scheduled': {
+      const until = (data.until ?? data.retryAt) as string | undefined;
+      return until ? `until ${formatEventTime(until)}` : null;
+    }
+    case 'reddit_response':
+      return typeof data.url === 'string' ? data.url : null;
+    default:
+      return null;
+  }
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+interface JobTimelineProps {
+  jobId: string;
+  /** Whether the job can still change (keeps the timeline refreshing) */
+  active: boolean;
+}
+
+const JobTimeline: React.FC<JobTimelineProps> = ({ jobId, active }) => {
+  const [open, setOpen] = useState(false);
+  const { events, isLoading, error } = useJobTimeline(open ? jobId : null, active);
+
+  return (
+    <div className="rounded-md border border-border">
+      <button
+        type="button"
+        onClick={() => setOpen(o => !o)}
+        className="w-full px-3 py-2 flex items-center justify-between text-xs font-medium cursor-pointer"
+        aria-expanded={open}
+      >
+        Timeline
+        {open ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+      </button>
+
+      {open && (
+        <div className="border-t border-border max-h-72 overflow-y-auto">
+          {isLoading && (
+            <div className="py-4 text-center">
+              <Loader2 className="w-4 h-4 mx-auto animate-spin text-primary" aria-label="Loading" />
+            </div>
+          )}
+
+          {error && (
+            <p className="px-3 py-2 text-xs text-red-400" role="alert">{error}</p>
+          )}
+
+          {!isLoading && !error && events.length === 0 && (
+            <p className="px-3 py-2 text-xs text-muted-foreground">No events recorded yet.</p>
+          )}
+
+          <ol>
+            {events.map(event => {
+              const detail = getEventDetail(event);
+              return (
+                <li
+                  key={event.id}
+                  className="px-3 py-1.5 flex items-baseline gap-2 text-xs border-b border-border/50 last:border-b-0"
+                >
+                  <time dateTime={event.created_at} className="shrink-0 tabular-nums text-muted-foreground">
+                    {formatEventTime(event.created_at)}
+                  </time>
+                  <span className={`shrink-0 font-medium ${isErrorEvent(event) ? 'text-red-400' : ''}`}>
+                    {EVENT_LABELS[event.type] ?? event.type}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate text-muted-foreground" title={event.message ?? undefined}>
+                    {event.subreddit && `${formatSubreddit(event.subreddit)} `}
+                    {event.message}
+                    {detail && ` ${detail}`}
+                  </span>
+                  {event.worker_id && (
+                    <span className="shrink-0 font-mono text-[10px] text-muted-foreground/70" title="Runner">
+                      {event.worker_id}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobTimeline;
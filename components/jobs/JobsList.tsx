@@ -0,0 +1,217 @@
+/**
+ * JobsList Component
+ *
+ * Every queue job of the user with its status, progress and results,
+ * plus actions to open a job's live log or cancel it.
+ */
+
+import React, { useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import ConfirmDialog from '@/components/ui/confirm-dialog';
+import { FlaskConical, GitFork, ListChecks, Repeat, ScrollText, Wrench, X } from 'lucide-react';
+import type { QueueJob, QueueJobStatus } from '@/lib/queueJob';
+import { formatScheduledTime } from '@/lib/scheduling';
+import { describePacing, formatPlannedTime } from '@/lib/pacing';
+import { isRemovedAfterPosting } from '@/lib/postCheck';
+import { countJobsAhead } from '@/lib/queueOrder';
+import type { PostMetricsAggregate } from '@/lib/postMetrics';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface JobsListProps {
+  jobs: QueueJob[];
+  /** Job whose live log is open */
+  selectedJobId?: string | null;
+  onOpenLog: (jobId: string) => void;
+  onCancel: (jobId: string) => Promise<boolean>;
+  /** Open the bulk actions of a finished job's posts */
+  onManagePosts?: (jobId: string) => void;
+  /** Score and comments of each job's posts, by job ID */
+  metricsByJob?: Record<string, PostMetricsAggregate>;
+}
+
+const STATUS_BADGES: Record<QueueJobStatus, { label: string; variant: BadgeProps['variant'] }> = {
+  scheduled: { label: 'Scheduled', variant: 'outline' },
+  pending: { label: 'Queued', variant: 'secondary' },
+  processing: { label: 'Posting', variant: 'default' },
+  paused: { label: 'Paused', variant: 'warning' },
+  completed: { label: 'Done', variant: 'success' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  cancelled: { label: 'Cancelled', variant: 'outline' },
+};
+
+const ACTIVE_STATUSES: QueueJobStatus[] = ['scheduled', 'pending', 'processing', 'paused'];
+
+const describeTiming = (job: QueueJob, jobsAhead: number): string => {
+  if (job.status === 'scheduled' && job.scheduled_at) {
+    return formatScheduledTime(job.scheduled_at, job.timezone);
+  }
+  if (jobsAhead > 0) {
+    return `Waiting for ${jobsAhead} other ${jobsAhead === 1 ? 'post' : 'posts'}`;
+  }
+  if (!job.pacing && job.next_item_at && Date.parse(job.next_item_at) > Date.now()) {
+    return `Retrying ${formatPlannedTime(job.next_item_at)}`;
+  }
+  if (job.status === 'paused' && job.paused_at) {
+    return `Paused ${formatPlannedTime(job.paused_at)}`;
+  }
+  if (job.completed_at) {
+    return `Finished ${formatPlannedTime(job.completed_at)}`;
+  }
+  return `Created ${formatPlannedTime(job.created_at)}`;
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const JobsList: React.FC<JobsListProps> = ({
+  jobs,
+  selectedJobId = null,
+  onOpenLog,
+  onCancel,
+  onManagePosts,
+  metricsByJob = {},
+}) => {
+  const [cancellingJob, setCancellingJob] = useState<QueueJob | null>(null);
+
+  const handleConfirmCancel = useCallback(async () => {
+    if (!cancellingJob) return;
+    const jobId = cancellingJob.id;
+    setCancellingJob(null);
+    await onCancel(jobId);
+  }, [cancellingJob, onCancel]);
+
+  if (jobs.length === 0) {
+    return (
+      <div className="rounded-md border border-border bg-card/50 px-4 py-10 text-center">
+        <ListChecks className="h-6 w-6 mx-auto mb-2 text-muted-foreground" aria-hidden="true" />
+        <p className="text-sm text-muted-foreground">No posts yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border border-border bg-card/50">
+      <ul>
+        {jobs.map(job => {
+          const badge = STATUS_BADGES[job.status];
+          const successCount = job.results.filter(r => r.status === 'success').length;
+          const errorCount = job.results.filter(r => r.status === 'error').length;
+          const removedCount = job.results.filter(r => isRemovedAfterPosting(r.postCheck)).length;
+          const isActive = ACTIVE_STATUSES.includes(job.status);
+          const jobsAhead = job.status === 'pending' ? countJobsAhead(job, jobs) : 0;
+          const metrics = metricsByJob[job.id];
+          const canManagePosts = !!onManagePosts && !isActive && !job.dry_run && successCount > 0;
+
+          return (
+            <li
+              key={job.id}
+              className={`flex items-center gap-3 px-3 py-2.5 border-b border-border/50 last:border-b-0 transition-colors ${
+                job.id === selectedJobId ? 'bg-secondary/60' : 'hover:bg-secondary/40'
+              }`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant={badge.variant} className="shrink-0">{badge.label}</Badge>
+                  <p className="text-sm font-medium truncate">{job.caption || 'Untitled post'}</p>
+                  {job.recurring_job_id && (
+                    <Repeat
+                      className="h-3.5 w-3.5 shrink-0 text-muted-foreground"
+                      aria-label="Run of a recurring post"
+                    />
+                  )}
+                  {job.dry_run && (
+                    <FlaskConical
+                      className="h-3.5 w-3.5 shrink-0 text-muted-foreground"
+                      aria-label="Dry run - nothing is posted"
+                    />
+                  )}
+                  {job.crosspost && (
+                    <GitFork
+                      className="h-3.5 w-3.5 shrink-0 text-muted-foreground"
+                      aria-label="Posted once, crossposted to the rest"
+                    />
+                  )}
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground truncate">
+                  {describeTiming(job, jobsAhead)}
+                  {' · '}
+                  <span className="tabular-nums">{job.current_index}/{job.items.length}</span> {job.dry_run ? 'checked' : 'posted'}
+                  {job.pacing && ` · ${describePacing(job.pacing)}`}
+                </p>
+                {job.results.length > 0 && (
+                  <p className="mt-0.5 text-xs">
+                    <span className="text-green-500">{successCount} {job.dry_run ? 'would post' : 'succeeded'}</span>
+                    {errorCount > 0 && <span className="text-red-500"> · {errorCount} {job.dry_run ? 'would fail' : 'failed'}</span>}
+                    {removedCount > 0 && <span className="text-red-400"> · {removedCount} removed after posting</span>}
+                    {metrics && metrics.sampled > 0 && (
+                      <span className="text-muted-foreground tabular-nums">
+                        {' · '}score {metrics.totalScore} · {metrics.totalComments} comment{metrics.totalComments === 1 ? '' : 's'}
+                      </span>
+                    )}
+                  </p>
+                )}
+                {job.error && (
+                  <p className="mt-0.5 text-xs text-red-400 truncate" title={job.error}>{job.error}</p>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onOpenLog(job.id)}
+                className="h-8 px-2 cursor-pointer"
+                aria-label="Open live log"
+                title="Live log"
+              >
+                <ScrollText className="h-3.5 w-3.5 sm:mr-1.5" />
+                <span className="hidden sm:inline">Log</span>
+              </Button>
+              {canManagePosts && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onManagePosts?.(job.id)}
+                  className="h-8 px-2 cursor-pointer"
+                  aria-label="Change posts"
+                  title="Edit, delete, mark or re-flair every copy"
+                >
+                  <Wrench className="h-3.5 w-3.5 sm:mr-1.5" />
+                  <span className="hidden sm:inline">Manage</span>
+                </Button>
+              )}
+              {isActive && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCancellingJob(job)}
+                  className="h-8 w-8 p-0 cursor-pointer hover:bg-red-500/20 hover:text-red-500"
+                  aria-label="Cancel post"
+                  title="Cancel"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <ConfirmDialog
+        isOpen={!!cancellingJob}
+        title="Cancel this post?"
+        message="Communities that were not posted to yet are skipped and the uploaded media is deleted."
+        confirmLabel="Cancel post"
+        cancelLabel="Keep"
+        variant="destructive"
+        onConfirm={handleConfirmCancel}
+        onCancel={() => setCancellingJob(null)}
+      />
+    </div>
+  );
+};
+
+export default JobsList;
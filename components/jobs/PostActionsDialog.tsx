@@ -0,0 +1,393 @@
+/**
+ * PostActionsDialog Component
+ *
+ * Changes every posted copy of a job at once: edit the text, delete, mark
+ * NSFW or spoiler, or change the flair. The affected communities are
+ * listed for confirmation first, and each copy shows how it went.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import useSWR from 'swr';
+import { AlertTriangle, CheckCircle2, ExternalLink, Loader2, MinusCircle, Wrench, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { NativeSelect } from '@/components/ui/native-select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { usePostActions } from '@/hooks/usePostActions';
+import {
+  getPostActionSkipReason,
+  POST_ACTION_CONSTANTS,
+  POST_ACTION_LABELS,
+  POST_ACTION_TYPES,
+  type PostAction,
+  type PostActionFlair,
+  type PostActionResult,
+  type PostActionType,
+} from '@/lib/postActions';
+import { normalizeSubredditKey } from '@/lib/subredditKey';
+import type { FlairOption } from '../../utils/reddit';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PostActionsDialogProps {
+  /** Job whose posts to change (null when closed) */
+  jobId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ACTION_OPTIONS = POST_ACTION_TYPES.map(type => ({ value: type, label: POST_ACTION_LABELS[type] }));
+
+const TAG_OPTIONS = [
+  { value: 'true', label: 'Mark' },
+  { value: 'false', label: 'Unmark' },
+];
+
+const formatSubreddit = (subreddit: string): string =>
+  subreddit.startsWith('u_') ? `u/${subreddit.substring(2)}` : `r/${subreddit}`;
+
+/** The confirmation question, e.g. "Delete 3 posts?" */
+const describeAction = (action: PostAction, count: number): string => {
+  const posts = `${count} ${count === 1 ? 'post' : 'posts'}`;
+  switch (action.action) {
+    case 'edit':
+      return `Replace the text of ${posts}?`;
+    case 'delete':
+      return `Delete ${posts}?`;
+    case 'nsfw':
+    case 'spoiler':
+      return `${action.value ? 'Mark' : 'Unmark'} ${posts} as ${POST_ACTION_LABELS[action.action]}?`;
+    case 'flair':
+      return `Change the flair of ${posts}?`;
+  }
+};
+
+const RESULT_ICONS: Record<PostActionResult['status'], React.ReactNode> = {
+  success: <CheckCircle2 className="h-3.5 w-3.5 shrink-0 text-green-500" aria-label="Done" />,
+  error: <XCircle className="h-3.5 w-3.5 shrink-0 text-red-500" aria-label="Failed" />,
+  skipped: <MinusCircle className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-label="Skipped" />,
+};
+
+// ============================================================================
+// Flair Field
+// ============================================================================
+
+interface FlairFieldProps {
+  subreddit: string;
+  value: PostActionFlair | undefined;
+  onChange: (value: PostActionFlair | undefined) => void;
+}
+
+/** Flair picker for one community, from its current flair templates */
+const FlairField: React.FC<FlairFieldProps> = ({ subreddit, value, onChange }) => {
+  const { data, isLoading } = useSWR<{ flairs: FlairOption[] }>(
+    `/api/flairs?subreddit=${encodeURIComponent(subreddit)}`
+  );
+  const flairs = data?.flairs ?? [];
+  const selected = flairs.find(flair => flair.id === value?.flairId);
+
+  const options = [
+    { value: '', label: isLoading ? 'Loading flairs…' : flairs.length > 0 ? 'Keep flair' : 'No flairs' },
+    ...flairs.map(flair => ({ value: flair.id, label: flair.text || '(no text)' })),
+  ];
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-32 shrink-0 truncate text-sm">{formatSubreddit(subreddit)}</span>
+      <NativeSelect
+        options={options}
+        value={value?.flairId ?? ''}
+        onValueChange={flairId => onChange(flairId ? { flairId } : undefined)}
+        ariaLabel={`Flair for ${formatSubreddit(subreddit)}`}
+        className="flex-1 min-w-0"
+        disabled={flairs.length === 0}
+      />
+      {selected?.text_editable && (
+        <Input
+          value={value?.flairText ?? ''}
+          onChange={event => onChange({ flairId: selected.id, flairText: event.target.value })}
+          placeholder={selected.text || 'Flair text'}
+          aria-label={`Flair text for ${formatSubreddit(subreddit)}`}
+          className="h-9 w-32"
+        />
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const PostActionsDialog: React.FC<PostActionsDialogProps> = ({ jobId, onOpenChange }) => {
+  const { job, targets, isLoading, error, apply } = usePostActions(jobId);
+  const [type, setType] = useState<PostActionType>('edit');
+  const [text, setText] = useState('');
+  const [tagValue, setTagValue] = useState(true);
+  const [flairs, setFlairs] = useState<Record<string, PostActionFlair>>({});
+  const [deselected, setDeselected] = useState<number[]>([]);
+  const [confirming, setConfirming] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<PostActionResult[] | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Start over for each job, with the text of its first text post
+  useEffect(() => {
+    setType('edit');
+    setTagValue(true);
+    setFlairs({});
+    setDeselected([]);
+    setConfirming(false);
+    setResults(null);
+    setActionError(null);
+  }, [jobId]);
+
+  const firstText = job?.items.find(item => item.kind === 'self')?.text ?? '';
+  useEffect(() => {
+    setText(firstText);
+  }, [firstText]);
+
+  const action = useMemo((): PostAction => {
+    switch (type) {
+      case 'edit':
+        return { action: 'edit', text };
+      case 'nsfw':
+      case 'spoiler':
+        return { action: type, value: tagValue };
+      case 'flair':
+        return { action: 'flair', flairs };
+      default:
+        return { action: 'delete' };
+    }
+  }, [type, text, tagValue, flairs]);
+
+  const selected = targets.filter(target => !deselected.includes(target.index));
+  const applicable = selected.filter(target => !getPostActionSkipReason(target, action));
+  const flairSubreddits = Array.from(new Set(
+    selected.filter(target => !target.subreddit.startsWith('u_')).map(target => target.subreddit)
+  ));
+
+  const toggle = (index: number, checked: boolean) => {
+    setDeselected(prev => checked ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
+  const setFlair = (subreddit: string, value: PostActionFlair | undefined) => {
+    setFlairs(prev => {
+      const next = { ...prev };
+      const key = normalizeSubredditKey(subreddit);
+      if (value) next[key] = value;
+      else delete next[key];
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    setRunning(true);
+    setActionError(null);
+    const response = await apply({ ...action, indexes: applicable.map(target => target.index) });
+    setRunning(false);
+    setConfirming(false);
+    if (response.error) {
+      setActionError(response.error);
+      return;
+    }
+    setResults(response.results);
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" aria-hidden="true" />
+        </div>
+      );
+    }
+
+    if (results) {
+      return (
+        <ul className="max-h-80 overflow-y-auto space-y-1.5">
+          {results.map(result => (
+            <li key={result.index} className="flex items-center gap-2 text-sm min-w-0">
+              {RESULT_ICONS[result.status]}
+              <span className="font-medium shrink-0">{formatSubreddit(result.subreddit)}</span>
+              {result.error && (
+                <span className="text-xs text-muted-foreground truncate" title={result.error}>{result.error}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      );
+    }
+
+    if (confirming) {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm font-medium">{describeAction(action, applicable.length)}</p>
+          <ul className="max-h-64 overflow-y-auto rounded-md border border-border px-3 py-2 space-y-1 text-sm">
+            {applicable.map(target => (
+              <li key={target.index}>{formatSubreddit(target.subreddit)}</li>
+            ))}
+          </ul>
+          {action.action === 'delete' && (
+            <p className="flex items-center gap-1.5 text-xs text-red-400">
+              <AlertTriangle className="h-3.5 w-3.5" aria-hidden="true" />
+              Deleted posts can&apos;t be restored.
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    if (targets.length === 0) {
+      return <p className="py-4 text-sm text-muted-foreground">This job has no posts on Reddit to change.</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <NativeSelect
+            options={ACTION_OPTIONS}
+            value={type}
+            onValueChange={value => setType(value as PostActionType)}
+            ariaLabel="Action"
+            className="w-40"
+          />
+          {(type === 'nsfw' || type === 'spoiler') && (
+            <NativeSelect
+              options={TAG_OPTIONS}
+              value={String(tagValue)}
+              onValueChange={value => setTagValue(value === 'true')}
+              ariaLabel="Mark or unmark"
+              className="w-28"
+            />
+          )}
+        </div>
+
+        {type === 'edit' && (
+          <Textarea
+            value={text}
+            onChange={event => setText(event.target.value)}
+            maxLength={POST_ACTION_CONSTANTS.MAX_TEXT_LENGTH}
+            rows={6}
+            aria-label="New text"
+            placeholder="New text of the posts"
+          />
+        )}
+
+        {type === 'flair' && (
+          <div className="space-y-2">
+            {flairSubreddits.map(subreddit => (
+              <FlairField
+                key={subreddit}
+                subreddit={subreddit}
+                value={flairs[normalizeSubredditKey(subreddit)]}
+                onChange={value => setFlair(subreddit, value)}
+              />
+            ))}
+          </div>
+        )}
+
+        <ul className="max-h-56 overflow-y-auto space-y-1.5">
+          {targets.map(target => {
+            const isSelected = !deselected.includes(target.index);
+            const skipReason = isSelected ? getPostActionSkipReason(target, action) : null;
+
+            return (
+              <li key={target.index} className="flex items-center gap-2 text-sm min-w-0">
+                <label className="flex items-center gap-2 min-w-0 cursor-pointer">
+                  <Checkbox
+                    checked={isSelected}
+                    onCheckedChange={checked => toggle(target.index, checked === true)}
+                  />
+                  <span className="truncate">{formatSubreddit(target.subreddit)}</span>
+                </label>
+                {skipReason && <span className="text-xs text-muted-foreground truncate">{skipReason}</span>}
+                {target.url && (
+                  <a
+                    href={target.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="ml-auto shrink-0 text-primary"
+                    aria-label={`${formatSubreddit(target.subreddit)} post on Reddit`}
+                  >
+                    <ExternalLink className="h-3.5 w-3.5" aria-hidden="true" />
+                  </a>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={!!jobId} onOpenChange={open => !running && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wrench className="h-4 w-4" aria-hidden="true" />
+            Change posts
+          </DialogTitle>
+          <DialogDescription className="truncate">
+            {job?.caption || 'Every copy of this post on Reddit'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {(error || actionError) && (
+          <p className="text-sm text-red-400" role="alert">{actionError || error}</p>
+        )}
+
+        {renderBody()}
+
+        <DialogFooter>
+          {results ? (
+            <Button onClick={() => onOpenChange(false)} className="cursor-pointer">
+              Done
+            </Button>
+          ) : confirming ? (
+            <>
+              <Button variant="ghost" onClick={() => setConfirming(false)} disabled={running} className="cursor-pointer">
+                Back
+              </Button>
+              <Button
+                variant={action.action === 'delete' ? 'destructive' : 'default'}
+                onClick={() => void handleConfirm()}
+                disabled={running}
+                className="cursor-pointer"
+              >
+                {running && <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />}
+                {POST_ACTION_LABELS[action.action]}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={() => onOpenChange(false)} className="cursor-pointer">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => setConfirming(true)}
+                disabled={applicable.length === 0}
+                className="cursor-pointer"
+              >
+                Apply to {applicable.length} {applicable.length === 1 ? 'post' : 'posts'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PostActionsDialog;
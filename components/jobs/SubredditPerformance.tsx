@@ -0,0 +1,91 @@
+/**
+ * SubredditPerformance Component
+ *
+ * How the user's posts did per community over the last 30 days: average
+ * and median score, comments and upvote ratio from the latest sample of
+ * each post, best communities first.
+ */
+
+import React, { useState } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { SubredditMetricsAggregate } from '@/lib/postMetrics';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SubredditPerformanceProps {
+  subreddits: SubredditMetricsAggregate[];
+}
+
+const COLLAPSED_ROWS = 5;
+
+const formatSubreddit = (subreddit: string): string =>
+  subreddit.startsWith('u_') ? `u/${subreddit.substring(2)}` : `r/${subreddit}`;
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const SubredditPerformance: React.FC<SubredditPerformanceProps> = ({ subreddits }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const sampled = subreddits.filter(subreddit => subreddit.sampled > 0);
+  if (sampled.length === 0) {
+    return null;
+  }
+
+  const rows = expanded ? sampled : sampled.slice(0, COLLAPSED_ROWS);
+
+  return (
+    <section className="rounded-md border border-border bg-card/50">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border/50">
+        <TrendingUp className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+        <h2 className="text-sm font-semibold flex-1">Communities, last 30 days</h2>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="px-3 py-1.5 text-left font-medium">Community</th>
+              <th className="px-3 py-1.5 text-right font-medium">Posts</th>
+              <th className="px-3 py-1.5 text-right font-medium">Avg score</th>
+              <th className="px-3 py-1.5 text-right font-medium">Median</th>
+              <th className="px-3 py-1.5 text-right font-medium">Avg comments</th>
+              <th className="px-3 py-1.5 text-right font-medium">Upvoted</th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {rows.map(row => (
+              <tr key={row.subreddit} className="border-t border-border/30">
+                <td className="px-3 py-1.5 font-medium truncate max-w-[10rem]">{formatSubreddit(row.subreddit)}</td>
+                <td className="px-3 py-1.5 text-right">{row.posts}</td>
+                <td className="px-3 py-1.5 text-right">{row.averageScore}</td>
+                <td className="px-3 py-1.5 text-right">{row.medianScore}</td>
+                <td className="px-3 py-1.5 text-right">{row.averageComments}</td>
+                <td className="px-3 py-1.5 text-right">
+                  {row.averageUpvoteRatio === null ? '—' : `${Math.round(row.averageUpvoteRatio * 100)}%`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {sampled.length > COLLAPSED_ROWS && (
+        <div className="px-3 py-1.5 border-t border-border/50">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setExpanded(prev => !prev)}
+            className="h-7 px-2 text-xs cursor-pointer"
+          >
+            {expanded ? 'Show fewer' : `Show all ${sampled.length}`}
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default SubredditPerformance;
@@ -0,0 +1,5 @@
+export { default as JobsList } from './JobsList';
+export { default as JobLiveLog } from './JobLiveLog';
+export { default as JobTimeline } from './JobTimeline';
+export { default as SubredditPerformance } from './SubredditPerformance';
+export { default as PostActionsDialog } from './PostActionsDialog';
@@ -4,7 +4,7 @@ import Image from 'next/image';
 import { useRouter } from 'next/router';
 import { Avatar } from '@/components/ui/avatar';
 import { DropdownMenu, DropdownMenuItem, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
-import { ChevronDown, User, Settings, LogOut, Shield, Infinity, ArrowLeft, HelpCircle } from 'lucide-react';
+import { ChevronDown, User, Settings, LogOut, Shield, Infinity, ArrowLeft, HelpCircle, ListChecks, Repeat, BarChart3, History } from 'lucide-react';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -130,6 +130,22 @@ const AppHeader: React.FC<AppHeaderProps> = ({
     router.push('/settings');
   };
 
+  const handleJobs = () => {
+    router.push('/jobs');
+  };
+
+  const handleRecurring = () => {
+    router.push('/recurring');
+  };
+
+  const handleAnalytics = () => {
+    router.push('/analytics');
+  };
+
+  const handleHistory = () => {
+    router.push('/history');
+  };
+
   const handleHelp = () => {
     router.push('/help');
   };
@@ -331,6 +347,22 @@ const AppHeader: React.FC<AppHeaderProps> = ({
                 <Settings className="h-4 w-4 mr-2" aria-hidden="true" />
                 Settings
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleJobs}>
+                <ListChecks className="h-4 w-4 mr-2" aria-hidden="true" />
+                Jobs
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleHistory}>
+                <History className="h-4 w-4 mr-2" aria-hidden="true" />
+                History
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleRecurring}>
+                <Repeat className="h-4 w-4 mr-2" aria-hidden="true" />
+                Recurring
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleAnalytics}>
+                <BarChart3 className="h-4 w-4 mr-2" aria-hidden="true" />
+                Analytics
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={handleHelp}>
                 <HelpCircle className="h-4 w-4 mr-2" aria-hidden="true" />
                 Help & Feedback
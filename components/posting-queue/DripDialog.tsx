@@ -0,0 +1,117 @@
+/**
+ * DripDialog Component
+ *
+ * Starts posting now but spreads the communities out over time
+ * (drip pacing). The server posts each one at its planned time.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Droplets, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import type { QueueJobPacing } from '@/lib/queueJob';
+import { describePacing, formatPlannedTime, getPacingSpanMs, parsePacingInput } from '@/lib/pacing';
+import PacingFields from './PacingFields';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface DripDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Number of communities the post goes to */
+  itemCount: number;
+  onConfirm: (pacing: QueueJobPacing) => void | Promise<void>;
+  isSubmitting?: boolean;
+}
+
+const DEFAULT_PACING: QueueJobPacing = { mode: 'random', minMinutes: 10, maxMinutes: 30 };
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const DripDialog: React.FC<DripDialogProps> = ({
+  open,
+  onOpenChange,
+  itemCount,
+  onConfirm,
+  isSubmitting = false,
+}) => {
+  const [pacing, setPacing] = useState<QueueJobPacing | null>(DEFAULT_PACING);
+
+  useEffect(() => {
+    if (open) {
+      setPacing(DEFAULT_PACING);
+    }
+  }, [open]);
+
+  const error = pacing
+    ? parsePacingInput(pacing, itemCount).error ?? null
+    : 'Pick a pacing';
+
+  const lastPostAt = pacing && !error
+    ? new Date(Date.now() + getPacingSpanMs(pacing, itemCount)).toISOString()
+    : null;
+
+  const handleConfirm = async () => {
+    if (!pacing || error) return;
+    await onConfirm(pacing);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Droplets className="h-4 w-4" aria-hidden="true" />
+            Drip post
+          </DialogTitle>
+          <DialogDescription>
+            Posts to {itemCount} {itemCount === 1 ? 'community' : 'communities'} one at a time,
+            starting now. You can close this tab.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <PacingFields value={pacing} onChange={setPacing} />
+
+          {error ? (
+            <p className="text-xs text-red-400" role="alert">{error}</p>
+          ) : (
+            pacing && lastPostAt && (
+              <p className="text-xs text-muted-foreground">
+                First post now, then {describePacing(pacing)}. Last post by {formatPlannedTime(lastPostAt)}.
+              </p>
+            )
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="cursor-pointer">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!!error || isSubmitting}
+            className="cursor-pointer"
+            aria-label="Start drip posting"
+          >
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Start
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DripDialog;
@@ -0,0 +1,167 @@
+/**
+ * DryRunReport Component
+ *
+ * Shows the outcome of a dry run: for each community, the exact title,
+ * post kind, flair, flags and body that would have been sent, plus anything
+ * that would have stopped or weakened the post.
+ */
+
+import React from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, Info, RotateCcw, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatFileSize } from '@/lib/queueLimits';
+import { POST_FLAG_KEYS, POST_FLAG_LABELS } from '@/lib/postFlags';
+import type { QueueJobResult } from '@/lib/queueJob';
+import type { ValidationIssue } from '@/lib/preflightValidation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface DryRunReportProps {
+  results: QueueJobResult[];
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<NonNullable<QueueJobResult['dryRun']>['kind'], string> = {
+  self: 'Text',
+  link: 'Link',
+  image: 'Image',
+  video: 'Video',
+  gallery: 'Gallery',
+  poll: 'Poll',
+};
+
+const ISSUE_STYLES: Record<ValidationIssue['severity'], { text: string; icon: React.ReactNode }> = {
+  error: { text: 'text-red-400', icon: <AlertCircle className="h-3.5 w-3.5 shrink-0 text-red-500" /> },
+  warning: { text: 'text-yellow-400', icon: <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-yellow-500" /> },
+  info: { text: 'text-blue-400', icon: <Info className="h-3.5 w-3.5 shrink-0 text-blue-500" /> },
+};
+
+// ============================================================================
+// Sub-Components
+// ============================================================================
+
+const ReportField: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex gap-2 text-xs">
+    <span className="w-12 shrink-0 text-muted-foreground">{label}</span>
+    <span className="flex-1 min-w-0 break-words">{children}</span>
+  </div>
+);
+
+const ReportRow: React.FC<{ result: QueueJobResult }> = ({ result }) => {
+  const report = result.dryRun;
+  const ok = result.status === 'success';
+
+  return (
+    <li className="rounded-md border border-border bg-card/50 px-3 py-2 space-y-1.5">
+      <div className="flex items-center gap-2 text-sm">
+        {ok
+          ? <CheckCircle className="h-4 w-4 shrink-0 text-green-500" aria-hidden="true" />
+          : <XCircle className="h-4 w-4 shrink-0 text-red-500" aria-hidden="true" />}
+        <span className="font-medium">r/{result.subreddit}</span>
+        <span className="text-xs text-muted-foreground">{ok ? 'Would post' : 'Would fail'}</span>
+      </div>
+
+      {report ? (
+        <div className="space-y-1">
+          <ReportField label="Title">{report.title}</ReportField>
+          <ReportField label="Kind">{KIND_LABELS[report.kind]}</ReportField>
+          {report.flairId && (
+            <ReportField label="Flair">{report.flairText ?? report.flairId}</ReportField>
+          )}
+          <ReportField label="Flags">
+            {POST_FLAG_KEYS.filter(key => report.flags[key]).map(key => POST_FLAG_LABELS[key]).join(', ') || 'None'}
+          </ReportField>
+          {report.url && <ReportField label="Link">{report.url}</ReportField>}
+          {report.poll && (
+            <ReportField label="Poll">
+              {report.poll.options.join(' / ')} ({report.poll.durationDays} day{report.poll.durationDays === 1 ? '' : 's'})
+            </ReportField>
+          )}
+          {report.text && (
+            <ReportField label="Body">
+              <span className="whitespace-pre-wrap line-clamp-4">{report.text}</span>
+            </ReportField>
+          )}
+          {report.files.length > 0 && (
+            <ReportField label="Media">
+              {report.galleryItems ? (
+                <ol className="space-y-0.5">
+                  {report.files.map((file, index) => {
+                    const details = report.galleryItems?.[index];
+                    return (
+                      <li key={`${file.name}-${index}`}>
+                        {file.name} ({formatFileSize(file.size)})
+                        {details?.caption && <span className="text-muted-foreground"> · {details.caption}</span>}
+                        {details?.outboundUrl && <span className="text-muted-foreground"> · {details.outboundUrl}</span>}
+                      </li>
+                    );
+                  })}
+                </ol>
+              ) : (
+                report.files.map(file => `${file.name} (${formatFileSize(file.size)})`).join(', ')
+              )}
+            </ReportField>
+          )}
+          {report.issues.length > 0 && (
+            <ul className="pt-1 space-y-1">
+              {report.issues.map((issue, index) => (
+                <li
+                  key={`${issue.code}-${index}`}
+                  className={`flex items-start gap-1.5 text-xs ${ISSUE_STYLES[issue.severity].text}`}
+                >
+                  {ISSUE_STYLES[issue.severity].icon}
+                  <span>{issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        result.error && <p className="text-xs text-red-400 break-words">{result.error}</p>
+      )}
+    </li>
+  );
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const DryRunReport: React.FC<DryRunReportProps> = ({ results, onClose }) => {
+  const sorted = [...results].sort((a, b) => a.index - b.index);
+  const failing = sorted.filter(r => r.status === 'error').length;
+
+  return (
+    <div className="space-y-2" aria-label="Dry run report">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h4 className="text-sm font-semibold">Dry run - nothing was posted</h4>
+          <p className="text-xs text-muted-foreground">
+            {failing === 0
+              ? `All ${sorted.length} posts would go through`
+              : `${failing} of ${sorted.length} posts would fail`}
+          </p>
+        </div>
+        <Button
+          onClick={onClose}
+          variant="outline"
+          size="sm"
+          className="cursor-pointer shrink-0"
+          aria-label="Close dry run report"
+        >
+          <RotateCcw className="h-4 w-4 mr-1.5" />
+          Done
+        </Button>
+      </div>
+      <ul className="space-y-2">
+        {sorted.map(result => (
+          <ReportRow key={result.index} result={result} />
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DryRunReport;
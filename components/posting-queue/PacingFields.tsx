@@ -0,0 +1,122 @@
+/**
+ * PacingFields Component
+ *
+ * Form fields for a drip pacing policy: fixed interval, random gap,
+ * or spread evenly over a number of hours.
+ */
+
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import type { QueueJobPacing, QueueJobPacingMode } from '@/lib/queueJob';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PacingFieldsProps {
+  /** Current policy, null for "all at once" */
+  value: QueueJobPacing | null;
+  onChange: (pacing: QueueJobPacing | null) => void;
+  /** Offer "all at once" (no pacing) as an option */
+  allowNone?: boolean;
+}
+
+const NONE = 'none';
+
+const DEFAULT_PACING: Record<QueueJobPacingMode, QueueJobPacing> = {
+  fixed: { mode: 'fixed', intervalMinutes: 15 },
+  random: { mode: 'random', minMinutes: 10, maxMinutes: 30 },
+  spread: { mode: 'spread', hours: 6 },
+};
+
+const MODE_OPTIONS = [
+  { value: 'fixed', label: 'Fixed interval' },
+  { value: 'random', label: 'Random gap' },
+  { value: 'spread', label: 'Spread evenly' },
+];
+
+const toNumber = (value: string): number => (value === '' ? 0 : Number(value));
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const PacingFields: React.FC<PacingFieldsProps> = ({ value, onChange, allowNone = false }) => {
+  const options = allowNone
+    ? [{ value: NONE, label: 'All at once' }, ...MODE_OPTIONS]
+    : MODE_OPTIONS;
+
+  const handleModeChange = (mode: string) => {
+    onChange(mode === NONE ? null : DEFAULT_PACING[mode as QueueJobPacingMode]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Pacing</Label>
+        <NativeSelect
+          options={options}
+          value={value?.mode ?? NONE}
+          onValueChange={handleModeChange}
+          ariaLabel="Pacing"
+          className="w-full"
+        />
+      </div>
+
+      {value?.mode === 'fixed' && (
+        <div className="space-y-2">
+          <Label htmlFor="pacing-interval">Minutes between posts</Label>
+          <Input
+            id="pacing-interval"
+            type="number"
+            min={1}
+            value={value.intervalMinutes || ''}
+            onChange={(e) => onChange({ ...value, intervalMinutes: toNumber(e.target.value) })}
+          />
+        </div>
+      )}
+
+      {value?.mode === 'random' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="pacing-min">Min minutes</Label>
+            <Input
+              id="pacing-min"
+              type="number"
+              min={1}
+              value={value.minMinutes || ''}
+              onChange={(e) => onChange({ ...value, minMinutes: toNumber(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pacing-max">Max minutes</Label>
+            <Input
+              id="pacing-max"
+              type="number"
+              min={1}
+              value={value.maxMinutes || ''}
+              onChange={(e) => onChange({ ...value, maxMinutes: toNumber(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {value?.mode === 'spread' && (
+        <div className="space-y-2">
+          <Label htmlFor="pacing-hours">Spread over hours</Label>
+          <Input
+            id="pacing-hours"
+            type="number"
+            min={1}
+            value={value.hours || ''}
+            onChange={(e) => onChange({ ...value, hours: toNumber(e.target.value) })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PacingFields;
@@ -1,14 +1,37 @@
 import React, { useState } from 'react';
 import { Tooltip } from '@/components/ui/tooltip';
-import { Loader2, CheckCircle, AlertCircle, Clock, ExternalLink } from 'lucide-react';
+import {
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+  Clock,
+  ExternalLink,
+  ChevronUp,
+  ChevronDown,
+  SkipForward,
+  Undo2,
+  Trash2,
+} from 'lucide-react';
 import { LogEntry, CurrentWait } from './types';
+import { formatPlannedTime } from '@/lib/pacing';
+import { describePostRemoval, isRemovedAfterPosting } from '@/lib/postCheck';
+import Sparkline from '@/components/analytics/Sparkline';
+
+/** Edits for a post that has not been posted yet (only passed while the job can be edited) */
+export interface QueueLogEntryActions {
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  onToggleSkip: () => void;
+  onRemove?: () => void;
+}
 
 interface QueueLogEntryProps {
   entry: LogEntry;
   currentWait: CurrentWait | null;
+  actions?: QueueLogEntryActions;
 }
 
-const QueueLogEntry: React.FC<QueueLogEntryProps> = ({ entry, currentWait }) => {
+const QueueLogEntry: React.FC<QueueLogEntryProps> = ({ entry, currentWait, actions }) => {
   const [showErrorDetails, setShowErrorDetails] = useState(false);
   // Check if this entry is currently waiting (after success, before next post)
   const isWaitingAfterSuccess = currentWait?.index === entry.index && entry.status === 'success';
@@ -16,6 +39,11 @@ const QueueLogEntry: React.FC<QueueLogEntryProps> = ({ entry, currentWait }) =>
   const isWaitingStatus = entry.status === 'waiting';
   const isWaiting = isWaitingAfterSuccess || isWaitingStatus;
   const isError = entry.status === 'error';
+  const isSkipped = entry.status === 'skipped';
+  const isPlanned = entry.status === 'queued' && !!entry.plannedAt && Date.parse(entry.plannedAt) > Date.now();
+  const isRetrying = entry.status === 'queued' && !!entry.retryAt && Date.parse(entry.retryAt) > Date.now();
+  const retries = entry.attempts ?? 0;
+  const removal = describePostRemoval(entry.postCheck);
 
   const getStatusIcon = () => {
     if (isWaiting) {
@@ -30,33 +58,133 @@ const QueueLogEntry: React.FC<QueueLogEntryProps> = ({ entry, currentWait }) =>
         return <Loader2 className="w-4 h-4 text-blue-500 animate-spin" aria-label="Posting" />;
       case 'waiting':
         return <Loader2 className="w-4 h-4 text-amber-500 animate-spin" aria-label="Waiting" />;
+      case 'skipped':
+        return <SkipForward className="w-4 h-4 text-muted-foreground/50" aria-label="Skipped" />;
       default:
         return <Clock className="w-4 h-4 text-muted-foreground/50" aria-label="Queued" />;
     }
   };
 
-  const getSubredditDisplay = () => {
-    return entry.subreddit?.startsWith('u_') 
-      ? `u/${entry.subreddit.substring(2)}` 
-      : `r/${entry.subreddit}`;
+  const formatSubreddit = (subreddit: string) => {
+    return subreddit?.startsWith('u_') 
+      ? `u/${subreddit.substring(2)}` 
+      : `r/${subreddit}`;
   };
 
+  const getSubredditDisplay = () => formatSubreddit(entry.subreddit);
+
   return (
     <div className="border-b border-border/50 last:border-b-0">
       <div className="px-3 py-2 flex items-center gap-2">
         {getStatusIcon()}
         
-        <span className={`text-sm flex-1 truncate ${isError ? 'text-red-400' : ''}`}>
+        <span className={`text-sm flex-1 truncate ${isError ? 'text-red-400' : ''} ${isSkipped ? 'text-muted-foreground line-through' : ''}`}>
           {getSubredditDisplay()}
         </span>
         
-        {/* Waiting indicator - countdown timer */}
+        {/* Crosspost - link to the original */}
+        {entry.crosspostOf && (
+          <a
+            href={entry.crosspostOf.url || `https://www.reddit.com/comments/${entry.crosspostOf.postId}/`}
+            target="_blank"
+            rel="noreferrer"
+            className="text-xs text-muted-foreground hover:text-foreground hover:underline truncate max-w-[40%]"
+            title="Crossposted from this post"
+          >
+            crosspost of {formatSubreddit(entry.crosspostOf.subreddit)}
+          </a>
+        )}
+        
+        {/* Checked after posting - removed, filtered or deleted since */}
+        {removal && (
+          <span
+            className={`text-xs shrink-0 ${isRemovedAfterPosting(entry.postCheck) ? 'text-red-400' : 'text-muted-foreground'}`}
+            title={removal}
+          >
+            {isRemovedAfterPosting(entry.postCheck) ? 'removed after posting' : 'deleted'}
+          </span>
+        )}
+        
+                {/* Score since posting */}
+        {entry.metrics && entry.metrics.snapshots.length > 0 && (
+          <Sparkline snapshots={entry.metrics.snapshots} postedAt={entry.metrics.postedAt} className="shrink-0" />
+        )}
+        
+                {/* Waiting indicator - countdown timer */}
         {isWaiting && currentWait && (
           <span className="text-xs text-amber-500 tabular-nums">
             next in {currentWait.remaining}s
           </span>
         )}
         
+        {/* Rate-limited by Reddit - automatic retry time */}
+        {isRetrying && entry.retryAt && (
+          <span
+            className="text-xs text-amber-500 tabular-nums"
+            title={`Rate-limited by Reddit ${retries} ${retries === 1 ? 'time' : 'times'} - retrying automatically`}
+          >
+            retry {formatPlannedTime(entry.retryAt)}
+          </span>
+        )}
+        
+        {/* Posted or failed after rate-limited attempts */}
+        {!isRetrying && retries > 0 && (entry.status === 'success' || entry.status === 'error') && (
+          <span className="text-xs text-muted-foreground tabular-nums" title="Rate-limited by Reddit before this attempt">
+            {retries + 1} tries
+          </span>
+        )}
+        
+        {/* Drip pacing - planned post time */}
+        {isPlanned && !isRetrying && entry.plannedAt && (
+          <span className="text-xs text-muted-foreground tabular-nums" title="Planned post time">
+            {formatPlannedTime(entry.plannedAt)}
+          </span>
+        )}
+        
+        {/* Edit controls for posts that have not been posted yet */}
+        {actions && (
+          <div className="flex items-center gap-0.5">
+            <button
+              type="button"
+              onClick={actions.onMoveUp}
+              disabled={!actions.onMoveUp}
+              className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-30 disabled:pointer-events-none transition-colors cursor-pointer"
+              aria-label={`Move ${getSubredditDisplay()} up`}
+            >
+              <ChevronUp className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={actions.onMoveDown}
+              disabled={!actions.onMoveDown}
+              className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-30 disabled:pointer-events-none transition-colors cursor-pointer"
+              aria-label={`Move ${getSubredditDisplay()} down`}
+            >
+              <ChevronDown className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={actions.onToggleSkip}
+              className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors cursor-pointer"
+              title={isSkipped ? 'Post after all' : 'Skip this post'}
+              aria-label={`${isSkipped ? 'Unskip' : 'Skip'} ${getSubredditDisplay()}`}
+            >
+              {isSkipped ? <Undo2 className="h-3.5 w-3.5" /> : <SkipForward className="h-3.5 w-3.5" />}
+            </button>
+            {actions.onRemove && (
+              <button
+                type="button"
+                onClick={actions.onRemove}
+                className="p-1 rounded text-muted-foreground hover:text-red-500 hover:bg-red-500/10 transition-colors cursor-pointer"
+                title="Remove from this job"
+                aria-label={`Remove ${getSubredditDisplay()}`}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        )}
+        
         {/* Error - icon with tooltip */}
         {isError && entry.error && (
           <Tooltip content={entry.error} side="left">
@@ -93,6 +221,11 @@ const QueueLogEntry: React.FC<QueueLogEntryProps> = ({ entry, currentWait }) =>
           {entry.error}
         </div>
       )}
+      {removal && isRemovedAfterPosting(entry.postCheck) && (
+        <div className="px-3 pb-2 text-xs text-red-400/90">
+          {removal}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,7 +1,10 @@
 import React from 'react';
-import { Loader2, RotateCcw } from 'lucide-react';
+import { CalendarClock, Loader2, Pause, Play, RotateCcw, X } from 'lucide-react';
 import { LogEntry, CurrentWait } from './types';
-import QueueLogEntry from './QueueLogEntry';
+import QueueLogEntry, { QueueLogEntryActions } from './QueueLogEntry';
+import { formatPlannedTime } from '@/lib/pacing';
+import { buildMoveEdit } from '@/lib/queueItems';
+import type { QueueItemEdit } from '@/lib/queueJob';
 
 interface QueueProgressListProps {
   logs: LogEntry[];
@@ -10,6 +13,18 @@ interface QueueProgressListProps {
   currentWait: CurrentWait | null;
   startedAtMs: number | null;
   endedAtMs: number | null;
+  /** Next planned post time of a drip-paced job */
+  nextPlannedAt?: string | null;
+  /** Job is paused (kept for resume) */
+  paused?: boolean;
+  onPause?: () => void;
+  onResume?: () => void;
+  /** Discard a paused job */
+  onStop?: () => void;
+  /** Index of the first post that can still be edited; pass with onEditItem while the job is paused */
+  editableFromIndex?: number;
+  /** Skip, remove or reorder a post that has not been posted yet */
+  onEditItem?: (edit: QueueItemEdit) => void;
   onUnselectSuccess?: () => void;
 }
 
@@ -20,16 +35,43 @@ const QueueProgressList: React.FC<QueueProgressListProps> = ({
   currentWait,
   startedAtMs,
   endedAtMs,
+  nextPlannedAt,
+  paused = false,
+  onPause,
+  onResume,
+  onStop,
+  editableFromIndex,
+  onEditItem,
   onUnselectSuccess,
 }) => {
   const successCount = logs.filter(l => l.status === 'success').length;
   const errorCount = logs.filter(l => l.status === 'error').length;
-  const hasTiming = startedAtMs !== null && endedAtMs !== null && endedAtMs >= startedAtMs;
+  // Drip-paced jobs are slow on purpose - skip the time-saved summary
+  const isPaced = logs.some(l => l.plannedAt);
+  const hasTiming = !isPaced && startedAtMs !== null && endedAtMs !== null && endedAtMs >= startedAtMs;
   const elapsedMs = hasTiming ? endedAtMs - startedAtMs : null;
   const manualSecondsPerPost = 45;
   const estimatedManualMs = itemsCount * manualSecondsPerPost * 1000;
   const savedMs = elapsedMs !== null ? Math.max(0, estimatedManualMs - elapsedMs) : null;
 
+  const getEntryActions = (entry: LogEntry): QueueLogEntryActions | undefined => {
+    if (!onEditItem || editableFromIndex === undefined || entry.index < editableFromIndex) {
+      return undefined;
+    }
+    const moveUp = buildMoveEdit(logs.length, editableFromIndex, entry.index, -1);
+    const moveDown = buildMoveEdit(logs.length, editableFromIndex, entry.index, 1);
+    const isLastRemaining = logs.length - editableFromIndex <= 1;
+    return {
+      onMoveUp: moveUp ? () => onEditItem(moveUp) : undefined,
+      onMoveDown: moveDown ? () => onEditItem(moveDown) : undefined,
+      onToggleSkip: () => onEditItem({
+        action: entry.status === 'skipped' ? 'unskip' : 'skip',
+        index: entry.index,
+      }),
+      onRemove: isLastRemaining ? undefined : () => onEditItem({ action: 'remove', index: entry.index }),
+    };
+  };
+
   const formatDuration = (ms: number): string => {
     const totalSeconds = Math.round(ms / 1000);
     const hours = Math.floor(totalSeconds / 3600);
@@ -48,8 +90,42 @@ const QueueProgressList: React.FC<QueueProgressListProps> = ({
     <div className="rounded-md border border-border overflow-hidden">
       <div className="px-3 py-2 border-b border-border bg-secondary">
         <div className="flex items-center justify-between">
-          <span className="text-sm font-medium">{running ? 'Posting' : logs.length > 0 ? 'Results' : 'Progress'}</span>
+          <span className="text-sm font-medium">
+            {running ? 'Posting' : paused ? 'Paused' : logs.length > 0 ? 'Results' : 'Progress'}
+          </span>
           <div className="flex items-center gap-2 text-xs">
+            {running && onPause && (
+              <button
+                onClick={onPause}
+                className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+                title="Pause after the current post"
+                aria-label="Pause posting"
+              >
+                <Pause className="h-3 w-3" />
+                <span>Pause</span>
+              </button>
+            )}
+            {paused && onResume && (
+              <button
+                onClick={onResume}
+                className="flex items-center gap-1 text-primary hover:text-primary/80 transition-colors cursor-pointer"
+                aria-label="Resume posting"
+              >
+                <Play className="h-3 w-3" />
+                <span>Resume</span>
+              </button>
+            )}
+            {paused && onStop && (
+              <button
+                onClick={onStop}
+                className="flex items-center gap-1 text-muted-foreground hover:text-red-500 transition-colors cursor-pointer"
+                title="Stop and discard the remaining posts"
+                aria-label="Stop posting"
+              >
+                <X className="h-3 w-3" />
+                <span>Stop</span>
+              </button>
+            )}
             {/* Unselect success button */}
             {successCount > 0 && onUnselectSuccess && !running && (
               <button
@@ -70,6 +146,12 @@ const QueueProgressList: React.FC<QueueProgressListProps> = ({
             </span>
           </div>
         </div>
+        {running && nextPlannedAt && Date.parse(nextPlannedAt) > Date.now() && (
+          <div className="mt-1 flex items-center gap-1.5 text-[11px] text-muted-foreground">
+            <CalendarClock className="h-3 w-3" aria-hidden="true" />
+            <span>Next post at {formatPlannedTime(nextPlannedAt)}</span>
+          </div>
+        )}
         {hasTiming && elapsedMs !== null && savedMs !== null && (
           <div className="mt-1 flex flex-wrap items-center gap-2 text-[11px] text-muted-foreground">
             <span className="font-medium text-emerald-400">That was blazing fast</span>
@@ -95,6 +177,7 @@ const QueueProgressList: React.FC<QueueProgressListProps> = ({
             key={entry.index}
             entry={entry}
             currentWait={currentWait}
+            actions={getEntryActions(entry)}
           />
         ))}
       </div>
@@ -0,0 +1,142 @@
+/**
+ * RepeatFields Component
+ *
+ * Form fields for a repeat rule: daily, weekly on chosen weekdays, or
+ * monthly on a day of the month. The time comes from the schedule picker
+ * unless `showTime` is set (editing an existing series).
+ */
+
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import type { RepeatFrequency, RepeatRule } from '@/lib/recurringJob';
+import { buildRepeatRule, WEEKDAY_LABELS } from '@/lib/recurrence';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface RepeatFieldsProps {
+  /** Current rule, null for "does not repeat" */
+  value: RepeatRule | null;
+  onChange: (repeat: RepeatRule | null) => void;
+  /** Used to pick the weekday / day of the month when the frequency changes */
+  startAt: Date;
+  timeZone: string;
+  /** Offer "does not repeat" as an option */
+  allowNone?: boolean;
+  /** Show a time field */
+  showTime?: boolean;
+}
+
+const NONE = 'none';
+
+const FREQUENCY_OPTIONS = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'monthly', label: 'Every month' },
+];
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const RepeatFields: React.FC<RepeatFieldsProps> = ({
+  value,
+  onChange,
+  startAt,
+  timeZone,
+  allowNone = false,
+  showTime = false,
+}) => {
+  const options = allowNone
+    ? [{ value: NONE, label: 'Does not repeat' }, ...FREQUENCY_OPTIONS]
+    : FREQUENCY_OPTIONS;
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === NONE) {
+      onChange(null);
+      return;
+    }
+    const rule = buildRepeatRule(frequency as RepeatFrequency, startAt, timeZone);
+    onChange(value ? { ...rule, time: value.time } : rule);
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (value?.frequency !== 'weekly') return;
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter(d => d !== day)
+      : [...value.weekdays, day].sort((a, b) => a - b);
+    onChange({ ...value, weekdays });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Repeat</Label>
+        <NativeSelect
+          options={options}
+          value={value?.frequency ?? NONE}
+          onValueChange={handleFrequencyChange}
+          ariaLabel="Repeat"
+          className="w-full"
+        />
+      </div>
+
+      {value?.frequency === 'weekly' && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <div className="flex flex-wrap gap-1.5">
+            {WEEKDAY_LABELS.map((label, day) => {
+              const selected = value.weekdays.includes(day);
+              return (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  className={`px-2.5 py-1 rounded-md text-xs border cursor-pointer transition-colors ${
+                    selected
+                      ? 'border-primary bg-primary/10 text-foreground'
+                      : 'border-border bg-card hover:bg-secondary text-muted-foreground'
+                  }`}
+                  aria-pressed={selected}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {value?.frequency === 'monthly' && (
+        <div className="space-y-2">
+          <Label htmlFor="repeat-day">Day of the month</Label>
+          <Input
+            id="repeat-day"
+            type="number"
+            min={1}
+            max={31}
+            value={value.dayOfMonth || ''}
+            onChange={(e) => onChange({ ...value, dayOfMonth: Number(e.target.value) })}
+          />
+        </div>
+      )}
+
+      {value && showTime && (
+        <div className="space-y-2">
+          <Label htmlFor="repeat-time">Time</Label>
+          <Input
+            id="repeat-time"
+            type="time"
+            value={value.time}
+            onChange={(e) => onChange({ ...value, time: e.target.value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepeatFields;
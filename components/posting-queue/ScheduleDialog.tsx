@@ -0,0 +1,226 @@
+/**
+ * ScheduleDialog Component
+ *
+ * Picks a date, time and timezone for posting later, and optionally a
+ * drip pacing policy and a repeat rule. Used both for scheduling a new
+ * post and rescheduling an existing one.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CalendarClock, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import type { QueueJobPacing, QueueJobSchedule } from '@/lib/queueJob';
+import { QUEUE_JOB_CONSTANTS } from '@/lib/queueJob';
+import { parsePacingInput } from '@/lib/pacing';
+import type { RepeatRule } from '@/lib/recurringJob';
+import { getFirstOccurrence, parseRepeatInput } from '@/lib/recurrence';
+import {
+  formatScheduledTime,
+  getLocalTimeZone,
+  listTimeZones,
+  utcToZonedInputValue,
+  validateScheduledAt,
+  zonedTimeToUtc,
+} from '@/lib/scheduling';
+import PacingFields from './PacingFields';
+import RepeatFields from './RepeatFields';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Existing schedule to edit (reschedule mode) */
+  initialSchedule?: QueueJobSchedule | null;
+  /** Number of communities, shown in the description */
+  itemCount?: number;
+  /** Offer drip pacing for the scheduled post */
+  showPacing?: boolean;
+  /** Offer repeating the post (saves a recurring job) */
+  showRepeat?: boolean;
+  onConfirm: (
+    schedule: QueueJobSchedule,
+    pacing?: QueueJobPacing,
+    repeat?: RepeatRule
+  ) => void | Promise<void>;
+  isSubmitting?: boolean;
+}
+
+// Default suggestion: one hour from now, rounded to the next quarter hour
+const getDefaultTime = (): Date => {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setMinutes(Math.ceil(date.getMinutes() / 15) * 15, 0, 0);
+  return date;
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const ScheduleDialog: React.FC<ScheduleDialogProps> = ({
+  open,
+  onOpenChange,
+  initialSchedule,
+  itemCount,
+  showPacing = false,
+  showRepeat = false,
+  onConfirm,
+  isSubmitting = false,
+}) => {
+  const [timeZone, setTimeZone] = useState<string>('UTC');
+  const [localValue, setLocalValue] = useState<string>('');
+  const [pacing, setPacing] = useState<QueueJobPacing | null>(null);
+  const [repeat, setRepeat] = useState<RepeatRule | null>(null);
+
+  const timeZoneOptions = useMemo(
+    () => (open ? listTimeZones().map(zone => ({ value: zone, label: zone.replace(/_/g, ' ') })) : []),
+    [open]
+  );
+
+  // Initialize fields when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const zone = initialSchedule?.timezone ?? getLocalTimeZone();
+    const time = initialSchedule ? new Date(initialSchedule.scheduledAt) : getDefaultTime();
+    setTimeZone(zone);
+    setLocalValue(utcToZonedInputValue(time, zone));
+    setPacing(null);
+    setRepeat(null);
+  }, [open, initialSchedule]);
+
+  const { scheduledAt, error } = useMemo(() => {
+    if (!localValue) {
+      return { scheduledAt: null, error: 'Pick a date and time' };
+    }
+    try {
+      const iso = zonedTimeToUtc(localValue, timeZone).toISOString();
+      return { scheduledAt: iso, error: validateScheduledAt(iso) };
+    } catch (err) {
+      return { scheduledAt: null, error: err instanceof Error ? err.message : 'Invalid date' };
+    }
+  }, [localValue, timeZone]);
+
+  const pacingError = pacing ? parsePacingInput(pacing, itemCount ?? 1).error ?? null : null;
+
+  // The rule repeats at the picked time of day; the first post is the
+  // picked time, or the next time the rule fires after it
+  const { repeatRule, firstRunAt, repeatError } = useMemo(() => {
+    if (!repeat || !scheduledAt) {
+      return { repeatRule: null, firstRunAt: null, repeatError: null };
+    }
+    const { repeat: rule, error: ruleError } = parseRepeatInput({ ...repeat, time: localValue.slice(11, 16) });
+    if (!rule) {
+      return { repeatRule: null, firstRunAt: null, repeatError: ruleError ?? 'Invalid repeat rule' };
+    }
+    const first = getFirstOccurrence(rule, timeZone, new Date(scheduledAt)).toISOString();
+    return { repeatRule: rule, firstRunAt: first, repeatError: null };
+  }, [repeat, scheduledAt, localValue, timeZone]);
+
+  const formError = error ?? pacingError ?? repeatError;
+
+  const handleConfirm = async () => {
+    if (!scheduledAt || formError) return;
+    await onConfirm({ scheduledAt, timezone: timeZone }, pacing ?? undefined, repeatRule ?? undefined);
+  };
+
+  const isReschedule = !!initialSchedule;
+  const maxDays = QUEUE_JOB_CONSTANTS.MAX_SCHEDULE_AHEAD_DAYS;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" aria-hidden="true" />
+            {isReschedule ? 'Reschedule post' : 'Schedule post'}
+          </DialogTitle>
+          <DialogDescription>
+            {itemCount
+              ? `Posts to ${itemCount} ${itemCount === 1 ? 'community' : 'communities'} at the chosen time. You can close this tab.`
+              : 'Posts at the chosen time. You can close this tab.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="schedule-datetime">Date and time</Label>
+            <Input
+              id="schedule-datetime"
+              type="datetime-local"
+              value={localValue}
+              onChange={(e) => setLocalValue(e.target.value)}
+              aria-invalid={!!error}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Timezone</Label>
+            <NativeSelect
+              options={timeZoneOptions}
+              value={timeZone}
+              onValueChange={setTimeZone}
+              ariaLabel="Timezone"
+              className="w-full"
+            />
+          </div>
+
+          {showPacing && (
+            <PacingFields value={pacing} onChange={setPacing} allowNone />
+          )}
+
+          {showRepeat && (
+            <RepeatFields
+              value={repeat}
+              onChange={setRepeat}
+              startAt={scheduledAt ? new Date(scheduledAt) : new Date()}
+              timeZone={timeZone}
+              allowNone
+            />
+          )}
+
+          {formError ? (
+            <p className="text-xs text-red-400" role="alert">{formError}</p>
+          ) : firstRunAt ? (
+            <p className="text-xs text-muted-foreground">
+              First post {formatScheduledTime(firstRunAt, timeZone)}. Manage repeating posts on the Recurring page.
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              You can schedule up to {maxDays} days ahead.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="cursor-pointer">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!!formError || isSubmitting}
+            className="cursor-pointer"
+            aria-label={isReschedule ? 'Save new schedule' : 'Schedule post'}
+          >
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isReschedule ? 'Save' : 'Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleDialog;
@@ -0,0 +1,137 @@
+/**
+ * ScheduledJobsPanel Component
+ *
+ * Lists upcoming scheduled posts with reschedule and cancel controls.
+ */
+
+import React, { useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import ConfirmDialog from '@/components/ui/confirm-dialog';
+import { CalendarClock, Pencil, X } from 'lucide-react';
+import type { QueueJob, QueueJobSchedule } from '@/lib/queueJob';
+import { formatScheduledTime } from '@/lib/scheduling';
+import { describePacing } from '@/lib/pacing';
+import ScheduleDialog from './ScheduleDialog';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ScheduledJobsPanelProps {
+  jobs: QueueJob[];
+  onReschedule: (jobId: string, schedule: QueueJobSchedule) => Promise<boolean>;
+  onCancel: (jobId: string) => Promise<boolean>;
+}
+
+const getJobSchedule = (job: QueueJob): QueueJobSchedule | null =>
+  job.scheduled_at
+    ? { scheduledAt: job.scheduled_at, timezone: job.timezone ?? 'UTC' }
+    : null;
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const ScheduledJobsPanel: React.FC<ScheduledJobsPanelProps> = ({
+  jobs,
+  onReschedule,
+  onCancel,
+}) => {
+  const [editingJob, setEditingJob] = useState<QueueJob | null>(null);
+  const [cancellingJob, setCancellingJob] = useState<QueueJob | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleReschedule = useCallback(async (schedule: QueueJobSchedule) => {
+    if (!editingJob) return;
+    setIsSaving(true);
+    const ok = await onReschedule(editingJob.id, schedule);
+    setIsSaving(false);
+    if (ok) {
+      setEditingJob(null);
+    }
+  }, [editingJob, onReschedule]);
+
+  const handleConfirmCancel = useCallback(async () => {
+    if (!cancellingJob) return;
+    const jobId = cancellingJob.id;
+    setCancellingJob(null);
+    await onCancel(jobId);
+  }, [cancellingJob, onCancel]);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-border bg-card/50">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border/50">
+        <CalendarClock className="h-4 w-4 text-primary" aria-hidden="true" />
+        <h4 className="text-sm font-semibold">Scheduled</h4>
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-primary/20 text-primary">
+          {jobs.length}
+        </span>
+      </div>
+
+      <ul>
+        {jobs.map(job => (
+          <li
+            key={job.id}
+            className="flex items-center gap-2 px-3 py-2 border-b border-border/50 last:border-b-0 hover:bg-secondary/40 transition-colors"
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{job.caption || 'Untitled post'}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {job.scheduled_at ? formatScheduledTime(job.scheduled_at, job.timezone) : 'Not scheduled'}
+                {' · '}
+                {job.items.length} {job.items.length === 1 ? 'community' : 'communities'}
+                {job.pacing && ` · ${describePacing(job.pacing)}`}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setEditingJob(job)}
+              className="h-7 w-7 p-0 cursor-pointer hover:bg-amber-500/20 hover:text-amber-500"
+              aria-label="Reschedule post"
+              title="Reschedule"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setCancellingJob(job)}
+              className="h-7 w-7 p-0 cursor-pointer hover:bg-red-500/20 hover:text-red-500"
+              aria-label="Cancel scheduled post"
+              title="Cancel"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      <ScheduleDialog
+        open={!!editingJob}
+        onOpenChange={(open) => {
+          if (!open) setEditingJob(null);
+        }}
+        initialSchedule={editingJob ? getJobSchedule(editingJob) : null}
+        itemCount={editingJob?.items.length}
+        onConfirm={handleReschedule}
+        isSubmitting={isSaving}
+      />
+
+      <ConfirmDialog
+        isOpen={!!cancellingJob}
+        title="Cancel scheduled post?"
+        message="It will not be posted and its uploaded media will be deleted."
+        confirmLabel="Cancel post"
+        cancelLabel="Keep"
+        variant="destructive"
+        onConfirm={handleConfirmCancel}
+        onCancel={() => setCancellingJob(null)}
+      />
+    </div>
+  );
+};
+
+export default ScheduledJobsPanel;
@@ -3,6 +3,13 @@ export { default as QueueProgressList } from './QueueProgressList';
 export { default as FailedPostsPanel } from './FailedPostsPanel';
 export { default as EditFailedPostDialog } from './EditFailedPostDialog';
 export { default as ValidationWarnings } from './ValidationWarnings';
+export { default as ScheduleDialog } from './ScheduleDialog';
+export { default as ScheduledJobsPanel } from './ScheduledJobsPanel';
+export { default as PacingFields } from './PacingFields';
+export { default as RepeatFields } from './RepeatFields';
+export { default as DripDialog } from './DripDialog';
+export { default as DryRunReport } from './DryRunReport';
+export { buildLogEntries } from './logEntries';
 export type { 
   QueueItemData, 
   LogEntry, 
@@ -0,0 +1,41 @@
+/**
+ * Log Entries
+ *
+ * Turns queue job state into the rows shown by QueueProgressList.
+ */
+
+import type { QueueJobState } from '@/hooks/useQueueJob';
+import { LogEntry } from './types';
+
+type LogSource = Pick<QueueJobState, 'items' | 'results' | 'currentIndex' | 'isProcessing' | 'waitingSeconds'>;
+
+/**
+ * One log entry per job item, with its result or current posting state.
+ */
+export function buildLogEntries(state: LogSource): LogEntry[] {
+  return state.items.map((item, index) => {
+    const result = state.results.find(r => r.index === index);
+
+    let status: LogEntry['status'] = 'queued';
+    if (result) {
+      status = result.status;
+    } else if (item.skipped) {
+      status = 'skipped';
+    } else if (index === state.currentIndex && state.isProcessing) {
+      status = state.waitingSeconds ? 'waiting' : 'posting';
+    }
+
+    return {
+      index,
+      status,
+      subreddit: item.subreddit,
+      url: result?.url,
+      error: result?.error,
+      plannedAt: item.notBefore,
+      retryAt: result ? undefined : item.retryAt,
+      attempts: (result?.attempts ?? item.attempts)?.length,
+      crosspostOf: result?.crosspostOf,
+      postCheck: result?.postCheck,
+    };
+  });
+}
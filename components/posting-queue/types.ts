@@ -1,22 +1,40 @@
-export interface QueueItemData {
+import type { GalleryItemDetails, PollDetails, PostFlags, QueueCrosspostParent, QueuePostCheck } from '@/lib/queueJob';
+import type { PostMetricsSeries } from '@/lib/postMetrics';
+
+export interface QueueItemData extends PostFlags {
   subreddit: string;
   flairId?: string;
+  flairText?: string;
   titleSuffix?: string;
   customTitle?: string;
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   url?: string;
   text?: string;
   file?: File;
   files?: File[];
+  galleryItems?: GalleryItemDetails[];
+  poll?: PollDetails;
 }
 
 export interface LogEntry {
   index: number;
-  status: 'queued' | 'posting' | 'success' | 'error' | 'waiting';
+  status: 'queued' | 'posting' | 'success' | 'error' | 'waiting' | 'skipped';
   subreddit: string;
   url?: string;
   error?: string;
   waitingSeconds?: number;
+  /** Planned post time (UTC ISO) for drip-paced jobs */
+  plannedAt?: string;
+  /** Retry time (UTC ISO) of a post Reddit rate-limited */
+  retryAt?: string;
+  /** Earlier rate-limited attempts */
+  attempts?: number;
+  /** Crosspost jobs: the original this post was crossposted from */
+  crosspostOf?: QueueCrosspostParent;
+  /** Latest check of the post after it was posted */
+  postCheck?: QueuePostCheck;
+  /** Score and comment snapshots since it was posted */
+  metrics?: PostMetricsSeries;
 }
 
 export interface CurrentWait {
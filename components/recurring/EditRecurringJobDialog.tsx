@@ -0,0 +1,198 @@
+/**
+ * EditRecurringJobDialog Component
+ *
+ * Edits a recurring post: its title, repeat rule, timezone and the
+ * communities it goes to. Changes apply from the next run on.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, Pencil, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import { RepeatFields } from '@/components/posting-queue';
+import type { RecurringJob, RecurringJobUpdate, RepeatRule } from '@/lib/recurringJob';
+import { parseRepeatInput } from '@/lib/recurrence';
+import { listTimeZones } from '@/lib/scheduling';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface EditRecurringJobDialogProps {
+  /** Series to edit, null when closed */
+  series: RecurringJob | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (changes: RecurringJobUpdate) => Promise<boolean>;
+  /** Stop posting to one community (applied right away) */
+  onRemoveItem: (index: number) => Promise<boolean>;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const EditRecurringJobDialog: React.FC<EditRecurringJobDialogProps> = ({
+  series,
+  onOpenChange,
+  onSave,
+  onRemoveItem,
+}) => {
+  const [caption, setCaption] = useState('');
+  const [repeat, setRepeat] = useState<RepeatRule | null>(null);
+  const [timeZone, setTimeZone] = useState('UTC');
+  const [isSaving, setIsSaving] = useState(false);
+  const [removingIndex, setRemovingIndex] = useState<number | null>(null);
+
+  const open = !!series;
+
+  const timeZoneOptions = useMemo(
+    () => (open ? listTimeZones().map(zone => ({ value: zone, label: zone.replace(/_/g, ' ') })) : []),
+    [open]
+  );
+
+  // Initialize fields when a series is opened (not when it refreshes after removing a community)
+  const seriesId = series?.id;
+  useEffect(() => {
+    if (!series) return;
+    setCaption(series.caption);
+    setRepeat(series.repeat);
+    setTimeZone(series.timezone);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [seriesId]);
+
+  const error = repeat ? parseRepeatInput(repeat).error ?? null : 'Pick how often to post';
+
+  const handleSave = async () => {
+    if (!series || !repeat || error) return;
+
+    const changes: RecurringJobUpdate = {};
+    if (caption !== series.caption) changes.caption = caption;
+    if (JSON.stringify(repeat) !== JSON.stringify(series.repeat)) changes.repeat = repeat;
+    if (timeZone !== series.timezone) changes.timezone = timeZone;
+
+    if (Object.keys(changes).length === 0) {
+      onOpenChange(false);
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onSave(changes);
+    setIsSaving(false);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  const handleRemove = async (index: number) => {
+    setRemovingIndex(index);
+    await onRemoveItem(index);
+    setRemovingIndex(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Pencil className="h-4 w-4" aria-hidden="true" />
+            Edit recurring post
+          </DialogTitle>
+          <DialogDescription>
+            Changes apply from the next post on. Posts already queued are not changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {series && (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-caption">Title</Label>
+              <Input
+                id="recurring-caption"
+                value={caption}
+                maxLength={300}
+                onChange={(e) => setCaption(e.target.value)}
+              />
+            </div>
+
+            <RepeatFields
+              value={repeat}
+              onChange={setRepeat}
+              startAt={new Date(series.next_run_at)}
+              timeZone={timeZone}
+              showTime
+            />
+
+            <div className="space-y-2">
+              <Label>Timezone</Label>
+              <NativeSelect
+                options={timeZoneOptions}
+                value={timeZone}
+                onValueChange={setTimeZone}
+                ariaLabel="Timezone"
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Communities</Label>
+              <div className="flex flex-wrap gap-1.5">
+                {series.items.map((item, index) => (
+                  <span
+                    key={`${item.subreddit}-${index}`}
+                    className="inline-flex items-center gap-1 rounded-md border border-border bg-card pl-2 pr-1 py-0.5 text-xs"
+                  >
+                    r/{item.subreddit}
+                    {series.items.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => void handleRemove(index)}
+                        disabled={removingIndex !== null}
+                        className="rounded p-0.5 cursor-pointer text-muted-foreground hover:bg-red-500/20 hover:text-red-500 disabled:opacity-50"
+                        aria-label={`Stop posting to r/${item.subreddit}`}
+                      >
+                        {removingIndex === index
+                          ? <Loader2 className="h-3 w-3 animate-spin" />
+                          : <X className="h-3 w-3" />}
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-xs text-red-400" role="alert">{error}</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="cursor-pointer">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!!error || isSaving}
+            className="cursor-pointer"
+            aria-label="Save recurring post"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditRecurringJobDialog;
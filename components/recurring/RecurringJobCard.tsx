@@ -0,0 +1,161 @@
+/**
+ * RecurringJobCard Component
+ *
+ * One recurring post: its repeat rule, next run, communities and recent
+ * runs, with actions to pause/resume, edit and delete it.
+ */
+
+import React from 'react';
+import Link from 'next/link';
+import { Pause, Pencil, Play, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import type { QueueJobStatus } from '@/lib/queueJob';
+import type { RecurringJobWithRuns } from '@/lib/recurringJob';
+import { describeRepeatRule } from '@/lib/recurrence';
+import { formatScheduledTime } from '@/lib/scheduling';
+import { describePacing, formatPlannedTime } from '@/lib/pacing';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface RecurringJobCardProps {
+  series: RecurringJobWithRuns;
+  onToggle: (series: RecurringJobWithRuns) => void;
+  onEdit: (series: RecurringJobWithRuns) => void;
+  onDelete: (series: RecurringJobWithRuns) => void;
+  /** Disables the actions while a change is saved */
+  isBusy?: boolean;
+}
+
+const RUN_STATUS_STYLES: Record<QueueJobStatus, string> = {
+  scheduled: 'text-muted-foreground',
+  pending: 'text-muted-foreground',
+  processing: 'text-primary',
+  paused: 'text-amber-500',
+  completed: 'text-green-500',
+  failed: 'text-red-400',
+  cancelled: 'text-muted-foreground',
+};
+
+const RUN_STATUS_LABELS: Record<QueueJobStatus, string> = {
+  scheduled: 'Scheduled',
+  pending: 'Queued',
+  processing: 'Posting',
+  paused: 'Paused',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const RecurringJobCard: React.FC<RecurringJobCardProps> = ({
+  series,
+  onToggle,
+  onEdit,
+  onDelete,
+  isBusy = false,
+}) => {
+  const isActive = series.status === 'active';
+  const badge: { label: string; variant: BadgeProps['variant'] } = isActive
+    ? { label: 'Active', variant: 'success' }
+    : { label: 'Paused', variant: 'warning' };
+
+  return (
+    <li className="rounded-md border border-border bg-card/50 px-3 py-3 space-y-2">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 min-w-0">
+            <Badge variant={badge.variant} className="shrink-0">{badge.label}</Badge>
+            <p className="text-sm font-medium truncate">{series.caption || 'Untitled post'}</p>
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {describeRepeatRule(series.repeat)} ({series.timezone.replace(/_/g, ' ')})
+            {series.pacing && ` · ${describePacing(series.pacing)}`}
+            {series.crosspost && ' · Crossposts'}
+          </p>
+          <p className="mt-0.5 text-xs text-muted-foreground">
+            {isActive
+              ? `Next post ${formatScheduledTime(series.next_run_at, series.timezone)}`
+              : 'Paused - no posts until resumed'}
+            {' · '}
+            {series.run_count === 1 ? 'Posted once' : `Posted ${series.run_count} times`}
+          </p>
+          <p className="mt-0.5 text-xs text-muted-foreground truncate">
+            {series.items.map(item => `r/${item.subreddit}`).join(', ')}
+          </p>
+          {series.last_error && (
+            <p className="mt-0.5 text-xs text-red-400 truncate" title={series.last_error}>
+              {series.last_error}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 shrink-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onToggle(series)}
+            disabled={isBusy}
+            className="h-8 w-8 p-0 cursor-pointer"
+            aria-label={isActive ? 'Pause recurring post' : 'Resume recurring post'}
+            title={isActive ? 'Pause' : 'Resume'}
+          >
+            {isActive ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onEdit(series)}
+            disabled={isBusy}
+            className="h-8 w-8 p-0 cursor-pointer"
+            aria-label="Edit recurring post"
+            title="Edit"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onDelete(series)}
+            disabled={isBusy}
+            className="h-8 w-8 p-0 cursor-pointer hover:bg-red-500/20 hover:text-red-500"
+            aria-label="Delete recurring post"
+            title="Delete"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {series.runs.length > 0 && (
+        <ul className="border-t border-border/50 pt-2 space-y-1">
+          {series.runs.map(run => (
+            <li key={run.id} className="flex items-center gap-2 text-xs">
+              <span className={`w-16 shrink-0 ${RUN_STATUS_STYLES[run.status]}`}>
+                {RUN_STATUS_LABELS[run.status]}
+              </span>
+              <span className="flex-1 min-w-0 truncate text-muted-foreground">
+                {formatPlannedTime(run.scheduled_at ?? run.created_at)}
+                {run.results.length > 0 &&
+                  ` · ${run.results.filter(r => r.status === 'success').length}/${run.items.length} posted`}
+              </span>
+              <Link
+                href={{ pathname: '/jobs', query: { job: run.id } }}
+                className="shrink-0 text-primary hover:underline"
+              >
+                Log
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export default RecurringJobCard;
@@ -0,0 +1,2 @@
+export { default as RecurringJobCard } from './RecurringJobCard';
+export { default as EditRecurringJobDialog } from './EditRecurringJobDialog';
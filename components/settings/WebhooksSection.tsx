@@ -0,0 +1,321 @@
+/**
+ * WebhooksSection Component
+ *
+ * Settings section for outbound webhooks: register URLs that are told when
+ * a job completes or fails and when an item is posted, turn them on/off,
+ * and see each endpoint's recent deliveries.
+ */
+
+import React, { useState } from 'react';
+import { Check, ChevronDown, ChevronUp, Copy, Loader2, Trash2, Webhook } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import ConfirmDialog, { useConfirmDialog } from '@/components/ui/confirm-dialog';
+import { useWebhooks, useWebhookDeliveries } from '@/hooks/useWebhooks';
+import {
+  WEBHOOK_CONSTANTS,
+  WEBHOOK_EVENT_TYPES,
+  validateWebhookUrl,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from '@/lib/webhook';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  'job.completed': 'Job completed',
+  'job.failed': 'Job failed',
+  'item.posted': 'Item posted',
+};
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'text-amber-500',
+  success: 'text-green-500',
+  failed: 'text-red-400',
+};
+
+const formatDeliveryTime = (iso: string): string =>
+  new Intl.DateTimeFormat(undefined, { dateStyle: 'short', timeStyle: 'medium' }).format(new Date(iso));
+
+const describeDelivery = (delivery: WebhookDelivery): string => {
+  if (delivery.status === 'success') {
+    return `HTTP ${delivery.last_status_code ?? 200}`;
+  }
+  if (delivery.status === 'pending' && delivery.attempts === 0) {
+    return 'Sending';
+  }
+  const retry = delivery.status === 'pending' && delivery.next_attempt_at
+    ? ` · retry ${formatDeliveryTime(delivery.next_attempt_at)}`
+    : '';
+  return `${delivery.last_error ?? 'Failed'}${retry}`;
+};
+
+// ============================================================================
+// Delivery Log
+// ============================================================================
+
+const DeliveryLog: React.FC<{ endpointId: string }> = ({ endpointId }) => {
+  const { deliveries, isLoading, error } = useWebhookDeliveries(endpointId);
+
+  return (
+    <div className="border-t border-border max-h-60 overflow-y-auto">
+      {isLoading && (
+        <div className="py-3 text-center">
+          <Loader2 className="w-4 h-4 mx-auto animate-spin text-primary" aria-label="Loading" />
+        </div>
+      )}
+
+      {error && (
+        <p className="px-3 py-2 text-xs text-red-400" role="alert">{error}</p>
+      )}
+
+      {!isLoading && !error && deliveries.length === 0 && (
+        <p className="px-3 py-2 text-xs text-muted-foreground">Nothing sent yet.</p>
+      )}
+
+      <ol>
+        {deliveries.map(delivery => (
+          <li
+            key={delivery.id}
+            className="px-3 py-1.5 flex items-baseline gap-2 text-xs border-b border-border/50 last:border-b-0"
+          >
+            <time dateTime={delivery.created_at} className="shrink-0 tabular-nums text-muted-foreground">
+              {formatDeliveryTime(delivery.created_at)}
+            </time>
+            <span className="shrink-0 font-medium">{delivery.event_type}</span>
+            <span className={`min-w-0 break-words ${DELIVERY_STATUS_STYLES[delivery.status]}`}>
+              {describeDelivery(delivery)}
+            </span>
+            {delivery.attempts > 1 && (
+              <span className="shrink-0 ml-auto text-muted-foreground">
+                {delivery.attempts}/{WEBHOOK_CONSTANTS.MAX_ATTEMPTS}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+// ============================================================================
+// Endpoint Row
+// ============================================================================
+
+interface EndpointRowProps {
+  endpoint: WebhookEndpoint;
+  onToggle: (enabled: boolean) => void;
+  onDelete: () => void;
+}
+
+const EndpointRow: React.FC<EndpointRowProps> = ({ endpoint, onToggle, onDelete }) => {
+  const [showLog, setShowLog] = useState(false);
+
+  return (
+    <li className="rounded-lg border border-border">
+      <div className="px-3 py-2 flex items-center gap-2">
+        <div className="min-w-0 flex-1">
+          <p className={`text-sm truncate ${endpoint.enabled ? '' : 'text-muted-foreground line-through'}`}>
+            {endpoint.url}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {endpoint.events.map(type => EVENT_LABELS[type]).join(' · ')}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onToggle(!endpoint.enabled)}
+          className="cursor-pointer"
+        >
+          {endpoint.enabled ? 'Disable' : 'Enable'}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDelete}
+          className="cursor-pointer text-red-400"
+          aria-label="Delete webhook"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setShowLog(open => !open)}
+        className="w-full px-3 py-1.5 flex items-center justify-between text-xs font-medium border-t border-border cursor-pointer"
+        aria-expanded={showLog}
+      >
+        Recent deliveries
+        {showLog ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+      </button>
+      {showLog && <DeliveryLog endpointId={endpoint.id} />}
+    </li>
+  );
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const WebhooksSection: React.FC = () => {
+  const { endpoints, isLoading, create, update, remove } = useWebhooks();
+  const confirmDialog = useConfirmDialog();
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([...WEBHOOK_EVENT_TYPES]);
+  const [urlError, setUrlError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const atLimit = endpoints.length >= WEBHOOK_CONSTANTS.MAX_ENDPOINTS_PER_USER;
+
+  const toggleEvent = (type: WebhookEventType, checked: boolean) => {
+    setEvents(prev => checked ? [...prev, type] : prev.filter(t => t !== type));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = validateWebhookUrl(url.trim());
+    setUrlError(error);
+    if (error || events.length === 0) return;
+
+    setIsCreating(true);
+    const newSecret = await create(url.trim(), events);
+    setIsCreating(false);
+
+    if (newSecret) {
+      setSecret(newSecret);
+      setCopied(false);
+      setUrl('');
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    setCopied(true);
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    const confirmed = await confirmDialog.openDialog({
+      title: 'Delete webhook?',
+      message: `${endpoint.url} will no longer be notified and its delivery log is removed.`,
+      variant: 'destructive',
+    });
+    if (confirmed) {
+      await remove(endpoint.id);
+    }
+  };
+
+  return (
+    <section className="rounded-xl border border-border bg-card p-4 space-y-4">
+      <div className="flex items-start gap-3">
+        <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+          <Webhook className="w-4 h-4 text-primary" />
+        </div>
+        <div>
+          <h2 className="text-sm font-semibold">Webhooks</h2>
+          <p className="text-xs text-muted-foreground">
+            Get a signed POST when a job finishes or a post goes live. Verify requests with the
+            secret using any Standard Webhooks library.
+          </p>
+        </div>
+      </div>
+
+      {secret && (
+        <div className="rounded-lg border border-amber-500/30 bg-amber-500/5 p-3 space-y-2">
+          <p className="text-xs font-medium">Signing secret - copy it now, it won&apos;t be shown again</p>
+          <div className="flex items-center gap-2">
+            <code className="min-w-0 flex-1 truncate rounded bg-muted px-2 py-1 text-xs">{secret}</code>
+            <Button variant="outline" size="sm" onClick={handleCopySecret} className="cursor-pointer">
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setSecret(null)} className="cursor-pointer">
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="py-4 text-center">
+          <Loader2 className="w-4 h-4 mx-auto animate-spin text-primary" aria-label="Loading" />
+        </div>
+      ) : (
+        endpoints.length > 0 && (
+          <ul className="space-y-2">
+            {endpoints.map(endpoint => (
+              <EndpointRow
+                key={endpoint.id}
+                endpoint={endpoint}
+                onToggle={enabled => update(endpoint.id, { enabled })}
+                onDelete={() => handleDelete(endpoint)}
+              />
+            ))}
+          </ul>
+        )
+      )}
+
+      {atLimit ? (
+        <p className="text-xs text-muted-foreground">
+          You can register up to {WEBHOOK_CONSTANTS.MAX_ENDPOINTS_PER_USER} webhooks.
+        </p>
+      ) : (
+        <form onSubmit={handleCreate} className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              type="url"
+              value={url}
+              onChange={e => {
+                setUrl(e.target.value);
+                setUrlError(null);
+              }}
+              placeholder="https://example.com/hooks/reddit"
+              aria-label="Webhook URL"
+              aria-invalid={urlError ? true : undefined}
+            />
+            <Button
+              type="submit"
+              disabled={isCreating || !url.trim() || events.length === 0}
+              className="cursor-pointer shrink-0"
+            >
+              {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Add'}
+            </Button>
+          </div>
+          {urlError && (
+            <p className="text-xs text-red-400" role="alert">{urlError}</p>
+          )}
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {WEBHOOK_EVENT_TYPES.map(type => (
+              <label key={type} className="flex items-center gap-2 text-xs cursor-pointer">
+                <Checkbox
+                  checked={events.includes(type)}
+                  onCheckedChange={checked => toggleEvent(type, checked === true)}
+                />
+                {EVENT_LABELS[type]}
+              </label>
+            ))}
+          </div>
+        </form>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmDialog.isOpen}
+        title={confirmDialog.title}
+        message={confirmDialog.message}
+        variant={confirmDialog.variant}
+        confirmLabel="Delete"
+        onConfirm={confirmDialog.handleConfirm}
+        onCancel={confirmDialog.handleCancel}
+      />
+    </section>
+  );
+};
+
+export default WebhooksSection;
@@ -3,5 +3,6 @@ export { default as SubredditItemComponent } from './SubredditItem';
 export { default as SortableCategory } from './SortableCategory';
 export { default as SortableSubreddit } from './SortableSubreddit';
 export { default as SearchResults } from './SearchResults';
+export { default as WebhooksSection } from './WebhooksSection';
 export { SettingsContext, useSettingsContext } from './SettingsContext';
 export type { SettingsContextType, Category, SubredditItem } from './types';
@@ -12,18 +12,34 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { PostRequirements } from '@/utils/reddit';
 import CopyGenerationDialog from '@/components/ai/CopyGenerationDialog';
+import PostFlagsFields from '@/components/PostFlagsFields';
+import GalleryItemsFields from '@/components/GalleryItemsFields';
+import type { GalleryItemDetails, PostFlags } from '@/lib/queueJob';
+import { POST_FLAG_KEYS, POST_FLAG_LABELS, resolveSubmitFlags } from '@/lib/postFlags';
+import { mergeGalleryItems } from '@/lib/galleryItems';
 
 export interface PerSubredditOverride {
   title?: string;
   body?: string;
+  /** Flags that differ from the composer's global flags */
+  flags?: PostFlags;
+  /** Gallery captions and links that replace the global ones, per image */
+  galleryItems?: GalleryItemDetails[];
 }
 
+const NO_FLAGS: PostFlags = {};
+const NO_GALLERY_ITEMS: GalleryItemDetails[] = [];
+
 interface CustomizePostDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   subredditName: string;
   globalTitle: string;
   globalBody: string;
+  globalFlags?: PostFlags;
+  /** Number of gallery images; captions and links can be customized when above 1 */
+  galleryImageCount?: number;
+  globalGalleryItems?: GalleryItemDetails[];
   override?: PerSubredditOverride;
   postRequirements?: PostRequirements;
   onSave: (subreddit: string, override: PerSubredditOverride | undefined) => void;
@@ -35,6 +51,9 @@ export const CustomizePostDialog: React.FC<CustomizePostDialogProps> = ({
   subredditName,
   globalTitle,
   globalBody,
+  globalFlags = NO_FLAGS,
+  galleryImageCount = 0,
+  globalGalleryItems = NO_GALLERY_ITEMS,
   override,
   postRequirements,
   onSave,
@@ -43,6 +62,10 @@ export const CustomizePostDialog: React.FC<CustomizePostDialogProps> = ({
   const [useCustomBody, setUseCustomBody] = useState(false);
   const [customTitle, setCustomTitle] = useState('');
   const [customBody, setCustomBody] = useState('');
+  const [useCustomFlags, setUseCustomFlags] = useState(false);
+  const [customFlags, setCustomFlags] = useState<PostFlags>({});
+  const [useCustomGallery, setUseCustomGallery] = useState(false);
+  const [customGalleryItems, setCustomGalleryItems] = useState<GalleryItemDetails[]>([]);
   const [aiTargetField, setAiTargetField] = useState<'title' | 'description' | null>(null);
   const titleRef = useRef<HTMLTextAreaElement>(null);
   const bodyRef = useRef<HTMLTextAreaElement>(null);
@@ -54,9 +77,13 @@ export const CustomizePostDialog: React.FC<CustomizePostDialogProps> = ({
       setUseCustomBody(!!override?.body);
       setCustomTitle(override?.title || globalTitle);
       setCustomBody(override?.body || globalBody);
+      setUseCustomFlags(!!override?.flags);
+      setCustomFlags({ ...globalFlags, ...override?.flags });
+      setUseCustomGallery(!!override?.galleryItems);
+      setCustomGalleryItems(override?.galleryItems ?? []);
       setAiTargetField(null);
     }
-  }, [open, override, globalTitle, globalBody]);
+  }, [open, override, globalTitle, globalBody, globalFlags]);
 
   // Auto-expand title textarea
   useEffect(() => {
@@ -76,12 +103,33 @@ export const CustomizePostDialog: React.FC<CustomizePostDialogProps> = ({
     }
   }, [customBody, useCustomBody]);
 
+  const showGallery = galleryImageCount > 1;
+  const galleryCaptionsRequired = postRequirements?.gallery_captions_requirement === 'required';
+  const galleryUrlsRequired = postRequirements?.gallery_urls_requirement === 'required';
+  const globalCaptionCount = globalGalleryItems.filter(item => item.caption?.trim()).length;
+
+  const globalResolved = resolveSubmitFlags(globalFlags);
+  const globalFlagLabels = POST_FLAG_KEYS.filter(key => globalResolved[key]).map(key => POST_FLAG_LABELS[key]);
+
   const handleSave = () => {
+    // Keep only the flags that differ, so NSFW still follows the community
+    const customResolved = resolveSubmitFlags(customFlags);
+    const changedFlags: PostFlags = {};
+    for (const key of POST_FLAG_KEYS) {
+      if (customResolved[key] !== globalResolved[key]) {
+        changedFlags[key] = customResolved[key];
+      }
+    }
+    const flags = useCustomFlags && Object.keys(changedFlags).length > 0 ? changedFlags : undefined;
+    const galleryItems = useCustomGallery && showGallery ? mergeGalleryItems(customGalleryItems) : undefined;
+
     const newOverride: PerSubredditOverride | undefined = 
-      (useCustomTitle || useCustomBody) 
+      (useCustomTitle || useCustomBody || flags || galleryItems) 
         ? {
             title: useCustomTitle ? customTitle : undefined,
             body: useCustomBody ? customBody : undefined,
+            flags,
+            galleryItems,
           }
         : undefined;
     
@@ -94,6 +142,10 @@ export const CustomizePostDialog: React.FC<CustomizePostDialogProps> = ({
     setUseCustomBody(false);
     setCustomTitle(globalTitle);
     setCustomBody(globalBody);
+    setUseCustomFlags(false);
+    setCustomFlags(globalFlags);
+    setUseCustomGallery(false);
+    setCustomGalleryItems([]);
   };
 
   const titleMinLength = postRequirements?.title_text_min_length;
@@ -115,7 +167,7 @@ export const CustomizePostDialog: React.FC<CustomizePostDialogProps> = ({
             <Crown className="h-3.5 w-3.5 text-violet-400" aria-label="Pro feature" />
           </DialogTitle>
           <p className="text-xs text-muted-foreground">
-            Override title and description for this community only.
+            Override title, description{showGallery ? ', flags and gallery captions' : ' and flags'} for this community only.
           </p>
         </DialogHeader>
 
@@ -272,6 +324,104 @@ export const CustomizePostDialog: React.FC<CustomizePostDialogProps> = ({
             )}
           </div>
 
+          <div className="border-t border-border/50" aria-hidden="true" />
+
+          {/* Custom Flags Section */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                role="switch"
+                aria-checked={useCustomFlags}
+                id="use-custom-flags"
+                onClick={() => setUseCustomFlags(!useCustomFlags)}
+                className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors cursor-pointer ${
+                  useCustomFlags ? 'bg-orange-500' : 'bg-muted-foreground/30'
+                }`}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    useCustomFlags ? 'translate-x-4' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+              <Label htmlFor="use-custom-flags" className="text-sm font-medium cursor-pointer">
+                Custom flags
+              </Label>
+            </div>
+
+            {useCustomFlags ? (
+              <div className="mt-2">
+                <PostFlagsFields flags={customFlags} onFlagsChange={setCustomFlags} />
+              </div>
+            ) : (
+              <div className="mt-2 px-3 py-2 bg-muted/50 rounded-md text-sm text-muted-foreground">
+                {globalFlagLabels.length > 0 ? (
+                  <>Using global: {globalFlagLabels.join(', ')}</>
+                ) : (
+                  <span className="italic">No flags set</span>
+                )}
+              </div>
+            )}
+          </div>
+
+          {showGallery && (
+            <>
+              <div className="border-t border-border/50" aria-hidden="true" />
+
+              {/* Custom Gallery Captions Section */}
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    role="switch"
+                    aria-checked={useCustomGallery}
+                    id="use-custom-gallery"
+                    onClick={() => setUseCustomGallery(!useCustomGallery)}
+                    className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors cursor-pointer ${
+                      useCustomGallery ? 'bg-orange-500' : 'bg-muted-foreground/30'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        useCustomGallery ? 'translate-x-4' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                  <Label htmlFor="use-custom-gallery" className="text-sm font-medium cursor-pointer">
+                    Custom captions & links
+                  </Label>
+                </div>
+
+                {useCustomGallery ? (
+                  <div className="mt-2">
+                    <GalleryItemsFields
+                      count={galleryImageCount}
+                      items={customGalleryItems}
+                      onItemsChange={setCustomGalleryItems}
+                      placeholders={globalGalleryItems}
+                    />
+                    <p className="mt-1.5 text-xs text-muted-foreground">Empty fields use the global caption or link.</p>
+                  </div>
+                ) : (
+                  <div className="mt-2 px-3 py-2 bg-muted/50 rounded-md text-sm text-muted-foreground">
+                    {globalCaptionCount > 0 ? (
+                      <>Using global: {globalCaptionCount} of {galleryImageCount} images captioned</>
+                    ) : (
+                      <span className="italic">No captions set</span>
+                    )}
+                  </div>
+                )}
+
+                {(galleryCaptionsRequired || galleryUrlsRequired) && (
+                  <p className="text-xs text-muted-foreground">
+                    This community requires {galleryCaptionsRequired && galleryUrlsRequired ? 'a caption and a link' : galleryCaptionsRequired ? 'a caption' : 'a link'} on every image.
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
           {/* Requirements hint */}
           {(postRequirements?.title_blacklisted_strings?.length ?? 0) + (postRequirements?.body_blacklisted_strings?.length ?? 0) > 0 && (
             <div className="text-xs text-muted-foreground bg-yellow-500/10 px-3 py-2 rounded-md border border-yellow-500/20">
@@ -281,7 +431,7 @@ export const CustomizePostDialog: React.FC<CustomizePostDialogProps> = ({
         </div>
 
         <DialogFooter className="flex gap-2">
-          {(useCustomTitle || useCustomBody) && (
+          {(useCustomTitle || useCustomBody || useCustomFlags || useCustomGallery) && (
             <Button variant="ghost" onClick={handleReset} className="cursor-pointer">
               Reset to global
             </Button>
@@ -0,0 +1,47 @@
+/**
+ * FlairBadge Component
+ *
+ * A flair as Reddit shows it: the template's colours with its emoji, or
+ * the poster's own text for editable templates.
+ */
+
+import React from 'react';
+import NextImage from 'next/image';
+import type { FlairOption } from '@/utils/reddit';
+import { getFlairParts } from '@/lib/flairText';
+import { cn } from '@/lib/utils';
+
+interface FlairBadgeProps {
+  flair: FlairOption;
+  /** Own text replacing the template's */
+  customText?: string;
+  className?: string;
+}
+
+const FlairBadge: React.FC<FlairBadgeProps> = ({ flair, customText, className }) => {
+  const parts = getFlairParts(flair, customText);
+  const style = flair.background_color
+    ? { backgroundColor: flair.background_color, color: flair.text_color === 'light' ? '#ffffff' : '#1a1a1b' }
+    : undefined;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex max-w-full items-center gap-0.5 truncate rounded-full px-2 py-0.5 text-xs font-medium',
+        !style && 'bg-secondary text-secondary-foreground',
+        className
+      )}
+      style={style}
+    >
+      {parts.map((part, index) =>
+        part.type === 'emoji' ? (
+          <NextImage key={index} src={part.url} alt={part.name} width={16} height={16} unoptimized className="h-4 w-4 shrink-0" />
+        ) : (
+          <span key={index} className="truncate">{part.text}</span>
+        )
+      )}
+    </span>
+  );
+};
+
+export default FlairBadge;
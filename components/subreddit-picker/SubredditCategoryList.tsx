@@ -2,7 +2,7 @@ import React from 'react';
 import Link from 'next/link';
 import { ChevronDown, ChevronRight, AlertTriangle, Settings } from 'lucide-react';
 import SubredditRow, { SubredditRules } from './SubredditRow';
-import { PostRequirements, SubredditEligibility, RedditUser } from '@/utils/reddit';
+import { FlairOption, PostRequirements, SubredditEligibility, RedditUser } from '@/utils/reddit';
 import { FailedPost } from '@/hooks/useFailedPosts';
 import { ValidationIssue } from '@/lib/preflightValidation';
 import { PerSubredditOverride } from './CustomizePostDialog';
@@ -17,10 +17,11 @@ interface SubredditCategoryListProps {
   categorizedSubreddits: CategoryData[];
   selected: string[];
   expandedCategories: string[];
-  flairOptions: Record<string, { id: string; text: string }[]>;
+  flairOptions: Record<string, FlairOption[]>;
   flairRequired: Record<string, boolean>;
   flairValue: Record<string, string | undefined>;
   titleSuffixValue: Record<string, string | undefined>;
+  flairTextValue?: Record<string, string | undefined>;
   subredditRules: Record<string, SubredditRules>;
   postRequirements: Record<string, PostRequirements>;
   /** Eligibility data for each subreddit */
@@ -28,7 +29,7 @@ interface SubredditCategoryListProps {
   /** User data for eligibility checks */
   userData?: RedditUser;
   /** Post kind for eligibility checks - determines if submission type is valid */
-  postKind?: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  postKind?: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   cacheLoading: Record<string, boolean>;
   showValidationErrors?: boolean;
   /** Map of subreddit name to failed post data */
@@ -58,6 +59,7 @@ interface SubredditCategoryListProps {
   onSelectAllInCategory: (subreddits: string[], isAllSelected: boolean) => void;
   onFlairChange: (name: string, id: string) => void;
   onTitleSuffixChange: (name: string, suffix: string) => void;
+  onFlairTextChange?: (name: string, text: string) => void;
   hasMissingFlair: (subreddit: string) => boolean;
 }
 
@@ -69,6 +71,7 @@ const SubredditCategoryList: React.FC<SubredditCategoryListProps> = ({
   flairRequired,
   flairValue,
   titleSuffixValue,
+  flairTextValue,
   subredditRules,
   postRequirements,
   eligibilityData,
@@ -94,6 +97,7 @@ const SubredditCategoryList: React.FC<SubredditCategoryListProps> = ({
   onSelectAllInCategory,
   onFlairChange,
   onTitleSuffixChange,
+  onFlairTextChange,
   hasMissingFlair,
 }) => {
   const hasBlockingValidationErrors = (subreddit: string) => {
@@ -187,9 +191,11 @@ const SubredditCategoryList: React.FC<SubredditCategoryListProps> = ({
                       postRequirements={postRequirements[key]}
                       titleSuffix={titleSuffixValue[key]}
                       flairValue={flairValue[key]}
+                      flairText={flairTextValue?.[key]}
                       onToggle={onToggle}
                       onFlairChange={onFlairChange}
                       onTitleSuffixChange={onTitleSuffixChange}
+                      onFlairTextChange={onFlairTextChange}
                       failedPost={failedPost}
                       onRetryPost={onRetryPost}
                       onEditPost={onEditPost}
@@ -16,9 +16,11 @@ const SubredditRow = React.memo(({
   postRequirements,
   titleSuffix,
   flairValue,
+  flairText,
   onToggle,
   onFlairChange,
   onTitleSuffixChange,
+  onFlairTextChange,
   failedPost,
   onRetryPost,
   onEditPost,
@@ -170,6 +172,7 @@ const SubredditRow = React.memo(({
         flairRequired={flairRequired}
         flairOptions={flairOptions}
         flairValue={flairValue}
+        flairText={flairText}
         titleSuffix={titleSuffix}
         hasRequiredStrings={hasRequiredStrings}
         suffixOptions={suffixOptions}
@@ -177,6 +180,7 @@ const SubredditRow = React.memo(({
         isCustomSuffix={isCustomSuffix}
         onFlairChange={onFlairChange}
         onTitleSuffixChange={onTitleSuffixChange}
+        onFlairTextChange={onFlairTextChange}
         onSuffixSelectChange={handleSuffixSelectChange}
         onShowCustomInputChange={setShowCustomInput}
         onControlsClick={handleControlsClick}
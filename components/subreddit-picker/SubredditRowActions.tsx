@@ -239,8 +239,8 @@ const SubredditRowActions: React.FC<SubredditRowActionsProps> = ({
         <Tooltip 
           content={
             customizationEnabled 
-              ? "Customize title & description for this community" 
-              : "Customize title & description - Pro feature"
+              ? "Customize title, description & flags for this community" 
+              : "Customize title, description & flags - Pro feature"
           } 
           side="left"
         >
@@ -256,7 +256,7 @@ const SubredditRowActions: React.FC<SubredditRowActionsProps> = ({
               }
             }}
             className={`p-1.5 rounded-md cursor-pointer transition-colors ${
-              contentOverride && (contentOverride.title || contentOverride.body)
+              contentOverride && (contentOverride.title || contentOverride.body || contentOverride.flags || contentOverride.galleryItems)
                 ? 'bg-violet-500/15 text-violet-400 hover:bg-violet-500/25'
                 : 'text-muted-foreground hover:text-foreground hover:bg-muted'
             }`}
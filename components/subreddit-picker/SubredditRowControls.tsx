@@ -2,13 +2,17 @@ import React from 'react';
 import { X } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { NativeSelect } from '@/components/ui/native-select';
+import type { FlairOption } from '@/utils/reddit';
+import { FLAIR_TEXT_MAX_LENGTH } from '@/lib/flairText';
+import FlairBadge from './FlairBadge';
 
 interface SubredditRowControlsProps {
   name: string;
   isSelected: boolean;
   flairRequired?: boolean;
-  flairOptions: { id: string; text: string }[];
+  flairOptions: FlairOption[];
   flairValue?: string;
+  flairText?: string;
   titleSuffix?: string;
   hasRequiredStrings: boolean;
   suffixOptions: string[];
@@ -16,6 +20,7 @@ interface SubredditRowControlsProps {
   isCustomSuffix: boolean;
   onFlairChange: (name: string, id: string) => void;
   onTitleSuffixChange: (name: string, suffix: string) => void;
+  onFlairTextChange?: (name: string, text: string) => void;
   onSuffixSelectChange: (value: string) => void;
   onShowCustomInputChange: (value: boolean) => void;
   onControlsClick: (e: React.MouseEvent<HTMLDivElement>) => void;
@@ -27,6 +32,7 @@ const SubredditRowControls: React.FC<SubredditRowControlsProps> = ({
   flairRequired,
   flairOptions,
   flairValue,
+  flairText,
   titleSuffix,
   hasRequiredStrings,
   suffixOptions,
@@ -34,11 +40,17 @@ const SubredditRowControls: React.FC<SubredditRowControlsProps> = ({
   isCustomSuffix,
   onFlairChange,
   onTitleSuffixChange,
+  onFlairTextChange,
   onSuffixSelectChange,
   onShowCustomInputChange,
   onControlsClick,
 }) => {
   const showTagControls = isSelected && hasRequiredStrings;
+  const selectedFlair = flairOptions.find((f) => f.id === flairValue);
+  const canEditFlairText = !!(selectedFlair?.text_editable && onFlairTextChange);
+  const showFlairBadge = !!selectedFlair && (
+    !!selectedFlair.background_color || !!selectedFlair.richtext?.some((part) => part.e === 'emoji')
+  );
 
   if (!isSelected || (!showTagControls && flairOptions.length === 0)) {
     return null;
@@ -67,6 +79,22 @@ const SubredditRowControls: React.FC<SubredditRowControlsProps> = ({
         />
       )}
 
+      {canEditFlairText && (
+        <Input
+          className="h-8 flex-1 min-w-[90px] text-xs px-2.5 bg-white/70 dark:bg-zinc-800/70 border-0 shadow-sm"
+          placeholder={selectedFlair?.text || 'Flair text'}
+          value={flairText || ''}
+          maxLength={FLAIR_TEXT_MAX_LENGTH}
+          onChange={(e) => onFlairTextChange?.(name, e.target.value)}
+          title="This flair lets you write your own text"
+          aria-label={`Flair text for r/${name}`}
+        />
+      )}
+
+      {selectedFlair && showFlairBadge && (
+        <FlairBadge flair={selectedFlair} customText={flairText} className="max-w-[40%] shrink-0" />
+      )}
+
       {showTagControls && (
         showCustomInput ? (
           <div className="flex items-center gap-1 flex-1">
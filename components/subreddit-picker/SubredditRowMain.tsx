@@ -23,7 +23,7 @@ const SubredditRowMain: React.FC<SubredditRowMainProps> = ({
   contentOverride,
   onToggle,
 }) => {
-  const hasCustomContent = !!(contentOverride && (contentOverride.title || contentOverride.body));
+  const hasCustomContent = !!(contentOverride && (contentOverride.title || contentOverride.body || contentOverride.flags || contentOverride.galleryItems));
 
   return (
     <div className="flex items-center gap-3 min-w-0">
@@ -1,12 +1,12 @@
 import React from 'react';
 import SubredditRow, { SubredditRules } from './SubredditRow';
-import { PostRequirements } from '@/utils/reddit';
+import { FlairOption, PostRequirements } from '@/utils/reddit';
 
 interface SubredditSearchResultsProps {
   filtered: string[];
   query: string;
   selected: string[];
-  flairOptions: Record<string, { id: string; text: string }[]>;
+  flairOptions: Record<string, FlairOption[]>;
   flairRequired: Record<string, boolean>;
   flairValue: Record<string, string | undefined>;
   titleSuffixValue: Record<string, string | undefined>;
@@ -1,4 +1,4 @@
-import { PostRequirements, SubredditEligibility, RedditUser } from '@/utils/reddit';
+import { FlairOption, PostRequirements, SubredditEligibility, RedditUser } from '@/utils/reddit';
 import { FailedPost } from '@/hooks/useFailedPosts';
 import { ValidationIssue } from '@/lib/preflightValidation';
 import { PerSubredditOverride } from './CustomizePostDialog';
@@ -19,14 +19,17 @@ export interface SubredditRowProps {
   isSelected: boolean;
   isLoading?: boolean;
   flairRequired?: boolean;
-  flairOptions: { id: string; text: string }[];
+  flairOptions: FlairOption[];
   subredditRules?: SubredditRules;
   postRequirements?: PostRequirements;
   titleSuffix?: string;
   flairValue?: string;
+  /** Own text for an editable flair */
+  flairText?: string;
   onToggle: (name: string) => void;
   onFlairChange: (name: string, id: string) => void;
   onTitleSuffixChange: (name: string, suffix: string) => void;
+  onFlairTextChange?: (name: string, text: string) => void;
   failedPost?: FailedPost;
   onRetryPost?: (id: string) => void;
   onEditPost?: (post: FailedPost) => void;
@@ -38,7 +41,7 @@ export interface SubredditRowProps {
   onRequestUpgrade?: (context?: { title?: string; message: string }) => void;
   eligibility?: SubredditEligibility;
   userData?: RedditUser;
-  postKind?: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  postKind?: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   rowRef?: (node: HTMLDivElement | null) => void;
   isHighlighted?: boolean;
   showInlineValidationHint?: boolean;
@@ -15,7 +15,7 @@ import {
   isEditable,
   isPseudoSuccess,
 } from '@/lib/errorClassification';
-import { QueueJobResult, QueueJobItem } from '@/lib/queueJob';
+import { QueueJobResult, QueueJobItem, PostFlags, GalleryItemDetails, PollDetails } from '@/lib/queueJob';
 
 // ============================================================================
 // Types
@@ -28,13 +28,15 @@ export interface QueueJobItemWithFiles extends QueueJobItem {
 }
 
 /** Original item data needed for retries */
-export interface OriginalItemData {
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+export interface OriginalItemData extends PostFlags {
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   url?: string;
   text?: string;
   customTitle?: string;
   file?: File;
   files?: File[];
+  galleryItems?: GalleryItemDetails[];
+  poll?: PollDetails;
 }
 
 export interface FailedPost {
@@ -46,10 +48,12 @@ export interface FailedPost {
   subreddit: string;
   /** Selected flair ID (if any) */
   flairId?: string;
+  /** Own text for an editable flair */
+  flairText?: string;
   /** Title suffix for this subreddit */
   titleSuffix?: string;
   /** Post type */
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   /** Link URL (for link posts) */
   url?: string;
   /** Text content (for self posts) */
@@ -230,6 +234,7 @@ export function useFailedPosts(): UseFailedPostsReturn {
           index: result.index,
           subreddit: result.subreddit,
           flairId: item.flairId,
+          flairText: item.flairText,
           titleSuffix: item.titleSuffix,
           kind: item.kind,
           url: item.url,
@@ -247,6 +252,12 @@ export function useFailedPosts(): UseFailedPostsReturn {
             customTitle: item.customTitle,
             file: item.file,
             files: item.files,
+            nsfw: item.nsfw,
+            spoiler: item.spoiler,
+            sendReplies: item.sendReplies,
+            originalContent: item.originalContent,
+            galleryItems: item.galleryItems,
+            poll: item.poll,
           },
           originalCaption: caption,
           originalPrefixes: prefixes,
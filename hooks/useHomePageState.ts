@@ -3,6 +3,12 @@ import { QueueItem } from '@/types';
 import { usePersistentState } from './usePersistentState';
 import type { PerSubredditOverride } from '@/components/subreddit-picker';
 import { normalizeSubredditKey } from '@/lib/subredditKey';
+import type { GalleryItemDetails, PollDetails, PostFlags } from '@/lib/queueJob';
+import { mergePostFlags } from '@/lib/postFlags';
+import { mergeGalleryItems } from '@/lib/galleryItems';
+import { cleanPoll, EMPTY_POLL } from '@/lib/pollPost';
+import { stripInlineImages } from '@/lib/richtext';
+import type { ComposerDraft } from '@/lib/postHistory';
 
 // ============================================================================
 // Types
@@ -41,22 +47,38 @@ interface UseHomePageStateReturn {
   setBody: (value: string | ((val: string) => string)) => void;
   prefixes: { f: boolean; c: boolean };
   setPrefixes: React.Dispatch<React.SetStateAction<{ f: boolean; c: boolean }>>;
+  postFlags: PostFlags;
+  setPostFlags: (value: PostFlags | ((val: PostFlags) => PostFlags)) => void;
   mediaUrl: string;
   setMediaUrl: (value: string | ((val: string) => string)) => void;
   mediaFiles: File[];
   setMediaFiles: React.Dispatch<React.SetStateAction<File[]>>;
-  mediaType: 'image' | 'video' | 'url';
-  setMediaType: (value: 'image' | 'video' | 'url' | ((val: 'image' | 'video' | 'url') => 'image' | 'video' | 'url')) => void;
+  /** Caption and link of each gallery image, in file order */
+  galleryItems: GalleryItemDetails[];
+  setGalleryItems: React.Dispatch<React.SetStateAction<GalleryItemDetails[]>>;
+  mediaType: 'image' | 'video' | 'url' | 'poll';
+  setMediaType: (value: 'image' | 'video' | 'url' | 'poll' | ((val: 'image' | 'video' | 'url' | 'poll') => 'image' | 'video' | 'url' | 'poll')) => void;
+  /** Images placed in the body of a text post, numbered by their `inline:N` markers */
+  inlineImages: File[];
+  setInlineImages: React.Dispatch<React.SetStateAction<File[]>>;
+  /** Poll options and duration, used when the media type is 'poll' */
+  poll: PollDetails;
+  setPoll: (value: PollDetails | ((val: PollDetails) => PollDetails)) => void;
   flairs: Record<string, string | undefined>;
   setFlairs: (value: Record<string, string | undefined> | ((val: Record<string, string | undefined>) => Record<string, string | undefined>)) => void;
   titleSuffixes: Record<string, string | undefined>;
   setTitleSuffixes: (value: Record<string, string | undefined> | ((val: Record<string, string | undefined>) => Record<string, string | undefined>)) => void;
+  /** Own flair text per subreddit, for flair templates that allow editing */
+  flairTexts: Record<string, string | undefined>;
+  setFlairTexts: (value: Record<string, string | undefined> | ((val: Record<string, string | undefined>) => Record<string, string | undefined>)) => void;
   customTitles: Record<string, string>;
   setCustomTitles: React.Dispatch<React.SetStateAction<Record<string, string>>>;
   contentOverrides: Record<string, PerSubredditOverride>;
   setContentOverrides: (value: Record<string, PerSubredditOverride> | ((val: Record<string, PerSubredditOverride>) => Record<string, PerSubredditOverride>)) => void;
   postToProfile: boolean;
   setPostToProfile: React.Dispatch<React.SetStateAction<boolean>>;
+  crosspost: boolean;
+  setCrosspost: React.Dispatch<React.SetStateAction<boolean>>;
   hasFlairErrors: boolean;
   setHasFlairErrors: React.Dispatch<React.SetStateAction<boolean>>;
   showValidationErrors: boolean;
@@ -67,6 +89,8 @@ interface UseHomePageStateReturn {
   handleUnselectSuccessItems: (subreddits: string[]) => void;
   clearSelection: () => void;
   clearAllState: () => void;
+  /** Replace the composer state with a draft rebuilt from a past post */
+  applyComposerDraft: (draft: ComposerDraft) => void;
   // Last post settings feature
   hasLastPostSettings: boolean;
   lastPostSettingsDate: string | undefined;
@@ -115,12 +139,18 @@ export const useHomePageState = ({ authMe }: UseHomePageStateProps): UseHomePage
   const [caption, setCaption] = usePersistentState<string>('rmp_caption', '');
   const [body, setBody] = usePersistentState<string>('rmp_body', '');
   const [prefixes, setPrefixes] = usePersistentState<{ f: boolean; c: boolean }>('rmp_prefixes', { f: false, c: false });
+  const [postFlags, setPostFlags] = usePersistentState<PostFlags>('rmp_post_flags', {});
   const [mediaUrl, setMediaUrl] = usePersistentState<string>('rmp_media_url', '');
   const [mediaFiles, setMediaFiles] = useState<File[]>([]);
-  const [mediaType, setMediaType] = usePersistentState<'image' | 'video' | 'url'>('rmp_media_type', 'image');
+  const [galleryItems, setGalleryItems] = useState<GalleryItemDetails[]>([]);
+  const [inlineImages, setInlineImages] = useState<File[]>([]);
+  const [mediaType, setMediaType] = usePersistentState<'image' | 'video' | 'url' | 'poll'>('rmp_media_type', 'image');
+  const [poll, setPoll] = usePersistentState<PollDetails>('rmp_poll', EMPTY_POLL);
   const [flairs, setFlairs] = usePersistentState<Record<string, string | undefined>>('rmp_flairs', {});
   const [titleSuffixes, setTitleSuffixes] = usePersistentState<Record<string, string | undefined>>('rmp_title_suffixes', {});
+  const [flairTexts, setFlairTexts] = usePersistentState<Record<string, string | undefined>>('rmp_flair_texts', {});
   const [postToProfile, setPostToProfile] = usePersistentState<boolean>('rmp_post_to_profile', false);
+  const [crosspost, setCrosspost] = usePersistentState<boolean>('rmp_crosspost', false);
   const [hasFlairErrors, setHasFlairErrors] = useState(false);
   const [customTitles, setCustomTitles] = usePersistentState<Record<string, string>>('rmp_custom_titles', {});
   const [contentOverrides, setContentOverrides] = usePersistentState<Record<string, PerSubredditOverride>>('rmp_content_overrides', {});
@@ -234,6 +264,13 @@ export const useHomePageState = ({ authMe }: UseHomePageStateProps): UseHomePage
       });
       return next;
     });
+    setFlairTexts(prev => {
+      const next = { ...prev };
+      subreddits.forEach((subreddit) => {
+        delete next[normalizeSubredditKey(subreddit)];
+      });
+      return next;
+    });
     setCustomTitles(prev => {
       const next = { ...prev };
       subreddits.forEach((subreddit) => {
@@ -263,12 +300,41 @@ export const useHomePageState = ({ authMe }: UseHomePageStateProps): UseHomePage
     setBody('');
     setFlairs({});
     setTitleSuffixes({});
+    setFlairTexts({});
     setContentOverrides({});
     setMediaUrl('');
     setMediaType('image');
+    setPoll(EMPTY_POLL);
     setMediaFiles([]);
+    setGalleryItems([]);
+    setInlineImages([]);
     setPrefixes({ f: false, c: false });
+    setPostFlags({});
     setPostToProfile(false);
+    setCrosspost(false);
+    setCustomTitles({});
+    setHasFlairErrors(false);
+    setShowValidationErrors(false);
+  }, []);
+
+  const applyComposerDraft = useCallback((draft: ComposerDraft) => {
+    setSelectedSubs(draft.subreddits);
+    setCaption(draft.caption);
+    setBody(draft.body);
+    setFlairs(draft.flairs);
+    setTitleSuffixes(draft.titleSuffixes);
+    setFlairTexts(draft.flairTexts);
+    setContentOverrides(draft.contentOverrides);
+    setMediaUrl(draft.mediaUrl);
+    setMediaType(draft.mediaType);
+    setPoll(draft.poll ?? EMPTY_POLL);
+    setMediaFiles([]);
+    setGalleryItems(draft.galleryItems);
+    setInlineImages([]);
+    setPrefixes(draft.prefixes);
+    setPostFlags(draft.postFlags);
+    setPostToProfile(draft.postToProfile);
+    setCrosspost(draft.crosspost);
     setCustomTitles({});
     setHasFlairErrors(false);
     setShowValidationErrors(false);
@@ -282,7 +348,29 @@ export const useHomePageState = ({ authMe }: UseHomePageStateProps): UseHomePage
       destinations.push(`u_${authMe.name}`);
     }
     
-    if (mediaFiles.length > 0) {
+    if (mediaType === 'poll') {
+      const pollToSend = cleanPoll(poll);
+      destinations.forEach((sr) => {
+        // Use per-subreddit overrides if available
+        const override = contentOverrides[sr];
+        const effectiveTitle = override?.title || customTitles[sr];
+        const effectiveBody = override?.body ?? body;
+
+        allItems.push({
+          subreddit: sr,
+          flairId: flairs[normalizeSubredditKey(sr)],
+          flairText: (flairs[normalizeSubredditKey(sr)] && flairTexts[normalizeSubredditKey(sr)]?.trim()) || undefined,
+          titleSuffix: titleSuffixes[normalizeSubredditKey(sr)],
+          customTitle: effectiveTitle,
+          kind: 'poll',
+          url: undefined,
+          file: undefined,
+          text: stripInlineImages(effectiveBody) || undefined,
+          poll: pollToSend,
+          ...mergePostFlags(postFlags, override?.flags),
+        });
+      });
+    } else if (mediaFiles.length > 0) {
       destinations.forEach((sr) => {
         let kind: 'image' | 'video' | 'gallery';
         if (mediaFiles.length > 1) {
@@ -299,12 +387,15 @@ export const useHomePageState = ({ authMe }: UseHomePageStateProps): UseHomePage
         allItems.push({
           subreddit: sr,
           flairId: flairs[normalizeSubredditKey(sr)],
+          flairText: (flairs[normalizeSubredditKey(sr)] && flairTexts[normalizeSubredditKey(sr)]?.trim()) || undefined,
           titleSuffix: titleSuffixes[normalizeSubredditKey(sr)],
           customTitle: effectiveTitle,
           kind,
           files: mediaFiles,
           url: undefined,
-          text: effectiveBody || undefined,
+          text: stripInlineImages(effectiveBody) || undefined,
+          ...(kind === 'gallery' && { galleryItems: mergeGalleryItems(galleryItems, override?.galleryItems) }),
+          ...mergePostFlags(postFlags, override?.flags),
         });
       });
     } else if (mediaUrl) {
@@ -317,12 +408,14 @@ export const useHomePageState = ({ authMe }: UseHomePageStateProps): UseHomePage
         allItems.push({
           subreddit: sr,
           flairId: flairs[normalizeSubredditKey(sr)],
+          flairText: (flairs[normalizeSubredditKey(sr)] && flairTexts[normalizeSubredditKey(sr)]?.trim()) || undefined,
           titleSuffix: titleSuffixes[normalizeSubredditKey(sr)],
           customTitle: effectiveTitle,
           kind: 'link',
           url: mediaUrl,
           file: undefined,
-          text: effectiveBody || undefined,
+          text: stripInlineImages(effectiveBody) || undefined,
+          ...mergePostFlags(postFlags, override?.flags),
         });
       });
     } else {
@@ -335,18 +428,21 @@ export const useHomePageState = ({ authMe }: UseHomePageStateProps): UseHomePage
         allItems.push({
           subreddit: sr,
           flairId: flairs[normalizeSubredditKey(sr)],
+          flairText: (flairs[normalizeSubredditKey(sr)] && flairTexts[normalizeSubredditKey(sr)]?.trim()) || undefined,
           titleSuffix: titleSuffixes[normalizeSubredditKey(sr)],
           customTitle: effectiveTitle,
           kind: 'self',
           url: undefined,
           file: undefined,
-          text: effectiveBody || caption,
+          files: inlineImages.length > 0 ? inlineImages : undefined,
+          text: stripInlineImages(effectiveBody, inlineImages.length) || caption,
+          ...mergePostFlags(postFlags, override?.flags),
         });
       });
     }
     
     return allItems;
-  }, [selectedSubs, flairs, titleSuffixes, customTitles, contentOverrides, mediaUrl, mediaFiles, caption, body, postToProfile, authMe?.name]);
+  }, [selectedSubs, flairs, flairTexts, titleSuffixes, customTitles, contentOverrides, mediaType, poll, mediaUrl, mediaFiles, galleryItems, inlineImages, caption, body, postFlags, postToProfile, authMe?.name]);
 
   return {
     selectedSubs,
@@ -357,22 +453,34 @@ export const useHomePageState = ({ authMe }: UseHomePageStateProps): UseHomePage
     setBody,
     prefixes,
     setPrefixes,
+    postFlags,
+    setPostFlags,
     mediaUrl,
     setMediaUrl,
     mediaFiles,
     setMediaFiles,
+    galleryItems,
+    setGalleryItems,
+    inlineImages,
+    setInlineImages,
     mediaType,
     setMediaType,
+    poll,
+    setPoll,
     flairs,
     setFlairs,
     titleSuffixes,
     setTitleSuffixes,
+    flairTexts,
+    setFlairTexts,
     customTitles,
     setCustomTitles,
     contentOverrides,
     setContentOverrides,
     postToProfile,
     setPostToProfile,
+    crosspost,
+    setCrosspost,
     hasFlairErrors,
     setHasFlairErrors,
     showValidationErrors,
@@ -383,6 +491,7 @@ export const useHomePageState = ({ authMe }: UseHomePageStateProps): UseHomePage
     handleUnselectSuccessItems,
     clearSelection,
     clearAllState,
+    applyComposerDraft,
     // Last post settings feature
     hasLastPostSettings: lastPostSettings !== null && lastPostSettings.subreddits.length > 0,
     lastPostSettingsDate: lastPostSettings?.savedAt,
@@ -0,0 +1,43 @@
+/**
+ * useJobTimeline Hook
+ *
+ * Loads the event timeline of one queue job for the jobs dashboard.
+ * Refreshes while the job is still active.
+ */
+
+import useSWR from 'swr';
+import axios from 'axios';
+import type { QueueJobEvent, JobTimelineResponse } from '@/lib/queueJob';
+
+const ACTIVE_REFRESH_INTERVAL_MS = 5000;
+
+const fetcher = async (url: string): Promise<JobTimelineResponse> => {
+  const res = await axios.get<JobTimelineResponse>(url);
+  return res.data;
+};
+
+export interface UseJobTimelineReturn {
+  events: QueueJobEvent[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * @param active - Whether the job can still change (keeps the timeline refreshing)
+ */
+export function useJobTimeline(jobId: string | null, active: boolean): UseJobTimelineReturn {
+  const { data, error, isLoading } = useSWR(
+    jobId ? `/api/queue/timeline/${jobId}` : null,
+    fetcher,
+    {
+      dedupingInterval: 2000,
+      refreshInterval: active ? ACTIVE_REFRESH_INTERVAL_MS : 0,
+    }
+  );
+
+  return {
+    events: data?.events ?? [],
+    isLoading,
+    error: error ? 'Failed to load timeline' : data?.error ?? null,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * usePostActions Hook
+ *
+ * The posted copies of one job and a way to change them all on Reddit at
+ * once (POST /api/queue/actions/[jobId]). The job is loaded again after
+ * each action so deleted copies drop out.
+ */
+
+import { useCallback, useMemo } from 'react';
+import useSWR from 'swr';
+import axios from 'axios';
+import type { JobStatusResponse, QueueJob } from '@/lib/queueJob';
+import {
+  getPostActionTargets,
+  type PostActionInput,
+  type PostActionResponse,
+  type PostActionTarget,
+} from '@/lib/postActions';
+
+const fetcher = async (url: string): Promise<JobStatusResponse> => {
+  const res = await axios.get<JobStatusResponse>(url);
+  return res.data;
+};
+
+export interface UsePostActionsReturn {
+  job: QueueJob | null;
+  targets: PostActionTarget[];
+  isLoading: boolean;
+  error: string | null;
+  /** Apply an action; resolves with the response, errors included */
+  apply: (input: PostActionInput) => Promise<PostActionResponse>;
+}
+
+export function usePostActions(jobId: string | null): UsePostActionsReturn {
+  const { data, error, isLoading, mutate } = useSWR(
+    jobId ? `/api/queue/status/${jobId}` : null,
+    fetcher
+  );
+
+  const job = data?.job ?? null;
+  const targets = useMemo(() => (job ? getPostActionTargets(job) : []), [job]);
+
+  const apply = useCallback(async (input: PostActionInput): Promise<PostActionResponse> => {
+    if (!jobId) {
+      return { results: [], error: 'No job selected' };
+    }
+    try {
+      const res = await axios.post<PostActionResponse>(`/api/queue/actions/${jobId}`, input);
+      return res.data;
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        return { results: [], error: err.response.data.error as string };
+      }
+      return { results: [], error: 'Failed to change posts' };
+    } finally {
+      void mutate();
+    }
+  }, [jobId, mutate]);
+
+  return {
+    job,
+    targets,
+    isLoading,
+    error: error
+      ? (axios.isAxiosError(error) && error.response?.data?.error) || 'Failed to load posts'
+      : data?.error ?? null,
+    apply,
+  };
+}
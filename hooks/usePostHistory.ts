@@ -0,0 +1,88 @@
+/**
+ * usePostHistory Hook
+ *
+ * The user's finished jobs for the /history page, a page at a time, and
+ * "post again": the job is loaded, turned into a composer draft and left
+ * in localStorage for the home page to pick up.
+ */
+
+import { useCallback } from 'react';
+import useSWRInfinite from 'swr/infinite';
+import axios from 'axios';
+import type { JobStatusResponse } from '@/lib/queueJob';
+import {
+  buildComposerDraft,
+  COMPOSER_DRAFT_KEY,
+  type ComposerDraft,
+  type HistoryEntry,
+  type HistoryFilters,
+  type PostHistoryResponse,
+} from '@/lib/postHistory';
+import { SWR_KEYS } from '@/lib/swr';
+
+const fetcher = async (url: string): Promise<PostHistoryResponse> => {
+  const res = await axios.get<PostHistoryResponse>(url);
+  return res.data;
+};
+
+const toQuery = (filters: HistoryFilters, before: string | null): string => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  if (before) params.set('before', before);
+  return params.toString();
+};
+
+export interface UsePostHistoryReturn {
+  entries: HistoryEntry[];
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
+  error: string | null;
+  loadMore: () => void;
+  /** Load the pages shown again */
+  refresh: () => Promise<unknown>;
+  /** Leave a draft of the job for the composer, posting to `subreddits` */
+  postAgain: (jobId: string, subreddits: string[]) => Promise<ComposerDraft>;
+}
+
+export function usePostHistory(filters: HistoryFilters): UsePostHistoryReturn {
+  const { data, error, isLoading, size, setSize, mutate } = useSWRInfinite(
+    (_pageIndex: number, previous: PostHistoryResponse | null) => {
+      if (previous && !previous.nextCursor) return null;
+      return `${SWR_KEYS.POST_HISTORY}?${toQuery(filters, previous?.nextCursor ?? null)}`;
+    },
+    fetcher,
+    { revalidateFirstPage: false }
+  );
+
+  const last = data?.[data.length - 1];
+
+  const loadMore = useCallback(() => {
+    void setSize(current => current + 1);
+  }, [setSize]);
+
+  const postAgain = useCallback(async (jobId: string, subreddits: string[]): Promise<ComposerDraft> => {
+    const res = await axios.get<JobStatusResponse>(`/api/queue/status/${jobId}`);
+    if (!res.data.job) {
+      throw new Error(res.data.error || 'Post not found');
+    }
+    const draft = buildComposerDraft(res.data.job, subreddits);
+    localStorage.setItem(COMPOSER_DRAFT_KEY, JSON.stringify(draft));
+    return draft;
+  }, []);
+
+  return {
+    entries: data?.flatMap(page => page.entries) ?? [],
+    isLoading,
+    isLoadingMore: size > 0 && data !== undefined && data[size - 1] === undefined,
+    hasMore: !!last?.nextCursor,
+    error: error
+      ? (axios.isAxiosError(error) && error.response?.data?.error) || 'Failed to load history'
+      : last?.error ?? null,
+    loadMore,
+    refresh: mutate,
+    postAgain,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * usePostMetrics Hooks
+ *
+ * Score and comment snapshots of posted items for the jobs dashboard:
+ * per post for one job (sparklines), and aggregated per subreddit and job
+ * for the user. Samples arrive over days, so neither refreshes on its own.
+ */
+
+import useSWR from 'swr';
+import axios from 'axios';
+import type {
+  JobMetricsResponse,
+  JobMetricsAggregate,
+  PostMetricsAggregate,
+  PostMetricsSeries,
+  SubredditMetricsAggregate,
+  UserMetricsResponse,
+} from '@/lib/postMetrics';
+import { SWR_KEYS } from '@/lib/swr';
+
+const fetcher = async <T>(url: string): Promise<T> => {
+  const res = await axios.get<T>(url);
+  return res.data;
+};
+
+export interface UseJobMetricsReturn {
+  posts: PostMetricsSeries[];
+  summary: PostMetricsAggregate | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Snapshots of each successful post of a job (null jobId loads nothing).
+ */
+export function useJobMetrics(jobId: string | null): UseJobMetricsReturn {
+  const { data, error, isLoading } = useSWR(
+    jobId ? `${SWR_KEYS.POST_METRICS}/${jobId}` : null,
+    fetcher<JobMetricsResponse>
+  );
+
+  return {
+    posts: data?.posts ?? [],
+    summary: data?.summary ?? null,
+    isLoading,
+    error: error ? 'Failed to load post metrics' : data?.error ?? null,
+  };
+}
+
+export interface UseUserMetricsReturn {
+  subreddits: SubredditMetricsAggregate[];
+  jobs: JobMetricsAggregate[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Aggregates of the user's posts of the last 30 days.
+ */
+export function useUserMetrics(): UseUserMetricsReturn {
+  const { data, error, isLoading } = useSWR(SWR_KEYS.POST_METRICS, fetcher<UserMetricsResponse>);
+
+  return {
+    subreddits: data?.subreddits ?? [],
+    jobs: data?.jobs ?? [],
+    isLoading,
+    error: error ? 'Failed to load post metrics' : data?.error ?? null,
+  };
+}
@@ -38,6 +38,8 @@ import {
   logBatchComplete,
   logBatchFailed,
 } from '@/lib/sentryHelpers';
+import { IDEMPOTENCY_HEADER, createIdempotencyKey } from '@/lib/idempotency';
+import { createStreamParser, readEventStream, type BatchStreamEvent } from '@/lib/eventStream';
 
 // ============================================================================
 // Error Message Helper
@@ -139,6 +141,8 @@ export const usePostingQueue = ({
   const abortControllerRef = useRef<AbortController | null>(null);
   const cancelledRef = useRef(false);
   const queueStartTimeRef = useRef<number>(0);
+  // Idempotency key of the current run; retried batches reuse it so posted items are not sent again
+  const runKeyRef = useRef<string>('');
 
   // Calculate batch info based on current items
   const batchInfo: BatchInfo = getBatchInfo(items);
@@ -179,6 +183,7 @@ export const usePostingQueue = ({
     ));
 
     const hasFiles = batch.some(item => item.file || (item.files && item.files.length > 0));
+    const idempotencyHeaders = { [IDEMPOTENCY_HEADER]: `${runKeyRef.current}:${batchIndex}` };
 
     let res: Response;
     try {
@@ -187,11 +192,18 @@ export const usePostingQueue = ({
         formData.append('items', JSON.stringify(batch.map(item => ({
           subreddit: item.subreddit,
           flairId: item.flairId,
+          flairText: item.flairText,
           titleSuffix: item.titleSuffix,
           customTitle: item.customTitle,
           kind: item.kind,
           url: item.url,
           text: item.text,
+          nsfw: item.nsfw,
+          spoiler: item.spoiler,
+          sendReplies: item.sendReplies,
+          originalContent: item.originalContent,
+          galleryItems: item.galleryItems,
+          poll: item.poll,
         }))));
         formData.append('caption', caption);
         formData.append('prefixes', JSON.stringify(prefixes));
@@ -209,13 +221,14 @@ export const usePostingQueue = ({
 
         res = await fetch('/api/queue', {
           method: 'POST',
+          headers: idempotencyHeaders,
           body: formData,
           signal: controller.signal,
         });
       } else {
         res = await fetch('/api/queue', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...idempotencyHeaders },
           body: JSON.stringify({ items: batch, caption, prefixes }),
           signal: controller.signal,
         });
@@ -256,73 +269,65 @@ export const usePostingQueue = ({
     }
 
     // Process streaming response
-    const reader = res.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
     let batchSuccessCount = 0;
     let batchErrorCount = 0;
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const parts = buffer.split('\n');
-        buffer = parts.pop() || '';
-
-        for (const line of parts) {
-          if (!line.trim()) continue;
-          try {
-            const json = JSON.parse(line);
-
-            if (json.status === 'waiting') {
-              // Map batch index to global index
-              const globalIndex = globalStartIndex + json.index;
-              setCurrentWait({ 
-                index: globalIndex, 
-                seconds: json.delaySeconds, 
-                remaining: json.delaySeconds 
-              });
-            } else if (typeof json.index === 'number' && json.subreddit) {
-              // Map batch-local index to global index
-              const globalIndex = globalStartIndex + json.index;
-              
-              setCurrentWait(null);
-              setLogs(prev => prev.map(log => {
-                if (log.index === globalIndex && log.subreddit === json.subreddit) {
-                  return { ...log, ...json, index: globalIndex };
-                }
-                return log;
-              }));
-
-              // Update batch state counts
-              if (json.status === 'success') {
-                batchSuccessCount++;
-                addPostBreadcrumb(json.subreddit, 'success', { url: json.url });
-              } else if (json.status === 'error') {
-                batchErrorCount++;
-                addPostBreadcrumb(json.subreddit, 'error', { error: json.error });
-              }
-
-              // Update batch state with progress
-              setBatchStates(prev => prev.map((bs, idx) =>
-                idx === batchIndex 
-                  ? { 
-                      ...bs, 
-                      completedItems: batchSuccessCount + batchErrorCount,
-                      successCount: batchSuccessCount,
-                      errorCount: batchErrorCount,
-                    } 
-                  : bs
-              ));
+    const parser = createStreamParser((streamEvent) => {
+      const { event, data } = streamEvent as BatchStreamEvent;
+      switch (event) {
+        case 'waiting': {
+          // Map batch index to global index
+          const globalIndex = globalStartIndex + data.index;
+          setCurrentWait({ 
+            index: globalIndex, 
+            seconds: data.delaySeconds, 
+            remaining: data.delaySeconds 
+          });
+          break;
+        }
+
+        case 'item': {
+          // Map batch-local index to global index
+          const globalIndex = globalStartIndex + data.index;
+          
+          setCurrentWait(null);
+          setLogs(prev => prev.map(log => {
+            if (log.index === globalIndex && log.subreddit === data.subreddit) {
+              return { ...log, ...data, index: globalIndex };
             }
-          } catch (parseError) {
-            console.error('Failed to parse streaming JSON:', line, parseError);
-            addBatchBreadcrumb('Parse error in stream', batchIndex, { line }, 'warning');
+            return log;
+          }));
+
+          // Update batch state counts
+          if (data.status === 'success') {
+            batchSuccessCount++;
+            addPostBreadcrumb(data.subreddit, 'success', { url: data.url });
+          } else if (data.status === 'error') {
+            batchErrorCount++;
+            addPostBreadcrumb(data.subreddit, 'error', { error: data.error });
           }
+
+          // Update batch state with progress
+          setBatchStates(prev => prev.map((bs, idx) =>
+            idx === batchIndex 
+              ? { 
+                  ...bs, 
+                  completedItems: batchSuccessCount + batchErrorCount,
+                  successCount: batchSuccessCount,
+                  errorCount: batchErrorCount,
+                } 
+              : bs
+          ));
+          break;
         }
+
+        case 'error':
+          throw new Error(data.error);
       }
+    });
+
+    try {
+      await readEventStream(res, parser);
     } catch (streamError) {
       if (streamError instanceof Error && streamError.name === 'AbortError') {
         throw streamError;
@@ -400,6 +405,7 @@ export const usePostingQueue = ({
     setError(null);
     setCurrentBatchIndex(0);
     queueStartTimeRef.current = Date.now();
+    runKeyRef.current = createIdempotencyKey();
 
     // Initialize all logs as queued
     const initialLogs: LogEntry[] = itemsSnapshot.map((item, index) => ({
@@ -22,8 +22,12 @@ import {
 export interface UsePreflightValidationInput {
   title: string;
   body?: string;
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   url?: string;
+  /** Options and duration (for poll posts) */
+  poll?: import('@/lib/queueJob').PollDetails;
+  /** Whether each subreddit allows polls */
+  allowPolls?: Record<string, boolean | undefined>;
   subreddits: string[];
   flairValue: Record<string, string | undefined>;
   flairRequired: Record<string, boolean>;
@@ -34,6 +38,10 @@ export interface UsePreflightValidationInput {
   titleBySubreddit?: Record<string, string | undefined>;
   /** Per-subreddit body overrides (custom description) */
   bodyBySubreddit?: Record<string, string | undefined>;
+  /** Number of attached images/videos */
+  mediaCount?: number;
+  /** Gallery image captions and links by subreddit */
+  galleryItemsBySubreddit?: Record<string, import('@/lib/queueJob').GalleryItemDetails[] | undefined>;
   /** User data for eligibility checks */
   userData?: import('@/utils/reddit').RedditUser;
   /** Eligibility data by subreddit */
@@ -75,6 +83,8 @@ export function usePreflightValidation(input: UsePreflightValidationInput): UseP
       body: input.body,
       kind: input.kind,
       url: input.url,
+      poll: input.poll,
+      allowPolls: input.allowPolls,
       subreddits: input.subreddits,
       flairValue: input.flairValue,
       flairRequired: input.flairRequired,
@@ -83,6 +93,8 @@ export function usePreflightValidation(input: UsePreflightValidationInput): UseP
       titleSuffixes: input.titleSuffixes,
       titleBySubreddit: input.titleBySubreddit,
       bodyBySubreddit: input.bodyBySubreddit,
+      mediaCount: input.mediaCount,
+      galleryItemsBySubreddit: input.galleryItemsBySubreddit,
       userData: input.userData,
       eligibilityData: input.eligibilityData,
     };
@@ -93,6 +105,8 @@ export function usePreflightValidation(input: UsePreflightValidationInput): UseP
     input.body,
     input.kind,
     input.url,
+    input.poll,
+    input.allowPolls,
     input.subreddits,
     input.flairValue,
     input.flairRequired,
@@ -101,6 +115,8 @@ export function usePreflightValidation(input: UsePreflightValidationInput): UseP
     input.titleSuffixes,
     input.titleBySubreddit,
     input.bodyBySubreddit,
+    input.mediaCount,
+    input.galleryItemsBySubreddit,
     input.userData,
     input.eligibilityData,
   ]);
@@ -3,9 +3,10 @@
  * 
  * Manages the lifecycle of a queue job:
  * - Submit items to queue
- * - Subscribe to Realtime updates
- * - Poll the process endpoint to drive processing
- * - Handle cancellation
+ * - Watch progress through the job event stream (GET /api/queue/events/[jobId])
+ * - Poll the process endpoint to drive processing (browser-run jobs only)
+ * - Handle pause/resume and cancellation
+ * - Skip, remove or reorder items that have not been posted yet
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
@@ -15,11 +16,24 @@ import {
   QueueJobItem,
   QueueJobResult,
   QueueJobStatus,
-  JobProgressUpdate,
+  QueueJobSchedule,
+  QueueJobRunner,
+  QueueJobPacing,
+  QueueItemEdit,
+  PostFlags,
+  GalleryItemDetails,
+  PollDetails,
+  ProcessJobResponse,
   QUEUE_JOB_CONSTANTS,
 } from '@/lib/queueJob';
-import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import type { RepeatRule } from '@/lib/recurringJob';
+import {
+  subscribeToJobEvents,
+  type JobEventSubscription,
+  type JobStreamEvent,
+} from '@/lib/eventStream';
 import { captureClientError } from '@/lib/clientErrorHandler';
+import { IDEMPOTENCY_HEADER, createIdempotencyKey } from '@/lib/idempotency';
 import { useDirectUpload, UploadedFile } from './useDirectUpload';
 
 // ============================================================================
@@ -41,19 +55,28 @@ export interface QueueJobState {
   waitingSeconds: number | null;
   startedAtMs: number | null;
   endedAtMs: number | null;
+  /** Set when the job is posted later by the server */
+  scheduledAt: string | null;
+  /** 'server' when the queue worker posts the job and this tab only watches */
+  runner: QueueJobRunner | null;
+  /** The job only checks its items; results carry dry-run reports */
+  dryRun: boolean;
 }
 
 export interface QueueJobSubmission {
-  items: Array<{
+  items: Array<PostFlags & {
     subreddit: string;
     flairId?: string;
+    flairText?: string;
     titleSuffix?: string;
     customTitle?: string;
-    kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+    kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
     url?: string;
     text?: string;
     file?: File;
     files?: File[];
+    galleryItems?: GalleryItemDetails[];
+    poll?: PollDetails;
   }>;
   caption: string;
   prefixes: { f?: boolean; c?: boolean };
@@ -64,22 +87,52 @@ export interface SubmitOptions {
   showToast?: boolean;
   /** Custom toast title (default: "Submission Failed") */
   toastTitle?: string;
+  /** Post later from the server instead of now from this tab */
+  schedule?: QueueJobSchedule;
+  /** Drip the items out over time (posted by the server) */
+  pacing?: QueueJobPacing;
+  /** Repeat the scheduled post; resolves to the recurring job's ID instead of a job ID */
+  repeat?: RepeatRule;
+  /** Check every item without posting (cannot be combined with the options above) */
+  dryRun?: boolean;
+  /** Post the first item, then crosspost it to the others (not with dryRun) */
+  crosspost?: boolean;
+}
+
+export interface ResumeJobOptions {
+  /** Only watch progress; never drive a browser-run job from this tab (e.g. the jobs dashboard) */
+  watchOnly?: boolean;
 }
 
 /**
  * Single item for retry operations.
  * Used when retrying individual failed posts.
  */
-export interface RetryItemInput {
+export interface RetryItemInput extends PostFlags {
   subreddit: string;
   flairId?: string;
+  flairText?: string;
   titleSuffix?: string;
   customTitle?: string;
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   url?: string;
   text?: string;
   file?: File;
   files?: File[];
+  galleryItems?: GalleryItemDetails[];
+  poll?: PollDetails;
+}
+
+/**
+ * A submission that got no answer from the server. Sending the same
+ * submission again reuses its key and uploads, so the server returns the
+ * job if the first request did create it.
+ */
+interface PendingSubmit {
+  fingerprint: string;
+  idempotencyKey: string;
+  jobFolder: string;
+  uploadedFiles: UploadedFile[];
 }
 
 export interface UseQueueJobReturn {
@@ -98,8 +151,14 @@ export interface UseQueueJobReturn {
     prefixes: { f?: boolean; c?: boolean }
   ) => Promise<string | null>;
   cancel: () => Promise<boolean>;
+  /** Pause the job after its current item */
+  pause: () => Promise<boolean>;
+  /** Continue a paused job */
+  resume: () => Promise<boolean>;
+  /** Skip, remove or reorder a not-yet-posted item of a paused or waiting job */
+  editItems: (edit: QueueItemEdit) => Promise<boolean>;
   reset: () => void;
-  resumeJob: (jobId: string) => Promise<void>;
+  resumeJob: (jobId: string, options?: ResumeJobOptions) => Promise<void>;
 }
 
 // ============================================================================
@@ -121,6 +180,9 @@ const initialState: QueueJobState = {
   waitingSeconds: null,
   startedAtMs: null,
   endedAtMs: null,
+  scheduledAt: null,
+  runner: null,
+  dryRun: false,
 };
 
 const generateJobFolder = (username: string): string => {
@@ -129,6 +191,31 @@ const generateJobFolder = (username: string): string => {
   return `${username}/${date}/job_${shortId}`;
 };
 
+/** Times the submit request is resent after a network error */
+const SUBMIT_NETWORK_RETRIES = 2;
+const SUBMIT_RETRY_DELAY_MS = 1000;
+
+/**
+ * What identifies a submission for PendingSubmit: everything sent to the
+ * server, with files by name, size and modification time.
+ */
+const getSubmissionFingerprint = (
+  items: unknown[],
+  sharedFiles: File[],
+  submission: QueueJobSubmission,
+  options: Pick<SubmitOptions, 'schedule' | 'pacing' | 'repeat' | 'dryRun' | 'crosspost'>
+): string => JSON.stringify({
+  items,
+  caption: submission.caption,
+  prefixes: submission.prefixes,
+  files: sharedFiles.map(file => [file.name, file.size, file.lastModified]),
+  schedule: options.schedule ?? null,
+  pacing: options.pacing ?? null,
+  repeat: options.repeat ?? null,
+  dryRun: options.dryRun ?? false,
+  crosspost: options.crosspost ?? false,
+});
+
 const isTerminalStatus = (status: QueueJobStatus | null): boolean =>
   status === 'completed' || status === 'failed' || status === 'cancelled';
 
@@ -166,11 +253,11 @@ export function useQueueJob(): UseQueueJobReturn {
   const { uploadFiles, cancelUpload, isUploading, progress: uploadProgress } = useDirectUpload();
   
   // Refs for cleanup
-  const supabaseClientRef = useRef<SupabaseClient | null>(null);
-  const channelRef = useRef<RealtimeChannel | null>(null);
+  const subscriptionRef = useRef<JobEventSubscription | null>(null);
   const pollingRef = useRef<NodeJS.Timeout | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const submitAbortControllerRef = useRef<AbortController | null>(null);
+  const pendingSubmitRef = useRef<PendingSubmit | null>(null);
   const isProcessingRef = useRef(false);
 
   // Sync upload state
@@ -182,94 +269,30 @@ export function useQueueJob(): UseQueueJobReturn {
     }));
   }, [isUploading, uploadProgress]);
 
-  // ============================================================================
-  // Realtime Subscription
-  // ============================================================================
-
-  const getSupabaseClient = useCallback(async (): Promise<SupabaseClient> => {
-    if (supabaseClientRef.current) {
-      return supabaseClientRef.current;
-    }
-
-    const module = await import('@/lib/supabase');
-    supabaseClientRef.current = module.supabase;
-    return module.supabase;
-  }, []);
-
-  const removeCurrentChannel = useCallback(() => {
-    if (channelRef.current && supabaseClientRef.current) {
-      supabaseClientRef.current.removeChannel(channelRef.current);
-    }
-    channelRef.current = null;
-  }, []);
-
-  const subscribeToJob = useCallback(async (jobId: string) => {
-    const supabaseClient = await getSupabaseClient();
-
-    // Clean up existing subscription
-    removeCurrentChannel();
-
-    const channel = supabaseClient
-      .channel(`queue_job:${jobId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'queue_jobs',
-          filter: `id=eq.${jobId}`,
-        },
-        (payload) => {
-          const job = payload.new as QueueJob;
-          setState(prev => ({
-            ...prev,
-            status: job.status,
-            currentIndex: job.current_index,
-            results: mergeResultsByIndex(prev.results, job.results || []),
-            error: job.error,
-            isProcessing: job.status === 'processing',
-            startedAtMs: prev.startedAtMs ?? (job.started_at ? Date.parse(job.started_at) : null),
-            endedAtMs: isTerminalStatus(job.status)
-              ? (job.completed_at ? Date.parse(job.completed_at) : Date.now())
-              : prev.endedAtMs,
-          }));
-
-          // Stop polling if job is done
-          if (['completed', 'failed', 'cancelled'].includes(job.status)) {
-            stopPolling();
-          }
-        }
-      )
-      .subscribe((status) => {
-        setState(prev => ({
-          ...prev,
-          isConnected: status === 'SUBSCRIBED',
-        }));
-      });
-
-    channelRef.current = channel;
-  }, [getSupabaseClient, removeCurrentChannel]);
-
-  const unsubscribeFromJob = useCallback(() => {
-    removeCurrentChannel();
-  }, [removeCurrentChannel]);
-
   // ============================================================================
   // Polling for Processing
   // ============================================================================
 
-  const stopPolling = useCallback(() => {
+  const clearPollingInterval = useCallback(() => {
     if (pollingRef.current) {
       clearInterval(pollingRef.current);
       pollingRef.current = null;
     }
+  }, []);
+
+  const stopPolling = useCallback(() => {
+    clearPollingInterval();
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
     isProcessingRef.current = false;
-  }, []);
+  }, [clearPollingInterval]);
 
+  /**
+   * Run the job on the server until it is done, paused or deferred.
+   * Progress arrives through the event stream, not this request.
+   */
   const processJob = useCallback(async (jobId: string) => {
     if (isProcessingRef.current) {
       return; // Already processing
@@ -284,99 +307,46 @@ export function useQueueJob(): UseQueueJobReturn {
         signal: abortControllerRef.current.signal,
       });
 
+      // Another request (e.g. another tab) is running the job - keep watching
+      if (response.status === 409) {
+        return;
+      }
+
+      const data: ProcessJobResponse = await response.json();
+
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to process job');
+        throw new Error(data.error || 'Failed to process job');
       }
 
-      if (!response.body) {
-        throw new Error('No response body');
+      if (data.error) {
+        setState(prev => ({
+          ...prev,
+          error: data.error || 'Unknown error',
+          isProcessing: false,
+          endedAtMs: prev.endedAtMs ?? Date.now(),
+        }));
       }
 
-      // Read streaming response
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const parts = buffer.split('\n');
-        buffer = parts.pop() || '';
-
-        for (const line of parts) {
-          if (!line.trim()) continue;
-          
-          try {
-            const update: JobProgressUpdate = JSON.parse(line);
-            
-            switch (update.type) {
-              case 'status':
-                setState(prev => ({
-                  ...prev,
-                  status: update.status || prev.status,
-                  currentIndex: update.currentIndex ?? prev.currentIndex,
-                  isProcessing: update.status === 'processing',
-                }));
-                break;
-              
-              case 'progress':
-                setState(prev => ({
-                  ...prev,
-                  currentIndex: update.currentIndex ?? prev.currentIndex,
-                  waitingSeconds: null,
-                }));
-                break;
-              
-              case 'result':
-                if (update.result) {
-                  setState(prev => ({
-                    ...prev,
-                    results: mergeResultsByIndex(prev.results, [update.result!]),
-                    currentIndex: (update.result!.index || 0) + 1,
-                    waitingSeconds: null,
-                  }));
-                }
-                break;
-              
-              case 'waiting':
-                setState(prev => ({
-                  ...prev,
-                  waitingSeconds: update.waitSeconds || null,
-                }));
-                break;
-              
-              case 'complete':
-                setState(prev => ({
-                  ...prev,
-                  status: 'completed',
-                  isProcessing: false,
-                  waitingSeconds: null,
-                  endedAtMs: prev.endedAtMs ?? Date.now(),
-                }));
-                stopPolling();
-                break;
-              
-              case 'error':
-                setState(prev => ({
-                  ...prev,
-                  error: update.error || 'Unknown error',
-                  isProcessing: false,
-                  endedAtMs: prev.endedAtMs ?? Date.now(),
-                }));
-                break;
-            }
-          } catch (parseError) {
-            Sentry.addBreadcrumb({
-              category: 'queue.stream',
-              message: 'Failed to parse stream update',
-              level: 'warning',
-              data: { line },
-            });
-          }
-        }
+      switch (data.outcome) {
+        case 'completed':
+          setState(prev => ({
+            ...prev,
+            status: 'completed',
+            isProcessing: false,
+            waitingSeconds: null,
+            endedAtMs: prev.endedAtMs ?? Date.now(),
+          }));
+          stopPolling();
+          break;
+
+        case 'cancelled':
+          stopPolling();
+          break;
+
+        // Paused jobs wait for resume instead of being polled again
+        case 'paused':
+          clearPollingInterval();
+          break;
       }
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
@@ -395,7 +365,7 @@ export function useQueueJob(): UseQueueJobReturn {
     } finally {
       isProcessingRef.current = false;
     }
-  }, [stopPolling]);
+  }, [stopPolling, clearPollingInterval]);
 
   const startPolling = useCallback((jobId: string) => {
     // Process immediately
@@ -410,6 +380,89 @@ export function useQueueJob(): UseQueueJobReturn {
     }, QUEUE_JOB_CONSTANTS.POLLING_INTERVAL_MS);
   }, [processJob]);
 
+  // ============================================================================
+  // Event Stream
+  // ============================================================================
+
+  const handleStreamEvent = useCallback((streamEvent: JobStreamEvent) => {
+    switch (streamEvent.event) {
+      case 'job': {
+        const job = streamEvent.data;
+        const finished = isTerminalStatus(job.status);
+        setState(prev => ({
+          ...prev,
+          status: job.status,
+          items: job.items ?? prev.items,
+          currentIndex: job.current_index,
+          results: mergeResultsByIndex(prev.results, job.results || []),
+          error: job.error,
+          isProcessing: job.status === 'processing',
+          waitingSeconds: finished || job.status === 'paused' ? null : prev.waitingSeconds,
+          startedAtMs: prev.startedAtMs ?? (job.started_at ? Date.parse(job.started_at) : null),
+          endedAtMs: finished
+            ? (job.completed_at ? Date.parse(job.completed_at) : Date.now())
+            : prev.endedAtMs,
+        }));
+
+        if (finished) {
+          stopPolling();
+        }
+        break;
+      }
+
+      case 'timeline': {
+        const event = streamEvent.data;
+        if (event.type === 'waiting' && typeof event.data.until === 'string') {
+          const waitSeconds = Math.ceil((Date.parse(event.data.until) - Date.now()) / 1000);
+          if (waitSeconds > 0) {
+            setState(prev => ({ ...prev, waitingSeconds: waitSeconds }));
+          }
+        } else if (event.type === 'item_started') {
+          setState(prev => ({ ...prev, waitingSeconds: null }));
+        }
+        break;
+      }
+
+      case 'end':
+        stopPolling();
+        setState(prev => ({
+          ...prev,
+          isProcessing: false,
+          waitingSeconds: null,
+        }));
+        break;
+
+      case 'error':
+        Sentry.addBreadcrumb({
+          category: 'queue.stream',
+          message: 'Job event stream error',
+          level: 'warning',
+          data: { error: streamEvent.data.error },
+        });
+        break;
+    }
+  }, [stopPolling]);
+
+  const unsubscribeFromJob = useCallback(() => {
+    subscriptionRef.current?.close();
+    subscriptionRef.current = null;
+  }, []);
+
+  const subscribeToJob = useCallback((jobId: string) => {
+    // Clean up existing subscription
+    unsubscribeFromJob();
+
+    subscriptionRef.current = subscribeToJobEvents(jobId, {
+      onEvent: handleStreamEvent,
+      onConnectionChange: (connected) => {
+        setState(prev => ({ ...prev, isConnected: connected }));
+      },
+      onError: (message) => {
+        setState(prev => ({ ...prev, error: message, isConnected: false }));
+      },
+    });
+  }, [unsubscribeFromJob, handleStreamEvent]);
+
   // ============================================================================
   // Submit Job
   // ============================================================================
@@ -418,7 +471,7 @@ export function useQueueJob(): UseQueueJobReturn {
     submission: QueueJobSubmission,
     options: SubmitOptions = {}
   ): Promise<string | null> => {
-    const { showToast = true, toastTitle = 'Submission Failed' } = options;
+    const { showToast = true, toastTitle = 'Submission Failed', schedule, pacing, repeat, dryRun, crosspost } = options;
 
     // Create abort controller for the submit request
     submitAbortControllerRef.current = new AbortController();
@@ -437,11 +490,18 @@ export function useQueueJob(): UseQueueJobReturn {
       const itemsForServer = submission.items.map(item => ({
         subreddit: item.subreddit,
         flairId: item.flairId,
+        flairText: item.flairText,
         titleSuffix: item.titleSuffix,
         customTitle: item.customTitle,
         kind: item.kind,
         url: item.url,
         text: item.text,
+        nsfw: item.nsfw,
+        spoiler: item.spoiler,
+        sendReplies: item.sendReplies,
+        originalContent: item.originalContent,
+        galleryItems: item.galleryItems,
+        poll: item.poll,
       }));
 
       // Collect shared files (uploaded once, used by all items)
@@ -457,15 +517,24 @@ export function useQueueJob(): UseQueueJobReturn {
         throw new Error('Please attach a media file for image, video, or gallery posts.');
       }
 
+      // Same submission as one that got no answer - reuse its key and uploads
+      const fingerprint = getSubmissionFingerprint(itemsForServer, sharedFiles, submission, { schedule, pacing, repeat, dryRun, crosspost });
+      const pending = pendingSubmitRef.current?.fingerprint === fingerprint
+        ? pendingSubmitRef.current
+        : null;
+
       // Generate job folder for direct uploads
-      const jobFolder = generateJobFolder('user');
-      let uploadedFiles: UploadedFile[] = [];
+      const jobFolder = pending?.jobFolder ?? generateJobFolder('user');
+      let uploadedFiles: UploadedFile[] = pending?.uploadedFiles ?? [];
 
       // Upload files directly to Supabase Storage (bypasses Vercel 4.5MB limit)
-      if (sharedFiles.length > 0) {
+      if (!pending && sharedFiles.length > 0) {
         uploadedFiles = await uploadFiles(sharedFiles, jobFolder, -1);
       }
 
+      const idempotencyKey = pending?.idempotencyKey ?? createIdempotencyKey();
+      pendingSubmitRef.current = { fingerprint, idempotencyKey, jobFolder, uploadedFiles };
+
       // Build request body (metadata only - no file binaries)
       const requestBody = {
         items: itemsForServer,
@@ -480,6 +549,11 @@ export function useQueueJob(): UseQueueJobReturn {
           itemIndex: f.itemIndex,
           fileIndex: f.fileIndex,
         })),
+        schedule,
+        pacing,
+        repeat,
+        ...(dryRun && { dryRun }),
+        ...(crosspost && { crosspost }),
       };
 
       // Check if aborted before submitting
@@ -487,13 +561,30 @@ export function useQueueJob(): UseQueueJobReturn {
         throw new DOMException('Aborted', 'AbortError');
       }
 
-      // Submit to API (lightweight JSON, no file binaries)
-      const response = await fetch('/api/queue/submit', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody),
-        signal: submitSignal,
-      });
+      // Submit to API (lightweight JSON, no file binaries).
+      // Network errors are retried with the same key, so at most one job is created
+      let response: Response | null = null;
+      for (let attempt = 0; !response; attempt++) {
+        try {
+          response = await fetch('/api/queue/submit', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', [IDEMPOTENCY_HEADER]: idempotencyKey },
+            body: JSON.stringify(requestBody),
+            signal: submitSignal,
+          });
+        } catch (fetchError) {
+          const isNetworkError = fetchError instanceof TypeError;
+          if (!isNetworkError || attempt >= SUBMIT_NETWORK_RETRIES) {
+            throw fetchError;
+          }
+          await new Promise(resolve => setTimeout(resolve, SUBMIT_RETRY_DELAY_MS));
+        }
+      }
+
+      // The server answered for this key; server errors may have created the job, so keep it for those
+      if (response.status < 500) {
+        pendingSubmitRef.current = null;
+      }
 
       const data = await response.json();
 
@@ -501,14 +592,46 @@ export function useQueueJob(): UseQueueJobReturn {
         throw new Error(data.error || 'Failed to submit job');
       }
 
+      // A recurring job creates its jobs later - nothing to track here
+      if (data.recurringJobId) {
+        setState(initialState);
+        return data.recurringJobId as string;
+      }
+
       const jobId = data.jobId;
+      // Drip-paced items come back with their planned times
+      const storedItems: QueueJobItem[] = data.items ?? itemsForServer;
+
+      // Scheduled jobs are posted by the server - nothing to drive from this tab
+      if (schedule) {
+        setState(prev => ({
+          ...prev,
+          jobId,
+          status: 'scheduled',
+          items: storedItems,
+          results: [],
+          currentIndex: 0,
+          isSubmitting: false,
+          isUploading: false,
+          uploadProgress: null,
+          error: null,
+          startedAtMs: null,
+          endedAtMs: null,
+          scheduledAt: schedule.scheduledAt,
+          runner: 'server',
+          dryRun: false,
+        }));
+        return jobId;
+      }
+
+      const runner: QueueJobRunner = data.runner ?? 'browser';
 
       // Update state with job info
       setState(prev => ({
         ...prev,
         jobId,
         status: 'pending',
-        items: itemsForServer,
+        items: storedItems,
         results: [],
         currentIndex: 0,
         isSubmitting: false,
@@ -517,11 +640,16 @@ export function useQueueJob(): UseQueueJobReturn {
         error: null,
         startedAtMs: Date.now(),
         endedAtMs: null,
+        scheduledAt: null,
+        runner,
+        dryRun: dryRun === true,
       }));
 
-      // Subscribe to updates and start processing
+      // Subscribe to updates; the browser only drives processing for its own jobs
       subscribeToJob(jobId);
-      startPolling(jobId);
+      if (runner === 'browser') {
+        startPolling(jobId);
+      }
 
       return jobId;
     } catch (error) {
@@ -668,11 +796,131 @@ export function useQueueJob(): UseQueueJobReturn {
     }
   }, [state.jobId, state.isSubmitting, stopPolling, cancelUpload]);
 
+  // ============================================================================
+  // Pause / Resume
+  // ============================================================================
+
+  const pause = useCallback(async (): Promise<boolean> => {
+    const jobId = state.jobId;
+    if (!jobId) return false;
+
+    try {
+      // Stop starting new process requests; the running one ends after its current item
+      clearPollingInterval();
+
+      const response = await fetch(`/api/queue/pause/${jobId}`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to pause job');
+      }
+
+      setState(prev => ({
+        ...prev,
+        status: 'paused',
+        isProcessing: false,
+        waitingSeconds: null,
+      }));
+
+      return true;
+    } catch (error) {
+      captureClientError(error, 'useQueueJob.pause', {
+        toastTitle: 'Pause Failed',
+        context: { jobId },
+      });
+      return false;
+    }
+  }, [state.jobId, clearPollingInterval]);
+
+  const resume = useCallback(async (): Promise<boolean> => {
+    const jobId = state.jobId;
+    if (!jobId) return false;
+
+    try {
+      const response = await fetch(`/api/queue/resume/${jobId}`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to resume job');
+      }
+
+      const job: QueueJob = data.job;
+
+      setState(prev => ({
+        ...prev,
+        status: job.status,
+        items: job.items,
+        error: null,
+      }));
+
+      if (job.runner === 'browser') {
+        clearPollingInterval();
+        startPolling(jobId);
+      }
+
+      return true;
+    } catch (error) {
+      captureClientError(error, 'useQueueJob.resume', {
+        toastTitle: 'Resume Failed',
+        context: { jobId },
+      });
+      return false;
+    }
+  }, [state.jobId, clearPollingInterval, startPolling]);
+
+  // ============================================================================
+  // Item Editing
+  // ============================================================================
+
+  const editItems = useCallback(async (edit: QueueItemEdit): Promise<boolean> => {
+    const jobId = state.jobId;
+    if (!jobId) return false;
+
+    try {
+      const response = await fetch(`/api/queue/items/${jobId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(edit),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to update posts');
+      }
+
+      const job: QueueJob = data.job;
+
+      setState(prev => ({
+        ...prev,
+        items: job.items,
+        currentIndex: job.current_index,
+      }));
+
+      return true;
+    } catch (error) {
+      captureClientError(error, 'useQueueJob.editItems', {
+        toastTitle: 'Update Failed',
+        context: { jobId, action: edit.action },
+      });
+      return false;
+    }
+  }, [state.jobId]);
+
   // ============================================================================
   // Resume Job (for page refresh)
   // ============================================================================
 
-  const resumeJob = useCallback(async (jobId: string): Promise<void> => {
+  const resumeJob = useCallback(async (
+    jobId: string,
+    { watchOnly = false }: ResumeJobOptions = {}
+  ): Promise<void> => {
     try {
       const response = await fetch(`/api/queue/status/${jobId}`);
       const data = await response.json();
@@ -700,12 +948,29 @@ export function useQueueJob(): UseQueueJobReturn {
         endedAtMs: isTerminalStatus(job.status)
           ? (job.completed_at ? Date.parse(job.completed_at) : Date.now())
           : null,
+        scheduledAt: job.scheduled_at,
+        runner: job.runner,
+        dryRun: job.dry_run,
       });
 
+      // Server-run jobs (scheduled or worker-driven) - only watch their progress
+      if (job.runner === 'server' && !isTerminalStatus(job.status)) {
+        subscribeToJob(jobId);
+        return;
+      }
+
+      // Paused jobs only need watching until they are resumed
+      if (job.status === 'paused') {
+        subscribeToJob(jobId);
+        return;
+      }
+
       // If job is still active, subscribe and start polling
       if (['pending', 'processing'].includes(job.status)) {
         subscribeToJob(jobId);
-        startPolling(jobId);
+        if (!watchOnly) {
+          startPolling(jobId);
+        }
       }
     } catch (error) {
       const errorMessage = captureClientError(error, 'useQueueJob.resumeJob', {
@@ -765,6 +1030,9 @@ export function useQueueJob(): UseQueueJobReturn {
     retryItem,
     retryItems,
     cancel,
+    pause,
+    resume,
+    editItems,
     reset,
     resumeJob,
   };
@@ -0,0 +1,72 @@
+/**
+ * useQueueJobs Hook
+ *
+ * Lists all of the user's queue jobs (active and recently finished) for the
+ * jobs dashboard and exposes a cancel action. Refreshes while jobs are active.
+ */
+
+import { useCallback } from 'react';
+import useSWR from 'swr';
+import axios from 'axios';
+import type { QueueJob, ListJobsResponse, CancelJobResponse, JobQueueLimits } from '@/lib/queueJob';
+import { SWR_KEYS } from '@/lib/swr';
+import { captureClientError } from '@/lib/clientErrorHandler';
+
+const ACTIVE_REFRESH_INTERVAL_MS = 5000;
+
+const fetcher = async (url: string): Promise<ListJobsResponse> => {
+  const res = await axios.get<ListJobsResponse>(url);
+  return res.data;
+};
+
+const isActiveJob = (job: QueueJob): boolean =>
+  ['scheduled', 'pending', 'processing', 'paused'].includes(job.status);
+
+export interface UseQueueJobsReturn {
+  jobs: QueueJob[];
+  /** How many jobs can be going at once, once loaded */
+  limits: JobQueueLimits | null;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  cancel: (jobId: string) => Promise<boolean>;
+}
+
+export function useQueueJobs(): UseQueueJobsReturn {
+  const { data, error, isLoading, mutate } = useSWR(SWR_KEYS.QUEUE_JOBS, fetcher, {
+    revalidateOnFocus: true,
+    dedupingInterval: 2000,
+    refreshInterval: (latest) =>
+      latest?.jobs.some(isActiveJob) ? ACTIVE_REFRESH_INTERVAL_MS : 0,
+  });
+
+  const refresh = useCallback(async () => {
+    await mutate();
+  }, [mutate]);
+
+  const cancel = useCallback(async (jobId: string): Promise<boolean> => {
+    try {
+      const { data: response } = await axios.post<CancelJobResponse>(`/api/queue/cancel/${jobId}`);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to cancel');
+      }
+      await mutate();
+      return true;
+    } catch (error) {
+      captureClientError(error, 'useQueueJobs.cancel', {
+        toastTitle: 'Cancel Failed',
+        context: { jobId },
+      });
+      return false;
+    }
+  }, [mutate]);
+
+  return {
+    jobs: data?.jobs ?? [],
+    limits: data?.limits ?? null,
+    isLoading,
+    error: error ? 'Failed to load jobs' : data?.error ?? null,
+    refresh,
+    cancel,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * useRecurringJobs Hook
+ *
+ * Lists the user's recurring jobs for the recurring page and exposes
+ * update (pause/resume and edits) and delete actions.
+ */
+
+import { useCallback } from 'react';
+import useSWR from 'swr';
+import axios from 'axios';
+import type {
+  RecurringJobUpdate,
+  RecurringJobWithRuns,
+  ListRecurringJobsResponse,
+  UpdateRecurringJobResponse,
+} from '@/lib/recurringJob';
+import { SWR_KEYS } from '@/lib/swr';
+import { captureClientError } from '@/lib/clientErrorHandler';
+
+const fetcher = async (url: string): Promise<ListRecurringJobsResponse> => {
+  const res = await axios.get<ListRecurringJobsResponse>(url);
+  return res.data;
+};
+
+export interface UseRecurringJobsReturn {
+  series: RecurringJobWithRuns[];
+  isLoading: boolean;
+  error: string | null;
+  update: (seriesId: string, changes: RecurringJobUpdate) => Promise<boolean>;
+  remove: (seriesId: string) => Promise<boolean>;
+}
+
+export function useRecurringJobs(): UseRecurringJobsReturn {
+  const { data, error, isLoading, mutate } = useSWR(SWR_KEYS.RECURRING_JOBS, fetcher, {
+    dedupingInterval: 5000,
+    refreshInterval: 60000,
+  });
+
+  const update = useCallback(async (
+    seriesId: string,
+    changes: RecurringJobUpdate
+  ): Promise<boolean> => {
+    try {
+      const { data: response } = await axios.patch<UpdateRecurringJobResponse>(
+        `${SWR_KEYS.RECURRING_JOBS}/${seriesId}`,
+        changes
+      );
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to update recurring post');
+      }
+      await mutate();
+      return true;
+    } catch (err) {
+      captureClientError(err, 'useRecurringJobs.update', {
+        toastTitle: 'Update Failed',
+        context: { seriesId },
+      });
+      return false;
+    }
+  }, [mutate]);
+
+  const remove = useCallback(async (seriesId: string): Promise<boolean> => {
+    try {
+      const { data: response } = await axios.delete<UpdateRecurringJobResponse>(
+        `${SWR_KEYS.RECURRING_JOBS}/${seriesId}`
+      );
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to delete recurring post');
+      }
+      await mutate();
+      return true;
+    } catch (err) {
+      captureClientError(err, 'useRecurringJobs.remove', {
+        toastTitle: 'Delete Failed',
+        context: { seriesId },
+      });
+      return false;
+    }
+  }, [mutate]);
+
+  return {
+    series: data?.series ?? [],
+    isLoading,
+    error: error ? 'Failed to load recurring posts' : data?.error ?? null,
+    update,
+    remove,
+  };
+}
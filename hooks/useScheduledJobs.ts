@@ -0,0 +1,91 @@
+/**
+ * useScheduledJobs Hook
+ *
+ * Lists the user's upcoming scheduled queue jobs and exposes
+ * reschedule/cancel actions for them.
+ */
+
+import { useCallback } from 'react';
+import useSWR from 'swr';
+import axios from 'axios';
+import type {
+  QueueJob,
+  QueueJobSchedule,
+  ListJobsResponse,
+  RescheduleJobResponse,
+  CancelJobResponse,
+} from '@/lib/queueJob';
+import { SWR_KEYS } from '@/lib/swr';
+import { captureClientError } from '@/lib/clientErrorHandler';
+
+const fetcher = async (url: string): Promise<ListJobsResponse> => {
+  const res = await axios.get<ListJobsResponse>(url);
+  return res.data;
+};
+
+export interface UseScheduledJobsReturn {
+  jobs: QueueJob[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+  reschedule: (jobId: string, schedule: QueueJobSchedule) => Promise<boolean>;
+  cancel: (jobId: string) => Promise<boolean>;
+}
+
+export function useScheduledJobs(): UseScheduledJobsReturn {
+  const { data, isLoading, mutate } = useSWR(SWR_KEYS.SCHEDULED_JOBS, fetcher, {
+    revalidateOnFocus: true,
+    dedupingInterval: 5000,
+  });
+
+  const refresh = useCallback(async () => {
+    await mutate();
+  }, [mutate]);
+
+  const reschedule = useCallback(async (
+    jobId: string,
+    schedule: QueueJobSchedule
+  ): Promise<boolean> => {
+    try {
+      const { data: response } = await axios.post<RescheduleJobResponse>(
+        `/api/queue/reschedule/${jobId}`,
+        schedule
+      );
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to reschedule');
+      }
+      await mutate();
+      return true;
+    } catch (error) {
+      captureClientError(error, 'useScheduledJobs.reschedule', {
+        toastTitle: 'Reschedule Failed',
+        context: { jobId },
+      });
+      return false;
+    }
+  }, [mutate]);
+
+  const cancel = useCallback(async (jobId: string): Promise<boolean> => {
+    try {
+      const { data: response } = await axios.post<CancelJobResponse>(`/api/queue/cancel/${jobId}`);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to cancel');
+      }
+      await mutate();
+      return true;
+    } catch (error) {
+      captureClientError(error, 'useScheduledJobs.cancel', {
+        toastTitle: 'Cancel Failed',
+        context: { jobId },
+      });
+      return false;
+    }
+  }, [mutate]);
+
+  return {
+    jobs: data?.jobs ?? [],
+    isLoading,
+    refresh,
+    reschedule,
+    cancel,
+  };
+}
@@ -2,7 +2,7 @@ import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import * as Sentry from '@sentry/nextjs';
 import { useSubreddits } from './useSubreddits';
 import { useLocalSubredditCache } from './useLocalSubredditCache';
-import { PostRequirements, SubredditEligibility } from '../utils/reddit';
+import { FlairOption, PostRequirements, SubredditEligibility } from '../utils/reddit';
 import { TitleTag, UnifiedSubredditData } from '../types/api';
 import { ParsedRequirements } from '../lib/parseSubredditRequirements';
 import { normalizeSubredditKey } from '@/lib/subredditKey';
@@ -34,7 +34,7 @@ interface UseSubredditFlairDataOptions {
 interface UseSubredditFlairDataReturn {
   allSubreddits: string[];
   categorizedSubreddits: { categoryName: string; subreddits: string[] }[];
-  flairOptions: Record<string, { id: string; text: string }[]>;
+  flairOptions: Record<string, FlairOption[]>;
   flairRequired: Record<string, boolean>;
   subredditRules: Record<string, SubredditRulesData>;
   postRequirements: Record<string, PostRequirements>;
@@ -70,6 +70,10 @@ function toEligibilityData(data: UnifiedSubredditData): SubredditEligibility {
     userIsModerator: data.userIsModerator ?? false,
   };
 
+  if (data.allowPolls !== undefined) {
+    eligibility.allowPolls = data.allowPolls;
+  }
+
   // CRITICAL: Only add userIsContributor if it exists in the source data
   // This field should NOT exist if Reddit didn't explicitly return it
   if (data.userIsContributor !== undefined) {
@@ -89,7 +93,7 @@ export const useSubredditFlairData = (options: UseSubredditFlairDataOptions = {}
   const localCache = useLocalSubredditCache();
 
   // State for derived data
-  const [flairOptions, setFlairOptions] = useState<Record<string, { id: string; text: string }[]>>({});
+  const [flairOptions, setFlairOptions] = useState<Record<string, FlairOption[]>>({});
   const [flairRequired, setFlairRequired] = useState<Record<string, boolean>>({});
   const [subredditRules, setSubredditRules] = useState<Record<string, SubredditRulesData>>({});
   const [postRequirements, setPostRequirements] = useState<Record<string, PostRequirements>>({});
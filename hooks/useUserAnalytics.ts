@@ -0,0 +1,41 @@
+/**
+ * useUserAnalytics Hook
+ *
+ * The current user's own posting stats for a date range. A null range
+ * asks for the default (last 30 days, or less on a short plan history).
+ * The previous range stays on screen while a new one loads.
+ */
+
+import useSWR from 'swr';
+import axios from 'axios';
+import type { AnalyticsRange, UserAnalyticsResponse } from '@/lib/userAnalytics';
+import { SWR_KEYS } from '@/lib/swr';
+
+const fetcher = async (url: string): Promise<UserAnalyticsResponse> => {
+  const res = await axios.get<UserAnalyticsResponse>(url);
+  return res.data;
+};
+
+export interface UseUserAnalyticsReturn {
+  data: UserAnalyticsResponse | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useUserAnalytics(range: AnalyticsRange | null): UseUserAnalyticsReturn {
+  const { data, error, isLoading } = useSWR(
+    range
+      ? `${SWR_KEYS.USER_ANALYTICS}?${new URLSearchParams({ from: range.from, to: range.to })}`
+      : SWR_KEYS.USER_ANALYTICS,
+    fetcher,
+    { keepPreviousData: true }
+  );
+
+  return {
+    data: data ?? null,
+    isLoading,
+    error: error
+      ? (axios.isAxiosError(error) && error.response?.data?.error) || 'Failed to load analytics'
+      : data?.error ?? null,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * useWebhooks Hook
+ *
+ * Lists the user's webhook endpoints for the settings page and exposes
+ * create/update/delete actions. useWebhookDeliveries loads the delivery
+ * log of one endpoint.
+ */
+
+import { useCallback } from 'react';
+import useSWR from 'swr';
+import axios from 'axios';
+import type {
+  WebhookEndpoint,
+  WebhookDelivery,
+  WebhookEventType,
+  ListWebhooksResponse,
+  CreateWebhookResponse,
+  UpdateWebhookResponse,
+  WebhookDeliveriesResponse,
+} from '@/lib/webhook';
+import { SWR_KEYS } from '@/lib/swr';
+import { captureClientError } from '@/lib/clientErrorHandler';
+
+const fetcher = async (url: string): Promise<ListWebhooksResponse> => {
+  const res = await axios.get<ListWebhooksResponse>(url);
+  return res.data;
+};
+
+const deliveriesFetcher = async (url: string): Promise<WebhookDeliveriesResponse> => {
+  const res = await axios.get<WebhookDeliveriesResponse>(url);
+  return res.data;
+};
+
+export interface UseWebhooksReturn {
+  endpoints: WebhookEndpoint[];
+  isLoading: boolean;
+  /** Register an endpoint; resolves to its signing secret */
+  create: (url: string, events: WebhookEventType[]) => Promise<string | null>;
+  update: (
+    endpointId: string,
+    changes: { enabled?: boolean; events?: WebhookEventType[] }
+  ) => Promise<boolean>;
+  remove: (endpointId: string) => Promise<boolean>;
+}
+
+export function useWebhooks(): UseWebhooksReturn {
+  const { data, isLoading, mutate } = useSWR(SWR_KEYS.WEBHOOKS, fetcher, {
+    dedupingInterval: 5000,
+  });
+
+  const create = useCallback(async (
+    url: string,
+    events: WebhookEventType[]
+  ): Promise<string | null> => {
+    try {
+      const { data: response } = await axios.post<CreateWebhookResponse>(
+        SWR_KEYS.WEBHOOKS,
+        { url, events }
+      );
+      if (!response.success || !response.secret) {
+        throw new Error(response.error || 'Failed to add webhook');
+      }
+      await mutate();
+      return response.secret;
+    } catch (error) {
+      captureClientError(error, 'useWebhooks.create', {
+        toastTitle: 'Webhook Not Added',
+        context: { url },
+      });
+      return null;
+    }
+  }, [mutate]);
+
+  const update = useCallback(async (
+    endpointId: string,
+    changes: { enabled?: boolean; events?: WebhookEventType[] }
+  ): Promise<boolean> => {
+    try {
+      const { data: response } = await axios.patch<UpdateWebhookResponse>(
+        `${SWR_KEYS.WEBHOOKS}/${endpointId}`,
+        changes
+      );
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to update webhook');
+      }
+      await mutate();
+      return true;
+    } catch (error) {
+      captureClientError(error, 'useWebhooks.update', {
+        toastTitle: 'Update Failed',
+        context: { endpointId },
+      });
+      return false;
+    }
+  }, [mutate]);
+
+  const remove = useCallback(async (endpointId: string): Promise<boolean> => {
+    try {
+      const { data: response } = await axios.delete<UpdateWebhookResponse>(
+        `${SWR_KEYS.WEBHOOKS}/${endpointId}`
+      );
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to delete webhook');
+      }
+      await mutate();
+      return true;
+    } catch (error) {
+      captureClientError(error, 'useWebhooks.remove', {
+        toastTitle: 'Delete Failed',
+        context: { endpointId },
+      });
+      return false;
+    }
+  }, [mutate]);
+
+  return {
+    endpoints: data?.endpoints ?? [],
+    isLoading,
+    create,
+    update,
+    remove,
+  };
+}
+
+export interface UseWebhookDeliveriesReturn {
+  deliveries: WebhookDelivery[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Delivery log of one endpoint (pass null to not load it).
+ */
+export function useWebhookDeliveries(endpointId: string | null): UseWebhookDeliveriesReturn {
+  const { data, error, isLoading } = useSWR(
+    endpointId ? `${SWR_KEYS.WEBHOOKS}/deliveries?endpointId=${endpointId}` : null,
+    deliveriesFetcher,
+    { dedupingInterval: 2000, refreshInterval: 15000 }
+  );
+
+  return {
+    deliveries: data?.deliveries ?? [],
+    isLoading,
+    error: error ? 'Failed to load deliveries' : data?.error ?? null,
+  };
+}
@@ -121,6 +121,29 @@ export const checkAdminAuth = async (
   return { isAdmin: false, method: null };
 };
 
+/**
+ * Check if a request comes from the cron scheduler.
+ * When CRON_SECRET is set, Vercel sends it as a Bearer token and it is required.
+ * Without it, only requests carrying the x-vercel-cron header are accepted.
+ */
+export const isCronRequest = (req: NextApiRequest): boolean => {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return req.headers['x-vercel-cron'] === '1';
+  }
+
+  const authHeader = req.headers.authorization;
+  if (typeof authHeader !== 'string' || !authHeader.startsWith('Bearer ')) {
+    return false;
+  }
+
+  // Hash both values so the comparison is constant-time regardless of length
+  const expectedHash = crypto.createHash('sha256').update(cronSecret).digest();
+  const providedHash = crypto.createHash('sha256').update(authHeader.slice('Bearer '.length)).digest();
+
+  return crypto.timingSafeEqual(expectedHash, providedHash);
+};
+
 /**
  * Get user details from request (including username for admin check).
  * Returns both user ID and full user object.
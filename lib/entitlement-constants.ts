@@ -13,3 +13,9 @@ export const FREE_MAX_SUBREDDITS = 5;
 
 /** Max subreddits per post for FREE users */
 export const FREE_MAX_POST_ITEMS = 5;
+
+/** Days of post history FREE users can see in their analytics */
+export const FREE_ANALYTICS_HISTORY_DAYS = 30;
+
+/** Days of post history trial/paid users can see in their analytics */
+export const PRO_ANALYTICS_HISTORY_DAYS = 365;
@@ -105,7 +105,7 @@ const ERROR_PATTERNS: Array<{
   
   // Rate limiting - fixable later (wait)
   {
-    pattern: /rate limit|try again|too (much|many|fast)|wait|slow down|doing that too much/i,
+    pattern: /rate ?limit|try(ing)? again|take a break|too (much|many|fast)|wait|slow down|doing that too much/i,
     code: 'rate_limited',
     category: 'fixable_later',
     action: 'wait_retry',
@@ -268,6 +268,13 @@ export function classifyError(errorMessage: string): ClassifiedError {
   };
 }
 
+/**
+ * Human-friendly name of an error code, e.g. the error_code of a post log.
+ */
+export function getErrorCodeLabel(code: string): string {
+  return ERROR_PATTERNS.find(pattern => pattern.code === code)?.userMessage ?? 'Posting failed';
+}
+
 /**
  * Check if an error should be treated as a pseudo-success.
  * For example, "duplicate post" means the post already exists.
@@ -308,6 +315,25 @@ export function getEditField(error: ClassifiedError): 'flair' | 'title' | 'conte
   }
 }
 
+const RETRY_AFTER_UNITS_MS: Record<string, number> = {
+  millisecond: 1,
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+};
+
+/**
+ * Read the wait from a rate-limit message, e.g. "Take a break for 9 minutes
+ * before trying again" or "try again in 54 seconds". Returns null when the
+ * message names no wait.
+ */
+export function parseRetryAfterMs(errorMessage: string): number | null {
+  const match = /\b(\d+|an?)\s*(millisecond|second|minute|hour)s?\b/i.exec(errorMessage);
+  if (!match) return null;
+  const amount = /^\d+$/.test(match[1]) ? Number(match[1]) : 1;
+  return amount * RETRY_AFTER_UNITS_MS[match[2].toLowerCase()];
+}
+
 /**
  * Group errors by category for UI display.
  */
@@ -0,0 +1,287 @@
+/**
+ * Event Streams
+ *
+ * Server-Sent Events shared by the streaming queue endpoints and the
+ * posting hooks:
+ * - GET /api/queue/events/[jobId]: progress of a queue job, resumable with
+ *   the Last-Event-ID header from any tab or device
+ * - POST /api/queue: results of a direct posting batch
+ *
+ * Client-safe. The browser reads streams with fetch instead of EventSource
+ * so POST streams and resumed GET streams go through the same parser.
+ * Responses are written with lib/sse.ts.
+ */
+
+import type { QueueJob, QueueJobEvent, QueueJobStatus } from './queueJob';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const LAST_EVENT_ID_HEADER = 'Last-Event-ID';
+
+/**
+ * One event of a stream. `data` is sent as JSON.
+ */
+export interface StreamEvent<T = unknown> {
+  event: string;
+  data: T;
+  id?: string;
+}
+
+/**
+ * Events of GET /api/queue/events/[jobId]:
+ * - job: the job as stored now (sent on connect and whenever it changes)
+ * - timeline: one queue_job_events row; its id is the stream event id
+ * - end: the job is finished, the stream is not reopened
+ * - error: the server could not read the job; the client reconnects
+ */
+export type JobStreamEvent =
+  | { event: 'job'; data: QueueJob; id?: string }
+  | { event: 'timeline'; data: QueueJobEvent; id: string }
+  | { event: 'end'; data: { status: QueueJobStatus }; id?: string }
+  | { event: 'error'; data: { error: string }; id?: string };
+
+/**
+ * Progress of one item of a direct posting batch.
+ */
+export interface BatchItemUpdate {
+  index: number;
+  subreddit: string;
+  status: 'posting' | 'success' | 'error';
+  url?: string;
+  id?: string;
+  error?: string;
+  debug?: string;
+}
+
+/**
+ * Events of POST /api/queue.
+ */
+export type BatchStreamEvent =
+  | { event: 'started'; data: { total: number }; id?: string }
+  | { event: 'item'; data: BatchItemUpdate; id?: string }
+  | { event: 'waiting'; data: { index: number; delaySeconds: number }; id?: string }
+  | { event: 'completed'; data: Record<string, never>; id?: string }
+  | { event: 'error'; data: { error: string }; id?: string };
+
+/** Wait before reconnecting when the server does not say otherwise (ms) */
+const DEFAULT_RETRY_MS = 2000;
+
+/** Longest wait between reconnects after repeated failures (ms) */
+const MAX_RETRY_MS = 30 * 1000;
+
+// ============================================================================
+// Format
+// ============================================================================
+
+/**
+ * Serialize an event as an SSE frame.
+ */
+export function formatStreamEvent({ event, data, id }: StreamEvent): string {
+  let frame = '';
+  if (id !== undefined) {
+    frame += `id: ${id}\n`;
+  }
+  frame += `event: ${event}\n`;
+  frame += `data: ${JSON.stringify(data)}\n`;
+  return `${frame}\n`;
+}
+
+// ============================================================================
+// Parse
+// ============================================================================
+
+export interface StreamParser {
+  /** Feed the next chunk of the response body */
+  push: (chunk: string) => void;
+  /** Id of the last event that had one (for Last-Event-ID) */
+  readonly lastEventId: string | undefined;
+  /** Reconnect delay requested by the server */
+  readonly retryMs: number | undefined;
+}
+
+/**
+ * Incremental SSE parser. Comments are ignored; events whose data is not
+ * JSON are dropped.
+ */
+export function createStreamParser(onEvent: (event: StreamEvent) => void): StreamParser {
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let retryMs: number | undefined;
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      try {
+        onEvent({
+          event: eventName || 'message',
+          data: JSON.parse(dataLines.join('\n')),
+          ...(lastEventId !== undefined && { id: lastEventId }),
+        });
+      } catch {
+        // Not JSON - nothing we can use
+      }
+    }
+    eventName = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        eventName = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          retryMs = Number(value);
+        }
+        break;
+    }
+  };
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        processLine(line.endsWith('\r') ? line.slice(0, -1) : line);
+      }
+    },
+    get lastEventId() {
+      return lastEventId;
+    },
+    get retryMs() {
+      return retryMs;
+    },
+  };
+}
+
+/**
+ * Read a streamed response to the end through `parser`.
+ */
+export async function readEventStream(response: Response, parser: StreamParser): Promise<void> {
+  if (!response.body) {
+    throw new Error('No response body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode() + '\n');
+}
+
+// ============================================================================
+// Job Event Client
+// ============================================================================
+
+export interface JobEventHandlers {
+  onEvent: (event: JobStreamEvent) => void;
+  /** Called when the stream opens or drops */
+  onConnectionChange?: (connected: boolean) => void;
+  /** Called when the job cannot be watched (not found, no access); the client stops */
+  onError?: (message: string) => void;
+}
+
+export interface JobEventSubscription {
+  close: () => void;
+}
+
+/**
+ * Watch a job through GET /api/queue/events/[jobId]. Reconnects when the
+ * stream drops and resumes after the last event seen; stops after the
+ * 'end' event or close().
+ *
+ * @param lastEventId - Resume after this event instead of replaying the whole timeline
+ */
+export function subscribeToJobEvents(
+  jobId: string,
+  { onEvent, onConnectionChange, onError }: JobEventHandlers,
+  lastEventId?: string
+): JobEventSubscription {
+  const controller = new AbortController();
+  let resumeId = lastEventId;
+  let ended = false;
+
+  const run = async () => {
+    let failures = 0;
+    let retryMs = DEFAULT_RETRY_MS;
+
+    while (!controller.signal.aborted && !ended) {
+      const parser = createStreamParser(event => {
+        const jobEvent = event as JobStreamEvent;
+        if (jobEvent.event === 'end') {
+          ended = true;
+        }
+        onEvent(jobEvent);
+      });
+
+      try {
+        const response = await fetch(`/api/queue/events/${jobId}`, {
+          headers: resumeId ? { [LAST_EVENT_ID_HEADER]: resumeId } : {},
+          signal: controller.signal,
+        });
+
+        if (response.status === 401 || response.status === 403 || response.status === 404) {
+          const body = await response.json().catch(() => ({}));
+          onError?.(body.error || 'Failed to watch job');
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        onConnectionChange?.(true);
+        failures = 0;
+
+        await readEventStream(response, parser);
+      } catch {
+        if (controller.signal.aborted) return;
+        failures++;
+      }
+
+      resumeId = parser.lastEventId ?? resumeId;
+      retryMs = parser.retryMs ?? retryMs;
+
+      onConnectionChange?.(false);
+      if (controller.signal.aborted || ended) return;
+
+      const delayMs = Math.min(retryMs * 2 ** failures, MAX_RETRY_MS);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  };
+
+  void run();
+
+  return {
+    close: () => controller.abort(),
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Flair Text
+ *
+ * Flair templates marked `text_editable` let the poster write their own
+ * flair text. It is kept per subreddit on the item (`flairText`) and sent
+ * as `flair_text` next to the template's ID. Also splits a template's
+ * richtext into the text and emoji the picker draws. Client-safe.
+ */
+
+import type { FlairOption } from '../utils/reddit';
+
+/** Reddit's limit for flair text */
+export const FLAIR_TEXT_MAX_LENGTH = 64;
+
+export type FlairPart =
+  | { type: 'text'; text: string }
+  | { type: 'emoji'; name: string; url: string };
+
+const EMOJI_CODE = /(:[\w-]+:)/;
+
+/**
+ * What a flair looks like: the template's richtext, or the poster's own
+ * text with `:name:` codes shown as the template's emoji.
+ */
+export function getFlairParts(flair: FlairOption, customText?: string): FlairPart[] {
+  const emoji = new Map<string, string>();
+  for (const part of flair.richtext ?? []) {
+    if (part.e === 'emoji' && part.a && part.u) {
+      emoji.set(part.a, part.u);
+    }
+  }
+
+  let parts: FlairPart[];
+  if (customText?.trim()) {
+    parts = customText.trim().split(EMOJI_CODE).map(piece => {
+      const url = emoji.get(piece);
+      return url ? { type: 'emoji', name: piece, url } : { type: 'text', text: piece };
+    });
+  } else if (flair.richtext?.length) {
+    parts = flair.richtext.map(part =>
+      part.e === 'emoji' && part.a && part.u
+        ? { type: 'emoji', name: part.a, url: part.u }
+        : { type: 'text', text: part.t ?? '' }
+    );
+  } else {
+    parts = [{ type: 'text', text: flair.text }];
+  }
+
+  return parts.filter(part => part.type === 'emoji' || part.text);
+}
+
+/**
+ * Validate the flair text of a submitted item. Only items with a flair
+ * can have it.
+ */
+export function parseFlairText(value: unknown, flairId?: string): { flairText?: string; error?: string } {
+  if (value === undefined || value === null || value === '') {
+    return {};
+  }
+  if (typeof value !== 'string') {
+    return { error: 'flairText must be text' };
+  }
+
+  const flairText = value.trim();
+  if (!flairText) {
+    return {};
+  }
+  if (!flairId) {
+    return { error: 'Flair text needs a flair' };
+  }
+  if (flairText.length > FLAIR_TEXT_MAX_LENGTH) {
+    return { error: `Flair text is longer than ${FLAIR_TEXT_MAX_LENGTH} characters` };
+  }
+  return { flairText };
+}
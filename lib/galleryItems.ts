@@ -0,0 +1,123 @@
+/**
+ * Gallery Captions and Links
+ *
+ * Each image of a gallery post can carry a caption and an outbound link.
+ * Items get the composer's details with per-subreddit overrides on top;
+ * the submit endpoint validates them and the Reddit client sends them in
+ * the gallery payload. Client-safe: used by the UI, the submit endpoint
+ * and preflight validation.
+ */
+
+import type { GalleryItemDetails } from './queueJob';
+
+/** Reddit's limit for a gallery caption */
+export const GALLERY_CAPTION_MAX_LENGTH = 180;
+
+/**
+ * Whether an outbound link is an absolute http(s) URL.
+ */
+export function isValidOutboundUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function cleanDetails(details: GalleryItemDetails | undefined): GalleryItemDetails {
+  const caption = details?.caption?.trim();
+  const outboundUrl = details?.outboundUrl?.trim();
+  return {
+    ...(caption && { caption }),
+    ...(outboundUrl && { outboundUrl }),
+  };
+}
+
+/**
+ * Details of one item: per image, a non-empty override field wins over
+ * the global one. Undefined when no image has a caption or link.
+ */
+export function mergeGalleryItems(
+  global: GalleryItemDetails[] = [],
+  override?: GalleryItemDetails[]
+): GalleryItemDetails[] | undefined {
+  const length = Math.max(global.length, override?.length ?? 0);
+  const items: GalleryItemDetails[] = [];
+
+  for (let index = 0; index < length; index++) {
+    const base = cleanDetails(global[index]);
+    const own = cleanDetails(override?.[index]);
+    items.push({ ...base, ...own });
+  }
+
+  return items.some(item => item.caption || item.outboundUrl) ? items : undefined;
+}
+
+/**
+ * Validate the gallery details of a submitted item.
+ */
+export function parseGalleryItems(value: unknown): { items?: GalleryItemDetails[]; error?: string } {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (!Array.isArray(value)) {
+    return { error: 'galleryItems must be a list' };
+  }
+
+  const items: GalleryItemDetails[] = [];
+  for (const [index, entry] of value.entries()) {
+    if (entry === null || entry === undefined) {
+      items.push({});
+      continue;
+    }
+    if (typeof entry !== 'object') {
+      return { error: `Image ${index + 1}: caption and link must be an object` };
+    }
+
+    const { caption, outboundUrl } = entry as Record<string, unknown>;
+    if ((caption !== undefined && typeof caption !== 'string') || (outboundUrl !== undefined && typeof outboundUrl !== 'string')) {
+      return { error: `Image ${index + 1}: caption and link must be text` };
+    }
+
+    const details = cleanDetails({ caption, outboundUrl });
+    if (details.caption && details.caption.length > GALLERY_CAPTION_MAX_LENGTH) {
+      return { error: `Image ${index + 1}: caption is longer than ${GALLERY_CAPTION_MAX_LENGTH} characters` };
+    }
+    if (details.outboundUrl && !isValidOutboundUrl(details.outboundUrl)) {
+      return { error: `Image ${index + 1}: link must be an http(s) URL` };
+    }
+    items.push(details);
+  }
+
+  return { items: mergeGalleryItems(items) };
+}
+
+/**
+ * Image numbers (1-based) of a gallery that have no caption or link.
+ */
+export function getImagesMissing(
+  items: GalleryItemDetails[] | undefined,
+  imageCount: number,
+  field: keyof GalleryItemDetails
+): number[] {
+  const missing: number[] = [];
+  for (let index = 0; index < imageCount; index++) {
+    if (!items?.[index]?.[field]) {
+      missing.push(index + 1);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Details in the shape `submitPost` sends to Reddit (`gallery_items`).
+ */
+export function toSubmitGalleryItems(
+  items: GalleryItemDetails[] | undefined
+): { caption?: string; outbound_url?: string }[] | undefined {
+  return items?.map(item => ({
+    ...(item.caption && { caption: item.caption }),
+    ...(item.outboundUrl && { outbound_url: item.outboundUrl }),
+  }));
+}
@@ -0,0 +1,37 @@
+/**
+ * Idempotency Keys
+ *
+ * Clients send a key with each posting request (Idempotency-Key header).
+ * Retrying a request with the same key returns what the first request
+ * created instead of posting again.
+ * Client-safe: used by the posting hooks and the submit endpoints.
+ */
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+const KEY_PATTERN = /^[A-Za-z0-9_:.-]{8,128}$/;
+
+/**
+ * New random key for one submission.
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * Parse the key from a request header. A missing key is allowed (older
+ * clients); a malformed one is an error.
+ */
+export function parseIdempotencyKey(input: unknown): { key?: string; error?: string } {
+  const value = Array.isArray(input) ? input[0] : input;
+  if (value === undefined || value === null || value === '') {
+    return {};
+  }
+  if (typeof value !== 'string' || !KEY_PATTERN.test(value)) {
+    return { error: 'Idempotency key must be 8-128 letters, digits, "-", "_", ":" or "."' };
+  }
+  return { key: value };
+}
@@ -0,0 +1,204 @@
+/**
+ * Drip Pacing Helpers
+ *
+ * Plans when each item of a drip-paced queue job may be posted.
+ * Client-safe: used by the submit endpoint, the queue processor and the UI.
+ */
+
+import { QUEUE_JOB_CONSTANTS, QueueJobItem, QueueJobPacing } from './queueJob';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Planned post times (epoch ms) for `count` items starting at `startMs`.
+ * The first item is always due at `startMs`.
+ *
+ * @param random - Random source in [0, 1), injectable for tests
+ */
+export function planItemTimes(
+  pacing: QueueJobPacing,
+  count: number,
+  startMs: number,
+  random: () => number = Math.random
+): number[] {
+  const times: number[] = [];
+  let time = startMs;
+
+  for (let i = 0; i < count; i++) {
+    if (i > 0) {
+      switch (pacing.mode) {
+        case 'fixed':
+          time += pacing.intervalMinutes * MINUTE_MS;
+          break;
+        case 'random': {
+          const span = pacing.maxMinutes - pacing.minMinutes;
+          time += (pacing.minMinutes + random() * span) * MINUTE_MS;
+          break;
+        }
+        case 'spread':
+          time = startMs + Math.round((pacing.hours * HOUR_MS * i) / (count - 1));
+          break;
+      }
+    }
+    times.push(Math.round(time));
+  }
+
+  return times;
+}
+
+/**
+ * Stamp each item with its planned `notBefore` time.
+ */
+export function applyPacing(
+  items: QueueJobItem[],
+  pacing: QueueJobPacing,
+  startMs: number,
+  random?: () => number
+): QueueJobItem[] {
+  const times = planItemTimes(pacing, items.length, startMs, random);
+  return items.map((item, index) => ({
+    ...item,
+    notBefore: new Date(times[index]).toISOString(),
+  }));
+}
+
+/**
+ * Move planned times by `deltaMs`, starting at `fromIndex` (used when a
+ * paced job is rescheduled, or resumed after a pause).
+ */
+export function shiftItemTimes(
+  items: QueueJobItem[],
+  deltaMs: number,
+  fromIndex: number = 0
+): QueueJobItem[] {
+  return items.map((item, index) =>
+    item.notBefore && index >= fromIndex
+      ? { ...item, notBefore: new Date(Date.parse(item.notBefore) + deltaMs).toISOString() }
+      : item
+  );
+}
+
+/**
+ * How long until an item may be posted (ms), 0 when it is due.
+ * Both the planned drip time and a rate-limit retry time count.
+ */
+export function getItemWaitMs(item: QueueJobItem, now: number = Date.now()): number {
+  const times = [item.notBefore, item.retryAt]
+    .map(value => (value ? Date.parse(value) : NaN))
+    .filter(time => !Number.isNaN(time));
+  return times.length > 0 ? Math.max(0, Math.max(...times) - now) : 0;
+}
+
+/**
+ * Longest time from first to last post a policy can take for `count` items (ms).
+ */
+export function getPacingSpanMs(pacing: QueueJobPacing, count: number): number {
+  const gaps = Math.max(0, count - 1);
+  switch (pacing.mode) {
+    case 'fixed':
+      return gaps * pacing.intervalMinutes * MINUTE_MS;
+    case 'random':
+      return gaps * pacing.maxMinutes * MINUTE_MS;
+    case 'spread':
+      return gaps > 0 ? pacing.hours * HOUR_MS : 0;
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Parse and validate a pacing policy from an API request body.
+ * Returns `{ pacing: undefined }` when no pacing was requested.
+ */
+export function parsePacingInput(
+  input: unknown,
+  itemCount: number
+): { pacing?: QueueJobPacing; error?: string } {
+  if (input === undefined || input === null) {
+    return {};
+  }
+
+  if (typeof input !== 'object') {
+    return { error: 'Invalid pacing' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const minInterval = QUEUE_JOB_CONSTANTS.PACING_MIN_INTERVAL_MINUTES;
+  let pacing: QueueJobPacing;
+
+  switch (raw.mode) {
+    case 'fixed':
+      if (!isPositiveNumber(raw.intervalMinutes) || raw.intervalMinutes < minInterval) {
+        return { error: `Interval must be at least ${minInterval} minute` };
+      }
+      pacing = { mode: 'fixed', intervalMinutes: raw.intervalMinutes };
+      break;
+    case 'random':
+      if (!isPositiveNumber(raw.minMinutes) || raw.minMinutes < minInterval) {
+        return { error: `Minimum gap must be at least ${minInterval} minute` };
+      }
+      if (!isPositiveNumber(raw.maxMinutes) || raw.maxMinutes < raw.minMinutes) {
+        return { error: 'Maximum gap must not be less than the minimum gap' };
+      }
+      pacing = { mode: 'random', minMinutes: raw.minMinutes, maxMinutes: raw.maxMinutes };
+      break;
+    case 'spread':
+      if (!isPositiveNumber(raw.hours)) {
+        return { error: 'Spread duration must be a positive number of hours' };
+      }
+      if (itemCount > 1 && (raw.hours * 60) / (itemCount - 1) < minInterval) {
+        return { error: `Spread duration is too short for ${itemCount} posts` };
+      }
+      pacing = { mode: 'spread', hours: raw.hours };
+      break;
+    default:
+      return { error: 'Pacing mode must be fixed, random or spread' };
+  }
+
+  const maxHours = QUEUE_JOB_CONSTANTS.PACING_MAX_SPAN_HOURS;
+  if (getPacingSpanMs(pacing, itemCount) > maxHours * HOUR_MS) {
+    return { error: `Drip posting must finish within ${maxHours} hours` };
+  }
+
+  return { pacing };
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+/**
+ * Short description of a pacing policy, e.g. "every 15 min".
+ */
+export function describePacing(pacing: QueueJobPacing): string {
+  switch (pacing.mode) {
+    case 'fixed':
+      return `every ${pacing.intervalMinutes} min`;
+    case 'random':
+      return `every ${pacing.minMinutes}–${pacing.maxMinutes} min`;
+    case 'spread':
+      return `spread over ${pacing.hours} h`;
+  }
+}
+
+/**
+ * When an item is planned for: "3:45 PM" today, with the date on other days.
+ */
+export function formatPlannedTime(iso: string, now: Date = new Date()): string {
+  const date = new Date(iso);
+  const isToday = date.toDateString() === now.toDateString();
+  return new Intl.DateTimeFormat(
+    undefined,
+    isToday ? { timeStyle: 'short' } : { dateStyle: 'short', timeStyle: 'short' }
+  ).format(date);
+}
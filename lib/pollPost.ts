@@ -0,0 +1,94 @@
+/**
+ * Poll Posts
+ *
+ * Limits and validation of poll items: 2-6 options and a voting duration
+ * of 1-7 days, as Reddit's poll endpoint accepts them. Client-safe: used
+ * by the composer, preflight validation and the submit endpoints.
+ */
+
+import type { PollDetails } from './queueJob';
+
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 6;
+/** Reddit's limit for the text of one option */
+export const POLL_OPTION_MAX_LENGTH = 120;
+export const POLL_MIN_DURATION_DAYS = 1;
+export const POLL_MAX_DURATION_DAYS = 7;
+export const DEFAULT_POLL_DURATION_DAYS = 3;
+
+export const EMPTY_POLL: PollDetails = {
+  options: ['', ''],
+  durationDays: DEFAULT_POLL_DURATION_DAYS,
+};
+
+/**
+ * The poll as it is sent: options trimmed, empty ones dropped.
+ */
+export function cleanPoll(poll: PollDetails): PollDetails {
+  return {
+    options: poll.options.map(option => option.trim()).filter(Boolean),
+    durationDays: poll.durationDays,
+  };
+}
+
+/**
+ * What is wrong with a poll, or null when Reddit would take it.
+ * Expects a cleaned poll (see cleanPoll).
+ */
+export function getPollError(poll: PollDetails): string | null {
+  if (poll.options.length < POLL_MIN_OPTIONS) {
+    return `Polls need at least ${POLL_MIN_OPTIONS} options`;
+  }
+  if (poll.options.length > POLL_MAX_OPTIONS) {
+    return `Polls can have at most ${POLL_MAX_OPTIONS} options`;
+  }
+
+  const tooLong = poll.options.findIndex(option => option.length > POLL_OPTION_MAX_LENGTH);
+  if (tooLong !== -1) {
+    return `Option ${tooLong + 1} is longer than ${POLL_OPTION_MAX_LENGTH} characters`;
+  }
+
+  const seen = new Set<string>();
+  for (const option of poll.options) {
+    const key = option.toLowerCase();
+    if (seen.has(key)) {
+      return `"${option}" is listed twice`;
+    }
+    seen.add(key);
+  }
+
+  if (
+    !Number.isInteger(poll.durationDays) ||
+    poll.durationDays < POLL_MIN_DURATION_DAYS ||
+    poll.durationDays > POLL_MAX_DURATION_DAYS
+  ) {
+    return `Poll duration must be ${POLL_MIN_DURATION_DAYS}-${POLL_MAX_DURATION_DAYS} days`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate the poll of a submitted item. Poll items must have one;
+ * other kinds must not.
+ */
+export function parsePoll(kind: string, value: unknown): { poll?: PollDetails; error?: string } {
+  if (kind !== 'poll') {
+    return value === undefined || value === null ? {} : { error: 'Only poll posts can have poll options' };
+  }
+  if (!value || typeof value !== 'object') {
+    return { error: 'Poll posts need options and a duration' };
+  }
+
+  const { options, durationDays } = value as Record<string, unknown>;
+  if (!Array.isArray(options) || options.some(option => typeof option !== 'string')) {
+    return { error: 'Poll options must be a list of text' };
+  }
+  if (typeof durationDays !== 'number') {
+    return { error: 'Poll duration must be a number of days' };
+  }
+
+  const poll = cleanPoll({ options, durationDays });
+  const error = getPollError(poll);
+  return error ? { error } : { poll };
+}
@@ -0,0 +1,141 @@
+/**
+ * Post Action Service
+ *
+ * Applies a post action (lib/postActions.ts) to each copy of a job, one
+ * after another, with the user's Reddit client. Deleted copies are
+ * recorded like a post check that found them deleted, so the dashboard,
+ * history and analytics show them as gone and later checks skip them.
+ */
+
+import axios, { type AxiosInstance } from 'axios';
+import { deletePost, editPostText, selectPostFlair, setPostTag } from '../utils/reddit';
+import { createServerSupabaseClient } from './supabase';
+import { recordJobEvent } from './queueEvents';
+import { normalizeSubredditKey } from './subredditKey';
+import {
+  getPostActionSkipReason,
+  getPostActionTargets,
+  POST_ACTION_LABELS,
+  type PostAction,
+  type PostActionInput,
+  type PostActionResult,
+  type PostActionTarget,
+} from './postActions';
+import type { QueueJob, QueuePostCheck } from './queueJob';
+
+/** Reddit's answer in words, for the per-copy result */
+const describeActionError = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    switch (error.response?.status) {
+      case 403:
+        return 'Reddit did not allow it - the post may be archived, locked or removed';
+      case 404:
+        return 'Post not found';
+    }
+  }
+  return error instanceof Error ? error.message : 'Failed to update post';
+};
+
+async function applyToPost(client: AxiosInstance, target: PostActionTarget, action: PostAction): Promise<void> {
+  switch (action.action) {
+    case 'edit':
+      return editPostText(client, target.postId, action.text);
+    case 'delete':
+      return deletePost(client, target.postId);
+    case 'nsfw':
+    case 'spoiler':
+      return setPostTag(client, target.postId, action.action, action.value);
+    case 'flair': {
+      const flair = action.flairs[normalizeSubredditKey(target.subreddit)];
+      return selectPostFlair(client, target.subreddit, target.postId, flair.flairId, flair.flairText);
+    }
+  }
+}
+
+/**
+ * Record a copy the user deleted: on its post_logs row (no more checks or
+ * samples) and on its job result.
+ */
+async function recordDeletedPost(jobId: string, index: number): Promise<void> {
+  const client = createServerSupabaseClient();
+  const now = new Date().toISOString();
+  const check: QueuePostCheck = { state: 'deleted', removedByCategory: 'author', checkedAt: now, removedAt: now };
+
+  const { error } = await client
+    .from('post_logs')
+    .update({
+      post_state: 'deleted',
+      removed_by_category: 'author',
+      removed_at: now,
+      checked_at: now,
+      next_check_at: null,
+      next_sample_at: null,
+    })
+    .eq('job_id', jobId)
+    .eq('result_index', index)
+    .eq('status', 'success');
+
+  if (error) {
+    console.error('Failed to record deleted post:', error);
+  }
+
+  const { error: jobError } = await client.rpc('set_queue_job_post_check', {
+    p_job_id: jobId,
+    p_index: index,
+    p_check: check,
+  });
+
+  if (jobError) {
+    console.error('Failed to record deleted post on job:', jobError);
+  }
+}
+
+/**
+ * Apply an action to the job's copies (all, or `input.indexes`) and
+ * return one result per copy, in item order.
+ */
+export async function applyPostAction(
+  client: AxiosInstance,
+  job: QueueJob,
+  input: PostActionInput
+): Promise<PostActionResult[]> {
+  const { indexes, ...action } = input;
+  const targets = getPostActionTargets(job).filter(target => !indexes || indexes.includes(target.index));
+  const results: PostActionResult[] = [];
+
+  for (const target of targets) {
+    const skipReason = getPostActionSkipReason(target, action);
+    if (skipReason) {
+      results.push({ index: target.index, subreddit: target.subreddit, status: 'skipped', error: skipReason });
+      continue;
+    }
+
+    try {
+      await applyToPost(client, target, action);
+      if (action.action === 'delete') {
+        await recordDeletedPost(job.id, target.index);
+      }
+      results.push({ index: target.index, subreddit: target.subreddit, status: 'success' });
+    } catch (error) {
+      results.push({
+        index: target.index,
+        subreddit: target.subreddit,
+        status: 'error',
+        error: describeActionError(error),
+      });
+    }
+  }
+
+  const succeeded = results.filter(r => r.status === 'success').length;
+  const failed = results.filter(r => r.status === 'error').length;
+  const label = action.action === 'nsfw' || action.action === 'spoiler'
+    ? `${action.value ? 'Marked' : 'Unmarked'} ${POST_ACTION_LABELS[action.action]}`
+    : POST_ACTION_LABELS[action.action];
+
+  await recordJobEvent(job.id, 'post_action', {
+    message: `${label}: ${succeeded} of ${results.length} posts`,
+    data: { action: action.action, succeeded, failed, ...(failed > 0 && { error: `${failed} failed` }) },
+  });
+
+  return results;
+}
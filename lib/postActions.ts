@@ -0,0 +1,217 @@
+/**
+ * Post Actions
+ *
+ * Changes made after posting to every copy of a job at once: edit the
+ * text, delete, mark NSFW or spoiler, or change the flair. The copies are
+ * the job's successful posts; each gets its own result, so one locked
+ * thread doesn't stop the rest (lib/postActionService.ts). Client-safe:
+ * the UI uses the same helpers to tell which copies an action applies to.
+ */
+
+import type { QueueJob, QueueJobItem } from './queueJob';
+import { getPostIdFromUrl } from './queueCrosspost';
+import { normalizeSubredditKey } from './subredditKey';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PostActionType = 'edit' | 'delete' | 'nsfw' | 'spoiler' | 'flair';
+
+export interface PostActionFlair {
+  flairId: string;
+  /** Own text, for editable flair templates */
+  flairText?: string;
+}
+
+export type PostAction =
+  | { action: 'edit'; text: string }
+  | { action: 'delete' }
+  | { action: 'nsfw' | 'spoiler'; value: boolean }
+  /** Flair per subreddit (normalized name); copies without one are skipped */
+  | { action: 'flair'; flairs: Record<string, PostActionFlair> };
+
+/** An action and the copies (item indices) it is for - all when left out */
+export type PostActionInput = PostAction & { indexes?: number[] };
+
+/** A successful post of a job */
+export interface PostActionTarget {
+  /** Item index within the job */
+  index: number;
+  subreddit: string;
+  kind: QueueJobItem['kind'];
+  /** Reddit post ID (without t3_) */
+  postId: string;
+  url?: string;
+  /** Crossposted from another copy (has no text of its own) */
+  crosspost: boolean;
+}
+
+export interface PostActionResult {
+  index: number;
+  subreddit: string;
+  status: 'success' | 'error' | 'skipped';
+  error?: string;
+}
+
+/**
+ * Response from POST /api/queue/actions/[jobId]
+ */
+export interface PostActionResponse {
+  results: PostActionResult[];
+  error?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const POST_ACTION_TYPES: PostActionType[] = ['edit', 'delete', 'nsfw', 'spoiler', 'flair'];
+
+export const POST_ACTION_LABELS: Record<PostActionType, string> = {
+  edit: 'Edit text',
+  delete: 'Delete',
+  nsfw: 'NSFW',
+  spoiler: 'Spoiler',
+  flair: 'Change flair',
+};
+
+/** OAuth scope each action needs (older logins may lack edit and modposts) */
+export const POST_ACTION_SCOPES: Record<PostActionType, string> = {
+  edit: 'edit',
+  delete: 'edit',
+  nsfw: 'modposts',
+  spoiler: 'modposts',
+  flair: 'flair',
+};
+
+export const POST_ACTION_CONSTANTS = {
+  /** Longest text post body Reddit takes */
+  MAX_TEXT_LENGTH: 40000,
+} as const;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const isIndex = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Parse a post action from an API request body.
+ */
+export function parsePostActionInput(input: unknown): { action?: PostActionInput; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Action required' };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (raw.indexes !== undefined && (!Array.isArray(raw.indexes) || !raw.indexes.every(isIndex))) {
+    return { error: 'indexes must be a list of item indices' };
+  }
+  const indexes = raw.indexes as number[] | undefined;
+  const withIndexes = <T extends PostAction>(action: T): { action: PostActionInput } =>
+    ({ action: { ...action, ...(indexes && { indexes }) } });
+
+  switch (raw.action) {
+    case 'edit':
+      if (typeof raw.text !== 'string') {
+        return { error: 'Text required' };
+      }
+      if (raw.text.length > POST_ACTION_CONSTANTS.MAX_TEXT_LENGTH) {
+        return { error: `Text must be at most ${POST_ACTION_CONSTANTS.MAX_TEXT_LENGTH} characters` };
+      }
+      return withIndexes({ action: 'edit', text: raw.text });
+    case 'delete':
+      return withIndexes({ action: 'delete' });
+    case 'nsfw':
+    case 'spoiler':
+      if (typeof raw.value !== 'boolean') {
+        return { error: 'value must be true or false' };
+      }
+      return withIndexes({ action: raw.action, value: raw.value });
+    case 'flair': {
+      if (!raw.flairs || typeof raw.flairs !== 'object' || Array.isArray(raw.flairs)) {
+        return { error: 'Flairs required' };
+      }
+      const flairs: Record<string, PostActionFlair> = {};
+      for (const [subreddit, value] of Object.entries(raw.flairs as Record<string, unknown>)) {
+        const flair = value as Partial<PostActionFlair> | null;
+        if (!flair || typeof flair.flairId !== 'string' || !flair.flairId) {
+          return { error: `Flair of r/${subreddit} required` };
+        }
+        if (flair.flairText !== undefined && typeof flair.flairText !== 'string') {
+          return { error: `Flair text of r/${subreddit} must be text` };
+        }
+        flairs[normalizeSubredditKey(subreddit)] = {
+          flairId: flair.flairId,
+          ...(flair.flairText?.trim() && { flairText: flair.flairText.trim() }),
+        };
+      }
+      if (Object.keys(flairs).length === 0) {
+        return { error: 'Flairs required' };
+      }
+      return withIndexes({ action: 'flair', flairs });
+    }
+    default:
+      return { error: `Action must be one of ${POST_ACTION_TYPES.join(', ')}` };
+  }
+}
+
+/**
+ * Whether the scopes the user granted (space-separated) include `scope`.
+ */
+export function hasRedditScope(granted: string | null | undefined, scope: string): boolean {
+  return (granted ?? '').split(/\s+/).includes(scope);
+}
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+/**
+ * The copies an action can reach: successful posts of the job, minus the
+ * ones found deleted. Dry runs have none.
+ */
+export function getPostActionTargets(
+  job: Pick<QueueJob, 'items' | 'results' | 'dry_run'>
+): PostActionTarget[] {
+  if (job.dry_run) {
+    return [];
+  }
+
+  return job.results.flatMap((result): PostActionTarget[] => {
+    const item = job.items[result.index];
+    const postId = result.postId ?? getPostIdFromUrl(result.url);
+    if (result.status !== 'success' || !item || !postId || result.postCheck?.state === 'deleted') {
+      return [];
+    }
+    return [{
+      index: result.index,
+      subreddit: result.subreddit,
+      kind: item.kind,
+      postId,
+      ...(result.url && { url: result.url }),
+      crosspost: !!result.crosspostOf,
+    }];
+  }).sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Why an action does not apply to a copy, or null when it does.
+ */
+export function getPostActionSkipReason(target: PostActionTarget, action: PostAction): string | null {
+  switch (action.action) {
+    case 'edit':
+      if (target.crosspost) return 'Crossposts have no text of their own';
+      if (target.kind !== 'self') return 'Only text posts can be edited';
+      return null;
+    case 'flair':
+      if (target.subreddit.startsWith('u_')) return 'Profile posts have no flair';
+      if (!action.flairs[normalizeSubredditKey(target.subreddit)]) return 'No flair picked';
+      return null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Post Checks
+ *
+ * Reddit accepting a submit call does not mean the post stays up:
+ * AutoModerator and the spam filter often remove it minutes later. Every
+ * posted item is fetched again from /api/info a few times after posting
+ * (lib/postCheckService.ts) and the state found is kept on its result
+ * (`postCheck`) and its post_logs row. Client-safe: the UI uses the same
+ * helpers to describe removed posts.
+ */
+
+import type { QueuePostCheck, QueuePostState } from './queueJob';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const POST_CHECK_CONSTANTS = {
+  /** When a post is checked, relative to posting (ms) */
+  CHECK_DELAYS_MS: [
+    5 * 60 * 1000, // 5 minutes
+    60 * 60 * 1000, // 1 hour
+    24 * 60 * 60 * 1000, // 24 hours
+  ],
+
+  /** Posts checked per dispatcher run */
+  BATCH_SIZE: 50,
+} as const;
+
+/**
+ * Wording of Reddit's removed_by_category values, as "Removed ..."
+ */
+const REMOVED_BY: Record<string, string> = {
+  moderator: 'by the moderators',
+  automod_filtered: 'by AutoModerator',
+  reddit: "by Reddit's spam filter",
+  anti_evil_ops: 'by Reddit',
+  community_ops: 'by Reddit',
+  content_takedown: 'by Reddit',
+  copyright_takedown: 'by Reddit (copyright)',
+  author: 'by you',
+  deleted: 'by you',
+};
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+/**
+ * When a post is due for its next check, or null once every check of
+ * the schedule was done.
+ */
+export function getNextPostCheckAt(postedAt: string | Date, checksDone: number): string | null {
+  const delay = POST_CHECK_CONSTANTS.CHECK_DELAYS_MS[checksDone];
+  if (delay === undefined) {
+    return null;
+  }
+  return new Date(new Date(postedAt).getTime() + delay).toISOString();
+}
+
+// ============================================================================
+// States
+// ============================================================================
+
+/**
+ * Post data from /api/info that tells whether the post is still up.
+ * Fields only moderators see are missing for the author.
+ */
+export interface RedditPostInfo {
+  removed_by_category?: string | null;
+  removal_reason?: string | null;
+  spam?: boolean;
+  locked?: boolean;
+}
+
+/**
+ * State of a post from its /api/info data; null means Reddit no longer
+ * returns the post at all.
+ */
+export function getPostState(info: RedditPostInfo | null): QueuePostState {
+  const category = info?.removed_by_category;
+  if (!info || category === 'author' || category === 'deleted') {
+    return 'deleted';
+  }
+  if (info.spam === true || category === 'reddit') {
+    return 'spam';
+  }
+  return category ? 'removed' : 'live';
+}
+
+/**
+ * Check result for a post. `previous` carries over when the post was
+ * first seen removed.
+ */
+export function buildPostCheck(
+  info: RedditPostInfo | null,
+  checkedAt: string,
+  previous?: Pick<QueuePostCheck, 'removedAt'>
+): QueuePostCheck {
+  const state = getPostState(info);
+  return {
+    state,
+    ...(info?.removed_by_category && { removedByCategory: info.removed_by_category }),
+    ...(info?.removal_reason && { removalReason: info.removal_reason }),
+    ...(info?.locked && { locked: true }),
+    checkedAt,
+    ...(state !== 'live' && { removedAt: previous?.removedAt ?? checkedAt }),
+  };
+}
+
+/**
+ * Whether a post was removed (or filtered) after it was accepted.
+ * Posts the author deleted don't count.
+ */
+export function isRemovedAfterPosting(check: Pick<QueuePostCheck, 'state'> | undefined): boolean {
+  return check?.state === 'removed' || check?.state === 'spam';
+}
+
+/**
+ * Why a post is no longer up, e.g. "Removed by AutoModerator: Low karma",
+ * or null while it is live.
+ */
+export function describePostRemoval(
+  check: Pick<QueuePostCheck, 'state' | 'removedByCategory' | 'removalReason'> | undefined
+): string | null {
+  if (!check || check.state === 'live') {
+    return null;
+  }
+
+  const by = check.removedByCategory && REMOVED_BY[check.removedByCategory];
+  const what = check.state === 'deleted'
+    ? `Deleted${by ? ` ${by}` : ''}`
+    : check.state === 'spam'
+      ? "Removed by Reddit's spam filter"
+      : `Removed ${by || 'after posting'}`;
+
+  return check.removalReason ? `${what}: ${check.removalReason}` : what;
+}
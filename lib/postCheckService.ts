@@ -0,0 +1,162 @@
+/**
+ * Post Check Service
+ *
+ * Fetches posted items again from Reddit on the schedule of
+ * lib/postCheck.ts and records what it finds: on the post_logs row and,
+ * for queue jobs, on the item's result. Run by the cron dispatcher and the
+ * queue worker (checkDuePosts) with the post owner's stored Reddit token.
+ */
+
+import * as Sentry from '@sentry/nextjs';
+import { getPostsInfo } from '../utils/reddit';
+import { createServerSupabaseClient, type PostLog } from './supabase';
+import { getServerRedditClient, isTokenStoreConfigured } from './redditTokenStore';
+import { buildPostCheck, getNextPostCheckAt, isRemovedAfterPosting, POST_CHECK_CONSTANTS } from './postCheck';
+import type { QueuePostCheck } from './queueJob';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type DuePost = Pick<
+  PostLog,
+  'id' | 'user_id' | 'reddit_post_id' | 'job_id' | 'result_index' | 'check_count' | 'created_at' | 'removed_at'
+>;
+
+export interface PostCheckSummary {
+  checked: number;
+  /** Posts found removed or spam-filtered in this run */
+  removed: number;
+  /** Posts that could not be checked (no token, Reddit error) */
+  failed: number;
+}
+
+/** How long a runner holds a post while checking it (ms) */
+const CHECK_LEASE_MS = 2 * 60 * 1000;
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Store a check on the post's log row and job result, and move the row
+ * on to its next check. `check` is null when the post could not be
+ * checked; the check counts as done so one failure doesn't repeat forever.
+ */
+async function recordPostCheck(post: DuePost, check: QueuePostCheck | null): Promise<void> {
+  const client = createServerSupabaseClient();
+  const checkCount = post.check_count + 1;
+
+  const { error } = await client
+    .from('post_logs')
+    .update({
+      check_count: checkCount,
+      next_check_at: getNextPostCheckAt(post.created_at, checkCount),
+      ...(check && {
+        post_state: check.state,
+        removed_by_category: check.removedByCategory ?? null,
+        removal_reason: check.removalReason ?? null,
+        locked: check.locked ?? false,
+        removed_at: check.removedAt ?? null,
+        checked_at: check.checkedAt,
+      }),
+    })
+    .eq('id', post.id);
+
+  if (error) {
+    console.error('Failed to record post check:', error);
+  }
+
+  if (check && post.job_id && post.result_index !== null) {
+    const { error: jobError } = await client.rpc('set_queue_job_post_check', {
+      p_job_id: post.job_id,
+      p_index: post.result_index,
+      p_check: check,
+    });
+
+    if (jobError) {
+      console.error('Failed to record post check on job:', jobError);
+    }
+  }
+}
+
+/**
+ * Check one user's due posts with their Reddit token.
+ */
+async function checkUserPosts(userId: string, posts: DuePost[]): Promise<PostCheckSummary> {
+  let info: Awaited<ReturnType<typeof getPostsInfo>>;
+  try {
+    const client = await getServerRedditClient(userId);
+    info = await getPostsInfo(client, posts.map(post => post.reddit_post_id!));
+  } catch (error) {
+    console.error(`Failed to check posts of user ${userId}:`, error instanceof Error ? error.message : error);
+    await Promise.all(posts.map(post => recordPostCheck(post, null)));
+    return { checked: 0, removed: 0, failed: posts.length };
+  }
+
+  const checkedAt = new Date().toISOString();
+  let removed = 0;
+
+  await Promise.all(posts.map(post => {
+    const check = buildPostCheck(
+      info[post.reddit_post_id!.replace(/^t3_/, '')] ?? null,
+      checkedAt,
+      post.removed_at ? { removedAt: post.removed_at } : undefined
+    );
+    if (isRemovedAfterPosting(check) && !post.removed_at) {
+      removed++;
+    }
+    return recordPostCheck(post, check);
+  }));
+
+  return { checked: posts.length, removed, failed: 0 };
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+/**
+ * Check posts whose next check is due. Safe to run from several places at
+ * once - posts are claimed atomically (claim_post_checks). Does nothing
+ * without the Reddit token store.
+ */
+export async function checkDuePosts(
+  limit: number = POST_CHECK_CONSTANTS.BATCH_SIZE
+): Promise<PostCheckSummary> {
+  if (!isTokenStoreConfigured()) {
+    return { checked: 0, removed: 0, failed: 0 };
+  }
+
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client.rpc('claim_post_checks', {
+    p_limit: limit,
+    p_lease_seconds: Math.round(CHECK_LEASE_MS / 1000),
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim post checks: ${error.message}`);
+  }
+
+  const byUser = new Map<string, DuePost[]>();
+  for (const post of (data || []) as DuePost[]) {
+    if (!post.reddit_post_id) continue;
+    byUser.set(post.user_id, [...(byUser.get(post.user_id) ?? []), post]);
+  }
+
+  const summary: PostCheckSummary = { checked: 0, removed: 0, failed: 0 };
+  for (const [userId, posts] of Array.from(byUser)) {
+    try {
+      const result = await checkUserPosts(userId, posts);
+      summary.checked += result.checked;
+      summary.removed += result.removed;
+      summary.failed += result.failed;
+    } catch (err) {
+      Sentry.captureException(err, { tags: { component: 'queue.post_check' }, extra: { userId } });
+      summary.failed += posts.length;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,118 @@
+/**
+ * Post Flag Helpers
+ *
+ * NSFW, spoiler, send-replies and OC flags of queue items: the composer's
+ * global flags merged with per-subreddit overrides, validation of flags
+ * sent to the submit endpoint, and the subreddit defaults applied there.
+ * Client-safe: used by the submit endpoint, the queue processor and the UI.
+ */
+
+import type { PostFlags } from './queueJob';
+import { normalizeSubredditKey } from './subredditKey';
+
+export const POST_FLAG_KEYS = ['nsfw', 'spoiler', 'sendReplies', 'originalContent'] as const;
+
+export type PostFlagKey = (typeof POST_FLAG_KEYS)[number];
+
+export const POST_FLAG_LABELS: Record<PostFlagKey, string> = {
+  nsfw: 'NSFW',
+  spoiler: 'Spoiler',
+  sendReplies: 'Send replies to inbox',
+  originalContent: 'OC',
+};
+
+/**
+ * What the subreddit cache knows about a subreddit's flags.
+ * Unknown values are left out.
+ */
+export interface SubredditFlagInfo {
+  over18?: boolean;
+  /** The subreddit enables Reddit's OC tag */
+  allowOriginalContent?: boolean;
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+/**
+ * Flags of one item: the per-subreddit override wins over the global
+ * flags. A global NSFW that is off is left out, so the subreddit default
+ * applies; an override can still turn NSFW off explicitly.
+ */
+export function mergePostFlags(global: PostFlags, override?: PostFlags): PostFlags {
+  const flags: PostFlags = {};
+
+  for (const key of POST_FLAG_KEYS) {
+    const value = override?.[key] ?? (key === 'nsfw' && !global.nsfw ? undefined : global[key]);
+    if (value !== undefined) {
+      flags[key] = value;
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Flags exactly as they are sent to Reddit.
+ */
+export function resolveSubmitFlags(flags: PostFlags): Required<PostFlags> {
+  return {
+    nsfw: flags.nsfw === true,
+    spoiler: flags.spoiler === true,
+    sendReplies: flags.sendReplies !== false,
+    originalContent: flags.originalContent === true,
+  };
+}
+
+// ============================================================================
+// Server-side Input
+// ============================================================================
+
+/**
+ * Validate the flags of a submitted item.
+ */
+export function parsePostFlags(input: Record<string, unknown>): { flags?: PostFlags; error?: string } {
+  const flags: PostFlags = {};
+
+  for (const key of POST_FLAG_KEYS) {
+    const value = input[key];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (typeof value !== 'boolean') {
+      return { error: `${key} must be true or false` };
+    }
+    flags[key] = value;
+  }
+
+  return { flags };
+}
+
+/**
+ * Apply subreddit defaults to items: NSFW follows the subreddit when the
+ * item leaves it out, and OC is dropped where the subreddit has the OC
+ * tag turned off.
+ *
+ * @param info - Keyed by normalized subreddit name
+ */
+export function applySubredditFlagDefaults<T extends PostFlags & { subreddit: string }>(
+  items: T[],
+  info: Record<string, SubredditFlagInfo>
+): T[] {
+  return items.map(item => {
+    const subreddit = info[normalizeSubredditKey(item.subreddit)];
+    if (!subreddit) {
+      return item;
+    }
+
+    const next = { ...item };
+    if (next.nsfw === undefined && subreddit.over18 !== undefined) {
+      next.nsfw = subreddit.over18;
+    }
+    if (next.originalContent && subreddit.allowOriginalContent === false) {
+      delete next.originalContent;
+    }
+    return next;
+  });
+}
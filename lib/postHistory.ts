@@ -0,0 +1,396 @@
+/**
+ * Post History
+ *
+ * Past queue jobs of a user with the post each item became, for the
+ * /history page: filters over subreddit, status, kind, date and caption,
+ * and "post again", which turns a job back into composer state (caption,
+ * subreddits, flairs, title suffixes and per-subreddit overrides). Jobs
+ * are kept for QUEUE_JOB_CONSTANTS.HISTORY_RETENTION_DAYS; their media is
+ * not, so media posts need their files attached again. Client-safe.
+ */
+
+import type { PostLog } from './supabase';
+import type {
+  GalleryItemDetails,
+  PollDetails,
+  PostFlags,
+  QueueJob,
+  QueueJobItem,
+  QueueJobResult,
+  QueueJobStatus,
+  QueuePostState,
+} from './queueJob';
+import { POST_FLAG_KEYS, resolveSubmitFlags } from './postFlags';
+import { normalizeSubredditKey } from './subredditKey';
+import { parseDayParam } from './userAnalytics';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What became of an item. Items of cancelled or failed jobs that never ran
+ * are 'not_posted'.
+ */
+export type HistoryPostStatus = QueueJobResult['status'] | 'not_posted';
+
+export const HISTORY_POST_STATUSES: HistoryPostStatus[] = ['success', 'error', 'skipped', 'not_posted'];
+
+export const HISTORY_POST_KINDS: QueueJobItem['kind'][] = ['self', 'link', 'image', 'video', 'gallery', 'poll'];
+
+export const HISTORY_STATUS_LABELS: Record<HistoryPostStatus, string> = {
+  success: 'Posted',
+  error: 'Failed',
+  skipped: 'Skipped',
+  not_posted: 'Not posted',
+};
+
+export const HISTORY_KIND_LABELS: Record<QueueJobItem['kind'], string> = {
+  self: 'Text',
+  link: 'Link',
+  image: 'Image',
+  video: 'Video',
+  gallery: 'Gallery',
+  poll: 'Poll',
+};
+
+export interface HistoryPost {
+  /** Item index within the job */
+  index: number;
+  subreddit: string;
+  kind: QueueJobItem['kind'];
+  status: HistoryPostStatus;
+  url?: string;
+  error?: string;
+  postedAt?: string;
+  /** Latest check after posting (see lib/postCheck.ts) */
+  postState?: QueuePostState;
+  /** Latest metrics sample (see lib/postMetrics.ts) */
+  score?: number;
+  comments?: number;
+}
+
+export interface HistoryEntry {
+  jobId: string;
+  caption: string;
+  status: QueueJobStatus;
+  /** UTC ISO */
+  createdAt: string;
+  dryRun: boolean;
+  /** Posts matching the filters, in item order */
+  posts: HistoryPost[];
+  /** Every destination of the job, in item order, for "post again" */
+  subreddits: string[];
+}
+
+export interface HistoryFilters {
+  /** Text the caption contains (case-insensitive) */
+  q?: string;
+  subreddit?: string;
+  status?: HistoryPostStatus;
+  kind?: QueueJobItem['kind'];
+  /** Inclusive UTC days (YYYY-MM-DD) */
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Response from GET /api/queue/history
+ */
+export interface PostHistoryResponse {
+  entries: HistoryEntry[];
+  /** Pass as ?before to get the next page; null on the last page */
+  nextCursor: string | null;
+  error?: string;
+}
+
+export type HistoryJob = Pick<
+  QueueJob,
+  'id' | 'caption' | 'status' | 'created_at' | 'dry_run' | 'items' | 'results'
+>;
+
+export type HistoryPostLog = Pick<
+  PostLog,
+  'job_id' | 'result_index' | 'reddit_post_url' | 'post_state' | 'score' | 'num_comments'
+>;
+
+/**
+ * What one subreddit's item did differently from the rest of the job
+ * (the composer's PerSubredditOverride).
+ */
+export interface DraftOverride {
+  title?: string;
+  body?: string;
+  flags?: PostFlags;
+  galleryItems?: GalleryItemDetails[];
+}
+
+/**
+ * Composer state rebuilt from a job by "post again". Flairs, flair texts
+ * and title suffixes are keyed by normalized subreddit name, overrides by
+ * the subreddit as selected - like the composer's own state.
+ */
+export interface ComposerDraft {
+  caption: string;
+  body: string;
+  prefixes: { f: boolean; c: boolean };
+  postFlags: PostFlags;
+  mediaType: 'image' | 'url' | 'poll';
+  mediaUrl: string;
+  poll?: PollDetails;
+  galleryItems: GalleryItemDetails[];
+  subreddits: string[];
+  postToProfile: boolean;
+  crosspost: boolean;
+  flairs: Record<string, string | undefined>;
+  flairTexts: Record<string, string | undefined>;
+  titleSuffixes: Record<string, string | undefined>;
+  contentOverrides: Record<string, DraftOverride>;
+  /** Kind of media the job had, which must be attached again (null when none) */
+  missingMedia: 'image' | 'video' | 'gallery' | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const POST_HISTORY_CONSTANTS = {
+  /** Jobs per page */
+  PAGE_SIZE: 20,
+
+  /** Jobs read per query while filtering a page */
+  SCAN_SIZE: 100,
+
+  /** Longest caption search */
+  MAX_QUERY_LENGTH: 200,
+} as const;
+
+/** localStorage key the history page leaves a draft under for the composer */
+export const COMPOSER_DRAFT_KEY = 'rmp_composer_draft';
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+/**
+ * Validate the filters of GET /api/queue/history.
+ */
+export function parseHistoryFilters(
+  query: Record<string, unknown>
+): { filters?: HistoryFilters; error?: string } {
+  const filters: HistoryFilters = {};
+
+  for (const key of ['q', 'subreddit', 'status', 'kind'] as const) {
+    const value = query[key];
+    if (value !== undefined && typeof value !== 'string') {
+      return { error: `${key} must be given once` };
+    }
+  }
+
+  const q = typeof query.q === 'string' ? query.q.trim() : '';
+  if (q.length > POST_HISTORY_CONSTANTS.MAX_QUERY_LENGTH) {
+    return { error: `Search must be at most ${POST_HISTORY_CONSTANTS.MAX_QUERY_LENGTH} characters` };
+  }
+  if (q) filters.q = q;
+
+  const subreddit = typeof query.subreddit === 'string' ? normalizeSubredditKey(query.subreddit) : '';
+  if (subreddit) filters.subreddit = subreddit;
+
+  if (query.status) {
+    if (!HISTORY_POST_STATUSES.includes(query.status as HistoryPostStatus)) {
+      return { error: `status must be one of ${HISTORY_POST_STATUSES.join(', ')}` };
+    }
+    filters.status = query.status as HistoryPostStatus;
+  }
+
+  if (query.kind) {
+    if (!HISTORY_POST_KINDS.includes(query.kind as QueueJobItem['kind'])) {
+      return { error: `kind must be one of ${HISTORY_POST_KINDS.join(', ')}` };
+    }
+    filters.kind = query.kind as QueueJobItem['kind'];
+  }
+
+  const from = parseDayParam(query.from);
+  const to = parseDayParam(query.to);
+  if (from === null || to === null) {
+    return { error: 'from and to must be dates (YYYY-MM-DD)' };
+  }
+  if (from && to && from > to) {
+    return { error: 'from must not be after to' };
+  }
+  if (from) filters.from = from;
+  if (to) filters.to = to;
+
+  return { filters };
+}
+
+/**
+ * A job as a history entry: each item with its result and post log, narrowed
+ * to the posts matching the subreddit, status and kind filters. Null when
+ * none match. Caption and date are filtered by the query.
+ */
+export function toHistoryEntry(
+  job: HistoryJob,
+  logs: HistoryPostLog[],
+  filters: Pick<HistoryFilters, 'subreddit' | 'status' | 'kind'> = {}
+): HistoryEntry | null {
+  const posts = job.items
+    .map((item, index): HistoryPost => {
+      const result = job.results.find(r => r.index === index);
+      const log = logs.find(l => l.job_id === job.id && l.result_index === index);
+      const url = result?.url || log?.reddit_post_url || undefined;
+      const postState = result?.postCheck?.state ?? log?.post_state ?? undefined;
+
+      return {
+        index,
+        subreddit: item.subreddit,
+        kind: item.kind,
+        status: result?.status ?? 'not_posted',
+        ...(url && { url }),
+        ...(result?.error && { error: result.error }),
+        ...(result?.postedAt && { postedAt: result.postedAt }),
+        ...(postState && { postState }),
+        ...(typeof log?.score === 'number' && { score: log.score }),
+        ...(typeof log?.num_comments === 'number' && { comments: log.num_comments }),
+      };
+    })
+    .filter(post =>
+      (!filters.subreddit || normalizeSubredditKey(post.subreddit) === filters.subreddit) &&
+      (!filters.status || post.status === filters.status) &&
+      (!filters.kind || post.kind === filters.kind)
+    );
+
+  if (posts.length === 0) {
+    return null;
+  }
+
+  return {
+    jobId: job.id,
+    caption: job.caption,
+    status: job.status,
+    createdAt: job.created_at,
+    dryRun: job.dry_run,
+    posts,
+    subreddits: Array.from(new Set(job.items.map(item => item.subreddit))),
+  };
+}
+
+// ============================================================================
+// Post Again
+// ============================================================================
+
+/** Most common value, first seen wins a tie */
+function mostCommon<T>(values: T[], key: (value: T) => string): T | undefined {
+  const counts = new Map<string, { value: T; count: number }>();
+  for (const value of values) {
+    const k = key(value);
+    const entry = counts.get(k) ?? { value, count: 0 };
+    entry.count++;
+    counts.set(k, entry);
+  }
+  let best: { value: T; count: number } | undefined;
+  counts.forEach(entry => {
+    if (!best || entry.count > best.count) best = entry;
+  });
+  return best?.value;
+}
+
+/**
+ * The body an item was built from: a text post without one was sent with
+ * the caption as its text.
+ */
+const getItemBody = (item: QueueJobItem, caption: string): string =>
+  item.kind === 'self' && item.text === caption ? '' : item.text ?? '';
+
+const DEFAULT_FLAGS = resolveSubmitFlags({});
+
+const pickFlags = (item: PostFlags): PostFlags => {
+  const flags: PostFlags = {};
+  for (const key of POST_FLAG_KEYS) {
+    if (item[key] !== undefined) flags[key] = item[key];
+  }
+  return flags;
+};
+
+/**
+ * Rebuild composer state from a job. `subreddits` picks which of the
+ * job's destinations to post to again (all by default); what is the same
+ * for most items becomes the global value and the rest become
+ * per-subreddit overrides.
+ */
+export function buildComposerDraft(
+  job: Pick<QueueJob, 'caption' | 'prefixes' | 'items' | 'crosspost'>,
+  subreddits?: string[]
+): ComposerDraft {
+  const wanted = subreddits && new Set(subreddits.map(normalizeSubredditKey));
+  const seen = new Set<string>();
+  const items = job.items.filter(item => {
+    const key = normalizeSubredditKey(item.subreddit);
+    if (seen.has(key) || (wanted && !wanted.has(key))) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const first = items[0] ?? job.items[0];
+  const body = mostCommon(items.map(item => getItemBody(item, job.caption)), text => text) ?? '';
+  const flags = mostCommon(items.map(pickFlags), value => JSON.stringify(value)) ?? {};
+  const galleryItems = mostCommon(
+    items.map(item => item.galleryItems ?? []),
+    value => JSON.stringify(value)
+  ) ?? [];
+
+  const draft: ComposerDraft = {
+    caption: job.caption,
+    body,
+    prefixes: { f: job.prefixes?.f === true, c: job.prefixes?.c === true },
+    postFlags: flags,
+    mediaType: first?.kind === 'link' ? 'url' : first?.kind === 'poll' ? 'poll' : 'image',
+    mediaUrl: first?.kind === 'link' ? first.url ?? '' : '',
+    ...(first?.kind === 'poll' && first.poll && { poll: first.poll }),
+    galleryItems,
+    subreddits: [],
+    postToProfile: false,
+    crosspost: job.crosspost === true,
+    flairs: {},
+    flairTexts: {},
+    titleSuffixes: {},
+    contentOverrides: {},
+    missingMedia: first && (first.kind === 'image' || first.kind === 'video' || first.kind === 'gallery')
+      ? first.kind
+      : null,
+  };
+
+  for (const item of items) {
+    const key = normalizeSubredditKey(item.subreddit);
+    if (key.startsWith('u_')) {
+      draft.postToProfile = true;
+    } else {
+      draft.subreddits.push(item.subreddit);
+    }
+
+    if (item.flairId) draft.flairs[key] = item.flairId;
+    if (item.flairText) draft.flairTexts[key] = item.flairText;
+    if (item.titleSuffix) draft.titleSuffixes[key] = item.titleSuffix;
+
+    const itemBody = getItemBody(item, job.caption);
+    const itemFlags = pickFlags(item);
+    const flagOverrides: PostFlags = {};
+    for (const flag of POST_FLAG_KEYS) {
+      if (itemFlags[flag] !== flags[flag]) flagOverrides[flag] = itemFlags[flag] ?? DEFAULT_FLAGS[flag];
+    }
+
+    const override: DraftOverride = {
+      ...(item.customTitle && { title: item.customTitle }),
+      ...(itemBody !== body && { body: itemBody }),
+      ...(Object.keys(flagOverrides).length > 0 && { flags: flagOverrides }),
+      ...(item.galleryItems && JSON.stringify(item.galleryItems) !== JSON.stringify(galleryItems) && {
+        galleryItems: item.galleryItems,
+      }),
+    };
+    if (Object.keys(override).length > 0) {
+      draft.contentOverrides[item.subreddit] = override;
+    }
+  }
+
+  return draft;
+}
@@ -0,0 +1,100 @@
+/**
+ * Post History Service
+ *
+ * Reads a user's finished queue jobs page by page with the post logs of
+ * their items, for GET /api/queue/history. Caption, date and cursor are
+ * filtered by the query; subreddit, status and kind by toHistoryEntry.
+ */
+
+import { createServerSupabaseClient } from './supabase';
+import { getRangeBounds } from './userAnalytics';
+import {
+  POST_HISTORY_CONSTANTS,
+  toHistoryEntry,
+  type HistoryEntry,
+  type HistoryFilters,
+  type HistoryJob,
+  type HistoryPostLog,
+} from './postHistory';
+
+const JOB_COLUMNS = 'id, caption, status, created_at, dry_run, items, results';
+
+const LOG_COLUMNS = 'job_id, result_index, reddit_post_url, post_state, score, num_comments';
+
+/** Escape LIKE wildcards so the search matches them literally */
+const escapeLike = (text: string): string => text.replace(/[\\%_]/g, char => `\\${char}`);
+
+/**
+ * One page of a user's history, newest first. `before` is the cursor of
+ * the previous page (a job's created_at).
+ */
+export async function getPostHistory(
+  userId: string,
+  filters: HistoryFilters,
+  before?: string,
+  limit: number = POST_HISTORY_CONSTANTS.PAGE_SIZE
+): Promise<{ entries: HistoryEntry[]; nextCursor: string | null }> {
+  const client = createServerSupabaseClient();
+  const entries: HistoryEntry[] = [];
+  let cursor = before;
+
+  for (;;) {
+    let query = client
+      .from('queue_jobs')
+      .select(JOB_COLUMNS)
+      .eq('user_id', userId)
+      .in('status', ['completed', 'failed', 'cancelled'])
+      .order('created_at', { ascending: false })
+      .limit(POST_HISTORY_CONSTANTS.SCAN_SIZE);
+
+    if (filters.q) {
+      query = query.ilike('caption', `%${escapeLike(filters.q)}%`);
+    }
+    if (filters.from) {
+      query = query.gte('created_at', getRangeBounds({ from: filters.from, to: filters.from }).start.toISOString());
+    }
+    if (filters.to) {
+      query = query.lt('created_at', getRangeBounds({ from: filters.to, to: filters.to }).end.toISOString());
+    }
+    if (cursor) {
+      query = query.lt('created_at', cursor);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to get post history: ${error.message}`);
+    }
+
+    const jobs = (data || []) as unknown as HistoryJob[];
+    if (jobs.length === 0) {
+      return { entries, nextCursor: null };
+    }
+
+    const { data: logData, error: logError } = await client
+      .from('post_logs')
+      .select(LOG_COLUMNS)
+      .eq('user_id', userId)
+      .eq('status', 'success')
+      .in('job_id', jobs.map(job => job.id));
+
+    if (logError) {
+      throw new Error(`Failed to get post logs: ${logError.message}`);
+    }
+
+    const logs = (logData || []) as HistoryPostLog[];
+    for (const job of jobs) {
+      const entry = toHistoryEntry(job, logs, filters);
+      if (!entry) continue;
+
+      entries.push(entry);
+      if (entries.length === limit) {
+        return { entries, nextCursor: entry.createdAt };
+      }
+    }
+
+    if (jobs.length < POST_HISTORY_CONSTANTS.SCAN_SIZE) {
+      return { entries, nextCursor: null };
+    }
+    cursor = jobs[jobs.length - 1].created_at;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Post Metrics
+ *
+ * Score, upvote ratio and comment count of every successful post, sampled
+ * from /api/info on a schedule after posting (lib/postMetricsService.ts)
+ * and kept as snapshots in post_metrics. The helpers here turn snapshots
+ * into sparklines and aggregates per job and per subreddit, so users can
+ * see which communities work for them. Client-safe.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Numbers of a post at one point in time.
+ */
+export interface PostMetricsSnapshot {
+  score: number;
+  /** 0-1 */
+  upvoteRatio: number;
+  comments: number;
+  /** UTC ISO */
+  sampledAt: string;
+}
+
+/**
+ * One successful post with its snapshots, oldest first.
+ */
+export interface PostMetricsSeries {
+  /** post_logs row */
+  id: string;
+  subreddit: string;
+  postId: string | null;
+  url: string | null;
+  jobId: string | null;
+  /** Item index within the job */
+  resultIndex: number | null;
+  /** UTC ISO */
+  postedAt: string;
+  snapshots: PostMetricsSnapshot[];
+}
+
+/**
+ * Totals and averages over the latest snapshot of each post. Posts not
+ * sampled yet count in `posts` only.
+ */
+export interface PostMetricsAggregate {
+  posts: number;
+  /** Posts with at least one snapshot */
+  sampled: number;
+  totalScore: number;
+  averageScore: number;
+  medianScore: number;
+  totalComments: number;
+  averageComments: number;
+  /** 0-1, null when nothing was sampled */
+  averageUpvoteRatio: number | null;
+}
+
+export interface SubredditMetricsAggregate extends PostMetricsAggregate {
+  subreddit: string;
+}
+
+export interface JobMetricsAggregate extends PostMetricsAggregate {
+  jobId: string;
+}
+
+/**
+ * Response from GET /api/queue/metrics/[jobId]
+ */
+export interface JobMetricsResponse {
+  posts: PostMetricsSeries[];
+  summary?: PostMetricsAggregate;
+  error?: string;
+}
+
+/**
+ * Response from GET /api/queue/metrics
+ */
+export interface UserMetricsResponse {
+  /** Best average score first */
+  subreddits: SubredditMetricsAggregate[];
+  jobs: JobMetricsAggregate[];
+  /** Start of the range (UTC ISO) */
+  since?: string;
+  error?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const POST_METRICS_CONSTANTS = {
+  /** When a post is sampled, relative to posting (ms) */
+  SAMPLE_DELAYS_MS: [
+    15 * 60 * 1000, // 15 minutes
+    60 * 60 * 1000, // 1 hour
+    3 * 60 * 60 * 1000, // 3 hours
+    6 * 60 * 60 * 1000, // 6 hours
+    12 * 60 * 60 * 1000, // 12 hours
+    24 * 60 * 60 * 1000, // 1 day
+    2 * 24 * 60 * 60 * 1000, // 2 days
+    3 * 24 * 60 * 60 * 1000, // 3 days
+    7 * 24 * 60 * 60 * 1000, // 7 days
+  ],
+
+  /** Posts sampled per dispatcher run (one /api/info call per user) */
+  BATCH_SIZE: 100,
+
+  /** Days of posts GET /api/queue/metrics aggregates by default */
+  DEFAULT_RANGE_DAYS: 30,
+
+  /** Longest range GET /api/queue/metrics accepts (days) */
+  MAX_RANGE_DAYS: 90,
+} as const;
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+/**
+ * When a post is due for its next sample, or null once the schedule is done.
+ */
+export function getNextMetricsSampleAt(postedAt: string | Date, samplesTaken: number): string | null {
+  const delay = POST_METRICS_CONSTANTS.SAMPLE_DELAYS_MS[samplesTaken];
+  if (delay === undefined) {
+    return null;
+  }
+  return new Date(new Date(postedAt).getTime() + delay).toISOString();
+}
+
+// ============================================================================
+// Aggregates
+// ============================================================================
+
+export function getLatestSnapshot(series: Pick<PostMetricsSeries, 'snapshots'>): PostMetricsSnapshot | null {
+  return series.snapshots[series.snapshots.length - 1] ?? null;
+}
+
+const round = (value: number, digits = 1): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Aggregate the latest numbers of some posts.
+ */
+export function summarizePostMetrics(series: Pick<PostMetricsSeries, 'snapshots'>[]): PostMetricsAggregate {
+  const latest = series
+    .map(getLatestSnapshot)
+    .filter((snapshot): snapshot is PostMetricsSnapshot => snapshot !== null);
+
+  const scores = latest.map(snapshot => snapshot.score).sort((a, b) => a - b);
+  const middle = Math.floor(scores.length / 2);
+  const totalScore = scores.reduce((sum, score) => sum + score, 0);
+  const totalComments = latest.reduce((sum, snapshot) => sum + snapshot.comments, 0);
+
+  return {
+    posts: series.length,
+    sampled: latest.length,
+    totalScore,
+    averageScore: latest.length ? round(totalScore / latest.length) : 0,
+    medianScore: scores.length === 0
+      ? 0
+      : scores.length % 2 ? scores[middle] : round((scores[middle - 1] + scores[middle]) / 2),
+    totalComments,
+    averageComments: latest.length ? round(totalComments / latest.length) : 0,
+    averageUpvoteRatio: latest.length
+      ? round(latest.reduce((sum, snapshot) => sum + snapshot.upvoteRatio, 0) / latest.length, 2)
+      : null,
+  };
+}
+
+/**
+ * Aggregates per subreddit, best average score first. Subreddits nothing
+ * was sampled in yet come last.
+ */
+export function summarizeBySubreddit(series: PostMetricsSeries[]): SubredditMetricsAggregate[] {
+  const groups = new Map<string, PostMetricsSeries[]>();
+  for (const post of series) {
+    const key = post.subreddit.toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), post]);
+  }
+
+  return Array.from(groups.values())
+    .map(posts => ({ subreddit: posts[0].subreddit, ...summarizePostMetrics(posts) }))
+    .sort((a, b) =>
+      Number(b.sampled > 0) - Number(a.sampled > 0) ||
+      b.averageScore - a.averageScore ||
+      a.subreddit.localeCompare(b.subreddit)
+    );
+}
+
+/**
+ * Aggregates per queue job. Posts outside a job are left out.
+ */
+export function summarizeByJob(series: PostMetricsSeries[]): JobMetricsAggregate[] {
+  const groups = new Map<string, PostMetricsSeries[]>();
+  for (const post of series) {
+    if (!post.jobId) continue;
+    groups.set(post.jobId, [...(groups.get(post.jobId) ?? []), post]);
+  }
+
+  return Array.from(groups, ([jobId, posts]) => ({ jobId, ...summarizePostMetrics(posts) }));
+}
+
+// ============================================================================
+// Sparklines
+// ============================================================================
+
+/**
+ * SVG polyline points for the scores of a post over time, scaled to the
+ * box. Time runs left to right from posting. Fewer than two snapshots give
+ * an empty string.
+ */
+export function getSparklinePoints(
+  snapshots: PostMetricsSnapshot[],
+  width: number,
+  height: number,
+  postedAt?: string
+): string {
+  if (snapshots.length < 2) {
+    return '';
+  }
+
+  const times = snapshots.map(snapshot => Date.parse(snapshot.sampledAt));
+  const start = postedAt ? Math.min(Date.parse(postedAt), times[0]) : times[0];
+  const span = Math.max(times[times.length - 1] - start, 1);
+  const scores = snapshots.map(snapshot => snapshot.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+
+  return snapshots
+    .map((snapshot, index) => {
+      const x = ((times[index] - start) / span) * width;
+      const y = range === 0 ? height / 2 : height - ((snapshot.score - min) / range) * height;
+      return `${round(x)},${round(y)}`;
+    })
+    .join(' ');
+}
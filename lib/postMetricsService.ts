@@ -0,0 +1,245 @@
+/**
+ * Post Metrics Service
+ *
+ * Samples successful posts on the schedule of lib/postMetrics.ts - one
+ * /api/info call per user and batch, with the owner's stored Reddit token -
+ * and reads the snapshots back for the jobs dashboard. Sampling is run by
+ * the cron dispatcher and the queue worker (sampleDuePosts).
+ */
+
+import * as Sentry from '@sentry/nextjs';
+import { getPostsInfo } from '../utils/reddit';
+import { createServerSupabaseClient, type PostLog } from './supabase';
+import { getRedditRefreshToken, getServerRedditClient, isTokenStoreConfigured } from './redditTokenStore';
+import { getNextMetricsSampleAt, POST_METRICS_CONSTANTS, type PostMetricsSeries } from './postMetrics';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type DuePost = Pick<PostLog, 'id' | 'user_id' | 'reddit_post_id' | 'sample_count' | 'created_at'>;
+
+interface SeriesRow extends Pick<
+  PostLog,
+  'id' | 'subreddit_name' | 'reddit_post_id' | 'reddit_post_url' | 'job_id' | 'result_index' | 'created_at'
+> {
+  post_metrics: { score: number; upvote_ratio: number; num_comments: number; sampled_at: string }[] | null;
+}
+
+export interface PostSampleSummary {
+  sampled: number;
+  /** Posts that could not be sampled (no token, Reddit error, post gone) */
+  failed: number;
+}
+
+/** How long a runner holds a post while sampling it (ms) */
+const SAMPLE_LEASE_MS = 2 * 60 * 1000;
+
+const SERIES_COLUMNS =
+  'id, subreddit_name, reddit_post_id, reddit_post_url, job_id, result_index, created_at, post_metrics(score, upvote_ratio, num_comments, sampled_at)';
+
+const toSeries = (row: SeriesRow): PostMetricsSeries => ({
+  id: row.id,
+  subreddit: row.subreddit_name,
+  postId: row.reddit_post_id,
+  url: row.reddit_post_url,
+  jobId: row.job_id,
+  resultIndex: row.result_index,
+  postedAt: row.created_at,
+  snapshots: (row.post_metrics ?? [])
+    .map(metrics => ({
+      score: metrics.score,
+      upvoteRatio: metrics.upvote_ratio,
+      comments: metrics.num_comments,
+      sampledAt: metrics.sampled_at,
+    }))
+    .sort((a, b) => a.sampledAt.localeCompare(b.sampledAt)),
+});
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Move a post on to its next sample, keeping the numbers when there are any.
+ */
+async function recordSample(
+  post: DuePost,
+  sample: { score: number; upvote_ratio: number; num_comments: number } | null,
+  sampledAt: string
+): Promise<void> {
+  const client = createServerSupabaseClient();
+  const sampleCount = post.sample_count + 1;
+
+  if (sample) {
+    const { error: insertError } = await client.from('post_metrics').insert({
+      post_log_id: post.id,
+      user_id: post.user_id,
+      ...sample,
+      sampled_at: sampledAt,
+    });
+    if (insertError) {
+      console.error('Failed to store post metrics:', insertError);
+    }
+  }
+
+  const { error } = await client
+    .from('post_logs')
+    .update({
+      sample_count: sampleCount,
+      next_sample_at: getNextMetricsSampleAt(post.created_at, sampleCount),
+      ...(sample && { ...sample, sampled_at: sampledAt }),
+    })
+    .eq('id', post.id);
+
+  if (error) {
+    console.error('Failed to record post sample:', error);
+  }
+}
+
+/**
+ * Stop sampling posts whose owner has no stored Reddit token. Tokens are
+ * stored whenever the owner posts with the token store configured, so these
+ * posts were made before that and every later sample would fail too.
+ */
+async function stopSampling(posts: DuePost[]): Promise<void> {
+  const client = createServerSupabaseClient();
+
+  const { error } = await client
+    .from('post_logs')
+    .update({ next_sample_at: null })
+    .in('id', posts.map(post => post.id));
+
+  if (error) {
+    console.error('Failed to stop post samples:', error);
+  }
+}
+
+/**
+ * Sample one user's due posts with their Reddit token. Posts Reddit no
+ * longer returns are skipped; a failed request skips the whole batch.
+ */
+async function sampleUserPosts(userId: string, posts: DuePost[]): Promise<PostSampleSummary> {
+  if (!(await getRedditRefreshToken(userId))) {
+    await stopSampling(posts);
+    return { sampled: 0, failed: posts.length };
+  }
+
+  let info: Awaited<ReturnType<typeof getPostsInfo>>;
+  try {
+    const client = await getServerRedditClient(userId);
+    info = await getPostsInfo(client, posts.map(post => post.reddit_post_id!));
+  } catch (error) {
+    console.error(`Failed to sample posts of user ${userId}:`, error instanceof Error ? error.message : error);
+    const sampledAt = new Date().toISOString();
+    await Promise.all(posts.map(post => recordSample(post, null, sampledAt)));
+    return { sampled: 0, failed: posts.length };
+  }
+
+  const sampledAt = new Date().toISOString();
+  let sampled = 0;
+
+  await Promise.all(posts.map(post => {
+    const found = info[post.reddit_post_id!.replace(/^t3_/, '')];
+    if (found) {
+      sampled++;
+    }
+    return recordSample(
+      post,
+      found ? { score: found.score, upvote_ratio: found.upvote_ratio, num_comments: found.num_comments } : null,
+      sampledAt
+    );
+  }));
+
+  return { sampled, failed: posts.length - sampled };
+}
+
+/**
+ * Sample posts whose next sample is due. Safe to run from several places
+ * at once - posts are claimed atomically (claim_post_samples). Does
+ * nothing without the Reddit token store.
+ */
+export async function sampleDuePosts(
+  limit: number = POST_METRICS_CONSTANTS.BATCH_SIZE
+): Promise<PostSampleSummary> {
+  if (!isTokenStoreConfigured()) {
+    return { sampled: 0, failed: 0 };
+  }
+
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client.rpc('claim_post_samples', {
+    p_limit: limit,
+    p_lease_seconds: Math.round(SAMPLE_LEASE_MS / 1000),
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim post samples: ${error.message}`);
+  }
+
+  const byUser = new Map<string, DuePost[]>();
+  for (const post of (data || []) as DuePost[]) {
+    if (!post.reddit_post_id) continue;
+    byUser.set(post.user_id, [...(byUser.get(post.user_id) ?? []), post]);
+  }
+
+  const summary: PostSampleSummary = { sampled: 0, failed: 0 };
+  for (const [userId, posts] of Array.from(byUser)) {
+    try {
+      const result = await sampleUserPosts(userId, posts);
+      summary.sampled += result.sampled;
+      summary.failed += result.failed;
+    } catch (err) {
+      Sentry.captureException(err, { tags: { component: 'queue.post_metrics' }, extra: { userId } });
+      summary.failed += posts.length;
+    }
+  }
+
+  return summary;
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Successful posts of a job with their snapshots, in item order.
+ */
+export async function getJobPostMetrics(jobId: string, userId: string): Promise<PostMetricsSeries[]> {
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client
+    .from('post_logs')
+    .select(SERIES_COLUMNS)
+    .eq('job_id', jobId)
+    .eq('user_id', userId)
+    .eq('status', 'success')
+    .order('result_index', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to get post metrics: ${error.message}`);
+  }
+
+  return ((data || []) as unknown as SeriesRow[]).map(toSeries);
+}
+
+/**
+ * A user's successful posts since `since`, newest first, with their snapshots.
+ */
+export async function getUserPostMetrics(userId: string, since: Date): Promise<PostMetricsSeries[]> {
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client
+    .from('post_logs')
+    .select(SERIES_COLUMNS)
+    .eq('user_id', userId)
+    .eq('status', 'success')
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to get post metrics: ${error.message}`);
+  }
+
+  return ((data || []) as unknown as SeriesRow[]).map(toSeries);
+}
@@ -70,6 +70,9 @@ export type AnalyticsEvent =
   | 'post_submitted'
   | 'post_success'
   | 'post_failed'
+  | 'post_scheduled'
+  | 'post_drip_started'
+  | 'post_dry_run'
   | 'media_uploaded'
   // Tier 3: Feature Discovery
   | 'settings_visited'
@@ -91,6 +94,9 @@ export interface EventProperties {
   success_count?: number;
   failed_count?: number;
   error_category?: string;
+  timezone?: string;
+  pacing_mode?: string;
+  repeat_frequency?: string;
   
   // Media properties
   media_type?: 'image' | 'video' | 'gallery';
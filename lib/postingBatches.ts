@@ -0,0 +1,165 @@
+/**
+ * Posting Batch Guard
+ *
+ * Per-item guard for direct posting batches (POST /api/queue), which post
+ * without a queue job. Each item of a batch is claimed in the
+ * posting_batch_items table before it is sent to Reddit, keyed by the
+ * batch's idempotency key. A retried batch gets the stored result of items
+ * that were already posted instead of posting them again.
+ */
+
+import { createServerSupabaseClient } from './supabase';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Outcome of claiming a batch item:
+ * - claimed: the item may be posted
+ * - posted: an earlier request posted it (url/postId from that request)
+ * - posting: an earlier request sent it and never reported back
+ */
+export type BatchItemClaim =
+  | { state: 'claimed' }
+  | { state: 'posted'; url: string | null; postId: string | null }
+  | { state: 'posting' };
+
+/** How long batch guards are kept (hours) */
+export const POSTING_BATCH_RETENTION_HOURS = 24;
+
+// ============================================================================
+// Guard
+// ============================================================================
+
+/**
+ * Claim an item before posting it. Throws when the guard cannot be read;
+ * the caller should not post in that case.
+ */
+export async function claimBatchItem(
+  userId: string,
+  idempotencyKey: string,
+  itemIndex: number,
+  subreddit: string
+): Promise<BatchItemClaim> {
+  const client = createServerSupabaseClient();
+
+  const { error } = await client
+    .from('posting_batch_items')
+    .insert({
+      user_id: userId,
+      idempotency_key: idempotencyKey,
+      item_index: itemIndex,
+      subreddit,
+    });
+
+  if (!error) {
+    return { state: 'claimed' };
+  }
+
+  if (error.code !== '23505') {
+    throw new Error(`Failed to claim batch item: ${error.message}`);
+  }
+
+  // Claimed by an earlier request with the same key
+  const { data, error: fetchError } = await client
+    .from('posting_batch_items')
+    .select('status, url, post_id')
+    .eq('user_id', userId)
+    .eq('idempotency_key', idempotencyKey)
+    .eq('item_index', itemIndex)
+    .eq('subreddit', subreddit)
+    .single();
+
+  if (fetchError) {
+    throw new Error(`Failed to claim batch item: ${fetchError.message}`);
+  }
+
+  return data.status === 'success'
+    ? { state: 'posted', url: data.url, postId: data.post_id }
+    : { state: 'posting' };
+}
+
+/**
+ * Record that a claimed item was posted.
+ */
+export async function completeBatchItem(
+  userId: string,
+  idempotencyKey: string,
+  itemIndex: number,
+  subreddit: string,
+  url: string | null,
+  postId: string | null
+): Promise<void> {
+  const client = createServerSupabaseClient();
+
+  const { error } = await client
+    .from('posting_batch_items')
+    .update({
+      status: 'success',
+      url,
+      post_id: postId,
+    })
+    .eq('user_id', userId)
+    .eq('idempotency_key', idempotencyKey)
+    .eq('item_index', itemIndex)
+    .eq('subreddit', subreddit);
+
+  if (error) {
+    console.error('Failed to complete batch item:', error);
+  }
+}
+
+/**
+ * Release a claimed item after Reddit refused it, so a retry may post it.
+ */
+export async function releaseBatchItem(
+  userId: string,
+  idempotencyKey: string,
+  itemIndex: number,
+  subreddit: string
+): Promise<void> {
+  const client = createServerSupabaseClient();
+
+  const { error } = await client
+    .from('posting_batch_items')
+    .delete()
+    .eq('user_id', userId)
+    .eq('idempotency_key', idempotencyKey)
+    .eq('item_index', itemIndex)
+    .eq('subreddit', subreddit);
+
+  if (error) {
+    console.error('Failed to release batch item:', error);
+  }
+}
+
+// ============================================================================
+// Cleanup
+// ============================================================================
+
+/**
+ * Delete batch guards older than `hoursOld`.
+ */
+export async function cleanupBatchItems(
+  hoursOld: number = POSTING_BATCH_RETENTION_HOURS
+): Promise<number> {
+  const client = createServerSupabaseClient();
+
+  const threshold = new Date(
+    Date.now() - hoursOld * 60 * 60 * 1000
+  ).toISOString();
+
+  const { data, error } = await client
+    .from('posting_batch_items')
+    .delete()
+    .lt('created_at', threshold)
+    .select('item_index');
+
+  if (error) {
+    console.error('Failed to clean up batch items:', error);
+    return 0;
+  }
+
+  return data?.length || 0;
+}
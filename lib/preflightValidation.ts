@@ -12,6 +12,9 @@
 import { PostRequirements, RedditUser, SubredditEligibility, SubredditSettings, UserSubredditStatus } from '../utils/reddit';
 import { ErrorCategory } from './errorClassification';
 import { ParsedRequirements, UserRequirementComparison } from './parseSubredditRequirements';
+import { GALLERY_CAPTION_MAX_LENGTH, getImagesMissing, isValidOutboundUrl } from './galleryItems';
+import { cleanPoll, DEFAULT_POLL_DURATION_DAYS, getPollError } from './pollPost';
+import type { GalleryItemDetails, PollDetails } from './queueJob';
 
 // ============================================================================
 // Types
@@ -31,7 +34,7 @@ export interface ValidationIssue {
   /** Suggested action to fix */
   suggestion?: string;
   /** Which field has the issue */
-  field?: 'title' | 'body' | 'flair' | 'media' | 'url';
+  field?: 'title' | 'body' | 'flair' | 'media' | 'url' | 'poll';
   /** Expected error category if this proceeds to posting */
   expectedCategory?: ErrorCategory;
 }
@@ -57,9 +60,13 @@ export interface PreflightInput {
   /** Post body/description (for self posts) */
   body?: string;
   /** Post type */
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   /** URL (for link posts) */
   url?: string;
+  /** Options and duration (for poll posts) */
+  poll?: PollDetails;
+  /** Whether each subreddit allows polls (left out when unknown) */
+  allowPolls?: Record<string, boolean | undefined>;
   /** Selected subreddits */
   subreddits: string[];
   /** Selected flairs by subreddit */
@@ -76,6 +83,10 @@ export interface PreflightInput {
   titleBySubreddit?: Record<string, string | undefined>;
   /** Per-subreddit body overrides (custom description) */
   bodyBySubreddit?: Record<string, string | undefined>;
+  /** Number of attached images/videos (gallery checks are skipped when unknown) */
+  mediaCount?: number;
+  /** Gallery image captions and links by subreddit, overrides already applied */
+  galleryItemsBySubreddit?: Record<string, GalleryItemDetails[] | undefined>;
   /** User data for eligibility checks */
   userData?: RedditUser;
   /** Eligibility data by subreddit */
@@ -552,17 +563,147 @@ function validateUrl(input: PreflightInput): ValidationIssue[] {
   return issues;
 }
 
+function formatImageNumbers(numbers: number[]): string {
+  return `image${numbers.length === 1 ? '' : 's'} ${numbers.join(', ')}`;
+}
+
 /**
- * Validates media for image/video/gallery posts
+ * Validates gallery posts: image count, captions and outbound links
+ * against each subreddit's gallery requirements
  */
 function validateMedia(input: PreflightInput): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
 
-  // For now, just check that media-based posts have the intent
-  // Actual file validation happens at upload time
-  if (input.kind === 'image' || input.kind === 'video' || input.kind === 'gallery') {
-    // Media validation would require the actual files
-    // This is more of a placeholder for future enhancement
+  // Single images and videos are checked when they are uploaded
+  if (input.kind !== 'gallery' || input.mediaCount === undefined) return issues;
+  const count = input.mediaCount;
+
+  for (const subreddit of input.subreddits) {
+    const reqs = input.postRequirements[subreddit];
+    const items = input.galleryItemsBySubreddit?.[subreddit];
+
+    if (reqs?.gallery_min_items && count < reqs.gallery_min_items) {
+      issues.push({
+        code: 'GALLERY_TOO_FEW_ITEMS',
+        severity: 'error',
+        subreddit,
+        message: `r/${subreddit}: Galleries need at least ${reqs.gallery_min_items} images (you have ${count})`,
+        suggestion: 'Add more images or remove this subreddit',
+        field: 'media',
+        expectedCategory: 'fixable_now',
+      });
+    }
+
+    if (reqs?.gallery_max_items && count > reqs.gallery_max_items) {
+      issues.push({
+        code: 'GALLERY_TOO_MANY_ITEMS',
+        severity: 'error',
+        subreddit,
+        message: `r/${subreddit}: Galleries can have at most ${reqs.gallery_max_items} images (you have ${count})`,
+        suggestion: 'Remove some images or remove this subreddit',
+        field: 'media',
+        expectedCategory: 'fixable_now',
+      });
+    }
+
+    if (reqs?.gallery_captions_requirement === 'required') {
+      const missing = getImagesMissing(items, count, 'caption');
+      if (missing.length > 0) {
+        issues.push({
+          code: 'GALLERY_CAPTIONS_REQUIRED',
+          severity: 'error',
+          subreddit,
+          message: `r/${subreddit}: Every gallery image needs a caption (missing on ${formatImageNumbers(missing)})`,
+          suggestion: 'Add a caption to each image',
+          field: 'media',
+          expectedCategory: 'fixable_now',
+        });
+      }
+    }
+
+    if (reqs?.gallery_urls_requirement === 'required') {
+      const missing = getImagesMissing(items, count, 'outboundUrl');
+      if (missing.length > 0) {
+        issues.push({
+          code: 'GALLERY_URLS_REQUIRED',
+          severity: 'error',
+          subreddit,
+          message: `r/${subreddit}: Every gallery image needs a link (missing on ${formatImageNumbers(missing)})`,
+          suggestion: 'Add a link to each image',
+          field: 'media',
+          expectedCategory: 'fixable_now',
+        });
+      }
+    }
+
+    const longCaptions: number[] = [];
+    const invalidUrls: number[] = [];
+    items?.forEach((item, index) => {
+      if (item.caption && item.caption.length > GALLERY_CAPTION_MAX_LENGTH) longCaptions.push(index + 1);
+      if (item.outboundUrl && !isValidOutboundUrl(item.outboundUrl)) invalidUrls.push(index + 1);
+    });
+
+    if (longCaptions.length > 0) {
+      issues.push({
+        code: 'GALLERY_CAPTION_TOO_LONG',
+        severity: 'error',
+        subreddit,
+        message: `r/${subreddit}: Captions can be at most ${GALLERY_CAPTION_MAX_LENGTH} characters (${formatImageNumbers(longCaptions)})`,
+        suggestion: 'Shorten the captions',
+        field: 'media',
+        expectedCategory: 'fixable_now',
+      });
+    }
+
+    if (invalidUrls.length > 0) {
+      issues.push({
+        code: 'GALLERY_URL_INVALID',
+        severity: 'error',
+        subreddit,
+        message: `r/${subreddit}: Image links must start with http:// or https:// (${formatImageNumbers(invalidUrls)})`,
+        suggestion: 'Fix or remove the links',
+        field: 'media',
+        expectedCategory: 'fixable_now',
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validates poll posts: the options and duration, and whether each
+ * subreddit allows polls
+ */
+function validatePoll(input: PreflightInput): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (input.kind !== 'poll') return issues;
+
+  const pollError = getPollError(cleanPoll(input.poll ?? { options: [], durationDays: DEFAULT_POLL_DURATION_DAYS }));
+  if (pollError) {
+    issues.push({
+      code: 'POLL_INVALID',
+      severity: 'error',
+      message: pollError,
+      suggestion: 'Fix the poll options and duration',
+      field: 'poll',
+      expectedCategory: 'fixable_now',
+    });
+  }
+
+  for (const subreddit of input.subreddits) {
+    if (input.allowPolls?.[subreddit] === false) {
+      issues.push({
+        code: 'POLLS_NOT_ALLOWED',
+        severity: 'error',
+        subreddit,
+        message: `r/${subreddit}: This community doesn't allow polls`,
+        suggestion: 'Remove this subreddit or post a text post instead',
+        field: 'poll',
+        expectedCategory: 'unfixable',
+      });
+    }
   }
 
   return issues;
@@ -642,7 +783,7 @@ export function getEligibilityForSubreddit(
   subreddit: string,
   eligibility: SubredditEligibility | undefined,
   userData: RedditUser | undefined,
-  postKind: 'self' | 'link' | 'image' | 'video' | 'gallery'
+  postKind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll'
 ): EligibilityResult {
   const checks = {
     banned: false,
@@ -679,8 +820,9 @@ export function getEligibilityForSubreddit(
   const isMediaPost = ['image', 'video', 'gallery'].includes(postKind);
   const isVideoPost = postKind === 'video';
   const isImagePost = postKind === 'image' || postKind === 'gallery';
+  const isPollPost = postKind === 'poll';
 
-  if (eligibility.submissionType === 'link' && (isSelfPost)) {
+  if (eligibility.submissionType === 'link' && (isSelfPost || isPollPost)) {
     checks.submissionTypeAllowed = false;
   } else if (eligibility.submissionType === 'self' && (isLinkPost || isMediaPost)) {
     checks.submissionTypeAllowed = false;
@@ -693,6 +835,9 @@ export function getEligibilityForSubreddit(
   if (isImagePost && eligibility.allowImages === false) {
     checks.submissionTypeAllowed = false;
   }
+  if (isPollPost && eligibility.allowPolls === false) {
+    checks.submissionTypeAllowed = false;
+  }
 
   // Determine status based on checks
 
@@ -714,6 +859,8 @@ export function getEligibilityForSubreddit(
       reason = `r/${subreddit} doesn't allow video posts`;
     } else if ((postKind === 'image' || postKind === 'gallery') && eligibility.allowImages === false) {
       reason = `r/${subreddit} doesn't allow image posts`;
+    } else if (postKind === 'poll' && eligibility.allowPolls === false) {
+      reason = `r/${subreddit} doesn't allow polls`;
     } else {
       // Generic submission type restriction
       const typeLabel = eligibility.submissionType === 'link' ? 'link posts' : 'text posts';
@@ -883,6 +1030,7 @@ export function validatePreflight(input: PreflightInput): PreflightResult {
     ...validateFlairs(input),
     ...validateUrl(input),
     ...validateMedia(input),
+    ...validatePoll(input),
   ];
 
   const errors = allIssues.filter(i => i.severity === 'error');
@@ -0,0 +1,52 @@
+/**
+ * Crosspost Mode
+ *
+ * A crosspost job submits its first item as a normal post, then
+ * crossposts that post to the remaining subreddits. Subreddits that do
+ * not take crossposts get a normal upload instead. The processor asks
+ * these helpers which post to crosspost and whether a subreddit takes it.
+ */
+
+import type { SubredditSettings } from '../utils/reddit';
+import type { QueueCrosspostParent, QueueJobResult } from './queueJob';
+
+/**
+ * The post the remaining items are crossposted from: the first item that
+ * was posted normally. Null until one has been posted, so when the first
+ * item fails the next one is uploaded and becomes the original.
+ */
+export function getCrosspostParent(results: QueueJobResult[]): QueueCrosspostParent | null {
+  const parent = results.find(result => result.status === 'success' && result.postId && !result.crosspostOf);
+  if (!parent?.postId) {
+    return null;
+  }
+
+  return {
+    index: parent.index,
+    subreddit: parent.subreddit,
+    postId: parent.postId,
+    ...(parent.url && { url: parent.url }),
+  };
+}
+
+/**
+ * Whether a subreddit takes crossposts. Unknown settings count as yes.
+ * Text-only subreddits don't take them.
+ */
+export function acceptsCrossposts(settings: Pick<SubredditSettings, 'allowCrossposts' | 'submissionType'>): boolean {
+  return settings.allowCrossposts !== false && settings.submissionType !== 'self';
+}
+
+/**
+ * Reddit fullname of a post, as `crosspost_fullname` expects it.
+ */
+export function toPostFullname(postId: string): string {
+  return postId.startsWith('t3_') ? postId : `t3_${postId}`;
+}
+
+/**
+ * Post ID from a Reddit post URL (`.../comments/{id}/...`).
+ */
+export function getPostIdFromUrl(url: string | undefined): string | undefined {
+  return url?.match(/\/comments\/([a-z0-9]+)/i)?.[1];
+}
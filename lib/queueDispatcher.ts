@@ -0,0 +1,155 @@
+/**
+ * Queue Dispatcher
+ *
+ * Runs queue jobs server-side without an open browser.
+ * Picks up server-run jobs (due scheduled jobs, new jobs, and jobs that
+ * yielded on a previous run), claims them, and processes them within a
+ * time budget. Used by the cron route and the headless queue worker.
+ *
+ * Environment variables:
+ * - QUEUE_WORKER_ENABLED: "true" when scripts/queue-worker.ts is deployed,
+ *   so immediate jobs are posted by the server instead of the browser
+ */
+
+import * as Sentry from '@sentry/nextjs';
+import {
+  claimQueueJob,
+  deferQueueJob,
+  failQueueJob,
+  generateWorkerId,
+  getDispatchableJobs,
+} from './queueService';
+import { getJobEntitlementError, runQueueJob, RunQueueJobOutcome } from './queueProcessor';
+import { getServerRedditClient, isTokenStoreConfigured } from './redditTokenStore';
+import { recordJobEvent } from './queueEvents';
+import { QUEUE_JOB_CONSTANTS } from './queueJob';
+import { isTemporaryDispatchError } from './queueRetry';
+import { materializeDueRecurringJobs } from './recurringJobService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DispatchedJob {
+  jobId: string;
+  outcome: RunQueueJobOutcome | 'skipped' | 'failed';
+  error?: string;
+}
+
+export interface DispatchSummary {
+  workerId: string;
+  jobs: DispatchedJob[];
+}
+
+export interface DispatchOptions {
+  /** Time budget for the whole run (ms) */
+  timeBudgetMs?: number;
+  /** Reuse a worker id across runs (long-lived workers) */
+  workerId?: string;
+  /** Checked between jobs and items; returning true ends the run early */
+  shouldStop?: () => boolean;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Whether immediate jobs should be handed to the server instead of the browser.
+ * Requires a running queue worker and the Reddit token store.
+ */
+export const isServerRunnerEnabled = (): boolean =>
+  process.env.QUEUE_WORKER_ENABLED === 'true' && isTokenStoreConfigured();
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+/**
+ * Dispatch all due jobs until the time budget runs out.
+ * Jobs not finished in time are released and continue on the next run.
+ * Jobs that hit a temporary error (network, Reddit outage) are deferred and
+ * retried; other errors, such as a missing or revoked token, fail the job.
+ */
+export async function dispatchDueJobs({
+  timeBudgetMs = QUEUE_JOB_CONSTANTS.DISPATCH_TIME_BUDGET_MS,
+  workerId = generateWorkerId(),
+  shouldStop,
+}: DispatchOptions = {}): Promise<DispatchSummary> {
+  const deadline = Date.now() + timeBudgetMs;
+  const dispatched: DispatchedJob[] = [];
+
+  // Due recurring series become scheduled jobs, picked up below
+  try {
+    await materializeDueRecurringJobs();
+  } catch (err) {
+    console.error('Failed to create recurring job runs:', err);
+    Sentry.captureException(err, { tags: { component: 'queue.recurring' } });
+  }
+
+  const jobs = await getDispatchableJobs(QUEUE_JOB_CONSTANTS.DISPATCH_BATCH_SIZE);
+
+  for (const job of jobs) {
+    if (Date.now() >= deadline || shouldStop?.()) {
+      break;
+    }
+
+    const claimedJob = await claimQueueJob(job.id, workerId);
+    if (!claimedJob) {
+      // Claimed by another worker or cancelled in the meantime
+      dispatched.push({ jobId: job.id, outcome: 'skipped' });
+      continue;
+    }
+
+    try {
+      const entitlementError = await getJobEntitlementError(claimedJob);
+      if (entitlementError) {
+        await failQueueJob(claimedJob.id, entitlementError);
+        dispatched.push({ jobId: claimedJob.id, outcome: 'failed', error: entitlementError });
+        continue;
+      }
+
+      const client = await getServerRedditClient(claimedJob.user_id);
+      const outcome = await runQueueJob({
+        job: claimedJob,
+        client,
+        workerId,
+        deadline,
+        shouldStop,
+      });
+
+      dispatched.push({ jobId: claimedJob.id, outcome });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to run queue job';
+      const temporary = isTemporaryDispatchError(error);
+
+      Sentry.captureException(error, {
+        level: temporary ? 'warning' : 'error',
+        tags: { component: 'queue.dispatch' },
+        extra: { jobId: claimedJob.id, workerId, temporary },
+      });
+
+      if (temporary) {
+        const retryAt = new Date(Date.now() + QUEUE_JOB_CONSTANTS.DISPATCH_RETRY_DELAY_MS).toISOString();
+        await recordJobEvent(claimedJob.id, 'waiting', {
+          workerId,
+          message: `Could not start - retrying: ${message}`,
+          data: { until: retryAt, released: true },
+        });
+        await deferQueueJob(claimedJob.id, workerId, retryAt);
+        dispatched.push({ jobId: claimedJob.id, outcome: 'deferred', error: message });
+        continue;
+      }
+
+      try {
+        await failQueueJob(claimedJob.id, message);
+      } catch {
+        // Ignore cleanup errors
+      }
+
+      dispatched.push({ jobId: claimedJob.id, outcome: 'failed', error: message });
+    }
+  }
+
+  return { workerId, jobs: dispatched };
+}
@@ -0,0 +1,142 @@
+/**
+ * Dry Runs
+ *
+ * Turns a prepared post (the title, kind and files the queue processor
+ * would send) plus the subreddit's current post requirements and flairs
+ * into a dry-run result. Nothing here talks to Reddit; the processor
+ * fetches the requirements and stops before submitting.
+ */
+
+import type { PostRequirements } from '../utils/reddit';
+import { validatePreflight, type ValidationIssue } from './preflightValidation';
+import type { QueueDryRunReport, QueueJobResult } from './queueJob';
+
+/**
+ * A post as it would be sent to Reddit.
+ */
+export interface PreparedPost {
+  subreddit: string;
+  title: string;
+  kind: QueueDryRunReport['kind'];
+  flairId?: string;
+  flairText?: string;
+  url?: string;
+  text?: string;
+  flags: QueueDryRunReport['flags'];
+  files: QueueDryRunReport['files'];
+  /** Captions and links of the gallery images */
+  galleryItems?: QueueDryRunReport['galleryItems'];
+  poll?: QueueDryRunReport['poll'];
+}
+
+const MEDIA_KINDS: PreparedPost['kind'][] = ['image', 'video', 'gallery'];
+
+/**
+ * Checks preflight validation does not cover because it needs the
+ * prepared post (files) or fresh flairs.
+ */
+function validatePreparedPost(
+  post: PreparedPost,
+  flairs: { id: string; text: string; text_editable?: boolean }[]
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (MEDIA_KINDS.includes(post.kind) && post.files.length === 0) {
+    issues.push({
+      code: 'MEDIA_MISSING',
+      severity: 'error',
+      subreddit: post.subreddit,
+      message: `r/${post.subreddit}: No media found for this ${post.kind} post`,
+      suggestion: 'Attach the media again and resubmit',
+      field: 'media',
+    });
+  }
+
+  if (post.flairId && flairs.length > 0 && !flairs.some(flair => flair.id === post.flairId)) {
+    issues.push({
+      code: 'FLAIR_NOT_OFFERED',
+      severity: 'warning',
+      subreddit: post.subreddit,
+      message: `r/${post.subreddit}: The selected flair is no longer offered`,
+      suggestion: 'Pick the flair again',
+      field: 'flair',
+    });
+  }
+
+  const flair = post.flairText ? flairs.find(option => option.id === post.flairId) : undefined;
+  if (flair?.text_editable === false) {
+    issues.push({
+      code: 'FLAIR_TEXT_NOT_EDITABLE',
+      severity: 'warning',
+      subreddit: post.subreddit,
+      message: `r/${post.subreddit}: The selected flair does not take its own text`,
+      suggestion: 'Clear the flair text or pick an editable flair',
+      field: 'flair',
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Build the result of a dry-run item. The item counts as an error when
+ * preflight finds blocking issues, so the run's summary shows what would
+ * have failed.
+ *
+ * @param allowPolls - Whether the subreddit allows polls (poll posts; unknown when left out)
+ */
+export function buildDryRunResult(
+  index: number,
+  post: PreparedPost,
+  requirements: PostRequirements,
+  flairs: { id: string; text: string; text_editable?: boolean }[],
+  now: Date = new Date(),
+  allowPolls?: boolean
+): QueueJobResult {
+  const { subreddit } = post;
+  const preflight = validatePreflight({
+    title: post.title,
+    body: post.text,
+    kind: post.kind,
+    url: post.url,
+    subreddits: [subreddit],
+    flairValue: { [subreddit]: post.flairId },
+    flairRequired: { [subreddit]: requirements.is_flair_required === true },
+    flairOptions: { [subreddit]: flairs },
+    postRequirements: { [subreddit]: requirements },
+    mediaCount: post.files.length,
+    galleryItemsBySubreddit: { [subreddit]: post.galleryItems },
+    poll: post.poll,
+    allowPolls: { [subreddit]: allowPolls },
+  });
+
+  const issues = [...preflight.issues, ...validatePreparedPost(post, flairs)];
+  const blocking = issues.filter(issue => issue.severity === 'error');
+
+  const flairText = post.flairId
+    ? post.flairText ?? flairs.find(flair => flair.id === post.flairId)?.text
+    : undefined;
+
+  const report: QueueDryRunReport = {
+    title: post.title,
+    kind: post.kind,
+    ...(post.flairId && { flairId: post.flairId }),
+    ...(flairText && { flairText }),
+    ...(post.url && { url: post.url }),
+    ...(post.text && { text: post.text }),
+    flags: post.flags,
+    files: post.files,
+    ...(post.galleryItems && { galleryItems: post.galleryItems }),
+    ...(post.poll && { poll: post.poll }),
+    issues,
+  };
+
+  return {
+    index,
+    subreddit,
+    status: blocking.length > 0 ? 'error' : 'success',
+    ...(blocking.length > 0 && { error: blocking.map(issue => issue.message).join('; ') }),
+    postedAt: now.toISOString(),
+    dryRun: report,
+  };
+}
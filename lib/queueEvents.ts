@@ -0,0 +1,96 @@
+/**
+ * Queue Job Events
+ *
+ * Server-side timeline of what happened to a queue job (queue_job_events
+ * table). Runners record claims, item progress, waits and retries; the
+ * API routes record user actions. Shown on the jobs dashboard so users
+ * and support can see why a post went the way it did.
+ */
+
+import { createServerSupabaseClient } from './supabase';
+import type { QueueJobEvent, QueueJobEventType } from './queueJob';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RecordJobEventInput {
+  itemIndex?: number;
+  subreddit?: string;
+  workerId?: string;
+  message?: string;
+  data?: Record<string, unknown>;
+}
+
+/** Max events returned per timeline request */
+export const TIMELINE_PAGE_SIZE = 500;
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Append an event to a job's timeline.
+ * Never throws - a lost event must not stop the job.
+ */
+export async function recordJobEvent(
+  jobId: string,
+  type: QueueJobEventType,
+  { itemIndex, subreddit, workerId, message, data }: RecordJobEventInput = {}
+): Promise<void> {
+  try {
+    const client = createServerSupabaseClient();
+
+    const { error } = await client
+      .from('queue_job_events')
+      .insert({
+        job_id: jobId,
+        type,
+        item_index: itemIndex ?? null,
+        subreddit: subreddit ?? null,
+        worker_id: workerId ?? null,
+        message: message ?? null,
+        data: data ?? {},
+      });
+
+    if (error) {
+      console.error('Failed to record job event:', error);
+    }
+  } catch (error) {
+    console.error('Failed to record job event:', error);
+  }
+}
+
+// ============================================================================
+// Retrieval
+// ============================================================================
+
+/**
+ * Get a job's events in the order they happened, optionally only those
+ * after `afterId`.
+ */
+export async function getJobEvents(
+  jobId: string,
+  afterId?: number
+): Promise<QueueJobEvent[]> {
+  const client = createServerSupabaseClient();
+
+  let query = client
+    .from('queue_job_events')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('id', { ascending: true })
+    .limit(TIMELINE_PAGE_SIZE);
+
+  if (afterId !== undefined) {
+    query = query.gt('id', afterId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to get job events: ${error.message}`);
+  }
+
+  return (data || []) as QueueJobEvent[];
+}
@@ -0,0 +1,235 @@
+/**
+ * Queue Item Editing
+ *
+ * Skip, remove and reorder the not-yet-posted items of a submitted job, and
+ * move rate-limited items to the back for a later retry.
+ * Only items from current_index on can change, so the results array (which
+ * covers the items before current_index) stays valid. File references are
+ * re-pointed to the items' new positions.
+ * Client-safe: used by the items endpoint and the progress list.
+ */
+
+import type { QueueFileReference, QueueItemEdit, QueueJob, QueueJobItem } from './queueJob';
+import { QUEUE_JOB_CONSTANTS } from './queueJob';
+import { classifyError, parseRetryAfterMs } from './errorClassification';
+
+type EditableJob = Pick<QueueJob, 'items' | 'file_paths' | 'current_index'>;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const isIndex = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Parse an item edit from an API request body.
+ */
+export function parseItemEditInput(input: unknown): { edit?: QueueItemEdit; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Edit required' };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  switch (raw.action) {
+    case 'skip':
+    case 'unskip':
+    case 'remove':
+      if (!isIndex(raw.index)) {
+        return { error: 'Item index required' };
+      }
+      return { edit: { action: raw.action, index: raw.index } };
+    case 'reorder':
+      if (!Array.isArray(raw.order) || !raw.order.every(isIndex)) {
+        return { error: 'Order must be a list of item indices' };
+      }
+      return { edit: { action: 'reorder', order: raw.order } };
+    default:
+      return { error: 'Action must be skip, unskip, remove or reorder' };
+  }
+}
+
+/**
+ * Indices of the items that have not been posted yet.
+ */
+export function getRemainingIndices(itemCount: number, currentIndex: number): number[] {
+  const indices: number[] = [];
+  for (let i = currentIndex; i < itemCount; i++) {
+    indices.push(i);
+  }
+  return indices;
+}
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+/**
+ * Re-point file references after items moved. `newIndexOf` maps an old item
+ * index to its new one, or -1 when the item was dropped. Shared files stay.
+ */
+function remapFiles(
+  files: QueueFileReference[],
+  newIndexOf: (oldIndex: number) => number
+): QueueFileReference[] {
+  return files.flatMap(file => {
+    if (file.itemIndex === -1) return [file];
+    const itemIndex = newIndexOf(file.itemIndex);
+    return itemIndex === -1 ? [] : [{ ...file, itemIndex }];
+  });
+}
+
+/**
+ * Apply an edit to a job's items and file references.
+ * Returns an error when the edit touches an item that was already posted.
+ */
+export function applyItemEdit(
+  job: EditableJob,
+  edit: QueueItemEdit
+): { items?: QueueJobItem[]; filePaths?: QueueFileReference[]; error?: string } {
+  const { items, file_paths: filePaths, current_index: currentIndex } = job;
+
+  if (edit.action === 'reorder') {
+    const remaining = getRemainingIndices(items.length, currentIndex);
+    const order = edit.order;
+    const isPermutation =
+      order.length === remaining.length &&
+      new Set(order).size === order.length &&
+      order.every(index => index >= currentIndex && index < items.length);
+
+    if (!isPermutation) {
+      return { error: 'Order must list every post that has not been posted yet' };
+    }
+
+    // Planned drip times belong to the position, not the item
+    const reordered = order.map((oldIndex, i) => {
+      const item = { ...items[oldIndex] };
+      const notBefore = items[currentIndex + i].notBefore;
+      if (notBefore) item.notBefore = notBefore;
+      return item;
+    });
+
+    return {
+      items: [...items.slice(0, currentIndex), ...reordered],
+      filePaths: remapFiles(filePaths, oldIndex =>
+        oldIndex < currentIndex ? oldIndex : currentIndex + order.indexOf(oldIndex)
+      ),
+    };
+  }
+
+  const { index } = edit;
+  if (index >= items.length) {
+    return { error: 'Post not found' };
+  }
+  if (index < currentIndex) {
+    return { error: 'That post has already been posted' };
+  }
+
+  if (edit.action === 'remove') {
+    if (items.length - currentIndex <= 1) {
+      return { error: 'That is the last remaining post - cancel the job instead' };
+    }
+    return {
+      items: items.filter((_, i) => i !== index),
+      filePaths: remapFiles(filePaths, oldIndex =>
+        oldIndex === index ? -1 : oldIndex > index ? oldIndex - 1 : oldIndex
+      ),
+    };
+  }
+
+  const skipped = edit.action === 'skip';
+  return {
+    items: items.map((item, i) => {
+      if (i !== index) return item;
+      const next = { ...item };
+      if (skipped) {
+        next.skipped = true;
+      } else {
+        delete next.skipped;
+      }
+      return next;
+    }),
+    filePaths,
+  };
+}
+
+/**
+ * Move one remaining item up or down by one place, as a reorder edit.
+ * Returns null when it cannot move further.
+ */
+export function buildMoveEdit(
+  itemCount: number,
+  currentIndex: number,
+  index: number,
+  direction: -1 | 1
+): QueueItemEdit | null {
+  const order = getRemainingIndices(itemCount, currentIndex);
+  const from = order.indexOf(index);
+  const to = from + direction;
+  if (from === -1 || to < 0 || to >= order.length) {
+    return null;
+  }
+  [order[from], order[to]] = [order[to], order[from]];
+  return { action: 'reorder', order };
+}
+
+// ============================================================================
+// Rate-Limit Retries
+// ============================================================================
+
+/**
+ * Plan another attempt for an item Reddit rate-limited.
+ * Returns the item with its retry time and attempt history, or null when the
+ * error is not a rate limit, the attempts are used up or the wait is too long.
+ */
+export function planItemRetry(
+  item: QueueJobItem,
+  errorMessage: string,
+  maxAttempts: number,
+  now: number = Date.now()
+): QueueJobItem | null {
+  if (classifyError(errorMessage).action !== 'wait_retry') {
+    return null;
+  }
+
+  const attempts = item.attempts ?? [];
+  if (attempts.length + 1 >= maxAttempts) {
+    return null;
+  }
+
+  const waitMs = parseRetryAfterMs(errorMessage) ?? QUEUE_JOB_CONSTANTS.RATE_LIMIT_DEFAULT_WAIT_MS;
+  if (waitMs > QUEUE_JOB_CONSTANTS.RATE_LIMIT_MAX_WAIT_MS) {
+    return null;
+  }
+
+  const retryAt = new Date(now + waitMs + QUEUE_JOB_CONSTANTS.RATE_LIMIT_RETRY_BUFFER_MS).toISOString();
+  // Reddit refused the post, so it may be sent again
+  const retry = { ...item };
+  delete retry.postingAt;
+  return {
+    ...retry,
+    retryAt,
+    attempts: [...attempts, { error: errorMessage, at: new Date(now).toISOString(), retryAt }],
+  };
+}
+
+/**
+ * Move a remaining item to the back of the job, replacing it with `item`
+ * (the planned retry). The other remaining items move up one place.
+ */
+export function requeueItem(
+  job: EditableJob,
+  index: number,
+  item: QueueJobItem
+): { items: QueueJobItem[]; filePaths: QueueFileReference[] } {
+  const { items, file_paths: filePaths } = job;
+  const lastIndex = items.length - 1;
+
+  return {
+    items: [...items.slice(0, index), ...items.slice(index + 1), item],
+    filePaths: remapFiles(filePaths, oldIndex =>
+      oldIndex === index ? lastIndex : oldIndex > index ? oldIndex - 1 : oldIndex
+    ),
+  };
+}
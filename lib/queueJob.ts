@@ -6,14 +6,23 @@
  * of queue jobs, items, and results.
  */
 
+import type { ValidationIssue } from './preflightValidation';
+
 // ============================================================================
 // Status Types
 // ============================================================================
 
-export type QueueJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+export type QueueJobStatus = 'scheduled' | 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
 
 export type QueueItemStatus = 'queued' | 'posting' | 'success' | 'error' | 'skipped';
 
+/**
+ * Who processes a job:
+ * - browser: the open tab drives /api/queue/process
+ * - server: the headless queue worker (or cron dispatcher) posts it
+ */
+export type QueueJobRunner = 'browser' | 'server';
+
 // ============================================================================
 // Item Types (stored in queue_jobs.items JSONB)
 // ============================================================================
@@ -22,16 +31,77 @@ export type QueueItemStatus = 'queued' | 'posting' | 'success' | 'error' | 'skip
  * Queue item as stored in the database.
  * Does NOT contain File objects - files are stored in Supabase Storage.
  */
-export interface QueueJobItem {
+/**
+ * Reddit post flags of an item. Left out, `nsfw` follows the subreddit
+ * (`subreddit_cache.over_18`) and `sendReplies` is on.
+ */
+export interface PostFlags {
+  nsfw?: boolean;
+  spoiler?: boolean;
+  /** Send replies to the author's inbox */
+  sendReplies?: boolean;
+  /** Mark as original content (only where the subreddit enables the OC tag) */
+  originalContent?: boolean;
+}
+
+/**
+ * Caption and outbound link of one gallery image, in file order.
+ * Empty fields are left out.
+ */
+export interface GalleryItemDetails {
+  caption?: string;
+  /** Link opened when the image is tapped */
+  outboundUrl?: string;
+}
+
+/**
+ * Options and duration of a poll post.
+ */
+export interface PollDetails {
+  /** 2-6 answers, in order */
+  options: string[];
+  /** How long voting stays open (1-7 days) */
+  durationDays: number;
+}
+
+export interface QueueJobItem extends PostFlags {
   subreddit: string;
   flairId?: string;
+  /** Own flair text, for flair templates that allow editing */
+  flairText?: string;
   titleSuffix?: string;
   customTitle?: string;
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   url?: string;
   text?: string;
+  /** Poll options and duration (poll items only) */
+  poll?: PollDetails;
+  /** Captions and links of the gallery images (gallery items only) */
+  galleryItems?: GalleryItemDetails[];
   // File count for this item (actual files in Storage)
   fileCount?: number;
+  /** Earliest time this item may be posted (UTC ISO), set for drip-paced jobs */
+  notBefore?: string;
+  /** Marked by the user after submit; the runner records a 'skipped' result instead of posting */
+  skipped?: boolean;
+  /** Rate-limited earlier: not posted again before this time (UTC ISO) */
+  retryAt?: string;
+  /** Earlier rate-limited attempts, oldest first */
+  attempts?: QueueJobAttempt[];
+  /** Set right before the item is sent to Reddit; a re-claimed job never sends it again */
+  postingAt?: string;
+}
+
+/**
+ * A rate-limited attempt at posting an item, kept while the item waits
+ * at the back of the job for its retry.
+ */
+export interface QueueJobAttempt {
+  error: string;
+  /** When the attempt was made (UTC ISO) */
+  at: string;
+  /** When the item was rescheduled to (UTC ISO) */
+  retryAt: string;
 }
 
 /**
@@ -60,6 +130,21 @@ export interface QueueFileReference {
   size: number;
 }
 
+/**
+ * A shared file already uploaded to Reddit, stored in queue_jobs.media_assets
+ * JSONB so later items of the job reuse it (see lib/queueMediaCache.ts).
+ */
+export interface QueueMediaAsset {
+  /** fileIndex of the shared file (itemIndex = -1) */
+  fileIndex: number;
+  /** Reddit media asset ID */
+  assetId: string;
+  /** Processed media URL Reddit serves the asset from */
+  url: string;
+  /** When it was uploaded (UTC ISO) */
+  uploadedAt: string;
+}
+
 // ============================================================================
 // Result Types (stored in queue_jobs.results JSONB)
 // ============================================================================
@@ -72,8 +157,78 @@ export interface QueueJobResult {
   subreddit: string;
   status: 'success' | 'error' | 'skipped';
   url?: string;
+  /** Reddit post ID (without the t3_ prefix) of a successful post */
+  postId?: string;
+  /** Crosspost jobs: the post this item was crossposted from */
+  crosspostOf?: QueueCrosspostParent;
   error?: string;
   postedAt?: string;
+  /** Earlier rate-limited attempts before this result */
+  attempts?: QueueJobAttempt[];
+  /** Dry runs: what would have been sent (status is 'error' when preflight found blocking issues) */
+  dryRun?: QueueDryRunReport;
+  /** Latest follow-up check of a posted item (see lib/postCheck.ts) */
+  postCheck?: QueuePostCheck;
+}
+
+/**
+ * What a post looked like when it was checked again after posting:
+ * - live: still up
+ * - removed: removed by the moderators, AutoModerator or Reddit
+ * - spam: caught by Reddit's spam filter
+ * - deleted: deleted by the author or gone from Reddit
+ */
+export type QueuePostState = 'live' | 'removed' | 'spam' | 'deleted';
+
+export interface QueuePostCheck {
+  state: QueuePostState;
+  /** Reddit's removed_by_category, e.g. moderator, automod_filtered, reddit */
+  removedByCategory?: string;
+  /** Removal reason, when Reddit shows it to the author */
+  removalReason?: string;
+  locked?: boolean;
+  /** When the post was checked (UTC ISO) */
+  checkedAt: string;
+  /** First check that found the post no longer live (UTC ISO) */
+  removedAt?: string;
+}
+
+/**
+ * The original post of a crosspost job, which the other items are
+ * crossposted from.
+ */
+export interface QueueCrosspostParent {
+  /** Index of the item that created the post */
+  index: number;
+  subreddit: string;
+  postId: string;
+  url?: string;
+}
+
+/**
+ * What a dry run would have sent to Reddit for one item, and what
+ * preflight validation found against the subreddit's current requirements.
+ */
+export interface QueueDryRunReport {
+  /** Title with smart prefixes and suffix, exactly as it would be sent */
+  title: string;
+  /** Post kind after resolving the files (several files make a gallery) */
+  kind: QueueJobItem['kind'];
+  flairId?: string;
+  /** Text of the flair: the item's own text, or the template's when the subreddit still offers it */
+  flairText?: string;
+  url?: string;
+  /** Body text */
+  text?: string;
+  /** Flags as they would be sent */
+  flags: Required<PostFlags>;
+  /** Media downloaded from storage (not uploaded to Reddit) */
+  files: { name: string; mimeType: string; size: number }[];
+  /** Captions and links of the gallery images */
+  galleryItems?: GalleryItemDetails[];
+  /** Poll options and duration */
+  poll?: PollDetails;
+  issues: ValidationIssue[];
 }
 
 // ============================================================================
@@ -99,8 +254,108 @@ export interface QueueJob {
   completed_at: string | null;
   claimed_by: string | null;
   claimed_at: string | null;
+  /** When a scheduled job should start (null for jobs posted immediately) */
+  scheduled_at: string | null;
+  /** IANA timezone the schedule was picked in */
+  timezone: string | null;
+  /** Who processes the job */
+  runner: QueueJobRunner;
+  /** Drip pacing policy (null = post items a few seconds apart) */
+  pacing: QueueJobPacing | null;
+  /** When a drip-paced job's next item is due; the job is not picked up before */
+  next_item_at: string | null;
+  /** When the job was paused (null when not paused) */
+  paused_at: string | null;
+  /** Key of the submit request; a retry with the same key returns this job */
+  idempotency_key: string | null;
+  /** Recurring series this job is a run of */
+  recurring_job_id: string | null;
+  /** Check every item without posting (results carry a dry-run report) */
+  dry_run: boolean;
+  /** Post the first item, then crosspost it to the others */
+  crosspost: boolean;
+  /** Shared files already uploaded to Reddit, reused by later items */
+  media_assets: QueueMediaAsset[];
+}
+
+// ============================================================================
+// Event Types (queue_job_events table)
+// ============================================================================
+
+export type QueueJobEventType =
+  | 'created'
+  | 'claimed'
+  | 'released'
+  | 'item_started'
+  | 'media_uploaded'
+  | 'reddit_response'
+  | 'item_skipped'
+  | 'item_interrupted'
+  | 'item_checked'
+  | 'waiting'
+  | 'retry_scheduled'
+  | 'paused'
+  | 'resumed'
+  | 'rescheduled'
+  | 'items_edited'
+  | 'post_action'
+  | 'cancelled'
+  | 'completed'
+  | 'failed';
+
+/**
+ * One entry of a job's timeline, as stored in the database.
+ */
+export interface QueueJobEvent {
+  id: number;
+  job_id: string;
+  type: QueueJobEventType;
+  /** Item the event is about (null for job-level events) */
+  item_index: number | null;
+  subreddit: string | null;
+  /** Runner that recorded the event (null for user actions) */
+  worker_id: string | null;
+  message: string | null;
+  data: Record<string, unknown>;
+  created_at: string;
 }
 
+/**
+ * Schedule for a job that should be posted later by the server dispatcher.
+ */
+export interface QueueJobSchedule {
+  /** UTC ISO timestamp */
+  scheduledAt: string;
+  /** IANA timezone, e.g. "Europe/Berlin" */
+  timezone: string;
+}
+
+/**
+ * Drip pacing policy: how a job's items are spread out over time.
+ * - fixed: one post every `intervalMinutes`
+ * - random: a random gap between `minMinutes` and `maxMinutes` before each post
+ * - spread: posts spread evenly over `hours`
+ */
+export type QueueJobPacing =
+  | { mode: 'fixed'; intervalMinutes: number }
+  | { mode: 'random'; minMinutes: number; maxMinutes: number }
+  | { mode: 'spread'; hours: number };
+
+export type QueueJobPacingMode = QueueJobPacing['mode'];
+
+/**
+ * Change to the not-yet-posted items of a submitted job.
+ * Indices refer to positions in queue_jobs.items.
+ * - skip / unskip: mark an item so the runner passes over it
+ * - remove: drop an item (and its files) from the job
+ * - reorder: new order of the remaining items, from current_index to the end
+ */
+export type QueueItemEdit =
+  | { action: 'skip'; index: number }
+  | { action: 'unskip'; index: number }
+  | { action: 'remove'; index: number }
+  | { action: 'reorder'; order: number[] };
+
 /**
  * Data required to create a new queue job.
  */
@@ -110,6 +365,9 @@ export interface CreateQueueJobInput {
   prefixes: { f?: boolean; c?: boolean };
   items: QueueJobItem[];
   files: QueueFileReference[];
+  schedule?: QueueJobSchedule;
+  pacing?: QueueJobPacing;
+  runner?: QueueJobRunner;
 }
 
 /**
@@ -125,14 +383,16 @@ export interface QueueJobSubmission {
  * Queue item with actual File objects (frontend only).
  * This is what the frontend sends to the submit endpoint.
  */
-export interface QueueJobItemWithFiles {
+export interface QueueJobItemWithFiles extends PostFlags {
   subreddit: string;
   flairId?: string;
+  flairText?: string;
   titleSuffix?: string;
   customTitle?: string;
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   url?: string;
   text?: string;
+  poll?: PollDetails;
   file?: File;
   files?: File[];
 }
@@ -147,6 +407,16 @@ export interface QueueJobItemWithFiles {
 export interface SubmitJobResponse {
   success: boolean;
   jobId?: string;
+  /** 'server' when the job is posted without the browser */
+  runner?: QueueJobRunner;
+  /** Items as stored, including planned times for drip-paced jobs */
+  items?: QueueJobItem[];
+  /** True when the idempotency key matched an existing job */
+  replayed?: boolean;
+  /** Set instead of jobId when a repeat rule was given: the series that creates the jobs */
+  recurringJobId?: string;
+  /** First run of the series (UTC ISO) */
+  nextRunAt?: string;
   error?: string;
 }
 
@@ -167,14 +437,83 @@ export interface CancelJobResponse {
 }
 
 /**
- * Progress update from GET /api/queue/process (streamed)
+ * Response from POST /api/queue/pause/[jobId] and /api/queue/resume/[jobId]
+ */
+export interface PauseJobResponse {
+  success: boolean;
+  job?: QueueJob;
+  error?: string;
+}
+
+/**
+ * Response from POST /api/queue/items/[jobId]
+ */
+export interface EditJobItemsResponse {
+  success: boolean;
+  job?: QueueJob;
+  error?: string;
+}
+
+/**
+ * How many jobs a user can have going at once (GET /api/queue/jobs)
+ */
+export interface JobQueueLimits {
+  /** Active (pending/processing) jobs per user, QUEUE_MAX_JOBS_PER_USER */
+  maxActiveJobs: number;
+  /** Queue worker enabled - immediate jobs queue up too, not just scheduled ones */
+  serverQueue: boolean;
+}
+
+/**
+ * Response from GET /api/queue/jobs
+ */
+export interface ListJobsResponse {
+  jobs: QueueJob[];
+  limits?: JobQueueLimits;
+  error?: string;
+}
+
+/**
+ * Response from GET /api/queue/timeline/[jobId]
+ */
+export interface JobTimelineResponse {
+  events: QueueJobEvent[];
+  error?: string;
+}
+
+/**
+ * Response from POST /api/queue/reschedule/[jobId]
+ */
+export interface RescheduleJobResponse {
+  success: boolean;
+  job?: QueueJob;
+  error?: string;
+}
+
+/**
+ * Response from POST /api/queue/process. The run's progress is read from
+ * GET /api/queue/events/[jobId].
+ * - waiting: the next item is not due yet, nothing was claimed
+ */
+export interface ProcessJobResponse {
+  outcome?: 'completed' | 'cancelled' | 'paused' | 'yielded' | 'deferred' | 'waiting' | 'error';
+  status?: QueueJobStatus;
+  /** When the next item is due ('waiting') */
+  nextItemAt?: string;
+  error?: string;
+}
+
+/**
+ * Progress update from the queue runner (runQueueJob onUpdate)
  */
 export interface JobProgressUpdate {
-  type: 'status' | 'progress' | 'result' | 'waiting' | 'complete' | 'error';
+  type: 'status' | 'progress' | 'result' | 'retry' | 'waiting' | 'complete' | 'error';
   jobId: string;
   status?: QueueJobStatus;
   currentIndex?: number;
   result?: QueueJobResult;
+  /** Items after a rate-limited item moved to the back ('retry') */
+  items?: QueueJobItem[];
   waitSeconds?: number;
   error?: string;
 }
@@ -195,7 +534,7 @@ export interface QueueJobState {
   error: string | null;
   isSubmitting: boolean;
   isProcessing: boolean;
-  isConnected: boolean; // Realtime connection status
+  isConnected: boolean; // Event stream connection status
   startedAtMs: number | null;
   endedAtMs: number | null;
 }
@@ -216,16 +555,79 @@ export interface QueueJobActions {
 export const QUEUE_JOB_CONSTANTS = {
   /** How often to poll the process endpoint (ms) */
   POLLING_INTERVAL_MS: 3000,
+
+  /** How often the event stream checks for new job events (ms) */
+  EVENT_STREAM_POLL_INTERVAL_MS: 1000,
+
+  /** How long one event stream stays open before the client reconnects (ms) */
+  EVENT_STREAM_MAX_DURATION_MS: 50 * 1000,
+
+  /** Reconnect delay sent to event stream clients (ms) */
+  EVENT_STREAM_RETRY_MS: 2000,
+
+  /** Keep-alive comment interval on an idle event stream (ms) */
+  EVENT_STREAM_HEARTBEAT_MS: 15 * 1000,
   
   /** Max time a job can be claimed before it's considered stale (ms) */
   CLAIM_TIMEOUT_MS: 5 * 60 * 1000, // 5 minutes
   
-  /** How long to keep completed job files before cleanup (hours) */
+  /** How long to keep completed job files before cleanup (hours); also how long the jobs dashboard lists finished jobs */
   FILE_RETENTION_HOURS: 24,
+
+  /** How long finished jobs are kept for the post history (days) */
+  HISTORY_RETENTION_DAYS: 90,
   
-  /** Max concurrent jobs per user (single session model) */
-  MAX_JOBS_PER_USER: 1,
+  /**
+   * Default max active (pending/processing) jobs per user, override with QUEUE_MAX_JOBS_PER_USER.
+   * Jobs beyond the first wait their turn; only server-run jobs can be queued.
+   */
+  MAX_JOBS_PER_USER: 3,
   
   /** Storage bucket name */
   STORAGE_BUCKET: 'queue-files',
+
+  /** Earliest a job can be scheduled, relative to now (ms) */
+  MIN_SCHEDULE_LEAD_MS: 2 * 60 * 1000, // 2 minutes
+
+  /** Latest a job can be scheduled, relative to now (days) */
+  MAX_SCHEDULE_AHEAD_DAYS: 30,
+
+  /** Max due jobs picked up per dispatcher run */
+  DISPATCH_BATCH_SIZE: 5,
+
+  /** Due jobs scanned per dispatcher run to find the next job of each user */
+  DISPATCH_SCAN_SIZE: 50,
+
+  /** Time budget for one dispatcher run before yielding to the next (ms) */
+  DISPATCH_TIME_BUDGET_MS: 50 * 1000,
+
+  /** Wait before retrying a job the dispatcher could not start for a temporary reason (ms) */
+  DISPATCH_RETRY_DELAY_MS: 2 * 60 * 1000, // 2 minutes
+
+  /** How long the queue worker waits between polls when idle (ms) */
+  WORKER_IDLE_INTERVAL_MS: 5000,
+
+  /** Max time the queue worker holds a claim before re-claiming (ms), kept below CLAIM_TIMEOUT_MS */
+  WORKER_TIME_SLICE_MS: 4 * 60 * 1000, // 4 minutes
+
+  /** Shortest gap between drip-paced posts (minutes) */
+  PACING_MIN_INTERVAL_MINUTES: 1,
+
+  /** Longest a drip-paced job may take from first to last post (hours) */
+  PACING_MAX_SPAN_HOURS: 72,
+
+  /** Waits up to this long are slept through; longer ones release the job until the item is due (ms) */
+  PACING_INLINE_WAIT_MS: 60 * 1000,
+
+  /** Default attempts per item when Reddit rate-limits it, override with QUEUE_RATE_LIMIT_MAX_ATTEMPTS */
+  RATE_LIMIT_MAX_ATTEMPTS: 3,
+
+  /** Wait before retrying a rate-limited item when Reddit names no wait (ms) */
+  RATE_LIMIT_DEFAULT_WAIT_MS: 10 * 60 * 1000, // 10 minutes
+
+  /** Longer waits than this are not retried automatically (ms) */
+  RATE_LIMIT_MAX_WAIT_MS: 60 * 60 * 1000, // 1 hour
+
+  /** Added to Reddit's wait so the retry doesn't land just before the limit lifts (ms) */
+  RATE_LIMIT_RETRY_BUFFER_MS: 15 * 1000,
 } as const;
@@ -45,9 +45,10 @@ export const QUEUE_LIMITS = {
 export interface QueueItem {
   subreddit: string;
   flairId?: string;
+  flairText?: string;
   titleSuffix?: string;
   customTitle?: string;
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   url?: string;
   text?: string;
   file?: File;
@@ -0,0 +1,93 @@
+/**
+ * Media Asset Cache
+ *
+ * Shared files (itemIndex = -1) are uploaded to Reddit by the first item
+ * that posts them. Their asset IDs are kept on the job (queue_jobs.media_assets)
+ * and later items submit the same assets instead of uploading again.
+ * A subreddit that rejects a reused asset gets a fresh upload.
+ *
+ * Videos are not reused: they are submitted with validate_on_submit=false,
+ * so Reddit accepts a bad asset and the post fails after the submit, where
+ * shouldReuploadAfterError never sees it. Each item uploads its own.
+ */
+
+import { classifyError } from './errorClassification';
+import type { QueueJob, QueueMediaAsset } from './queueJob';
+
+const REDDIT_MEDIA_URL = 'https://reddit-uploaded-media.s3-accelerate.amazonaws.com';
+
+/**
+ * Shared files of a job in the order items send them.
+ */
+function getSharedFiles(job: QueueJob) {
+  return job.file_paths.filter(file => file.itemIndex === -1);
+}
+
+/**
+ * Whether a job posts video - a video item or a shared video file.
+ */
+function hasVideo(job: QueueJob): boolean {
+  return job.items.some(item => item.kind === 'video') ||
+    getSharedFiles(job).some(file => file.mimeType.startsWith('video/'));
+}
+
+/**
+ * Cached asset IDs for an item, in file order. Null when the item has
+ * files of its own, the job posts video or not every shared file has been
+ * uploaded yet.
+ */
+export function getReusableAssetIds(job: QueueJob, itemIndex: number): string[] | null {
+  const shared = getSharedFiles(job);
+  const cached = job.media_assets ?? [];
+  if (shared.length === 0 || hasVideo(job) || job.file_paths.some(file => file.itemIndex === itemIndex)) {
+    return null;
+  }
+
+  const assetIds: string[] = [];
+  for (const file of shared) {
+    const asset = cached.find(entry => entry.fileIndex === file.fileIndex);
+    if (!asset) {
+      return null;
+    }
+    assetIds.push(asset.assetId);
+  }
+  return assetIds;
+}
+
+/**
+ * Cache entries for assets an item just uploaded. Null when the uploads
+ * don't map one-to-one onto the job's shared files, or are videos.
+ */
+export function buildMediaAssetCache(
+  job: QueueJob,
+  itemIndex: number,
+  assetIds: string[],
+  now: Date = new Date()
+): QueueMediaAsset[] | null {
+  const shared = getSharedFiles(job);
+  if (
+    shared.length === 0 ||
+    shared.length !== assetIds.length ||
+    hasVideo(job) ||
+    job.file_paths.some(file => file.itemIndex === itemIndex)
+  ) {
+    return null;
+  }
+
+  return shared.map((file, index) => ({
+    fileIndex: file.fileIndex,
+    assetId: assetIds[index],
+    url: `${REDDIT_MEDIA_URL}/${assetIds[index]}`,
+    uploadedAt: now.toISOString(),
+  }));
+}
+
+/**
+ * Whether a failed submit with reused assets should be retried with a
+ * fresh upload: media errors and errors Reddit did not explain. Errors
+ * about the post itself (flair, title, rate limits) would fail again.
+ */
+export function shouldReuploadAfterError(errorMessage: string): boolean {
+  const { code } = classifyError(errorMessage);
+  return code === 'media_error' || code === 'unknown_error';
+}
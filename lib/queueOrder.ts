@@ -0,0 +1,58 @@
+/**
+ * Queue Order
+ *
+ * A user's jobs run one after another in the order they were created
+ * (claim_queue_job). The helpers here follow the same rule on the client,
+ * for the jobs dashboard. Client-safe.
+ *
+ * Only server-run jobs can queue up: a browser tab drives one job at a
+ * time, so without the queue worker a user's immediate posts still need
+ * the previous one to finish (assertJobSlotAvailable).
+ */
+
+import { QUEUE_JOB_CONSTANTS, type JobQueueLimits, type QueueJob } from './queueJob';
+
+type OrderedJob = Pick<QueueJob, 'id' | 'status' | 'pacing' | 'runner' | 'created_at' | 'claimed_by' | 'claimed_at'>;
+
+/**
+ * Whether `other` keeps `job` from being claimed, as claim_queue_job
+ * decides it: an older server-run job that is not claimed, or any job
+ * being posted right now (live claim). Browser-run jobs left behind by a
+ * closed tab and jobs whose claim expired don't. Drip jobs neither wait
+ * nor block.
+ */
+export function isWaitingFor(job: OrderedJob, other: OrderedJob, now: number = Date.now()): boolean {
+  if (job.pacing || other.pacing || other.id === job.id || !['pending', 'processing'].includes(other.status)) {
+    return false;
+  }
+
+  const liveClaim = !!other.claimed_by && !!other.claimed_at &&
+    Date.parse(other.claimed_at) >= now - QUEUE_JOB_CONSTANTS.CLAIM_TIMEOUT_MS;
+
+  return liveClaim || (
+    other.runner === 'server' &&
+    !other.claimed_by &&
+    Date.parse(other.created_at) < Date.parse(job.created_at)
+  );
+}
+
+/**
+ * Number of the user's jobs a job is waiting for.
+ */
+export const countJobsAhead = (job: OrderedJob, jobs: OrderedJob[], now: number = Date.now()): number =>
+  jobs.filter(other => isWaitingFor(job, other, now)).length;
+
+/**
+ * Explain how many posts can be going at once, for the jobs page.
+ */
+export function describeJobQueueLimits({ maxActiveJobs, serverQueue }: JobQueueLimits): string {
+  const queued = maxActiveJobs === 1
+    ? 'one post at a time'
+    : `up to ${maxActiveJobs} posts at once, one after another in the order you created them`;
+
+  if (serverQueue) {
+    return `You can queue ${queued}. Drip posts run alongside.`;
+  }
+  return `Posts run from this browser one at a time - wait for one to finish before starting the next. ` +
+    `Scheduled posts queue on the server, ${queued}. Drip posts run alongside.`;
+}
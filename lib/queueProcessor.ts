@@ -0,0 +1,696 @@
+/**
+ * Queue Processor
+ *
+ * Runs a claimed queue job item by item against Reddit.
+ * Shared by the browser-driven /api/queue/process endpoint, the cron
+ * dispatcher and the headless queue worker. Dry-run jobs take the same
+ * path but stop before submitting (see lib/queueDryRun.ts); crosspost jobs
+ * crosspost their first post to the other items (see lib/queueCrosspost.ts).
+ * Shared files are uploaded to Reddit once per job (see lib/queueMediaCache.ts);
+ * text posts with files send them as inline images (see lib/richtext.ts).
+ */
+
+import type { AxiosInstance } from 'axios';
+import * as Sentry from '@sentry/nextjs';
+import {
+  submitPost,
+  addSmartPrefixesToTitle,
+  getSubredditRules,
+  getPostRequirements,
+  getFlairs,
+  getSubredditSettings,
+  getIdentity,
+  findRecentSubmission,
+} from '../utils/reddit';
+import { logPostAttempt, classifyPostError } from './supabase';
+import { addApiBreadcrumb } from './apiErrorHandler';
+import { getEntitlement, FREE_MAX_POST_ITEMS } from './entitlement';
+import {
+  updateJobProgress,
+  completeQueueJob,
+  isJobCancelled,
+  isJobPaused,
+  getJobItemFiles,
+  isJobFullyProcessed,
+  getNextJobItem,
+  releaseQueueJob,
+  deferQueueJob,
+  requeueJobItem,
+  getRateLimitMaxAttempts,
+  markJobItemPosting,
+  saveJobMediaAssets,
+} from './queueService';
+import {
+  QueueJob,
+  QueueJobItem,
+  QueueJobResult,
+  QueueCrosspostParent,
+  JobProgressUpdate,
+  QUEUE_JOB_CONSTANTS,
+} from './queueJob';
+import { getItemWaitMs } from './pacing';
+import { planItemRetry, requeueItem } from './queueItems';
+import { recordJobEvent } from './queueEvents';
+import { buildDryRunResult, PreparedPost } from './queueDryRun';
+import { resolveSubmitFlags } from './postFlags';
+import { acceptsCrossposts, getCrosspostParent, getPostIdFromUrl, toPostFullname } from './queueCrosspost';
+import { toSubmitGalleryItems } from './galleryItems';
+import { markdownToRichtext } from './richtext';
+import { buildMediaAssetCache, getReusableAssetIds, shouldReuploadAfterError } from './queueMediaCache';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RunQueueJobOptions {
+  /** Job already claimed by `workerId` */
+  job: QueueJob;
+  /** Authenticated Reddit client for the job owner */
+  client: AxiosInstance;
+  workerId: string;
+  /** Receives progress updates as they happen */
+  onUpdate?: (update: JobProgressUpdate) => void;
+  /** Epoch ms after which the runner stops between items and releases the job */
+  deadline?: number;
+  /** Checked between items; returning true releases the job (e.g. worker shutdown) */
+  shouldStop?: () => boolean;
+}
+
+/**
+ * How a run ended:
+ * - completed: all items processed, job marked completed
+ * - cancelled: the user cancelled while the job was running
+ * - paused: the user paused the job, claim released until it is resumed
+ * - yielded: deadline reached or stop requested, claim released for the next run
+ * - deferred: the next item is not due yet (drip pacing or a rate-limit retry), job released until then
+ * - error: progress could not be saved
+ */
+export type RunQueueJobOutcome = 'completed' | 'cancelled' | 'paused' | 'yielded' | 'deferred' | 'error';
+
+// ============================================================================
+// Entitlement
+// ============================================================================
+
+/**
+ * Re-check the owner's plan before processing (trial may have expired since
+ * the job was submitted). Returns an error message, or null if allowed.
+ */
+export async function getJobEntitlementError(job: QueueJob): Promise<string | null> {
+  const entitlement = await getEntitlement(job.user_id);
+  if (entitlement === 'free' && job.items.length > FREE_MAX_POST_ITEMS) {
+    return `Your trial has expired. Free plan allows posting to ${FREE_MAX_POST_ITEMS} subreddits at once. Upgrade to continue.`;
+  }
+  return null;
+}
+
+// ============================================================================
+// Single Item
+// ============================================================================
+
+/**
+ * Title of an item with smart prefixes and its suffix.
+ */
+async function buildItemTitle(
+  client: AxiosInstance,
+  job: QueueJob,
+  item: QueueJobItem
+): Promise<string> {
+  // Get subreddit rules for smart prefixes
+  let subredditRules;
+  try {
+    subredditRules = await getSubredditRules(client, item.subreddit);
+  } catch {
+    subredditRules = undefined;
+  }
+
+  // Build title
+  const baseTitle = item.customTitle ?? job.caption;
+  let title = addSmartPrefixesToTitle(
+    baseTitle,
+    item.subreddit,
+    job.prefixes,
+    subredditRules
+  );
+  if (item.titleSuffix) {
+    title = `${title} ${item.titleSuffix}`.trim();
+  }
+  return title;
+}
+
+/**
+ * Download an item's files from storage as File objects.
+ */
+async function downloadJobItemFiles(job: QueueJob, itemIndex: number): Promise<File[]> {
+  const itemFiles = await getJobItemFiles(job, itemIndex);
+
+  // Convert Blobs to File objects
+  const files: File[] = [];
+  for (const fileData of itemFiles) {
+    const buffer = await fileData.file.arrayBuffer();
+    const file = new File([buffer], fileData.name, { type: fileData.mimeType });
+    files.push(file);
+  }
+  return files;
+}
+
+/**
+ * Build the title, fetch the files and resolve the post kind of an item -
+ * everything before it is sent to Reddit. With `reuseAssets`, an item
+ * whose shared files were all uploaded already gets their asset IDs
+ * instead and nothing is downloaded.
+ */
+async function prepareJobItem(
+  client: AxiosInstance,
+  job: QueueJob,
+  itemIndex: number,
+  item: QueueJobItem,
+  { reuseAssets = false }: { reuseAssets?: boolean } = {}
+): Promise<{ title: string; postKind: QueueJobItem['kind']; files: File[]; reusedAssetIds: string[] | null }> {
+  const title = await buildItemTitle(client, job, item);
+
+  const reusedAssetIds = reuseAssets ? getReusableAssetIds(job, itemIndex) : null;
+  const files = reusedAssetIds ? [] : await downloadJobItemFiles(job, itemIndex);
+
+  // Determine post kind - files of a text post are its inline images
+  let postKind = item.kind;
+  if ((reusedAssetIds ?? files).length > 1 && item.kind !== 'self') {
+    postKind = 'gallery';
+  }
+
+  return { title, postKind, files, reusedAssetIds };
+}
+
+/**
+ * Check a single item of a dry-run job: prepare it exactly as for posting,
+ * then validate it against the subreddit's current requirements instead of
+ * submitting. Never throws - failures are returned as an error result.
+ */
+export async function dryRunJobItem(
+  client: AxiosInstance,
+  job: QueueJob,
+  itemIndex: number,
+  item: QueueJobItem,
+  workerId?: string
+): Promise<QueueJobResult> {
+  const eventInput = { itemIndex, subreddit: item.subreddit, workerId };
+
+  let result: QueueJobResult;
+  try {
+    const { title, postKind, files } = await prepareJobItem(client, job, itemIndex, item);
+    const [requirements, { flairs }, settings] = await Promise.all([
+      getPostRequirements(client, item.subreddit),
+      getFlairs(client, item.subreddit),
+      postKind === 'poll' ? getSubredditSettings(client, item.subreddit) : null,
+    ]);
+
+    const post: PreparedPost = {
+      subreddit: item.subreddit,
+      title,
+      kind: postKind,
+      flairId: item.flairId,
+      flairText: item.flairText,
+      url: item.url,
+      text: item.text,
+      flags: resolveSubmitFlags(item),
+      files: files.map(file => ({ name: file.name, mimeType: file.type, size: file.size })),
+      ...(postKind === 'gallery' && item.galleryItems && { galleryItems: item.galleryItems }),
+      ...(postKind === 'poll' && item.poll && { poll: item.poll }),
+    };
+    result = buildDryRunResult(itemIndex, post, requirements, flairs, undefined, settings?.allowPolls);
+  } catch (error) {
+    result = {
+      index: itemIndex,
+      subreddit: item.subreddit,
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to check post',
+      postedAt: new Date().toISOString(),
+    };
+  }
+
+  await recordJobEvent(job.id, 'item_checked', {
+    ...eventInput,
+    message: result.status === 'success' ? 'Would post' : result.error,
+    data: {
+      kind: result.dryRun?.kind,
+      issues: result.dryRun?.issues.length ?? 0,
+      ...(result.error && { error: result.error }),
+    },
+  });
+
+  return result;
+}
+
+/**
+ * Post a single job item to Reddit and log the attempt.
+ * Never throws - failures are returned as an error result.
+ * The media upload and Reddit's response are recorded on the job timeline.
+ *
+ * @param crosspostParent - Crosspost jobs: the original post, crossposted
+ *                          instead of uploading where the subreddit takes it
+ */
+export async function processJobItem(
+  client: AxiosInstance,
+  job: QueueJob,
+  itemIndex: number,
+  item: QueueJobItem,
+  workerId?: string,
+  crosspostParent?: QueueCrosspostParent | null
+): Promise<QueueJobResult> {
+  const eventInput = { itemIndex, subreddit: item.subreddit, workerId };
+  let mediaEvent: Promise<void> | undefined;
+  let crosspostOf: QueueCrosspostParent | null = null;
+
+  try {
+    if (crosspostParent) {
+      const settings = await getSubredditSettings(client, item.subreddit);
+      crosspostOf = acceptsCrossposts(settings) ? crosspostParent : null;
+    }
+
+    let postKind: string;
+    let postResult: { url: string; id: string };
+    let title: string;
+
+    if (crosspostOf) {
+      // Crosspost the original - nothing is uploaded again
+      title = await buildItemTitle(client, job, item);
+      postKind = 'crosspost';
+      postResult = await submitPost(client, {
+        subreddit: item.subreddit,
+        title,
+        kind: 'crosspost',
+        crosspost_fullname: toPostFullname(crosspostOf.postId),
+        flair_id: item.flairId,
+        flair_text: item.flairText,
+        nsfw: item.nsfw,
+        spoiler: item.spoiler,
+        sendreplies: item.sendReplies,
+      });
+    } else {
+      // Shared files another item already uploaded are submitted by asset ID
+      const prepared = await prepareJobItem(client, job, itemIndex, item, { reuseAssets: true });
+      const { reusedAssetIds } = prepared;
+      let { files } = prepared;
+      title = prepared.title;
+      postKind = prepared.postKind;
+
+      // Log video processing info
+      if (postKind === 'video') {
+        console.log(`[Queue] Processing video post to r/${item.subreddit}`, {
+          jobId: job.id,
+          itemIndex,
+          fileCount: files.length,
+          fileSize: files[0] ? `${Math.round(files[0].size / 1024)}KB` : 'N/A',
+          fileType: files[0]?.type || 'N/A',
+        });
+      }
+
+      let uploadedAssetIds: string[] | undefined;
+
+      const submitItem = (assetIds: string[] | null) => submitPost(client, {
+        subreddit: item.subreddit,
+        title,
+        kind: prepared.postKind,
+        url: item.url,
+        text: item.text,
+        flair_id: item.flairId,
+        flair_text: item.flairText,
+        nsfw: item.nsfw,
+        spoiler: item.spoiler,
+        sendreplies: item.sendReplies,
+        original_content: item.originalContent,
+        files: files.length > 0 ? files : undefined,
+        file: files.length === 1 ? files[0] : undefined,
+        gallery_items: toSubmitGalleryItems(item.galleryItems),
+        buildRichtext: assetIds => markdownToRichtext(item.text ?? '', assetIds),
+        poll_options: item.poll?.options,
+        poll_duration: item.poll?.durationDays,
+        ...(assetIds && (assetIds.length > 1 ? { media_assets: assetIds } : { media_asset: assetIds[0] })),
+        onMediaUploaded: assetIds => {
+          uploadedAssetIds = assetIds;
+          mediaEvent = recordJobEvent(job.id, 'media_uploaded', {
+            ...eventInput,
+            message: `Uploaded ${assetIds.length} file${assetIds.length === 1 ? '' : 's'} to Reddit`,
+            data: { assetIds },
+          });
+        },
+      });
+
+      // Submit to Reddit
+      if (reusedAssetIds) {
+        mediaEvent = recordJobEvent(job.id, 'media_uploaded', {
+          ...eventInput,
+          message: `Reused ${reusedAssetIds.length} uploaded file${reusedAssetIds.length === 1 ? '' : 's'}`,
+          data: { assetIds: reusedAssetIds, reused: true },
+        });
+        try {
+          postResult = await submitItem(reusedAssetIds);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : '';
+          if (!shouldReuploadAfterError(message)) {
+            throw error;
+          }
+          console.warn(`[Queue] r/${item.subreddit} rejected reused media, uploading again:`, message);
+          await mediaEvent;
+          files = await downloadJobItemFiles(job, itemIndex);
+          postResult = await submitItem(null);
+        }
+      } else {
+        postResult = await submitItem(null);
+        const cache = uploadedAssetIds && buildMediaAssetCache(job, itemIndex, uploadedAssetIds);
+        if (cache) {
+          await saveJobMediaAssets(job.id, cache);
+        }
+      }
+    }
+
+    let url = postResult.url;
+    let postId = postResult.id || getPostIdFromUrl(postResult.url);
+
+    // Media posts come back without a post ID; the original of a crosspost job and the
+    // follow-up removal checks need one (the post is live, so a failed lookup only means
+    // the next item is uploaded too and the post is not checked)
+    if (!postId) {
+      const found = await getIdentity(client)
+        .then(({ name }) => findRecentSubmission(client, name, item.subreddit, title))
+        .catch(() => null);
+      if (found) {
+        postId = found.id;
+        url = found.url;
+      }
+    }
+
+    await mediaEvent;
+    await recordJobEvent(job.id, 'reddit_response', {
+      ...eventInput,
+      message: crosspostOf
+        ? `Crossposted from r/${crosspostOf.subreddit}`
+        : crosspostParent
+          ? `Posted - r/${item.subreddit} does not take crossposts`
+          : 'Posted',
+      data: {
+        url,
+        postId,
+        ...(crosspostOf && { crosspostOf: crosspostOf.index }),
+      },
+    });
+
+    // Log for analytics
+    logPostAttempt({
+      user_id: job.user_id,
+      subreddit_name: item.subreddit,
+      post_kind: postKind,
+      reddit_post_url: url || null,
+      status: 'success',
+      reddit_post_id: postId || null,
+      job_id: job.id,
+      result_index: itemIndex,
+    }).catch(() => {});
+
+    return {
+      index: itemIndex,
+      subreddit: item.subreddit,
+      status: 'success',
+      url,
+      ...(postId && { postId }),
+      ...(crosspostOf && { crosspostOf }),
+      postedAt: new Date().toISOString(),
+      ...(item.attempts && { attempts: item.attempts }),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to post';
+
+    Sentry.captureException(error, {
+      tags: {
+        component: 'queue.process',
+        subreddit: item.subreddit,
+      },
+      extra: {
+        jobId: job.id,
+        itemIndex,
+        totalItems: job.items.length,
+        ...(crosspostOf && { crosspostOf: crosspostOf.postId }),
+      },
+    });
+
+    addApiBreadcrumb('Post failed', { subreddit: item.subreddit, error: errorMessage }, 'error');
+
+    await mediaEvent;
+    await recordJobEvent(job.id, 'reddit_response', {
+      ...eventInput,
+      message: errorMessage,
+      data: { error: errorMessage },
+    });
+
+    // Log for analytics
+    logPostAttempt({
+      user_id: job.user_id,
+      subreddit_name: item.subreddit,
+      post_kind: crosspostOf ? 'crosspost' : item.kind,
+      status: 'error',
+      error_code: classifyPostError(errorMessage),
+      job_id: job.id,
+      result_index: itemIndex,
+    }).catch(() => {});
+
+    return {
+      index: itemIndex,
+      subreddit: item.subreddit,
+      status: 'error',
+      error: errorMessage,
+      postedAt: new Date().toISOString(),
+      ...(crosspostOf && { crosspostOf }),
+      ...(item.attempts && { attempts: item.attempts }),
+    };
+  }
+}
+
+// ============================================================================
+// Job Runner
+// ============================================================================
+
+/**
+ * Process a claimed job until it is done, cancelled, or the deadline passes.
+ * Unexpected errors are thrown so the caller can fail the job.
+ */
+export async function runQueueJob({
+  job,
+  client,
+  workerId,
+  onUpdate,
+  deadline,
+  shouldStop,
+}: RunQueueJobOptions): Promise<RunQueueJobOutcome> {
+  const emit = (update: JobProgressUpdate) => onUpdate?.(update);
+  const jobId = job.id;
+
+  emit({ type: 'status', jobId, status: 'processing', currentIndex: job.current_index });
+  await recordJobEvent(jobId, 'claimed', {
+    workerId,
+    data: { currentIndex: job.current_index },
+  });
+
+  let currentJob = job;
+
+  while (!isJobFullyProcessed(currentJob)) {
+    // Check for cancellation
+    if (await isJobCancelled(jobId)) {
+      emit({ type: 'status', jobId, status: 'cancelled' });
+      return 'cancelled';
+    }
+
+    // Check for pause - progress and files stay for the resume
+    if (await isJobPaused(jobId)) {
+      await releaseQueueJob(jobId, workerId);
+      await recordJobEvent(jobId, 'released', {
+        workerId,
+        message: 'Released while paused',
+        data: { reason: 'paused' },
+      });
+      emit({ type: 'status', jobId, status: 'paused' });
+      return 'paused';
+    }
+
+    // Hand the job to the next run instead of overrunning the time budget
+    if ((deadline !== undefined && Date.now() >= deadline) || shouldStop?.()) {
+      await releaseQueueJob(jobId, workerId);
+      await recordJobEvent(jobId, 'released', {
+        workerId,
+        message: 'Released for the next run',
+        data: { reason: 'yielded' },
+      });
+      return 'yielded';
+    }
+
+    const itemIndex = currentJob.current_index;
+    const item = getNextJobItem(currentJob);
+
+    if (!item) {
+      break;
+    }
+
+    // Skipped by the user after submit - record it without posting or waiting
+    if (item.skipped) {
+      const skippedResult: QueueJobResult = {
+        index: itemIndex,
+        subreddit: item.subreddit,
+        status: 'skipped',
+      };
+      const updatedJob = await updateJobProgress(jobId, itemIndex + 1, skippedResult);
+      if (!updatedJob) {
+        emit({ type: 'error', jobId, error: 'Failed to update job progress' });
+        return 'error';
+      }
+      currentJob = updatedJob;
+      await recordJobEvent(jobId, 'item_skipped', {
+        itemIndex,
+        subreddit: item.subreddit,
+        workerId,
+      });
+      emit({ type: 'result', jobId, result: skippedResult });
+      continue;
+    }
+
+    // Sent to Reddit by an earlier runner that stopped before saving the result.
+    // The post may be live, so record it for the user to check instead of posting twice
+    if (item.postingAt) {
+      const interruptedResult: QueueJobResult = {
+        index: itemIndex,
+        subreddit: item.subreddit,
+        status: 'error',
+        error: `Posting was interrupted - check r/${item.subreddit} before posting again`,
+        postedAt: item.postingAt,
+      };
+      const updatedJob = await updateJobProgress(jobId, itemIndex + 1, interruptedResult);
+      if (!updatedJob) {
+        emit({ type: 'error', jobId, error: 'Failed to update job progress' });
+        return 'error';
+      }
+      currentJob = updatedJob;
+      await recordJobEvent(jobId, 'item_interrupted', {
+        itemIndex,
+        subreddit: item.subreddit,
+        workerId,
+        message: interruptedResult.error,
+        data: { postingAt: item.postingAt },
+      });
+      emit({ type: 'result', jobId, result: interruptedResult });
+      continue;
+    }
+
+    // Drip pacing or a rate-limit retry: wait for short gaps, release the job for long ones
+    const waitMs = getItemWaitMs(item);
+    if (waitMs > 0) {
+      const dueAt = Date.now() + waitMs;
+      const waitSeconds = Math.ceil(waitMs / 1000);
+      emit({ type: 'waiting', jobId, waitSeconds });
+
+      const release =
+        waitMs > QUEUE_JOB_CONSTANTS.PACING_INLINE_WAIT_MS ||
+        (deadline !== undefined && dueAt >= deadline);
+      await recordJobEvent(jobId, 'waiting', {
+        itemIndex,
+        subreddit: item.subreddit,
+        workerId,
+        message: release ? 'Released until the next post is due' : 'Waiting for the next post',
+        data: { until: new Date(dueAt).toISOString(), released: release },
+      });
+
+      if (release) {
+        await deferQueueJob(jobId, workerId, new Date(dueAt).toISOString());
+        return 'deferred';
+      }
+
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+      continue;
+    }
+
+    emit({ type: 'progress', jobId, currentIndex: itemIndex });
+
+    // Dry run: check the item and record what would have been sent
+    if (currentJob.dry_run) {
+      const checkedResult = await dryRunJobItem(client, currentJob, itemIndex, item, workerId);
+      const updatedJob = await updateJobProgress(jobId, itemIndex + 1, checkedResult);
+      if (!updatedJob) {
+        emit({ type: 'error', jobId, error: 'Failed to update job progress' });
+        return 'error';
+      }
+      currentJob = updatedJob;
+      emit({ type: 'result', jobId, result: checkedResult });
+      continue;
+    }
+
+    const markedJob = await markJobItemPosting(jobId, workerId, itemIndex);
+    if (!markedJob) {
+      emit({ type: 'error', jobId, error: 'Failed to update job progress' });
+      return 'error';
+    }
+    currentJob = markedJob;
+
+    await recordJobEvent(jobId, 'item_started', {
+      itemIndex,
+      subreddit: item.subreddit,
+      workerId,
+      data: { attempt: (item.attempts?.length ?? 0) + 1 },
+    });
+
+    // Crosspost jobs: once the original is posted, the other items crosspost it
+    const crosspostParent = currentJob.crosspost ? getCrosspostParent(currentJob.results) : null;
+    const result = await processJobItem(client, currentJob, itemIndex, item, workerId, crosspostParent);
+
+    // Rate-limited: move the item to the back and retry it once Reddit allows
+    const retryItem = result.status === 'error' && result.error
+      ? planItemRetry(item, result.error, getRateLimitMaxAttempts())
+      : null;
+    if (retryItem) {
+      const { items, filePaths } = requeueItem(currentJob, itemIndex, retryItem);
+      const requeuedJob = await requeueJobItem(jobId, workerId, itemIndex, items, filePaths);
+      if (!requeuedJob) {
+        emit({ type: 'error', jobId, error: 'Failed to reschedule rate-limited post' });
+        return 'error';
+      }
+      currentJob = requeuedJob;
+      await recordJobEvent(jobId, 'retry_scheduled', {
+        itemIndex,
+        subreddit: item.subreddit,
+        workerId,
+        message: 'Rate-limited by Reddit',
+        data: {
+          retryAt: retryItem.retryAt,
+          attempt: retryItem.attempts?.length ?? 1,
+          movedTo: items.length - 1,
+        },
+      });
+      emit({ type: 'retry', jobId, currentIndex: itemIndex, items });
+    } else {
+      // Update job progress
+      const updatedJob = await updateJobProgress(jobId, itemIndex + 1, result);
+      if (!updatedJob) {
+        emit({ type: 'error', jobId, error: 'Failed to update job progress' });
+        return 'error';
+      }
+
+      currentJob = updatedJob;
+
+      // Send result
+      emit({ type: 'result', jobId, result });
+    }
+
+    // Add delay between posts (if not the last item); drip jobs wait for the next planned time instead
+    if (!isJobFullyProcessed(currentJob) && !currentJob.pacing) {
+      const delayMs = Math.floor(Math.random() * (4000 - 1000 + 1)) + 1000;
+      const delaySeconds = Math.round(delayMs / 1000);
+      emit({ type: 'waiting', jobId, waitSeconds: delaySeconds });
+      await recordJobEvent(jobId, 'waiting', {
+        workerId,
+        message: 'Pausing between posts',
+        data: { until: new Date(Date.now() + delayMs).toISOString(), released: false },
+      });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+
+  // Mark job as completed
+  await completeQueueJob(jobId);
+  emit({ type: 'complete', jobId, status: 'completed' });
+  return 'completed';
+}
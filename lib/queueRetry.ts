@@ -0,0 +1,39 @@
+/**
+ * Queue Dispatch Retries
+ *
+ * Tells apart errors that stop a server-run job for good from ones that
+ * will likely pass on their own. A job whose Reddit token is missing or
+ * was revoked fails; one that hit a network error, a timeout or a Reddit
+ * outage (5xx, 429) while the dispatcher was starting it is deferred by
+ * QUEUE_JOB_CONSTANTS.DISPATCH_RETRY_DELAY_MS and tried again.
+ */
+
+import axios from 'axios';
+
+/** Node socket and DNS errors worth retrying */
+const TEMPORARY_ERROR_CODES = new Set([
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+]);
+
+/**
+ * Whether an error thrown while dispatching a job is temporary. Reddit
+ * answering 4xx (other than 429) means it rejected the request - e.g. a
+ * revoked refresh token (invalid_grant) - and is not retried.
+ */
+export function isTemporaryDispatchError(error: unknown): boolean {
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status === undefined) {
+      return true;
+    }
+    return status >= 500 || status === 429;
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && TEMPORARY_ERROR_CODES.has(code);
+}
@@ -0,0 +1,61 @@
+/**
+ * Queue Runner Plan
+ *
+ * Decides who posts a new job - the server or the user's open browser -
+ * and whether the user's Reddit refresh token is stored while submitting.
+ * The token is stored for browser-run jobs too when the token store is
+ * configured: post checks (lib/postCheckService.ts) and metrics samples
+ * (lib/postMetricsService.ts) run on the server with it.
+ */
+
+import type { QueueJobRunner } from './queueJob';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface QueueRunnerPlanInput {
+  /** Scheduled or drip-paced job - these always run on the server */
+  deferred: boolean;
+  /** Queue worker enabled (isServerRunnerEnabled) */
+  serverRunnerEnabled: boolean;
+  /** REDDIT_TOKEN_ENCRYPTION_KEY set (isTokenStoreConfigured) */
+  tokenStoreConfigured: boolean;
+  /** Request carries a Reddit refresh token */
+  hasRefreshToken: boolean;
+}
+
+export interface QueueRunnerPlan {
+  runner: QueueJobRunner;
+  /** Store the refresh token before creating the job */
+  storeToken: boolean;
+  /**
+   * Why the job cannot be created: the token store is not configured
+   * ('unavailable') or the request has no refresh token ('unauthorized')
+   */
+  error?: 'unavailable' | 'unauthorized';
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Plan the runner of a new job. Immediate jobs run on the server when the
+ * worker is enabled and the token can be stored, otherwise in the browser.
+ */
+export function planQueueRunner(input: QueueRunnerPlanInput): QueueRunnerPlan {
+  const storeToken = input.tokenStoreConfigured && input.hasRefreshToken;
+
+  if (!input.deferred) {
+    return { runner: input.serverRunnerEnabled && storeToken ? 'server' : 'browser', storeToken };
+  }
+
+  if (!input.tokenStoreConfigured) {
+    return { runner: 'server', storeToken: false, error: 'unavailable' };
+  }
+  if (!input.hasRefreshToken) {
+    return { runner: 'server', storeToken: false, error: 'unauthorized' };
+  }
+  return { runner: 'server', storeToken: true };
+}
@@ -11,78 +11,204 @@ import {
   QueueJobItem,
   QueueJobResult,
   QueueFileReference,
-  QueueJobStatus,
+  QueueJobSchedule,
+  QueueJobRunner,
+  QueueJobPacing,
+  QueueMediaAsset,
   QUEUE_JOB_CONSTANTS,
 } from './queueJob';
+import { applyPacing, shiftItemTimes } from './pacing';
+import { recordJobEvent } from './queueEvents';
+import { buildItemPostedPayload, buildJobPayload } from './webhook';
+import { enqueueWebhookEvent } from './webhookService';
+
+// ============================================================================
+// Job Limits
+// ============================================================================
+
+/**
+ * Max active (pending/processing) jobs per user.
+ * QUEUE_MAX_JOBS_PER_USER overrides QUEUE_JOB_CONSTANTS.MAX_JOBS_PER_USER.
+ */
+export function getMaxJobsPerUser(): number {
+  const configured = Number(process.env.QUEUE_MAX_JOBS_PER_USER);
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : QUEUE_JOB_CONSTANTS.MAX_JOBS_PER_USER;
+}
+
+/**
+ * Attempts per item when Reddit rate-limits it, including the first.
+ * QUEUE_RATE_LIMIT_MAX_ATTEMPTS overrides QUEUE_JOB_CONSTANTS.RATE_LIMIT_MAX_ATTEMPTS.
+ */
+export function getRateLimitMaxAttempts(): number {
+  const configured = Number(process.env.QUEUE_RATE_LIMIT_MAX_ATTEMPTS);
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : QUEUE_JOB_CONSTANTS.RATE_LIMIT_MAX_ATTEMPTS;
+}
+
+/**
+ * Throw when the user cannot start another job right now.
+ * Server-run jobs queue up behind each other (see claim_queue_job), up to
+ * getMaxJobsPerUser(). A browser tab can only drive one job, so browser-run
+ * jobs need a free slot - the multi-job queue needs the queue worker
+ * (docs/QUEUE_SETUP.md, shown on the jobs page).
+ * Drip jobs run for hours in the background and don't count.
+ */
+async function assertJobSlotAvailable(userId: string, runner: QueueJobRunner): Promise<void> {
+  const client = createServerSupabaseClient();
+  
+  const { count, error } = await client
+    .from('queue_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('status', ['pending', 'processing'])
+    .is('pacing', null);
+  
+  if (error) {
+    throw new Error(`Failed to check existing jobs: ${error.message}`);
+  }
+  
+  if (!count) {
+    return;
+  }
+  
+  if (runner === 'browser') {
+    throw new Error('You have an active post in progress. Wait for it to complete or cancel it first.');
+  }
+  
+  const maxJobs = getMaxJobsPerUser();
+  if (count >= maxJobs) {
+    throw new Error(maxJobs === 1
+      ? 'You have an active post in progress. Wait for it to complete or cancel it first.'
+      : `You already have ${count} posts queued. Wait for one to finish or cancel one first.`);
+  }
+}
 
 // ============================================================================
 // Job Creation
 // ============================================================================
 
+/**
+ * Options for createQueueJob.
+ */
+export interface CreateQueueJobOptions {
+  /** Post later: the job is stored as 'scheduled' until it is due */
+  schedule?: QueueJobSchedule;
+  /** Drip pacing: items get planned times starting at the schedule (or now) */
+  pacing?: QueueJobPacing;
+  /** Who processes the job (scheduled and drip-paced jobs always run on the server) */
+  runner?: QueueJobRunner;
+  /** Key of the submit request; an existing job with the same key is returned instead */
+  idempotencyKey?: string;
+  /** Recurring series the job is a run of */
+  recurringJobId?: string;
+  /** Check every item without posting */
+  dryRun?: boolean;
+  /** Post the first item, then crosspost it to the others */
+  crosspost?: boolean;
+}
+
 /**
  * Create a new queue job in the database.
+ * When a schedule is given the job is stored as 'scheduled' and started
+ * later by the server instead of the browser.
  */
 export async function createQueueJob(
   userId: string,
   items: QueueJobItem[],
   caption: string,
   prefixes: { f?: boolean; c?: boolean },
-  filePaths: QueueFileReference[]
+  filePaths: QueueFileReference[],
+  { schedule, pacing, runner = 'browser', idempotencyKey, recurringJobId, dryRun = false, crosspost = false }: CreateQueueJobOptions = {}
 ): Promise<QueueJob> {
   const client = createServerSupabaseClient();
   
-  // Auto-cancel any stale pending/processing jobs (older than 5 minutes)
-  // This prevents users from getting permanently blocked by stuck jobs
-  const staleThreshold = new Date(Date.now() - 5 * 60 * 1000).toISOString();
-  const { error: cleanupError } = await client
-    .from('queue_jobs')
-    .update({
-      status: 'cancelled',
-      completed_at: new Date().toISOString(),
-    })
-    .eq('user_id', userId)
-    .in('status', ['pending', 'processing'])
-    .lt('created_at', staleThreshold);
-  
-  if (cleanupError) {
-    console.error('Failed to cleanup stale jobs:', cleanupError);
-    // Continue anyway - don't block job creation for cleanup failures
+  if (idempotencyKey) {
+    const existingJob = await getQueueJobByIdempotencyKey(userId, idempotencyKey);
+    if (existingJob) {
+      return existingJob;
+    }
   }
   
-  // Check if user already has an active job (single session model)
-  const { count, error: countError } = await client
-    .from('queue_jobs')
-    .select('id', { count: 'exact', head: true })
-    .eq('user_id', userId)
-    .in('status', ['pending', 'processing']);
-  
-  if (countError) {
-    throw new Error(`Failed to check existing jobs: ${countError.message}`);
-  }
+  const jobRunner: QueueJobRunner = schedule || pacing ? 'server' : runner;
+  const startMs = schedule ? Date.parse(schedule.scheduledAt) : Date.now();
+  const jobItems = pacing ? applyPacing(items, pacing, startMs) : items;
   
-  if (count && count >= QUEUE_JOB_CONSTANTS.MAX_JOBS_PER_USER) {
-    throw new Error('You have an active post in progress. Wait for it to complete or cancel it first.');
+  if (!schedule) {
+    // Auto-cancel any stale browser-driven pending/processing jobs (older than 5 minutes)
+    // This prevents users from getting permanently blocked by stuck jobs.
+    // Jobs waiting for a rate-limit retry are not stuck.
+    const now = new Date().toISOString();
+    const staleThreshold = new Date(Date.now() - 5 * 60 * 1000).toISOString();
+    const { error: cleanupError } = await client
+      .from('queue_jobs')
+      .update({
+        status: 'cancelled',
+        completed_at: now,
+      })
+      .eq('user_id', userId)
+      .in('status', ['pending', 'processing'])
+      .eq('runner', 'browser')
+      .lt('created_at', staleThreshold)
+      .or(`next_item_at.is.null,next_item_at.lte.${now}`);
+    
+    if (cleanupError) {
+      console.error('Failed to cleanup stale jobs:', cleanupError);
+      // Continue anyway - don't block job creation for cleanup failures
+    }
+    
+    if (!pacing) {
+      await assertJobSlotAvailable(userId, jobRunner);
+    }
   }
   
   const { data, error } = await client
     .from('queue_jobs')
     .insert({
       user_id: userId,
-      status: 'pending',
+      status: schedule ? 'scheduled' : 'pending',
       caption,
       prefixes,
-      items,
+      items: jobItems,
       file_paths: filePaths,
       current_index: 0,
       results: [],
+      scheduled_at: schedule?.scheduledAt ?? null,
+      timezone: schedule?.timezone ?? null,
+      runner: jobRunner,
+      pacing: pacing ?? null,
+      idempotency_key: idempotencyKey ?? null,
+      recurring_job_id: recurringJobId ?? null,
+      dry_run: dryRun,
+      crosspost,
     })
     .select()
     .single();
   
   if (error) {
+    // A concurrent retry with the same key created the job first
+    if (error.code === '23505' && idempotencyKey) {
+      const existingJob = await getQueueJobByIdempotencyKey(userId, idempotencyKey);
+      if (existingJob) {
+        return existingJob;
+      }
+    }
     throw new Error(`Failed to create queue job: ${error.message}`);
   }
   
+  await recordJobEvent(data.id, 'created', {
+    data: {
+      items: jobItems.length,
+      runner: jobRunner,
+      ...(schedule && { scheduledAt: schedule.scheduledAt }),
+      ...(recurringJobId && { recurringJobId }),
+      ...(dryRun && { dryRun }),
+      ...(crosspost && { crosspost }),
+    },
+  });
+  
   return data as QueueJob;
 }
 
@@ -113,7 +239,34 @@ export async function getQueueJob(jobId: string): Promise<QueueJob | null> {
 }
 
 /**
- * Get all jobs for a user.
+ * Get the job a submit request with this idempotency key created, if any.
+ */
+export async function getQueueJobByIdempotencyKey(
+  userId: string,
+  idempotencyKey: string
+): Promise<QueueJob | null> {
+  const client = createServerSupabaseClient();
+  
+  const { data, error } = await client
+    .from('queue_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('idempotency_key', idempotencyKey)
+    .single();
+  
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null; // Not found
+    }
+    throw new Error(`Failed to get queue job: ${error.message}`);
+  }
+  
+  return data as QueueJob;
+}
+
+/**
+ * Get a user's active jobs, plus those finished in the last
+ * FILE_RETENTION_HOURS with `includeCompleted`.
  */
 export async function getUserQueueJobs(
   userId: string,
@@ -128,7 +281,13 @@ export async function getUserQueueJobs(
     .order('created_at', { ascending: false });
   
   if (!includeCompleted) {
-    query = query.in('status', ['pending', 'processing']);
+    query = query.in('status', ['scheduled', 'pending', 'processing', 'paused']);
+  } else {
+    // Finished jobs stay for the post history; the dashboard lists recent ones
+    const finishedSince = new Date(
+      Date.now() - QUEUE_JOB_CONSTANTS.FILE_RETENTION_HOURS * 60 * 60 * 1000
+    ).toISOString();
+    query = query.or(`completed_at.is.null,completed_at.gte.${finishedSince}`);
   }
   
   const { data, error } = await query;
@@ -140,6 +299,122 @@ export async function getUserQueueJobs(
   return (data || []) as QueueJob[];
 }
 
+/**
+ * Get a user's upcoming scheduled jobs, soonest first.
+ */
+export async function getUserScheduledJobs(userId: string): Promise<QueueJob[]> {
+  const client = createServerSupabaseClient();
+  
+  const { data, error } = await client
+    .from('queue_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'scheduled')
+    .order('scheduled_at', { ascending: true });
+  
+  if (error) {
+    throw new Error(`Failed to get scheduled jobs: ${error.message}`);
+  }
+  
+  return (data || []) as QueueJob[];
+}
+
+/**
+ * Get server-run jobs that should be processed now, oldest first:
+ * - scheduled jobs whose time has come
+ * - pending jobs nobody has claimed yet (including ones that yielded)
+ * - processing jobs whose worker stopped renewing its claim
+ * Drip jobs are skipped until their next item is due. Other jobs run one at
+ * a time per user, so only each user's oldest one is returned.
+ */
+export async function getDispatchableJobs(limit: number): Promise<QueueJob[]> {
+  const client = createServerSupabaseClient();
+  const now = new Date().toISOString();
+  const staleThreshold = new Date(
+    Date.now() - QUEUE_JOB_CONSTANTS.CLAIM_TIMEOUT_MS
+  ).toISOString();
+  
+  const { data, error } = await client
+    .from('queue_jobs')
+    .select('*')
+    .eq('runner', 'server')
+    .or(
+      `and(status.eq.scheduled,scheduled_at.lte.${now}),` +
+      `and(status.in.(pending,processing),claimed_by.is.null),` +
+      `and(status.eq.processing,claimed_at.lt.${staleThreshold})`
+    )
+    .or(`next_item_at.is.null,next_item_at.lte.${now}`)
+    .order('created_at', { ascending: true })
+    .limit(Math.max(limit, QUEUE_JOB_CONSTANTS.DISPATCH_SCAN_SIZE));
+  
+  if (error) {
+    throw new Error(`Failed to get dispatchable jobs: ${error.message}`);
+  }
+  
+  // Later jobs of the same user wait in claim_queue_job anyway - don't let them fill the batch
+  const usersSeen = new Set<string>();
+  const jobs = ((data || []) as QueueJob[]).filter(job => {
+    if (job.pacing) return true;
+    if (usersSeen.has(job.user_id)) return false;
+    usersSeen.add(job.user_id);
+    return true;
+  });
+  
+  return jobs.slice(0, limit);
+}
+
+// ============================================================================
+// Job Scheduling
+// ============================================================================
+
+/**
+ * Move a scheduled job to a new time.
+ * Only jobs that have not started yet can be rescheduled.
+ * Planned times of drip-paced items move along with the job.
+ */
+export async function rescheduleQueueJob(
+  jobId: string,
+  userId: string,
+  schedule: QueueJobSchedule
+): Promise<QueueJob | null> {
+  const client = createServerSupabaseClient();
+  
+  const job = await getQueueJob(jobId);
+  if (!job || job.user_id !== userId || job.status !== 'scheduled') {
+    return null;
+  }
+  
+  const deltaMs = job.scheduled_at
+    ? Date.parse(schedule.scheduledAt) - Date.parse(job.scheduled_at)
+    : 0;
+  
+  const { data, error } = await client
+    .from('queue_jobs')
+    .update({
+      scheduled_at: schedule.scheduledAt,
+      timezone: schedule.timezone,
+      items: job.pacing ? shiftItemTimes(job.items, deltaMs) : job.items,
+    })
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .eq('status', 'scheduled')
+    .select()
+    .single();
+  
+  if (error) {
+    if (error.code !== 'PGRST116') {
+      console.error('Failed to reschedule queue job:', error);
+    }
+    return null;
+  }
+  
+  await recordJobEvent(jobId, 'rescheduled', {
+    data: { from: job.scheduled_at, to: schedule.scheduledAt, timezone: schedule.timezone },
+  });
+  
+  return data as QueueJob;
+}
+
 // ============================================================================
 // Job Processing
 // ============================================================================
@@ -168,8 +443,56 @@ export async function claimQueueJob(
   return data as QueueJob | null;
 }
 
+/**
+ * Release a worker's claim without changing the job status,
+ * so the next worker can pick the job up immediately.
+ */
+export async function releaseQueueJob(jobId: string, workerId: string): Promise<void> {
+  const client = createServerSupabaseClient();
+  
+  const { error } = await client
+    .from('queue_jobs')
+    .update({
+      claimed_by: null,
+      claimed_at: null,
+    })
+    .eq('id', jobId)
+    .eq('claimed_by', workerId);
+  
+  if (error) {
+    console.error('Failed to release queue job:', error);
+  }
+}
+
+/**
+ * Release a job until its next item is due (drip pacing or a rate-limit retry).
+ * The dispatcher and claim_queue_job skip it until `nextItemAt`.
+ */
+export async function deferQueueJob(
+  jobId: string,
+  workerId: string,
+  nextItemAt: string
+): Promise<void> {
+  const client = createServerSupabaseClient();
+  
+  const { error } = await client
+    .from('queue_jobs')
+    .update({
+      next_item_at: nextItemAt,
+      claimed_by: null,
+      claimed_at: null,
+    })
+    .eq('id', jobId)
+    .eq('claimed_by', workerId);
+  
+  if (error) {
+    console.error('Failed to defer queue job:', error);
+  }
+}
+
 /**
  * Update job progress after processing an item.
+ * A posted item is announced to the user's webhooks (item.posted).
  */
 export async function updateJobProgress(
   jobId: string,
@@ -190,16 +513,103 @@ export async function updateJobProgress(
     return null;
   }
   
+  const job = data as QueueJob | null;
+  if (job && result.status === 'success' && !job.dry_run) {
+    await enqueueWebhookEvent(job.user_id, buildItemPostedPayload(job, result));
+  }
+  
+  return job;
+}
+
+/**
+ * Mark the current item as being sent to Reddit (items[].postingAt).
+ * Returns null when the item was marked before - an earlier runner may have
+ * posted it - or the worker no longer holds the job.
+ */
+export async function markJobItemPosting(
+  jobId: string,
+  workerId: string,
+  itemIndex: number
+): Promise<QueueJob | null> {
+  const client = createServerSupabaseClient();
+  
+  const { data, error } = await client.rpc('mark_queue_item_posting', {
+    p_job_id: jobId,
+    p_worker_id: workerId,
+    p_index: itemIndex,
+  });
+  
+  if (error) {
+    console.error('Failed to mark job item as posting:', error);
+    return null;
+  }
+  
   return data as QueueJob | null;
 }
 
 /**
- * Mark job as completed.
+ * Keep the Reddit asset IDs of the job's shared files for its later items.
+ * The cache only saves uploads, so failures are logged and ignored.
  */
-export async function completeQueueJob(jobId: string): Promise<void> {
+export async function saveJobMediaAssets(
+  jobId: string,
+  assets: QueueMediaAsset[]
+): Promise<void> {
   const client = createServerSupabaseClient();
   
   const { error } = await client
+    .from('queue_jobs')
+    .update({ media_assets: assets })
+    .eq('id', jobId);
+  
+  if (error) {
+    console.error('Failed to save job media assets:', error);
+  }
+}
+
+/**
+ * Save items after a rate-limited item moved to the back (see requeueItem).
+ * Only the worker holding the claim can do this, and only before the
+ * current item was recorded.
+ */
+export async function requeueJobItem(
+  jobId: string,
+  workerId: string,
+  currentIndex: number,
+  items: QueueJobItem[],
+  filePaths: QueueFileReference[]
+): Promise<QueueJob | null> {
+  const client = createServerSupabaseClient();
+  
+  const { data, error } = await client
+    .from('queue_jobs')
+    .update({
+      items,
+      file_paths: filePaths,
+    })
+    .eq('id', jobId)
+    .eq('claimed_by', workerId)
+    .eq('current_index', currentIndex)
+    .select()
+    .single();
+  
+  if (error) {
+    if (error.code !== 'PGRST116') {
+      console.error('Failed to requeue job item:', error);
+    }
+    return null;
+  }
+  
+  return data as QueueJob;
+}
+
+/**
+ * Mark job as completed and notify the user's webhooks (job.completed).
+ */
+export async function completeQueueJob(jobId: string): Promise<void> {
+  const client = createServerSupabaseClient();
+  
+  const { data, error } = await client
     .from('queue_jobs')
     .update({
       status: 'completed',
@@ -207,12 +617,20 @@ export async function completeQueueJob(jobId: string): Promise<void> {
       claimed_by: null,
       claimed_at: null,
     })
-    .eq('id', jobId);
+    .eq('id', jobId)
+    .select();
   
   if (error) {
     throw new Error(`Failed to complete queue job: ${error.message}`);
   }
   
+  await recordJobEvent(jobId, 'completed');
+  
+  const job = (data as QueueJob[] | null)?.[0];
+  if (job) {
+    await enqueueWebhookEvent(job.user_id, buildJobPayload('job.completed', job));
+  }
+  
   // Schedule file cleanup (don't await, run in background)
   cleanupJobFiles(jobId).catch(err => {
     console.error('Failed to cleanup job files:', err);
@@ -220,12 +638,12 @@ export async function completeQueueJob(jobId: string): Promise<void> {
 }
 
 /**
- * Mark job as failed.
+ * Mark job as failed and notify the user's webhooks (job.failed).
  */
 export async function failQueueJob(jobId: string, errorMessage: string): Promise<void> {
   const client = createServerSupabaseClient();
   
-  const { error } = await client
+  const { data, error } = await client
     .from('queue_jobs')
     .update({
       status: 'failed',
@@ -234,12 +652,20 @@ export async function failQueueJob(jobId: string, errorMessage: string): Promise
       claimed_by: null,
       claimed_at: null,
     })
-    .eq('id', jobId);
+    .eq('id', jobId)
+    .select();
   
   if (error) {
     throw new Error(`Failed to fail queue job: ${error.message}`);
   }
   
+  await recordJobEvent(jobId, 'failed', { message: errorMessage });
+  
+  const job = (data as QueueJob[] | null)?.[0];
+  if (job) {
+    await enqueueWebhookEvent(job.user_id, buildJobPayload('job.failed', job));
+  }
+  
   // Schedule file cleanup
   cleanupJobFiles(jobId).catch(err => {
     console.error('Failed to cleanup job files:', err);
@@ -252,7 +678,7 @@ export async function failQueueJob(jobId: string, errorMessage: string): Promise
 
 /**
  * Cancel a queue job.
- * Can only cancel pending or processing jobs.
+ * Can only cancel scheduled, pending, processing or paused jobs.
  */
 export async function cancelQueueJob(jobId: string, userId: string): Promise<boolean> {
   const client = createServerSupabaseClient();
@@ -274,7 +700,7 @@ export async function cancelQueueJob(jobId: string, userId: string): Promise<boo
     return false;
   }
   
-  if (!['pending', 'processing'].includes(job.status)) {
+  if (!['scheduled', 'pending', 'processing', 'paused'].includes(job.status)) {
     console.error('Job cannot be cancelled, status:', job.status);
     return false;
   }
@@ -295,6 +721,8 @@ export async function cancelQueueJob(jobId: string, userId: string): Promise<boo
     return false;
   }
   
+  await recordJobEvent(jobId, 'cancelled', { data: { from: job.status } });
+  
   // Schedule file cleanup
   cleanupJobFiles(jobId).catch(err => {
     console.error('Failed to cleanup job files:', err);
@@ -322,6 +750,153 @@ export async function isJobCancelled(jobId: string): Promise<boolean> {
   return data.status === 'cancelled';
 }
 
+// ============================================================================
+// Job Pausing
+// ============================================================================
+
+/**
+ * Pause a pending or running job.
+ * A running job stops after its current item; progress, results and
+ * storage files are kept so it can be resumed later.
+ */
+export async function pauseQueueJob(jobId: string, userId: string): Promise<QueueJob | null> {
+  const client = createServerSupabaseClient();
+  
+  const { data, error } = await client
+    .from('queue_jobs')
+    .update({
+      status: 'paused',
+      paused_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .in('status', ['pending', 'processing'])
+    .select()
+    .single();
+  
+  if (error) {
+    if (error.code !== 'PGRST116') {
+      console.error('Failed to pause queue job:', error);
+    }
+    return null;
+  }
+  
+  await recordJobEvent(jobId, 'paused', { data: { currentIndex: data.current_index } });
+  
+  return data as QueueJob;
+}
+
+/**
+ * Resume a paused job. It goes back to 'pending' and is picked up by its
+ * runner again. Planned times of remaining drip-paced items move by the
+ * length of the pause.
+ */
+export async function resumeQueueJob(jobId: string, userId: string): Promise<QueueJob | null> {
+  const client = createServerSupabaseClient();
+  
+  const job = await getQueueJob(jobId);
+  if (!job || job.user_id !== userId || job.status !== 'paused') {
+    return null;
+  }
+  
+  // Paused jobs don't count toward the job limit, so check it again
+  if (!job.pacing) {
+    await assertJobSlotAvailable(userId, job.runner);
+  }
+  
+  const pausedMs = job.paused_at ? Math.max(0, Date.now() - Date.parse(job.paused_at)) : 0;
+  const shiftPlannedTimes = !!job.pacing && pausedMs > 0;
+  
+  const { data, error } = await client
+    .from('queue_jobs')
+    .update({
+      status: 'pending',
+      paused_at: null,
+      items: shiftPlannedTimes ? shiftItemTimes(job.items, pausedMs, job.current_index) : job.items,
+      next_item_at: shiftPlannedTimes && job.next_item_at
+        ? new Date(Date.parse(job.next_item_at) + pausedMs).toISOString()
+        : job.next_item_at,
+    })
+    .eq('id', jobId)
+    .eq('status', 'paused')
+    .select()
+    .single();
+  
+  if (error) {
+    if (error.code !== 'PGRST116') {
+      console.error('Failed to resume queue job:', error);
+    }
+    return null;
+  }
+  
+  await recordJobEvent(jobId, 'resumed', { data: { pausedMs } });
+  
+  return data as QueueJob;
+}
+
+/**
+ * Check if a job is paused.
+ */
+export async function isJobPaused(jobId: string): Promise<boolean> {
+  const client = createServerSupabaseClient();
+  
+  const { data, error } = await client
+    .from('queue_jobs')
+    .select('status')
+    .eq('id', jobId)
+    .single();
+  
+  if (error || !data) {
+    return false;
+  }
+  
+  return data.status === 'paused';
+}
+
+// ============================================================================
+// Item Editing
+// ============================================================================
+
+/**
+ * Save edited items and file references of a job (see lib/queueItems.ts).
+ * Only scheduled, pending and paused jobs that no runner is holding can be
+ * edited, and only if no item was posted since `job` was read.
+ */
+export async function saveQueueJobItems(
+  job: QueueJob,
+  items: QueueJobItem[],
+  filePaths: QueueFileReference[]
+): Promise<QueueJob | null> {
+  const client = createServerSupabaseClient();
+  
+  const staleThreshold = new Date(
+    Date.now() - QUEUE_JOB_CONSTANTS.CLAIM_TIMEOUT_MS
+  ).toISOString();
+  
+  const { data, error } = await client
+    .from('queue_jobs')
+    .update({
+      items,
+      file_paths: filePaths,
+    })
+    .eq('id', job.id)
+    .eq('user_id', job.user_id)
+    .eq('current_index', job.current_index)
+    .in('status', ['scheduled', 'pending', 'paused'])
+    .or(`claimed_by.is.null,claimed_at.lt.${staleThreshold}`)
+    .select()
+    .single();
+  
+  if (error) {
+    if (error.code !== 'PGRST116') {
+      console.error('Failed to save queue job items:', error);
+    }
+    return null;
+  }
+  
+  return data as QueueJob;
+}
+
 // ============================================================================
 // File Operations
 // ============================================================================
@@ -416,51 +991,78 @@ export async function resetStaleJobs(): Promise<number> {
   
   if (data && data.length > 0) {
     console.log(`Reset ${data.length} stale jobs`);
+    for (const { id } of data) {
+      await recordJobEvent(id, 'released', {
+        message: 'Runner stopped responding',
+        data: { reason: 'stale' },
+      });
+    }
   }
   
   return data?.length || 0;
 }
 
 /**
- * Delete old completed/failed/cancelled jobs and their files.
- * Should be called periodically (e.g., daily).
+ * Delete the files of jobs that finished more than `hoursOld` ago, and the
+ * jobs themselves once they are older than the post history keeps them
+ * (`historyDays`). Should be called periodically (e.g., hourly).
+ * Returns the number of jobs deleted.
  */
-export async function cleanupOldJobs(hoursOld: number = 24): Promise<number> {
+export async function cleanupOldJobs(
+  hoursOld: number = QUEUE_JOB_CONSTANTS.FILE_RETENTION_HOURS,
+  historyDays: number = QUEUE_JOB_CONSTANTS.HISTORY_RETENTION_DAYS
+): Promise<number> {
   const client = createServerSupabaseClient();
   
-  const threshold = new Date(
+  const fileThreshold = new Date(
     Date.now() - hoursOld * 60 * 60 * 1000
   ).toISOString();
+  const historyThreshold = new Date(
+    Date.now() - historyDays * 24 * 60 * 60 * 1000
+  ).toISOString();
   
-  // Get old jobs
+  // Get old jobs that still reference files
   const { data: jobs, error: fetchError } = await client
     .from('queue_jobs')
     .select('id')
     .in('status', ['completed', 'failed', 'cancelled'])
-    .lt('completed_at', threshold);
-  
-  if (fetchError || !jobs || jobs.length === 0) {
-    return 0;
-  }
+    .lt('completed_at', fileThreshold)
+    .neq('file_paths', '[]');
   
-  // Cleanup files for each job
-  for (const job of jobs) {
-    await cleanupJobFiles(job.id);
+  if (!fetchError && jobs && jobs.length > 0) {
+    // Cleanup files for each job
+    for (const job of jobs) {
+      await cleanupJobFiles(job.id);
+    }
+    
+    // Keep the job for the history, without its files
+    const { error: updateError } = await client
+      .from('queue_jobs')
+      .update({ file_paths: [] })
+      .in('id', jobs.map(j => j.id));
+    
+    if (updateError) {
+      console.error('Failed to clear file paths of old jobs:', updateError);
+    }
   }
   
-  // Delete job records
-  const { error: deleteError } = await client
+  // Delete job records past the history
+  const { data: deleted, error: deleteError } = await client
     .from('queue_jobs')
     .delete()
-    .in('id', jobs.map(j => j.id));
+    .in('status', ['completed', 'failed', 'cancelled'])
+    .lt('completed_at', historyThreshold)
+    .select('id');
   
   if (deleteError) {
     console.error('Failed to delete old jobs:', deleteError);
     return 0;
   }
   
-  console.log(`Cleaned up ${jobs.length} old jobs`);
-  return jobs.length;
+  if (deleted && deleted.length > 0) {
+    console.log(`Cleaned up ${deleted.length} old jobs`);
+  }
+  return deleted?.length || 0;
 }
 
 // ============================================================================
@@ -0,0 +1,244 @@
+/**
+ * Repeat Rules
+ *
+ * When a recurring job fires next, validation of rules from API requests,
+ * and short descriptions for the UI. Times are wall-clock times in the
+ * series' timezone, so "17:00" stays 17:00 across DST changes.
+ * Client-safe: used by the submit endpoint, the dispatcher and the UI.
+ */
+
+import type { RecurringJobUpdate, RepeatRule } from './recurringJob';
+import { isValidTimeZone, utcToZonedInputValue, zonedTimeToUtc } from './scheduling';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Longest gap between two runs of any rule, plus slack (days) */
+const MAX_SEARCH_DAYS = 400;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/** Reddit's title limit */
+const MAX_CAPTION_LENGTH = 300;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+// ============================================================================
+// Next Run
+// ============================================================================
+
+const formatDate = (day: Date): string => day.toISOString().slice(0, 10);
+
+const daysInMonth = (day: Date): number =>
+  new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+
+/** Whether the rule runs on a calendar day (a UTC midnight standing for a local date) */
+const runsOn = (rule: RepeatRule, day: Date): boolean => {
+  switch (rule.frequency) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return rule.weekdays.includes(day.getUTCDay());
+    case 'monthly':
+      return day.getUTCDate() === Math.min(rule.dayOfMonth, daysInMonth(day));
+  }
+};
+
+/**
+ * First time the rule fires strictly after `after`.
+ */
+export function getNextOccurrence(rule: RepeatRule, timeZone: string, after: Date): Date {
+  const [year, month, date] = utcToZonedInputValue(after, timeZone)
+    .slice(0, 10)
+    .split('-')
+    .map(Number);
+  const firstDay = Date.UTC(year, month - 1, date);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(firstDay + offset * DAY_MS);
+    if (!runsOn(rule, day)) continue;
+
+    const occurrence = zonedTimeToUtc(`${formatDate(day)}T${rule.time}`, timeZone);
+    if (occurrence.getTime() > after.getTime()) {
+      return occurrence;
+    }
+  }
+
+  throw new Error('Repeat rule never fires');
+}
+
+/**
+ * First run of a new series: `startAt` when the rule fires then, otherwise
+ * the next time it does.
+ */
+export function getFirstOccurrence(rule: RepeatRule, timeZone: string, startAt: Date): Date {
+  return getNextOccurrence(rule, timeZone, new Date(startAt.getTime() - 1));
+}
+
+/**
+ * Build a rule that fires at the wall-clock time of `startAt`, on its
+ * weekday (weekly) or day of the month (monthly).
+ */
+export function buildRepeatRule(
+  frequency: RepeatRule['frequency'],
+  startAt: Date,
+  timeZone: string,
+  weekdays?: number[]
+): RepeatRule {
+  const local = utcToZonedInputValue(startAt, timeZone);
+  const time = local.slice(11, 16);
+  const [year, month, date] = local.slice(0, 10).split('-').map(Number);
+
+  switch (frequency) {
+    case 'daily':
+      return { frequency, time };
+    case 'weekly':
+      return {
+        frequency,
+        time,
+        weekdays: weekdays?.length
+          ? [...weekdays].sort((a, b) => a - b)
+          : [new Date(Date.UTC(year, month - 1, date)).getUTCDay()],
+      };
+    case 'monthly':
+      return { frequency, time, dayOfMonth: date };
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const isWeekday = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 6;
+
+/**
+ * Parse and validate a repeat rule from an API request body.
+ * Returns `{ repeat: undefined }` when no repeat was requested.
+ */
+export function parseRepeatInput(input: unknown): { repeat?: RepeatRule; error?: string } {
+  if (input === undefined || input === null) {
+    return {};
+  }
+
+  if (typeof input !== 'object') {
+    return { error: 'Invalid repeat rule' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  if (typeof raw.time !== 'string' || !TIME_PATTERN.test(raw.time)) {
+    return { error: 'Repeat time must be HH:mm' };
+  }
+  const time = raw.time;
+
+  switch (raw.frequency) {
+    case 'daily':
+      return { repeat: { frequency: 'daily', time } };
+    case 'weekly':
+      if (!Array.isArray(raw.weekdays) || raw.weekdays.length === 0 || !raw.weekdays.every(isWeekday)) {
+        return { error: 'Pick at least one day of the week' };
+      }
+      return {
+        repeat: { frequency: 'weekly', time, weekdays: Array.from(new Set(raw.weekdays)).sort((a, b) => a - b) },
+      };
+    case 'monthly': {
+      const day = raw.dayOfMonth;
+      if (typeof day !== 'number' || !Number.isInteger(day) || day < 1 || day > 31) {
+        return { error: 'Day of the month must be between 1 and 31' };
+      }
+      return { repeat: { frequency: 'monthly', time, dayOfMonth: day } };
+    }
+    default:
+      return { error: 'Repeat must be daily, weekly or monthly' };
+  }
+}
+
+/**
+ * Check a timezone for a series.
+ */
+export function validateRepeatTimeZone(timeZone: unknown): string | null {
+  return typeof timeZone === 'string' && isValidTimeZone(timeZone)
+    ? null
+    : `Unknown timezone: ${String(timeZone)}`;
+}
+
+/**
+ * Parse the body of PATCH /api/queue/recurring/[id].
+ */
+export function parseRecurringJobUpdate(input: unknown): { update?: RecurringJobUpdate; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Nothing to update' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const update: RecurringJobUpdate = {};
+
+  if (raw.caption !== undefined) {
+    if (typeof raw.caption !== 'string' || raw.caption.length > MAX_CAPTION_LENGTH) {
+      return { error: `Caption must be text of at most ${MAX_CAPTION_LENGTH} characters` };
+    }
+    update.caption = raw.caption;
+  }
+
+  if (raw.repeat !== undefined) {
+    const { repeat, error } = parseRepeatInput(raw.repeat);
+    if (error || !repeat) {
+      return { error: error ?? 'Invalid repeat rule' };
+    }
+    update.repeat = repeat;
+  }
+
+  if (raw.timezone !== undefined) {
+    const error = validateRepeatTimeZone(raw.timezone);
+    if (error) {
+      return { error };
+    }
+    update.timezone = raw.timezone as string;
+  }
+
+  if (raw.status !== undefined) {
+    if (raw.status !== 'active' && raw.status !== 'paused') {
+      return { error: 'Status must be active or paused' };
+    }
+    update.status = raw.status;
+  }
+
+  if (raw.removeIndex !== undefined) {
+    if (typeof raw.removeIndex !== 'number' || !Number.isInteger(raw.removeIndex) || raw.removeIndex < 0) {
+      return { error: 'Item index required' };
+    }
+    update.removeIndex = raw.removeIndex;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { error: 'Nothing to update' };
+  }
+
+  return { update };
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+const ordinal = (n: number): string => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13
+    ? 'th'
+    : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Short description of a rule, e.g. "Weekly on Fri at 17:00".
+ */
+export function describeRepeatRule(rule: RepeatRule): string {
+  switch (rule.frequency) {
+    case 'daily':
+      return `Daily at ${rule.time}`;
+    case 'weekly':
+      return rule.weekdays.length === 7
+        ? `Every day at ${rule.time}`
+        : `Weekly on ${rule.weekdays.map(day => WEEKDAY_LABELS[day]).join(', ')} at ${rule.time}`;
+    case 'monthly':
+      return `Monthly on the ${ordinal(rule.dayOfMonth)} at ${rule.time}`;
+  }
+}
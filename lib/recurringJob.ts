@@ -0,0 +1,126 @@
+/**
+ * Recurring Job Types
+ *
+ * A recurring job (series) is a saved job definition plus a repeat rule,
+ * e.g. "weekly on Fri at 17:00 in Europe/Berlin". Each time the rule fires
+ * the dispatcher creates a scheduled queue job from it (see
+ * lib/recurringJobService.ts). Rule math is in lib/recurrence.ts.
+ */
+
+import type {
+  QueueFileReference,
+  QueueJob,
+  QueueJobItem,
+  QueueJobPacing,
+} from './queueJob';
+
+// ============================================================================
+// Repeat Rules
+// ============================================================================
+
+/**
+ * When a series runs, in the wall-clock time of its timezone.
+ * - daily: every day at `time`
+ * - weekly: on each of `weekdays` (0 = Sunday) at `time`
+ * - monthly: on `dayOfMonth` at `time`; months without that day use their last day
+ */
+export type RepeatRule =
+  | { frequency: 'daily'; time: string }
+  | { frequency: 'weekly'; time: string; weekdays: number[] }
+  | { frequency: 'monthly'; time: string; dayOfMonth: number };
+
+export type RepeatFrequency = RepeatRule['frequency'];
+
+// ============================================================================
+// Series Types (database row)
+// ============================================================================
+
+export type RecurringJobStatus = 'active' | 'paused';
+
+/**
+ * Recurring job as stored in the database.
+ */
+export interface RecurringJob {
+  id: string;
+  user_id: string;
+  status: RecurringJobStatus;
+  caption: string;
+  prefixes: { f?: boolean; c?: boolean };
+  items: QueueJobItem[];
+  file_paths: QueueFileReference[];
+  pacing: QueueJobPacing | null;
+  repeat: RepeatRule;
+  /** IANA timezone the rule's times are in */
+  timezone: string;
+  /** Next time the rule fires (UTC ISO) */
+  next_run_at: string;
+  last_run_at: string | null;
+  last_job_id: string | null;
+  run_count: number;
+  /** Why the last run did not create a job */
+  last_error: string | null;
+  idempotency_key: string | null;
+  /** Runs are crosspost jobs */
+  crosspost: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Changes accepted by PATCH /api/queue/recurring/[id].
+ * Changing the rule or timezone, or resuming, plans the next run from now.
+ */
+export interface RecurringJobUpdate {
+  caption?: string;
+  repeat?: RepeatRule;
+  timezone?: string;
+  status?: RecurringJobStatus;
+  /** Stop posting to the item at this index */
+  removeIndex?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const RECURRING_JOB_CONSTANTS = {
+  /** Max series per user */
+  MAX_SERIES_PER_USER: 10,
+
+  /** Series turned into jobs per dispatcher run */
+  DISPATCH_BATCH_SIZE: 20,
+
+  /** A run more than this late (server down) is skipped instead of posted (ms) */
+  MAX_LATE_MS: 60 * 60 * 1000, // 1 hour
+
+  /** Recent runs returned with each series */
+  RECENT_RUNS: 5,
+} as const;
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+/**
+ * A series with its most recent runs, newest first.
+ */
+export interface RecurringJobWithRuns extends RecurringJob {
+  runs: QueueJob[];
+}
+
+/**
+ * Response from GET /api/queue/recurring
+ */
+export interface ListRecurringJobsResponse {
+  series: RecurringJobWithRuns[];
+  error?: string;
+}
+
+/**
+ * Response from PATCH and DELETE /api/queue/recurring/[id]
+ */
+export interface UpdateRecurringJobResponse {
+  success: boolean;
+  series?: RecurringJob;
+  error?: string;
+}
@@ -0,0 +1,396 @@
+/**
+ * Recurring Job Service
+ *
+ * Server-side storage of recurring jobs (see lib/recurringJob.ts) and the
+ * scheduler that turns them into queue jobs. The dispatcher calls
+ * materializeDueRecurringJobs on every run; each due series gets a
+ * scheduled queue job for that run, which is then posted like any other
+ * scheduled job.
+ */
+
+import { createServerSupabaseClient, deleteQueueFile } from './supabase';
+import { createQueueJob } from './queueService';
+import type { QueueFileReference, QueueJob, QueueJobItem, QueueJobPacing } from './queueJob';
+import {
+  RecurringJob,
+  RecurringJobUpdate,
+  RecurringJobWithRuns,
+  RepeatRule,
+  RECURRING_JOB_CONSTANTS,
+} from './recurringJob';
+import { getFirstOccurrence, getNextOccurrence } from './recurrence';
+import { applyItemEdit } from './queueItems';
+
+// ============================================================================
+// Series Creation
+// ============================================================================
+
+/**
+ * Data required to create a recurring job.
+ */
+export interface CreateRecurringJobInput {
+  items: QueueJobItem[];
+  caption: string;
+  prefixes: { f?: boolean; c?: boolean };
+  filePaths: QueueFileReference[];
+  pacing?: QueueJobPacing;
+  repeat: RepeatRule;
+  timezone: string;
+  /** First run at or after this time */
+  startAt: string;
+  idempotencyKey?: string;
+  /** Runs post the first item and crosspost it to the others */
+  crosspost?: boolean;
+}
+
+async function getRecurringJobByIdempotencyKey(
+  userId: string,
+  idempotencyKey: string
+): Promise<RecurringJob | null> {
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client
+    .from('recurring_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up recurring job: ${error.message}`);
+  }
+
+  return data as RecurringJob | null;
+}
+
+/**
+ * Save a job definition with its repeat rule. The first job is created
+ * when the first run is due.
+ */
+export async function createRecurringJob(
+  userId: string,
+  input: CreateRecurringJobInput
+): Promise<RecurringJob> {
+  const client = createServerSupabaseClient();
+
+  if (input.idempotencyKey) {
+    const existing = await getRecurringJobByIdempotencyKey(userId, input.idempotencyKey);
+    if (existing) {
+      return existing;
+    }
+  }
+
+  const { count, error: countError } = await client
+    .from('recurring_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (countError) {
+    throw new Error(`Failed to check recurring jobs: ${countError.message}`);
+  }
+
+  if ((count ?? 0) >= RECURRING_JOB_CONSTANTS.MAX_SERIES_PER_USER) {
+    throw new Error(
+      `You can have up to ${RECURRING_JOB_CONSTANTS.MAX_SERIES_PER_USER} recurring posts. Delete one first.`
+    );
+  }
+
+  const nextRunAt = getFirstOccurrence(input.repeat, input.timezone, new Date(input.startAt));
+
+  const { data, error } = await client
+    .from('recurring_jobs')
+    .insert({
+      user_id: userId,
+      caption: input.caption,
+      prefixes: input.prefixes,
+      items: input.items,
+      file_paths: input.filePaths,
+      pacing: input.pacing ?? null,
+      repeat: input.repeat,
+      timezone: input.timezone,
+      next_run_at: nextRunAt.toISOString(),
+      idempotency_key: input.idempotencyKey ?? null,
+      crosspost: input.crosspost ?? false,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // A concurrent retry with the same key created the series first
+    if (error.code === '23505' && input.idempotencyKey) {
+      const existing = await getRecurringJobByIdempotencyKey(userId, input.idempotencyKey);
+      if (existing) {
+        return existing;
+      }
+    }
+    throw new Error(`Failed to create recurring job: ${error.message}`);
+  }
+
+  return data as RecurringJob;
+}
+
+// ============================================================================
+// Series Retrieval
+// ============================================================================
+
+/**
+ * Get a user's series, oldest first, each with its most recent runs.
+ */
+export async function getUserRecurringJobs(userId: string): Promise<RecurringJobWithRuns[]> {
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client
+    .from('recurring_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to get recurring jobs: ${error.message}`);
+  }
+
+  const series = (data || []) as RecurringJob[];
+  if (series.length === 0) {
+    return [];
+  }
+
+  const { data: runs, error: runsError } = await client
+    .from('queue_jobs')
+    .select('*')
+    .in('recurring_job_id', series.map(s => s.id))
+    .order('created_at', { ascending: false })
+    .limit(series.length * RECURRING_JOB_CONSTANTS.RECENT_RUNS);
+
+  if (runsError) {
+    throw new Error(`Failed to get recurring job runs: ${runsError.message}`);
+  }
+
+  return series.map(s => ({
+    ...s,
+    runs: ((runs || []) as QueueJob[])
+      .filter(run => run.recurring_job_id === s.id)
+      .slice(0, RECURRING_JOB_CONSTANTS.RECENT_RUNS),
+  }));
+}
+
+/**
+ * Get one of the user's series.
+ */
+export async function getRecurringJob(id: string, userId: string): Promise<RecurringJob | null> {
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client
+    .from('recurring_jobs')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    if (error.code !== 'PGRST116') {
+      console.error('Failed to get recurring job:', error);
+    }
+    return null;
+  }
+
+  return data as RecurringJob;
+}
+
+// ============================================================================
+// Series Editing
+// ============================================================================
+
+/**
+ * Apply an edit to a series. Changing the rule or timezone, or resuming,
+ * plans the next run from now. Returns an error for edits that don't apply
+ * (e.g. removing the last item).
+ */
+export async function updateRecurringJob(
+  series: RecurringJob,
+  update: RecurringJobUpdate
+): Promise<{ series?: RecurringJob; error?: string }> {
+  const changes: Record<string, unknown> = {};
+
+  if (update.caption !== undefined) {
+    changes.caption = update.caption;
+  }
+
+  if (update.removeIndex !== undefined) {
+    if (series.items.length <= 1) {
+      return { error: 'That is the only post - delete the recurring post instead' };
+    }
+    const { items, filePaths, error } = applyItemEdit(
+      { items: series.items, file_paths: series.file_paths, current_index: 0 },
+      { action: 'remove', index: update.removeIndex }
+    );
+    if (error) {
+      return { error };
+    }
+    changes.items = items;
+    changes.file_paths = filePaths;
+  }
+
+  const repeat = update.repeat ?? series.repeat;
+  const timezone = update.timezone ?? series.timezone;
+  const status = update.status ?? series.status;
+  const resumed = series.status === 'paused' && status === 'active';
+
+  if (update.repeat || update.timezone || resumed) {
+    changes.repeat = repeat;
+    changes.timezone = timezone;
+    changes.next_run_at = getNextOccurrence(repeat, timezone, new Date()).toISOString();
+  }
+  if (update.status) {
+    changes.status = status;
+  }
+  if (resumed) {
+    changes.last_error = null;
+  }
+
+  const client = createServerSupabaseClient();
+  const { data, error } = await client
+    .from('recurring_jobs')
+    .update(changes)
+    .eq('id', series.id)
+    .eq('user_id', series.user_id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update recurring job: ${error.message}`);
+  }
+
+  return { series: data as RecurringJob };
+}
+
+/**
+ * Delete a series. Runs that have not started yet are cancelled; the
+ * series' media files are removed unless a run is still using them.
+ */
+export async function deleteRecurringJob(series: RecurringJob): Promise<void> {
+  const client = createServerSupabaseClient();
+
+  const { error: cancelError } = await client
+    .from('queue_jobs')
+    .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+    .eq('recurring_job_id', series.id)
+    .eq('status', 'scheduled');
+
+  if (cancelError) {
+    throw new Error(`Failed to cancel recurring job runs: ${cancelError.message}`);
+  }
+
+  const { count, error: activeError } = await client
+    .from('queue_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('recurring_job_id', series.id)
+    .in('status', ['pending', 'processing', 'paused']);
+
+  if (activeError) {
+    throw new Error(`Failed to check recurring job runs: ${activeError.message}`);
+  }
+
+  const { error } = await client
+    .from('recurring_jobs')
+    .delete()
+    .eq('id', series.id)
+    .eq('user_id', series.user_id);
+
+  if (error) {
+    throw new Error(`Failed to delete recurring job: ${error.message}`);
+  }
+
+  if (!count) {
+    for (const file of series.file_paths) {
+      await deleteQueueFile(file.storagePath);
+    }
+  }
+}
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+/**
+ * Create a scheduled queue job for every active series whose run is due,
+ * and plan each series' next run. Runs that are more than MAX_LATE_MS late
+ * (no dispatcher ran in time) are skipped rather than posted late.
+ *
+ * Safe to run from several dispatchers at once: a run's job is created
+ * with an idempotency key derived from the series and run time, and only
+ * the dispatcher that still sees the old next_run_at moves it forward.
+ */
+export async function materializeDueRecurringJobs(now: Date = new Date()): Promise<number> {
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client
+    .from('recurring_jobs')
+    .select('*')
+    .eq('status', 'active')
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(RECURRING_JOB_CONSTANTS.DISPATCH_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to get due recurring jobs: ${error.message}`);
+  }
+
+  let created = 0;
+
+  for (const series of (data || []) as RecurringJob[]) {
+    const runAt = series.next_run_at;
+    const nextRunAt = getNextOccurrence(series.repeat, series.timezone, now).toISOString();
+    let job: QueueJob | null = null;
+    let lastError: string | null = null;
+
+    if (now.getTime() - Date.parse(runAt) > RECURRING_JOB_CONSTANTS.MAX_LATE_MS) {
+      lastError = `Skipped the run due at ${runAt} - it was too late to post`;
+    } else {
+      try {
+        job = await createQueueJob(
+          series.user_id,
+          series.items,
+          series.caption,
+          series.prefixes,
+          series.file_paths,
+          {
+            schedule: { scheduledAt: runAt, timezone: series.timezone },
+            pacing: series.pacing ?? undefined,
+            idempotencyKey: `recurring:${series.id}:${Date.parse(runAt)}`,
+            recurringJobId: series.id,
+            crosspost: series.crosspost,
+          }
+        );
+      } catch (err) {
+        lastError = err instanceof Error ? err.message : 'Failed to create the job';
+      }
+    }
+
+    const { data: advanced, error: updateError } = await client
+      .from('recurring_jobs')
+      .update({
+        next_run_at: nextRunAt,
+        last_error: lastError,
+        ...(job && {
+          last_run_at: runAt,
+          last_job_id: job.id,
+          run_count: series.run_count + 1,
+        }),
+      })
+      .eq('id', series.id)
+      .eq('next_run_at', runAt)
+      .select('id');
+
+    if (updateError) {
+      console.error('Failed to plan next recurring run:', updateError);
+      continue;
+    }
+
+    // Another dispatcher got to this run first
+    if (job && advanced && advanced.length > 0) {
+      created++;
+    }
+  }
+
+  return created;
+}
@@ -0,0 +1,166 @@
+/**
+ * Reddit Token Store
+ *
+ * Server-held Reddit refresh tokens for posting without an open browser
+ * (scheduled jobs, background workers). Tokens are encrypted with
+ * AES-256-GCM before they are written to the user_reddit_tokens table.
+ *
+ * Environment variables:
+ * - REDDIT_TOKEN_ENCRYPTION_KEY: secret used to derive the encryption key
+ */
+
+import crypto from 'crypto';
+import type { AxiosInstance } from 'axios';
+import { createServerSupabaseClient } from './supabase';
+import { redditClient, refreshAccessToken } from '../utils/reddit';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+// ============================================================================
+// Encryption
+// ============================================================================
+
+const getEncryptionKey = (): Buffer => {
+  const secret = process.env.REDDIT_TOKEN_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('REDDIT_TOKEN_ENCRYPTION_KEY is not configured');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+/**
+ * Whether server-held tokens can be used in this environment.
+ */
+export const isTokenStoreConfigured = (): boolean =>
+  !!process.env.REDDIT_TOKEN_ENCRYPTION_KEY;
+
+/**
+ * Encrypt a token. Output format: iv:authTag:ciphertext (base64 parts).
+ */
+export const encryptToken = (token: string): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+  return [iv, authTag, encrypted].map(part => part.toString('base64')).join(':');
+};
+
+/**
+ * Decrypt a token produced by encryptToken.
+ */
+export const decryptToken = (payload: string): string => {
+  const [ivPart, tagPart, dataPart] = payload.split(':');
+  if (!ivPart || !tagPart || !dataPart) {
+    throw new Error('Malformed encrypted token');
+  }
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    getEncryptionKey(),
+    Buffer.from(ivPart, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(tagPart, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(dataPart, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+};
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Store (or replace) a user's Reddit refresh token.
+ */
+export async function saveRedditRefreshToken(
+  userId: string,
+  refreshToken: string,
+  scope?: string
+): Promise<void> {
+  const client = createServerSupabaseClient();
+
+  const { error } = await client
+    .from('user_reddit_tokens')
+    .upsert(
+      {
+        user_id: userId,
+        refresh_token_encrypted: encryptToken(refreshToken),
+        scope: scope ?? null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to save Reddit token: ${error.message}`);
+  }
+}
+
+/**
+ * Store the refresh token of a user who is posting from the browser, so
+ * their posts can be checked and sampled on the server later. Does nothing
+ * without the token store or a token; failures are logged, not thrown.
+ * Returns whether the token was stored.
+ */
+export async function rememberRedditToken(
+  userId: string,
+  refreshToken: string | undefined,
+  scope?: string
+): Promise<boolean> {
+  if (!isTokenStoreConfigured() || !refreshToken) {
+    return false;
+  }
+
+  try {
+    await saveRedditRefreshToken(userId, refreshToken, scope);
+    return true;
+  } catch (err) {
+    console.error('Failed to store Reddit token:', err);
+    return false;
+  }
+}
+
+/**
+ * Load a user's stored Reddit refresh token, or null if none is stored.
+ */
+export async function getRedditRefreshToken(userId: string): Promise<string | null> {
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client
+    .from('user_reddit_tokens')
+    .select('refresh_token_encrypted')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    throw new Error(`Failed to load Reddit token: ${error.message}`);
+  }
+
+  return decryptToken(data.refresh_token_encrypted as string);
+}
+
+/**
+ * Build an authenticated Reddit client for a user from their stored token.
+ * Throws if no token is stored or Reddit rejects the refresh.
+ */
+export async function getServerRedditClient(userId: string): Promise<AxiosInstance> {
+  const refreshToken = await getRedditRefreshToken(userId);
+  if (!refreshToken) {
+    throw new Error('No Reddit authorization stored - sign in again to post in the background');
+  }
+
+  const token = await refreshAccessToken(refreshToken);
+
+  // Reddit may rotate refresh tokens; keep the stored copy current
+  if (token.refresh_token && token.refresh_token !== refreshToken) {
+    saveRedditRefreshToken(userId, token.refresh_token, token.scope).catch(err => {
+      console.error('Failed to store rotated Reddit token:', err);
+    });
+  }
+
+  return redditClient(token.access_token);
+}
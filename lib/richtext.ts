@@ -0,0 +1,391 @@
+/**
+ * Rich-Text Self Posts
+ *
+ * Self posts with inline images are sent as Reddit's richtext JSON
+ * (`richtext_json`) instead of markdown. The composer places an image with
+ * `![caption](inline:N)`, N being the 1-based number of the uploaded file;
+ * once the files are uploaded to Reddit the body is converted here, each
+ * marker becoming an image block with its asset ID. Converting ourselves
+ * keeps the body identical in every subreddit. Client-safe: used by the
+ * composer, the submit endpoints and the queue processor.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** [style, start, length] - style is a bitmask of the FORMAT flags */
+export type RichtextFormat = [number, number, number];
+
+export type RichtextSpan =
+  | { e: 'text'; t: string; f?: RichtextFormat[] }
+  | { e: 'link'; t: string; u: string; f?: RichtextFormat[] }
+  | { e: 'br' };
+
+export type RichtextBlock =
+  | { e: 'par'; c: RichtextSpan[] }
+  | { e: 'h'; l: number; c: { e: 'raw'; t: string }[] }
+  | { e: 'blockquote'; c: RichtextBlock[] }
+  | { e: 'list'; o: boolean; c: { e: 'li'; c: RichtextBlock[] }[] }
+  | { e: 'code'; c: { e: 'raw'; t: string }[] }
+  | { e: 'hr' }
+  | { e: 'img'; id: string; c?: string };
+
+export interface RichtextDocument {
+  document: RichtextBlock[];
+}
+
+interface Segment {
+  text: string;
+  style: number;
+  url?: string;
+  br?: boolean;
+}
+
+// ============================================================================
+// Inline Image Markers
+// ============================================================================
+
+const INLINE_IMAGE = /!\[([^\]]*)\]\(inline:(\d+)\)/g;
+const INLINE_IMAGE_LINE = /^!\[([^\]]*)\]\(inline:(\d+)\)$/;
+
+/**
+ * Markdown that places uploaded file `fileNumber` (1-based) in the body.
+ */
+export function inlineImageMarkdown(fileNumber: number, caption = ''): string {
+  return `![${caption.replace(/[[\]]/g, '')}](inline:${fileNumber})`;
+}
+
+/**
+ * File numbers the body places, in order of first appearance.
+ */
+export function getInlineImageNumbers(markdown: string): number[] {
+  const numbers: number[] = [];
+  for (const match of markdown.matchAll(INLINE_IMAGE)) {
+    const fileNumber = Number(match[2]);
+    if (!numbers.includes(fileNumber)) {
+      numbers.push(fileNumber);
+    }
+  }
+  return numbers;
+}
+
+/**
+ * What is wrong with the inline images of a body, or null when every
+ * marker has an uploaded file.
+ */
+export function getInlineImageError(markdown: string | undefined, fileCount: number): string | null {
+  const missing = getInlineImageNumbers(markdown ?? '').find(n => n < 1 || n > fileCount);
+  return missing === undefined ? null : `Inline image ${missing} has no uploaded file`;
+}
+
+function tidyBlankLines(markdown: string): string {
+  return markdown.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Drop the markers of files past `keep`, e.g. every marker of a body
+ * that is not sent as a text post.
+ */
+export function stripInlineImages(markdown: string, keep = 0): string {
+  if (!getInlineImageNumbers(markdown).some(n => n > keep)) {
+    return markdown;
+  }
+  return tidyBlankLines(markdown.replace(INLINE_IMAGE, (marker, _caption, n) => (Number(n) > keep ? '' : marker)));
+}
+
+/**
+ * Remove file `fileNumber` from the body: its markers go and later files
+ * move up one number.
+ */
+export function removeInlineImage(markdown: string, fileNumber: number): string {
+  const next = markdown.replace(INLINE_IMAGE, (marker, caption: string, n) => {
+    const current = Number(n);
+    if (current === fileNumber) return '';
+    return current > fileNumber ? inlineImageMarkdown(current - 1, caption) : marker;
+  });
+  return next === markdown ? markdown : tidyBlankLines(next);
+}
+
+// ============================================================================
+// Inline Formatting
+// ============================================================================
+
+const FORMAT = {
+  bold: 1,
+  italic: 2,
+  strikethrough: 8,
+  code: 64,
+} as const;
+
+const DELIMITERS = [
+  { marker: '**', style: FORMAT.bold },
+  { marker: '__', style: FORMAT.bold },
+  { marker: '~~', style: FORMAT.strikethrough },
+  { marker: '*', style: FORMAT.italic },
+  { marker: '_', style: FORMAT.italic },
+];
+
+const LINK = /^\[([^\]]+)\]\(([^)\s]+)\)/;
+
+/**
+ * Index of the delimiter closing one opened at `from`, or -1.
+ * Underscores only open at the start of a word (snake_case stays text).
+ */
+function findClosing(text: string, marker: string, from: number): number {
+  const start = from + marker.length;
+  if (!text[start] || /\s/.test(text[start])) return -1;
+  if (marker[0] === '_' && from > 0 && /\w/.test(text[from - 1])) return -1;
+
+  const end = text.indexOf(marker, start);
+  return end > start ? end : -1;
+}
+
+function parseInline(text: string, style = 0, url?: string): Segment[] {
+  const segments: Segment[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) {
+      segments.push({ text: plain, style, ...(url && { url }) });
+      plain = '';
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && /[\\`*_~[\]()#>!+-]/.test(text[i + 1] ?? '')) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        segments.push({ text: text.slice(i + 1, end), style: style | FORMAT.code, ...(url && { url }) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    const link = !url && char === '[' ? text.slice(i).match(LINK) : null;
+    if (link) {
+      flush();
+      segments.push(...parseInline(link[1], style, link[2]));
+      i += link[0].length;
+      continue;
+    }
+
+    const delimiter = DELIMITERS.find(({ marker }) => text.startsWith(marker, i));
+    const end = delimiter ? findClosing(text, delimiter.marker, i) : -1;
+    if (delimiter && end !== -1) {
+      flush();
+      segments.push(...parseInline(text.slice(i + delimiter.marker.length, end), style | delimiter.style, url));
+      i = end + delimiter.marker.length;
+      continue;
+    }
+
+    plain += char;
+    i++;
+  }
+
+  flush();
+  return segments;
+}
+
+/**
+ * Merge segments into text and link spans with format ranges.
+ */
+function toSpans(segments: Segment[]): RichtextSpan[] {
+  const spans: RichtextSpan[] = [];
+
+  for (const segment of segments) {
+    if (segment.br) {
+      spans.push({ e: 'br' });
+      continue;
+    }
+
+    const last = spans[spans.length - 1];
+    let span: Exclude<RichtextSpan, { e: 'br' }>;
+    if (last && last.e === 'link' && last.u === segment.url) {
+      span = last;
+    } else if (last && last.e === 'text' && !segment.url) {
+      span = last;
+    } else {
+      span = segment.url ? { e: 'link', t: '', u: segment.url } : { e: 'text', t: '' };
+      spans.push(span);
+    }
+
+    if (segment.style) {
+      (span.f ??= []).push([segment.style, span.t.length, segment.text.length]);
+    }
+    span.t += segment.text;
+  }
+
+  return spans;
+}
+
+/**
+ * Spans of a paragraph. Lines join with a space; a line ending in two
+ * spaces or a backslash breaks the line.
+ */
+function paragraphSpans(lines: string[]): RichtextSpan[] {
+  const segments: Segment[] = [];
+
+  lines.forEach((line, index) => {
+    const hardBreak = / {2,}$|\\$/.test(line);
+    segments.push(...parseInline(line.trim().replace(/\\$/, '')));
+    if (index < lines.length - 1) {
+      segments.push(hardBreak ? { text: '', style: 0, br: true } : { text: ' ', style: 0 });
+    }
+  });
+
+  return toSpans(segments);
+}
+
+function plainText(markdown: string): string {
+  return parseInline(markdown).map(segment => segment.text).join('');
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/;
+const RULE = /^([-*_])(\s*\1){2,}$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const FENCE = /^(```|~~~)/;
+
+function isOrdered(marker: string): boolean {
+  return /\d/.test(marker);
+}
+
+function startsBlock(line: string): boolean {
+  const trimmed = line.trim();
+  return HEADING.test(trimmed) || RULE.test(trimmed) || FENCE.test(trimmed) ||
+    trimmed.startsWith('>') || INLINE_IMAGE_LINE.test(trimmed) || LIST_ITEM.test(line);
+}
+
+function imageBlock(caption: string, fileNumber: number, assetIds: string[]): RichtextBlock {
+  const id = assetIds[fileNumber - 1];
+  if (!id) {
+    throw new Error(`Inline image ${fileNumber} was not uploaded`);
+  }
+  return { e: 'img', id, ...(caption.trim() && { c: caption.trim() }) };
+}
+
+function parseBlocks(lines: string[], assetIds: string[]): RichtextBlock[] {
+  const blocks: RichtextBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ e: 'par', c: paragraphSpans(paragraph) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flush();
+      continue;
+    }
+
+    const fence = trimmed.match(FENCE);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+      }
+      blocks.push({ e: 'code', c: code.map(t => ({ e: 'raw', t })) });
+      continue;
+    }
+
+    const image = trimmed.match(INLINE_IMAGE_LINE);
+    if (image) {
+      flush();
+      blocks.push(imageBlock(image[1], Number(image[2]), assetIds));
+      continue;
+    }
+
+    const heading = trimmed.match(HEADING);
+    if (heading) {
+      flush();
+      blocks.push({ e: 'h', l: heading[1].length, c: [{ e: 'raw', t: plainText(heading[2]) }] });
+      continue;
+    }
+
+    if (RULE.test(trimmed)) {
+      flush();
+      blocks.push({ e: 'hr' });
+      continue;
+    }
+
+    if (trimmed.startsWith('>')) {
+      flush();
+      const quoted: string[] = [];
+      for (; i < lines.length && lines[i].trim().startsWith('>'); i++) {
+        quoted.push(lines[i].trim().replace(/^>\s?/, ''));
+      }
+      i--;
+      blocks.push({ e: 'blockquote', c: parseBlocks(quoted, assetIds) });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      flush();
+      const ordered = isOrdered(listItem[1]);
+      const items: string[][] = [];
+      for (; i < lines.length; i++) {
+        const current = lines[i];
+        const item = current.match(LIST_ITEM);
+        if (item && isOrdered(item[1]) === ordered) {
+          items.push([item[2]]);
+          continue;
+        }
+        if (!item && current.trim() && !startsBlock(current)) {
+          items[items.length - 1].push(current.trim());
+          continue;
+        }
+        // A blank line between two items keeps the list going
+        const next = current.trim() ? null : lines[i + 1]?.match(LIST_ITEM);
+        if (next && isOrdered(next[1]) === ordered) {
+          continue;
+        }
+        break;
+      }
+      i--;
+      blocks.push({
+        e: 'list',
+        o: ordered,
+        c: items.map(itemLines => ({ e: 'li', c: [{ e: 'par', c: paragraphSpans(itemLines) }] })),
+      });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flush();
+  return blocks;
+}
+
+/**
+ * Convert a markdown body to richtext. `assetIds` are the Reddit asset IDs
+ * of the uploaded files in file order; images placed mid-paragraph split
+ * the paragraph. Throws when a marker has no asset.
+ */
+export function markdownToRichtext(markdown: string, assetIds: string[]): RichtextDocument {
+  const lines = markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(INLINE_IMAGE, marker => `\n${marker}\n`)
+    .split('\n');
+  return { document: parseBlocks(lines, assetIds) };
+}
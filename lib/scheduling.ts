@@ -0,0 +1,217 @@
+/**
+ * Scheduling Helpers
+ *
+ * Timezone-aware date helpers for scheduled queue jobs.
+ * Client-safe: no server-only imports, only the built-in Intl API.
+ */
+
+import { QUEUE_JOB_CONSTANTS, QueueJobSchedule } from './queueJob';
+
+// ============================================================================
+// Timezones
+// ============================================================================
+
+/**
+ * Check whether a string is an IANA timezone supported by the runtime.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The browser's (or server's) current IANA timezone.
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * All IANA timezones known to the runtime, with the local zone first.
+ */
+export function listTimeZones(): string[] {
+  const local = getLocalTimeZone();
+  const zones = typeof Intl.supportedValuesOf === 'function'
+    ? Intl.supportedValuesOf('timeZone')
+    : ['UTC'];
+  return [local, ...zones.filter(zone => zone !== local)];
+}
+
+// ============================================================================
+// Conversions
+// ============================================================================
+
+interface WallClockParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const getWallClockParts = (date: Date, timeZone: string): WallClockParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds.
+ */
+const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
+  const p = getWallClockParts(date, timeZone);
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const instant = date.getTime() - date.getUTCMilliseconds();
+  return wallAsUtc - instant;
+};
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC Date.
+ *
+ * @param localDateTime - "YYYY-MM-DDTHH:mm" (the value of a datetime-local input)
+ * @param timeZone - IANA timezone the wall-clock time is in
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(localDateTime);
+  if (!match) {
+    throw new Error(`Invalid date/time: ${localDateTime}`);
+  }
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Invalid timezone: ${timeZone}`);
+  }
+
+  const [, year, month, day, hour, minute, second] = match;
+  const wallAsUtc = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    second ? Number(second) : 0
+  );
+
+  // Guess with the offset at the wall time, then correct once if the guess
+  // landed on the other side of a DST transition.
+  const firstOffset = getTimeZoneOffsetMs(new Date(wallAsUtc), timeZone);
+  let utcMs = wallAsUtc - firstOffset;
+  const secondOffset = getTimeZoneOffsetMs(new Date(utcMs), timeZone);
+  if (secondOffset !== firstOffset) {
+    utcMs = wallAsUtc - secondOffset;
+  }
+
+  return new Date(utcMs);
+}
+
+/**
+ * Convert a UTC instant to a "YYYY-MM-DDTHH:mm" wall-clock value in a timezone.
+ * Used to prefill datetime-local inputs.
+ */
+export function utcToZonedInputValue(value: string | Date, timeZone: string): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  const p = getWallClockParts(date, timeZone);
+  const pad = (n: number): string => String(n).padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * Human readable schedule time, e.g. "Mar 6, 2026, 5:00 PM CET".
+ */
+export function formatScheduledTime(iso: string, timeZone?: string | null): string {
+  const zone = timeZone && isValidTimeZone(timeZone) ? timeZone : undefined;
+  return new Intl.DateTimeFormat(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: zone,
+    timeZoneName: 'short',
+  }).format(new Date(iso));
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a requested schedule time.
+ * Returns an error message, or null when the time is acceptable.
+ */
+export function validateScheduledAt(scheduledAt: string, now: number = Date.now()): string | null {
+  const time = Date.parse(scheduledAt);
+  if (Number.isNaN(time)) {
+    return 'Invalid schedule time';
+  }
+
+  if (time < now + QUEUE_JOB_CONSTANTS.MIN_SCHEDULE_LEAD_MS) {
+    const minutes = Math.round(QUEUE_JOB_CONSTANTS.MIN_SCHEDULE_LEAD_MS / 60000);
+    return `Schedule time must be at least ${minutes} minutes from now`;
+  }
+
+  const maxAheadMs = QUEUE_JOB_CONSTANTS.MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000;
+  if (time > now + maxAheadMs) {
+    return `Schedule time must be within ${QUEUE_JOB_CONSTANTS.MAX_SCHEDULE_AHEAD_DAYS} days`;
+  }
+
+  return null;
+}
+
+/**
+ * Parse and validate a schedule from an API request body.
+ * Returns `{ schedule: undefined }` when no schedule was requested.
+ */
+export function parseScheduleInput(
+  input: unknown,
+  now: number = Date.now()
+): { schedule?: QueueJobSchedule; error?: string } {
+  if (input === undefined || input === null) {
+    return {};
+  }
+
+  if (typeof input !== 'object') {
+    return { error: 'Invalid schedule' };
+  }
+
+  const { scheduledAt, timezone } = input as Record<string, unknown>;
+  if (typeof scheduledAt !== 'string' || typeof timezone !== 'string') {
+    return { error: 'Schedule requires scheduledAt and timezone' };
+  }
+
+  if (!isValidTimeZone(timezone)) {
+    return { error: `Unknown timezone: ${timezone}` };
+  }
+
+  const timeError = validateScheduledAt(scheduledAt, now);
+  if (timeError) {
+    return { error: timeError };
+  }
+
+  return {
+    schedule: {
+      scheduledAt: new Date(scheduledAt).toISOString(),
+      timezone,
+    },
+  };
+}
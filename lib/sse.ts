@@ -0,0 +1,73 @@
+/**
+ * Server-Sent Events Responses
+ *
+ * Opens a text/event-stream response on an API route and writes events in
+ * the format read by lib/eventStream.ts.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { LAST_EVENT_ID_HEADER, formatStreamEvent, type StreamEvent } from './eventStream';
+
+export interface EventStreamWriter<E extends StreamEvent> {
+  send: (event: E) => void;
+  /** Comment line, e.g. to keep proxies from closing an idle stream */
+  comment: (text: string) => void;
+  /** True once the client went away */
+  readonly closed: boolean;
+  end: () => void;
+}
+
+/**
+ * Start an event stream on `res`.
+ *
+ * @param retryMs - Reconnect delay for the client after the stream ends
+ */
+export function openEventStream<E extends StreamEvent>(
+  res: NextApiResponse,
+  { retryMs }: { retryMs?: number } = {}
+): EventStreamWriter<E> {
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  const write = (chunk: string) => {
+    if (closed) return;
+    res.write(chunk);
+    if ('flush' in res && typeof res.flush === 'function') {
+      res.flush();
+    }
+  };
+
+  if (retryMs !== undefined) {
+    write(`retry: ${retryMs}\n\n`);
+  }
+
+  return {
+    send: (event: E) => write(formatStreamEvent(event)),
+    comment: (text: string) => write(`: ${text}\n\n`),
+    get closed() {
+      return closed;
+    },
+    end: () => {
+      if (!closed) {
+        res.end();
+      }
+    },
+  };
+}
+
+/**
+ * The Last-Event-ID a reconnecting client sent, from the header or the
+ * lastEventId query parameter.
+ */
+export function getLastEventId(req: NextApiRequest): string | undefined {
+  const header = req.headers[LAST_EVENT_ID_HEADER.toLowerCase()];
+  const value = Array.isArray(header) ? header[0] : header ?? req.query.lastEventId;
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
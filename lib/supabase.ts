@@ -1,4 +1,9 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { SubredditFlagInfo } from './postFlags';
+import type { QueuePostState } from './queueJob';
+import { getNextPostCheckAt } from './postCheck';
+import { getNextMetricsSampleAt } from './postMetrics';
+import { normalizeSubredditKey } from './subredditKey';
 
 // Client-side Supabase client (uses anon key)
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -106,6 +111,29 @@ export interface PostLog {
   status: 'success' | 'error';
   error_code: string | null;
   created_at: string;
+  /** Reddit post ID (without t3_) of a successful post */
+  reddit_post_id: string | null;
+  /** Queue job and result the post came from */
+  job_id: string | null;
+  result_index: number | null;
+  /** Follow-up checks after posting (see lib/postCheck.ts); null until checked */
+  post_state: QueuePostState | null;
+  removed_by_category: string | null;
+  removal_reason: string | null;
+  locked: boolean | null;
+  removed_at: string | null;
+  check_count: number;
+  checked_at: string | null;
+  /** When the next check is due (null when none are left) */
+  next_check_at: string | null;
+  /** Numbers at the latest sample (see lib/postMetrics.ts); null until sampled */
+  score: number | null;
+  upvote_ratio: number | null;
+  num_comments: number | null;
+  sampled_at: string | null;
+  sample_count: number;
+  /** When the next sample is due (null when none are left) */
+  next_sample_at: string | null;
 }
 
 /**
@@ -136,6 +164,8 @@ export async function isUserFirstPost(userId: string): Promise<boolean> {
 /**
  * Log a post attempt for analytics (privacy-first).
  * Only stores metadata - no user content (images, text, URLs).
+ * Posts with an ID are scheduled for follow-up checks (lib/postCheck.ts)
+ * and metrics samples (lib/postMetrics.ts).
  */
 export async function logPostAttempt(data: {
   user_id: string;
@@ -144,6 +174,9 @@ export async function logPostAttempt(data: {
   reddit_post_url?: string | null;
   status: 'success' | 'error';
   error_code?: string | null;
+  reddit_post_id?: string | null;
+  job_id?: string | null;
+  result_index?: number | null;
 }): Promise<void> {
   try {
     const client = createServerSupabaseClient();
@@ -154,6 +187,15 @@ export async function logPostAttempt(data: {
       reddit_post_url: data.reddit_post_url || null,
       status: data.status,
       error_code: data.error_code || null,
+      reddit_post_id: data.reddit_post_id || null,
+      job_id: data.job_id || null,
+      result_index: data.result_index ?? null,
+      next_check_at: data.status === 'success' && data.reddit_post_id
+        ? getNextPostCheckAt(new Date(), 0)
+        : null,
+      next_sample_at: data.status === 'success' && data.reddit_post_id
+        ? getNextMetricsSampleAt(new Date(), 0)
+        : null,
     });
 
     if (error) {
@@ -165,6 +207,84 @@ export async function logPostAttempt(data: {
   }
 }
 
+/** Rows per request when reading post logs (PostgREST caps responses) */
+const POST_LOG_PAGE_SIZE = 1000;
+
+/**
+ * Get a user's post logs created in [start, end), oldest first, for their
+ * analytics. Reads page by page so long ranges are not cut off.
+ */
+export async function getUserPostLogs<K extends keyof PostLog>(
+  userId: string,
+  start: Date,
+  end: Date,
+  columns: K[]
+): Promise<Pick<PostLog, K>[]> {
+  const client = createServerSupabaseClient();
+  const logs: Pick<PostLog, K>[] = [];
+
+  for (let offset = 0; ; offset += POST_LOG_PAGE_SIZE) {
+    const { data, error } = await client
+      .from('post_logs')
+      .select(columns.join(', '))
+      .eq('user_id', userId)
+      .gte('created_at', start.toISOString())
+      .lt('created_at', end.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + POST_LOG_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to get post logs: ${error.message}`);
+    }
+
+    const page = (data || []) as unknown as Pick<PostLog, K>[];
+    logs.push(...page);
+    if (page.length < POST_LOG_PAGE_SIZE) {
+      return logs;
+    }
+  }
+}
+
+/**
+ * Get the NSFW and OC settings of subreddits from the subreddit cache,
+ * keyed by normalized name. Subreddits that are not cached are left out;
+ * errors are logged and give an empty result.
+ */
+export async function getSubredditFlagInfo(
+  subreddits: string[]
+): Promise<Record<string, SubredditFlagInfo>> {
+  const names = Array.from(new Set(subreddits.map(normalizeSubredditKey)));
+  if (names.length === 0) {
+    return {};
+  }
+
+  try {
+    const client = createServerSupabaseClient();
+    const { data, error } = await client
+      .from('subreddit_cache')
+      .select('subreddit_name, over_18, allow_original_content')
+      .in('subreddit_name', names);
+
+    if (error) {
+      console.error('Failed to get subreddit flag info:', error);
+      return {};
+    }
+
+    const info: Record<string, SubredditFlagInfo> = {};
+    for (const row of data || []) {
+      info[row.subreddit_name] = {
+        ...(row.over_18 !== null && { over18: row.over_18 }),
+        ...(row.allow_original_content !== null && { allowOriginalContent: row.allow_original_content }),
+      };
+    }
+    return info;
+  } catch (err) {
+    console.error('Error getting subreddit flag info:', err);
+    return {};
+  }
+}
+
 /**
  * Classify Reddit error messages into generic error codes.
  * Strips user content to maintain privacy.
@@ -37,4 +37,11 @@ export const SWR_KEYS = {
   AUTH: '/api/me',
   CATEGORIES: '/api/settings/categories',
   ANALYTICS: '/api/analytics',
+  SCHEDULED_JOBS: '/api/queue/jobs?status=scheduled',
+  QUEUE_JOBS: '/api/queue/jobs?status=all',
+  WEBHOOKS: '/api/settings/webhooks',
+  RECURRING_JOBS: '/api/queue/recurring',
+  POST_METRICS: '/api/queue/metrics',
+  USER_ANALYTICS: '/api/user/analytics',
+  POST_HISTORY: '/api/queue/history',
 } as const;
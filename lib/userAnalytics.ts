@@ -0,0 +1,246 @@
+/**
+ * User Analytics
+ *
+ * A user's own posting stats from post_logs over a date range: totals,
+ * success rate, best subreddits, why posts failed and posts per day. How
+ * far back the range may go depends on the plan (entitlement). The API
+ * (GET /api/user/analytics) and the /analytics page share these helpers.
+ * Client-safe.
+ */
+
+import type { PostLog } from './supabase';
+import {
+  FREE_ANALYTICS_HISTORY_DAYS,
+  PRO_ANALYTICS_HISTORY_DAYS,
+  type Entitlement,
+} from './entitlement-constants';
+import { getErrorCodeLabel } from './errorClassification';
+import { isRemovedAfterPosting } from './postCheck';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Inclusive range of UTC days (YYYY-MM-DD).
+ */
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+}
+
+export interface SubredditSuccess {
+  subreddit: string;
+  /** All posts, successful or not */
+  count: number;
+  successCount: number;
+  /** 0-100 */
+  successRate: number;
+}
+
+export interface ErrorCodeCount {
+  /** post_logs.error_code (unknown_error when missing) */
+  code: string;
+  label: string;
+  count: number;
+  /** Share of all failed posts, 0-100 */
+  share: number;
+}
+
+export interface PostsByDay {
+  /** YYYY-MM-DD (UTC) */
+  date: string;
+  success: number;
+  error: number;
+}
+
+export interface UserAnalytics {
+  totalPosts: number;
+  successfulPosts: number;
+  failedPosts: number;
+  /** 0-100 */
+  successRate: number;
+  /** Successful posts a later check found removed (see lib/postCheck.ts) */
+  removedAfterPosting: number;
+  /** Most successful posts first */
+  topSubreddits: SubredditSuccess[];
+  /** Most common first */
+  errorBreakdown: ErrorCodeCount[];
+  /** Every day of the range, oldest first */
+  postsByDay: PostsByDay[];
+}
+
+/**
+ * Response from GET /api/user/analytics
+ */
+export interface UserAnalyticsResponse extends Partial<UserAnalytics> {
+  range?: AnalyticsRange;
+  /** Days of history the user's plan allows */
+  historyDays?: number;
+  /** The requested range started before the plan's history and was cut */
+  limited?: boolean;
+  error?: string;
+}
+
+export type AnalyticsPost = Pick<PostLog, 'subreddit_name' | 'status' | 'error_code' | 'created_at' | 'post_state'>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const USER_ANALYTICS_CONSTANTS = {
+  /** Days shown when no range is given (or the plan's history, if shorter) */
+  DEFAULT_RANGE_DAYS: 30,
+
+  /** Subreddits listed in topSubreddits */
+  TOP_SUBREDDITS: 10,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================================================
+// Range
+// ============================================================================
+
+/**
+ * Days of history a plan can see.
+ */
+export function getAnalyticsHistoryDays(entitlement: Entitlement): number {
+  return entitlement === 'free' ? FREE_ANALYTICS_HISTORY_DAYS : PRO_ANALYTICS_HISTORY_DAYS;
+}
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (date: string, days: number): string =>
+  toDateString(new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS));
+
+/**
+ * Read a YYYY-MM-DD query value: undefined when missing, null when invalid.
+ */
+export function parseDayParam(value: unknown): string | null | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    return null;
+  }
+  // Rejects dates like 2026-02-30
+  const time = Date.parse(`${value}T00:00:00.000Z`);
+  return !Number.isNaN(time) && toDateString(new Date(time)) === value ? value : null;
+}
+
+/**
+ * Work out the range to show from ?from and ?to. Missing ends default to
+ * today and DEFAULT_RANGE_DAYS back; both ends are kept within the plan's
+ * history, and `limited` says the request reached further back.
+ */
+export function parseAnalyticsRange(
+  query: { from?: unknown; to?: unknown },
+  historyDays: number,
+  now: Date = new Date()
+): { range?: AnalyticsRange; limited?: boolean; error?: string } {
+  const from = parseDayParam(query.from);
+  const to = parseDayParam(query.to);
+  if (from === null || to === null) {
+    return { error: 'from and to must be dates (YYYY-MM-DD)' };
+  }
+  if (from && to && from > to) {
+    return { error: 'from must not be after to' };
+  }
+
+  const today = toDateString(now);
+  const earliest = addDays(today, 1 - historyDays);
+  const clamp = (date: string): string => (date < earliest ? earliest : date > today ? today : date);
+
+  const end = clamp(to ?? today);
+  const start = from ?? addDays(end, 1 - Math.min(USER_ANALYTICS_CONSTANTS.DEFAULT_RANGE_DAYS, historyDays));
+
+  return {
+    range: { from: clamp(start), to: end },
+    limited: start < earliest,
+  };
+}
+
+/**
+ * The last `days` days, today included.
+ */
+export function getRecentRange(days: number, now: Date = new Date()): AnalyticsRange {
+  const today = toDateString(now);
+  return { from: addDays(today, 1 - days), to: today };
+}
+
+/**
+ * UTC bounds of a range for querying: [start, end).
+ */
+export function getRangeBounds(range: AnalyticsRange): { start: Date; end: Date } {
+  return {
+    start: new Date(`${range.from}T00:00:00.000Z`),
+    end: new Date(`${addDays(range.to, 1)}T00:00:00.000Z`),
+  };
+}
+
+// ============================================================================
+// Aggregates
+// ============================================================================
+
+const percent = (part: number, total: number): number => (total > 0 ? Math.round((part / total) * 100) : 0);
+
+/**
+ * Aggregate a user's post logs over a range.
+ */
+export function summarizeUserPosts(posts: AnalyticsPost[], range: AnalyticsRange): UserAnalytics {
+  const successfulPosts = posts.filter(post => post.status === 'success').length;
+  const failedPosts = posts.length - successfulPosts;
+
+  const subreddits = new Map<string, { subreddit: string; count: number; successCount: number }>();
+  const errors = new Map<string, number>();
+  const days = new Map<string, PostsByDay>();
+
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    days.set(date, { date, success: 0, error: 0 });
+  }
+
+  for (const post of posts) {
+    const key = post.subreddit_name.toLowerCase();
+    const subreddit = subreddits.get(key) ?? { subreddit: post.subreddit_name, count: 0, successCount: 0 };
+    subreddit.count++;
+
+    const day = days.get(post.created_at.split('T')[0]);
+    if (post.status === 'success') {
+      subreddit.successCount++;
+      if (day) day.success++;
+    } else {
+      const code = post.error_code || 'unknown_error';
+      errors.set(code, (errors.get(code) ?? 0) + 1);
+      if (day) day.error++;
+    }
+    subreddits.set(key, subreddit);
+  }
+
+  return {
+    totalPosts: posts.length,
+    successfulPosts,
+    failedPosts,
+    successRate: percent(successfulPosts, posts.length),
+    removedAfterPosting: posts.filter(post =>
+      post.status === 'success' && post.post_state && isRemovedAfterPosting({ state: post.post_state })
+    ).length,
+    topSubreddits: Array.from(subreddits.values())
+      .map(subreddit => ({ ...subreddit, successRate: percent(subreddit.successCount, subreddit.count) }))
+      .sort((a, b) =>
+        b.successCount - a.successCount ||
+        b.successRate - a.successRate ||
+        a.subreddit.localeCompare(b.subreddit)
+      )
+      .slice(0, USER_ANALYTICS_CONSTANTS.TOP_SUBREDDITS),
+    errorBreakdown: Array.from(errors, ([code, count]) => ({
+      code,
+      label: getErrorCodeLabel(code),
+      count,
+      share: percent(count, failedPosts),
+    })).sort((a, b) => b.count - a.count || a.code.localeCompare(b.code)),
+    postsByDay: Array.from(days.values()),
+  };
+}
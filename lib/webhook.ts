@@ -0,0 +1,437 @@
+/**
+ * Outbound Webhooks
+ *
+ * Types, limits and payloads of the webhooks users register in settings to
+ * hear about their queue jobs:
+ * - job.completed / job.failed: a job finished, with all its results
+ * - item.posted: one item of a job was posted
+ *
+ * Client-safe. Signing and delivery live in lib/webhookDelivery.ts, storage
+ * and retries in lib/webhookService.ts. URLs must point to public hosts
+ * (validateWebhookUrl); delivery checks what their names resolve to as well.
+ */
+
+import type { QueueJob, QueueJobResult, QueueJobStatus } from './queueJob';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const WEBHOOK_EVENT_TYPES = ['job.completed', 'job.failed', 'item.posted'] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+/**
+ * Registered endpoint as returned to the client. The secret is only sent
+ * once, when the endpoint is created.
+ */
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  created_at: string;
+}
+
+/**
+ * One event sent (or being sent) to an endpoint.
+ * The id is the webhook-id header, identical across retries.
+ */
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_type: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+/**
+ * Job summary included in every payload.
+ */
+export interface WebhookJobSummary {
+  id: string;
+  status: QueueJobStatus;
+  caption: string;
+  total: number;
+  posted: number;
+  failed: number;
+  skipped: number;
+  error: string | null;
+  /** Dry run: nothing was posted; `posted` counts the items that would have been */
+  dry_run: boolean;
+  /** Crosspost job: results of crossposts link to the original in `crosspostOf` */
+  crosspost: boolean;
+  created_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * Body of a webhook request (Standard Webhooks shape).
+ */
+export type WebhookPayload =
+  | {
+      type: 'job.completed' | 'job.failed';
+      timestamp: string;
+      data: { job: WebhookJobSummary; results: QueueJobResult[] };
+    }
+  | {
+      type: 'item.posted';
+      timestamp: string;
+      data: { job: WebhookJobSummary; result: QueueJobResult };
+    };
+
+export interface WebhookEndpointInput {
+  url: string;
+  events: WebhookEventType[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const WEBHOOK_CONSTANTS = {
+  /** Max endpoints per user */
+  MAX_ENDPOINTS_PER_USER: 5,
+
+  /** Attempts per delivery, including the first */
+  MAX_ATTEMPTS: 6,
+
+  /** Wait before each retry (ms); the last value repeats */
+  RETRY_DELAYS_MS: [
+    60 * 1000, // 1 minute
+    5 * 60 * 1000, // 5 minutes
+    30 * 60 * 1000, // 30 minutes
+    2 * 60 * 60 * 1000, // 2 hours
+    6 * 60 * 60 * 1000, // 6 hours
+  ],
+
+  /** How long a receiver has to answer (ms) */
+  TIMEOUT_MS: 10 * 1000,
+
+  /** Deliveries sent per dispatcher run */
+  DELIVERY_BATCH_SIZE: 20,
+
+  /** Delivery log entries returned per request */
+  DELIVERY_LOG_LIMIT: 50,
+
+  /** How long the delivery log is kept (days) */
+  DELIVERY_RETENTION_DAYS: 30,
+
+  /** Max length of the response body kept in the log */
+  MAX_ERROR_LENGTH: 500,
+} as const;
+
+// ============================================================================
+// Payloads
+// ============================================================================
+
+/**
+ * Summary of a job's progress for payloads.
+ */
+export function summarizeJob(job: QueueJob): WebhookJobSummary {
+  const count = (status: QueueJobResult['status']) =>
+    job.results.filter(result => result.status === status).length;
+
+  return {
+    id: job.id,
+    status: job.status,
+    caption: job.caption,
+    total: job.items.length,
+    posted: count('success'),
+    failed: count('error'),
+    skipped: count('skipped'),
+    error: job.error,
+    dry_run: job.dry_run,
+    crosspost: job.crosspost,
+    created_at: job.created_at,
+    completed_at: job.completed_at,
+  };
+}
+
+/**
+ * Payload of job.completed / job.failed.
+ */
+export function buildJobPayload(
+  type: 'job.completed' | 'job.failed',
+  job: QueueJob,
+  now: Date = new Date()
+): WebhookPayload {
+  return {
+    type,
+    timestamp: now.toISOString(),
+    data: { job: summarizeJob(job), results: job.results },
+  };
+}
+
+/**
+ * Payload of item.posted.
+ */
+export function buildItemPostedPayload(
+  job: QueueJob,
+  result: QueueJobResult,
+  now: Date = new Date()
+): WebhookPayload {
+  return {
+    type: 'item.posted',
+    timestamp: now.toISOString(),
+    data: { job: summarizeJob(job), result },
+  };
+}
+
+// ============================================================================
+// Retries
+// ============================================================================
+
+/**
+ * Wait before the next attempt after `attempts` failed ones, or null when
+ * the delivery has used up its attempts.
+ */
+export function getRetryDelayMs(attempts: number): number | null {
+  if (attempts >= WEBHOOK_CONSTANTS.MAX_ATTEMPTS) {
+    return null;
+  }
+  const delays = WEBHOOK_CONSTANTS.RETRY_DELAYS_MS;
+  return delays[Math.min(attempts - 1, delays.length - 1)];
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/** Name suffixes that only resolve inside a network */
+const INTERNAL_HOST_SUFFIXES = ['.localhost', '.local', '.localdomain', '.internal', '.home.arpa'];
+
+export const PRIVATE_ADDRESS_ERROR = 'URL must point to a public address';
+
+const parseIPv4 = (ip: string): number[] | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+};
+
+/** The 8 groups of an IPv6 address, or null */
+const parseIPv6 = (ip: string): number[] | null => {
+  let text = ip.toLowerCase().split('%')[0];
+
+  // Trailing dotted IPv4 (::ffff:1.2.3.4) becomes two groups
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = parseIPv4(dotted[2]);
+    if (!octets) return null;
+    text = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  return groups.every(group => /^[0-9a-f]{1,4}$/.test(group)) ? groups.map(group => parseInt(group, 16)) : null;
+};
+
+const isPublicIPv4 = ([a, b, c]: number[]): boolean =>
+  !(
+    a === 0 || a === 10 || a === 127 || a >= 224 || // this network, private, loopback, multicast and reserved
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    (a === 198 && b === 51 && c === 100) ||
+    (a === 203 && b === 0 && c === 113)
+  );
+
+/** IPv4 address embedded in the last two groups */
+const embeddedIPv4 = (groups: number[]): number[] =>
+  [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+
+const isPublicIPv6 = (groups: number[]): boolean => {
+  const [first, second] = groups;
+  const zeroPrefix = groups.slice(0, 5).every(group => group === 0);
+
+  if (zeroPrefix && groups[5] === 0xffff) {
+    return isPublicIPv4(embeddedIPv4(groups)); // IPv4-mapped
+  }
+  if (zeroPrefix && groups[5] === 0) {
+    return false; // unspecified, loopback, IPv4-compatible
+  }
+  if (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPublicIPv4(embeddedIPv4(groups)); // NAT64
+  }
+  if (first === 0x2002) {
+    return isPublicIPv4([second >> 8, second & 0xff, groups[2] >> 8, groups[2] & 0xff]); // 6to4
+  }
+  return !(
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xffc0) === 0xfec0 || // site-local
+    (first & 0xff00) === 0xff00 || // multicast
+    (first === 0x2001 && second === 0x0db8) // documentation
+  );
+};
+
+/**
+ * Whether an IP address is reachable on the public internet - not private,
+ * loopback, link-local (169.254.169.254 cloud metadata), carrier-grade NAT,
+ * unique local, multicast or reserved. False for anything that is not an IP.
+ */
+export function isPublicAddress(ip: string): boolean {
+  const octets = parseIPv4(ip);
+  if (octets) {
+    return isPublicIPv4(octets);
+  }
+  const groups = parseIPv6(ip.replace(/^\[|\]$/g, ''));
+  return groups ? isPublicIPv6(groups) : false;
+}
+
+/** Whether a hostname is an IP address rather than a name */
+export const isIpHostname = (hostname: string): boolean =>
+  !!parseIPv4(hostname) || !!parseIPv6(hostname.replace(/^\[|\]$/g, ''));
+
+/**
+ * Whether a URL's host is internal by itself: a non-public IP, localhost,
+ * a name under an internal suffix or a single label (intranet names).
+ * Names are checked after DNS resolution on the server (lib/webhookDelivery.ts).
+ */
+const isInternalHost = (hostname: string): boolean => {
+  if (isIpHostname(hostname)) {
+    return !isPublicAddress(hostname);
+  }
+  const name = hostname.toLowerCase().replace(/\.$/, '');
+  return name === 'localhost' || !name.includes('.') || INTERNAL_HOST_SUFFIXES.some(suffix => name.endsWith(suffix));
+};
+
+/**
+ * Whether a URL is a plain-http local receiver, accepted outside
+ * production so webhooks can be tried while developing.
+ */
+export const isLocalReceiverUrl = (url: URL): boolean =>
+  url.protocol === 'http:' &&
+  LOCAL_HOSTNAMES.has(url.hostname) &&
+  process.env.NODE_ENV !== 'production';
+
+/**
+ * Check a webhook URL. Only https to a public host is accepted, except for
+ * local receivers outside production.
+ */
+export function validateWebhookUrl(input: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    return 'Enter a valid URL';
+  }
+
+  if (url.username || url.password) {
+    return 'URL must not contain credentials';
+  }
+  if (isLocalReceiverUrl(url)) {
+    return null;
+  }
+  if (url.protocol !== 'https:') {
+    return 'URL must use https';
+  }
+  return isInternalHost(url.hostname) ? PRIVATE_ADDRESS_ERROR : null;
+}
+
+const isEventType = (value: unknown): value is WebhookEventType =>
+  typeof value === 'string' && (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+
+/**
+ * Parse the event list of a request body. Missing means all events.
+ */
+export function parseWebhookEvents(input: unknown): { events?: WebhookEventType[]; error?: string } {
+  if (input === undefined) {
+    return { events: [...WEBHOOK_EVENT_TYPES] };
+  }
+  if (!Array.isArray(input) || input.length === 0 || !input.every(isEventType)) {
+    return { error: `Events must be one or more of ${WEBHOOK_EVENT_TYPES.join(', ')}` };
+  }
+  return { events: Array.from(new Set(input)) };
+}
+
+/**
+ * Parse and validate a new endpoint from an API request body.
+ */
+export function parseWebhookEndpointInput(
+  input: unknown
+): { endpoint?: WebhookEndpointInput; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Invalid webhook' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  if (typeof raw.url !== 'string' || raw.url.trim() === '') {
+    return { error: 'URL is required' };
+  }
+
+  const url = raw.url.trim();
+  const urlError = validateWebhookUrl(url);
+  if (urlError) {
+    return { error: urlError };
+  }
+
+  const { events, error } = parseWebhookEvents(raw.events);
+  if (error || !events) {
+    return { error };
+  }
+
+  return { endpoint: { url, events } };
+}
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+/**
+ * Response from GET /api/settings/webhooks
+ */
+export interface ListWebhooksResponse {
+  endpoints: WebhookEndpoint[];
+  error?: string;
+}
+
+/**
+ * Response from POST /api/settings/webhooks
+ */
+export interface CreateWebhookResponse {
+  success: boolean;
+  endpoint?: WebhookEndpoint;
+  /** Signing secret, only returned here */
+  secret?: string;
+  error?: string;
+}
+
+/**
+ * Response from PATCH and DELETE /api/settings/webhooks/[id]
+ */
+export interface UpdateWebhookResponse {
+  success: boolean;
+  endpoint?: WebhookEndpoint;
+  error?: string;
+}
+
+/**
+ * Response from GET /api/settings/webhooks/deliveries
+ */
+export interface WebhookDeliveriesResponse {
+  deliveries: WebhookDelivery[];
+  error?: string;
+}
@@ -0,0 +1,207 @@
+/**
+ * Webhook Delivery
+ *
+ * Signs and sends one outbound webhook request. No database access, so it
+ * can be exercised against any HTTP receiver; storage and retries are in
+ * lib/webhookService.ts.
+ *
+ * Requests only go to public addresses: the host of a URL is resolved when
+ * the endpoint is saved and before each send (checkWebhookTarget), and the
+ * connection itself uses a lookup that refuses internal addresses, so a DNS
+ * answer that changes in between can't point a request at the server's
+ * network.
+ *
+ * Requests are signed the Standard Webhooks way - the scheme
+ * pages/api/webhooks/dodo.ts verifies for Dodo Payments - so receivers can
+ * check them with any Standard Webhooks library and the endpoint's secret.
+ */
+
+import { randomBytes } from 'crypto';
+import { lookup as dnsLookup, promises as dns } from 'dns';
+import http from 'http';
+import https from 'https';
+import type { LookupFunction } from 'net';
+import { Webhook } from 'standardwebhooks';
+import {
+  PRIVATE_ADDRESS_ERROR,
+  WEBHOOK_CONSTANTS,
+  isIpHostname,
+  isLocalReceiverUrl,
+  isPublicAddress,
+  validateWebhookUrl,
+  type WebhookPayload,
+} from './webhook';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Where a message is sent and the secret it is signed with */
+export interface WebhookTarget {
+  url: string;
+  secret: string;
+}
+
+/** One signed request; `id` is the webhook-id header */
+export interface WebhookMessage {
+  id: string;
+  payload: WebhookPayload;
+}
+
+export interface WebhookAttemptResult {
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface SendWebhookOptions {
+  timeoutMs?: number;
+  /** Signing time (webhook-timestamp) */
+  now?: Date;
+}
+
+// ============================================================================
+// Address Checks
+// ============================================================================
+
+/**
+ * dns.lookup for outbound requests that fails when a host resolves to any
+ * address that is not public.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      callback(new Error(`${hostname}: ${PRIVATE_ADDRESS_ERROR}`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Check a webhook URL (validateWebhookUrl) and what its host resolves to.
+ * Returns an error message, or null when requests may be sent to it.
+ */
+export async function checkWebhookTarget(input: string): Promise<string | null> {
+  const urlError = validateWebhookUrl(input);
+  if (urlError) {
+    return urlError;
+  }
+
+  const url = new URL(input);
+  // IP hosts were classified above; local receivers are allowed outside production
+  if (isLocalReceiverUrl(url) || isIpHostname(url.hostname)) {
+    return null;
+  }
+
+  try {
+    const addresses = await dns.lookup(url.hostname, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address))
+      ? null
+      : PRIVATE_ADDRESS_ERROR;
+  } catch {
+    return `Could not resolve ${url.hostname}`;
+  }
+}
+
+// ============================================================================
+// Signing & Sending
+// ============================================================================
+
+/**
+ * New signing secret in the Standard Webhooks format (whsec_<base64>).
+ */
+export function createWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64')}`;
+}
+
+/**
+ * POST a body and read the answer. Redirects are not followed; only the
+ * start of the answer is kept.
+ */
+const post = (
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  signal: AbortSignal
+): Promise<{ statusCode: number; text: string }> =>
+  new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: isLocalReceiverUrl(url) ? undefined : lookupPublicAddress,
+      signal,
+    }, response => {
+      let text = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        if (text.length < WEBHOOK_CONSTANTS.MAX_ERROR_LENGTH) {
+          text += chunk;
+        }
+      });
+      response.on('end', () => resolve({ statusCode: response.statusCode ?? 0, text }));
+      response.on('close', () => reject(new Error('Connection closed before the answer ended')));
+      response.on('error', reject);
+    });
+
+    request.on('error', reject);
+    request.end(body);
+  });
+
+/**
+ * Sign and POST one message. Any 2xx answer is a success; redirects are
+ * not followed and URLs that don't pass checkWebhookTarget are not sent
+ * to. Never throws.
+ */
+export async function sendWebhook(
+  target: WebhookTarget,
+  message: WebhookMessage,
+  { timeoutMs = WEBHOOK_CONSTANTS.TIMEOUT_MS, now = new Date() }: SendWebhookOptions = {}
+): Promise<WebhookAttemptResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const targetError = await checkWebhookTarget(target.url);
+    if (targetError) {
+      return { ok: false, error: targetError };
+    }
+
+    const body = JSON.stringify(message.payload);
+    const signature = new Webhook(target.secret).sign(message.id, now, body);
+
+    const response = await post(new URL(target.url), {
+      'Content-Type': 'application/json',
+      'User-Agent': 'RedditMultiPoster-Webhooks/1.0',
+      'webhook-id': message.id,
+      'webhook-timestamp': String(Math.floor(now.getTime() / 1000)),
+      'webhook-signature': signature,
+    }, body, controller.signal);
+
+    if (response.statusCode >= 200 && response.statusCode < 300) {
+      return { ok: true, statusCode: response.statusCode };
+    }
+
+    return {
+      ok: false,
+      statusCode: response.statusCode,
+      error: `HTTP ${response.statusCode}${response.text ? `: ${response.text}` : ''}`
+        .slice(0, WEBHOOK_CONSTANTS.MAX_ERROR_LENGTH),
+    };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return { ok: false, error: `No response within ${timeoutMs} ms` };
+    }
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
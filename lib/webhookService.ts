@@ -0,0 +1,341 @@
+/**
+ * Webhook Service
+ *
+ * Server-side storage of outbound webhooks (see lib/webhook.ts): endpoints,
+ * deliveries and retries. Requests are signed and sent by
+ * lib/webhookDelivery.ts.
+ *
+ * Events are stored as webhook_deliveries rows and sent right away; failed
+ * attempts are retried with backoff by the cron dispatcher and the queue
+ * worker (deliverDueWebhooks). The rows are the delivery log in settings.
+ */
+
+import { createServerSupabaseClient } from './supabase';
+import { createWebhookSecret, sendWebhook, type WebhookTarget } from './webhookDelivery';
+import {
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookEventType,
+  WebhookPayload,
+  WEBHOOK_CONSTANTS,
+  getRetryDelayMs,
+} from './webhook';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface WebhookEndpointRow extends WebhookEndpoint {
+  user_id: string;
+  secret: string;
+}
+
+/** How long a runner holds a delivery while sending it (ms) */
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+
+const DELIVERY_COLUMNS =
+  'id, endpoint_id, event_type, payload, status, attempts, next_attempt_at, last_status_code, last_error, created_at, delivered_at';
+
+const toEndpoint = ({ id, url, events, enabled, created_at }: WebhookEndpointRow): WebhookEndpoint => ({
+  id,
+  url,
+  events,
+  enabled,
+  created_at,
+});
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+/**
+ * Get a user's endpoints, oldest first.
+ */
+export async function listWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to list webhooks: ${error.message}`);
+  }
+
+  return ((data || []) as WebhookEndpointRow[]).map(toEndpoint);
+}
+
+/**
+ * Register an endpoint with a new secret. The secret is only returned here.
+ */
+export async function createWebhookEndpoint(
+  userId: string,
+  { url, events }: WebhookEndpointInput
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  const client = createServerSupabaseClient();
+  const secret = createWebhookSecret();
+
+  const { data, error } = await client
+    .from('webhook_endpoints')
+    .insert({ user_id: userId, url, events, secret })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create webhook: ${error.message}`);
+  }
+
+  return { endpoint: toEndpoint(data as WebhookEndpointRow), secret };
+}
+
+/**
+ * Enable/disable an endpoint or change its events.
+ * Returns null when the endpoint does not exist or is not the user's.
+ */
+export async function updateWebhookEndpoint(
+  endpointId: string,
+  userId: string,
+  changes: { enabled?: boolean; events?: WebhookEventType[] }
+): Promise<WebhookEndpoint | null> {
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client
+    .from('webhook_endpoints')
+    .update(changes)
+    .eq('id', endpointId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    throw new Error(`Failed to update webhook: ${error.message}`);
+  }
+
+  return toEndpoint(data as WebhookEndpointRow);
+}
+
+/**
+ * Delete an endpoint and its delivery log.
+ * Returns false when the endpoint does not exist or is not the user's.
+ */
+export async function deleteWebhookEndpoint(endpointId: string, userId: string): Promise<boolean> {
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', endpointId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete webhook: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+// ============================================================================
+// Deliveries
+// ============================================================================
+
+/**
+ * Send one claimed delivery and record the outcome: success, a retry after
+ * backoff, or failed once the attempts are used up.
+ */
+async function attemptDelivery(delivery: WebhookDelivery, target: WebhookTarget): Promise<boolean> {
+  const result = await sendWebhook(target, { id: delivery.id, payload: delivery.payload });
+  const attempts = delivery.attempts + 1;
+  const retryDelayMs = result.ok ? null : getRetryDelayMs(attempts);
+
+  const client = createServerSupabaseClient();
+  const { error } = await client
+    .from('webhook_deliveries')
+    .update({
+      status: result.ok ? 'success' : retryDelayMs === null ? 'failed' : 'pending',
+      attempts,
+      next_attempt_at: retryDelayMs === null ? null : new Date(Date.now() + retryDelayMs).toISOString(),
+      last_status_code: result.statusCode ?? null,
+      last_error: result.error ?? null,
+      delivered_at: result.ok ? new Date().toISOString() : null,
+    })
+    .eq('id', delivery.id);
+
+  if (error) {
+    console.error('Failed to record webhook delivery:', error);
+  }
+
+  return result.ok;
+}
+
+/**
+ * Queue an event for every enabled endpoint of the user that subscribed to
+ * it and send it right away (not awaited - a slow receiver must not hold
+ * up posting). Attempts that don't finish are picked up by
+ * deliverDueWebhooks. Never throws.
+ */
+export async function enqueueWebhookEvent(userId: string, payload: WebhookPayload): Promise<void> {
+  try {
+    const client = createServerSupabaseClient();
+
+    const { data: endpoints, error } = await client
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('enabled', true)
+      .contains('events', [payload.type]);
+
+    if (error) {
+      console.error('Failed to load webhooks:', error);
+      return;
+    }
+    if (!endpoints || endpoints.length === 0) {
+      return;
+    }
+
+    // Held by this runner until the first attempt is done
+    const leaseUntil = new Date(Date.now() + DELIVERY_LEASE_MS).toISOString();
+    const rows = (endpoints as WebhookEndpointRow[]).map(endpoint => ({
+      endpoint_id: endpoint.id,
+      user_id: userId,
+      event_type: payload.type,
+      payload,
+      next_attempt_at: leaseUntil,
+    }));
+
+    const { data: deliveries, error: insertError } = await client
+      .from('webhook_deliveries')
+      .insert(rows)
+      .select(DELIVERY_COLUMNS);
+
+    if (insertError) {
+      console.error('Failed to queue webhooks:', insertError);
+      return;
+    }
+
+    for (const delivery of (deliveries || []) as WebhookDelivery[]) {
+      const endpoint = (endpoints as WebhookEndpointRow[]).find(e => e.id === delivery.endpoint_id);
+      if (!endpoint) continue;
+      attemptDelivery(delivery, endpoint).catch(err => {
+        console.error('Failed to deliver webhook:', err);
+      });
+    }
+  } catch (error) {
+    console.error('Failed to queue webhooks:', error);
+  }
+}
+
+/**
+ * Send deliveries whose retry is due. Safe to run from several places at
+ * once - deliveries are claimed atomically (claim_webhook_deliveries).
+ */
+export async function deliverDueWebhooks(
+  limit: number = WEBHOOK_CONSTANTS.DELIVERY_BATCH_SIZE
+): Promise<{ delivered: number; failed: number }> {
+  const client = createServerSupabaseClient();
+
+  const { data, error } = await client.rpc('claim_webhook_deliveries', {
+    p_limit: limit,
+    p_lease_seconds: Math.round(DELIVERY_LEASE_MS / 1000),
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim webhook deliveries: ${error.message}`);
+  }
+
+  const deliveries = (data || []) as WebhookDelivery[];
+  if (deliveries.length === 0) {
+    return { delivered: 0, failed: 0 };
+  }
+
+  const endpointIds = Array.from(new Set(deliveries.map(d => d.endpoint_id)));
+  const { data: endpoints, error: endpointError } = await client
+    .from('webhook_endpoints')
+    .select('*')
+    .in('id', endpointIds);
+
+  if (endpointError) {
+    throw new Error(`Failed to load webhooks: ${endpointError.message}`);
+  }
+
+  const outcomes = await Promise.all(deliveries.map(async delivery => {
+    const endpoint = ((endpoints || []) as WebhookEndpointRow[]).find(e => e.id === delivery.endpoint_id);
+
+    // Disabled since the event - give up instead of sending it later
+    if (!endpoint || !endpoint.enabled) {
+      await client
+        .from('webhook_deliveries')
+        .update({ status: 'failed', next_attempt_at: null, last_error: 'Endpoint disabled' })
+        .eq('id', delivery.id);
+      return false;
+    }
+
+    return attemptDelivery(delivery, endpoint);
+  }));
+
+  const delivered = outcomes.filter(Boolean).length;
+  return { delivered, failed: outcomes.length - delivered };
+}
+
+/**
+ * Get a user's delivery log, newest first, optionally for one endpoint.
+ */
+export async function getWebhookDeliveries(
+  userId: string,
+  endpointId?: string,
+  limit: number = WEBHOOK_CONSTANTS.DELIVERY_LOG_LIMIT
+): Promise<WebhookDelivery[]> {
+  const client = createServerSupabaseClient();
+
+  let query = client
+    .from('webhook_deliveries')
+    .select(DELIVERY_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (endpointId) {
+    query = query.eq('endpoint_id', endpointId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to get webhook deliveries: ${error.message}`);
+  }
+
+  return (data || []) as WebhookDelivery[];
+}
+
+/**
+ * Delete log entries older than `daysOld`.
+ */
+export async function cleanupWebhookDeliveries(
+  daysOld: number = WEBHOOK_CONSTANTS.DELIVERY_RETENTION_DAYS
+): Promise<number> {
+  const client = createServerSupabaseClient();
+
+  const threshold = new Date(
+    Date.now() - daysOld * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  const { data, error } = await client
+    .from('webhook_deliveries')
+    .delete()
+    .lt('created_at', threshold)
+    .neq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    console.error('Failed to clean up webhook deliveries:', error);
+    return 0;
+  }
+
+  return data?.length || 0;
+}
@@ -20,6 +20,7 @@ import { Input } from '@/components/ui/input';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { useAuth } from '@/hooks/useAuth';
 import { AppHeader } from '@/components/layout';
+import type { QueuePostState } from '@/lib/queueJob';
 
 // Dynamic imports for tab components - load only when needed
 const AnalyticsTab = dynamic(() => import('@/components/admin/AnalyticsTab').then(mod => ({ default: mod.AnalyticsTab })), {
@@ -87,6 +88,9 @@ interface AnalyticsData {
     redditUrl: string | null;
     createdAt: string;
     username: string | null;
+    postState: QueuePostState | null;
+    removedByCategory: string | null;
+    removalReason: string | null;
   }>;
   totalUsers: number;
   topPosters: TopPoster[];
@@ -1,20 +1,152 @@
-import { useEffect } from 'react';
+import React from 'react';
+import Head from 'next/head';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
 import { useRouter } from 'next/router';
+import axios from 'axios';
+import { BarChart3, CheckCircle2, XCircle, ShieldAlert } from 'lucide-react';
+import { LogoLoader } from '@/components/ui/loader';
+import { AppHeader } from '@/components/layout';
+import { StatsCard, ErrorBreakdown, DateRangeFilter } from '@/components/analytics';
+import { useAuth } from '../hooks/useAuth';
+import { useUserAnalytics } from '../hooks/useUserAnalytics';
+import { getAnalyticsHistoryDays, type AnalyticsRange } from '@/lib/userAnalytics';
+
+const PostsChart = dynamic(() => import('@/components/analytics/PostsChart'), { ssr: false });
+const SubredditChart = dynamic(() => import('@/components/analytics/SubredditChart'), { ssr: false });
 
 /**
- * Redirect from /analytics to /admin for backward compatibility.
- * The analytics functionality has been moved to the Admin Panel.
+ * Personal analytics: how the user's own posts went over a date range.
+ * How far back it goes depends on the plan. Admins see everyone's posts
+ * in the Admin Panel (/admin#analytics).
  */
-export default function AnalyticsRedirect() {
+export default function Analytics() {
   const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, entitlement, trialDaysLeft, me, logout } = useAuth();
+  const [range, setRange] = React.useState<AnalyticsRange | null>(null);
+  const { data, isLoading, error } = useUserAnalytics(range);
+  const [isAdmin, setIsAdmin] = React.useState(false);
+
+  // Redirect to login if not authenticated
+  React.useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.replace('/login');
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  // Check admin status (non-blocking)
+  React.useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const checkAdmin = async () => {
+      try {
+        const adminRes = await axios.get<{ isAdmin: boolean; isAdminByUsername: boolean }>('/api/admin-check');
+        setIsAdmin(adminRes.data.isAdminByUsername === true);
+      } catch {
+        // ignore admin failures
+      }
+    };
 
-  useEffect(() => {
-    router.replace('/admin#analytics');
-  }, [router]);
+    checkAdmin();
+  }, [isAuthenticated]);
+
+  if (authLoading || (isLoading && !data)) {
+    return (
+      <div className="min-h-viewport bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <LogoLoader size="md" />
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        </div>
+      </div>
+    );
+  }
+
+  const historyDays = data?.historyDays ?? getAnalyticsHistoryDays(entitlement);
+  const shownRange = range ?? data?.range;
 
   return (
-    <div className="min-h-viewport bg-background flex items-center justify-center">
-      <p className="text-muted-foreground">Redirecting to Admin Panel...</p>
-    </div>
+    <>
+      <Head>
+        <title>Analytics - Reddit Multi Poster</title>
+        <meta name="description" content="See how your posts are doing" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-viewport bg-background">
+        {isAuthenticated && (
+          <AppHeader
+            userName={me?.name}
+            userAvatar={me?.icon_img}
+            onLogout={logout}
+            isAdmin={isAdmin}
+            entitlement={entitlement}
+            trialDaysLeft={trialDaysLeft}
+            pageTitle="Analytics"
+            showBackButton
+          />
+        )}
+
+        <main className="app-container py-4 sm:py-6 md:max-w-4xl safe-bottom">
+          <div className="space-y-6">
+            {shownRange && (
+              <DateRangeFilter range={shownRange} historyDays={historyDays} onChange={setRange} />
+            )}
+
+            {entitlement === 'free' && (
+              <p className="text-sm text-muted-foreground">
+                {data?.limited ? 'Only part of this range is shown. ' : ''}
+                The free plan keeps {historyDays} days of history.{' '}
+                <Link href="/checkout" className="text-primary underline-offset-4 hover:underline">
+                  Go Unlimited
+                </Link>{' '}
+                to see a full year.
+              </p>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-400" role="alert">{error}</p>
+            )}
+
+            {data?.postsByDay && (
+              <>
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                  <StatsCard
+                    title="Total Posts"
+                    value={(data.totalPosts ?? 0).toLocaleString()}
+                    subtitle={`${data.postsByDay.length} days`}
+                    icon={<BarChart3 className="w-5 h-5" />}
+                  />
+                  <StatsCard
+                    title="Success Rate"
+                    value={`${data.successRate ?? 0}%`}
+                    subtitle={`${data.successfulPosts ?? 0} successful`}
+                    icon={<CheckCircle2 className="w-5 h-5" />}
+                  />
+                  <StatsCard
+                    title="Failed"
+                    value={(data.failedPosts ?? 0).toLocaleString()}
+                    subtitle={`${data.errorBreakdown?.length ?? 0} different reasons`}
+                    icon={<XCircle className="w-5 h-5" />}
+                  />
+                  <StatsCard
+                    title="Removed"
+                    value={(data.removedAfterPosting ?? 0).toLocaleString()}
+                    subtitle="after posting"
+                    icon={<ShieldAlert className="w-5 h-5" />}
+                  />
+                </div>
+
+                <div className="grid lg:grid-cols-2 gap-6">
+                  <PostsChart data={data.postsByDay} />
+                  <SubredditChart data={data.topSubreddits ?? []} />
+                </div>
+
+                <ErrorBreakdown data={data.errorBreakdown ?? []} />
+              </>
+            )}
+          </div>
+        </main>
+      </div>
+    </>
   );
 }
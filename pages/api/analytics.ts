@@ -51,6 +51,10 @@ interface AnalyticsResponse {
     redditUrl: string | null;
     createdAt: string;
     username: string | null;
+    /** State at the last check after posting (null until checked) */
+    postState: PostLog['post_state'];
+    removedByCategory: string | null;
+    removalReason: string | null;
   }>;
   
   // Per-user stats (for comparison)
@@ -179,6 +183,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       redditUrl: p.reddit_post_url,
       createdAt: p.created_at,
       username: recentUserMap.get(p.user_id) ?? null,
+      postState: p.post_state ?? null,
+      removedByCategory: p.removed_by_category ?? null,
+      removalReason: p.removal_reason ?? null,
     }));
 
     // Count unique users
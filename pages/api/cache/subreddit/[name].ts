@@ -201,9 +201,11 @@ export default async function handler(
           title_tags: titleTags,
           post_requirements: postRequirementsResult,
           eligibility: settingsResult,
+          over_18: settingsResult?.over18 ?? null,
+          allow_original_content: settingsResult?.allowOriginalContent ?? null,
           parsed_requirements: parsedRequirements,
           cached_at: new Date().toISOString(),
-          cache_version: 6, // Bumped version for flair_required fix
+          cache_version: 7, // Bumped version for over_18 / allow_original_content
         };
 
         const { error: upsertError } = await supabase
@@ -0,0 +1,53 @@
+/**
+ * GET /api/cron/check-posts
+ *
+ * Fetches posted items whose removal check is due (lib/postCheckService.ts).
+ * Runs every minute via Vercel Cron Jobs (see vercel.json) with a time limit
+ * of its own, so checks keep to their 5m / 1h / 24h schedule however long
+ * job dispatch takes.
+ *
+ * Security: requires the Vercel cron Bearer token (CRON_SECRET), or the
+ * x-vercel-cron header when no secret is configured.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { isCronRequest } from '../../../lib/apiAuth';
+import { checkDuePosts } from '../../../lib/postCheckService';
+
+export const config = {
+  maxDuration: 60,
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isCronRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const postChecks = await checkDuePosts();
+
+    return res.status(200).json({
+      success: true,
+      postChecks,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        component: 'queue.post_check',
+        endpoint: '/api/cron/check-posts',
+      },
+    });
+
+    const message = error instanceof Error ? error.message : 'Failed to check posts';
+    return res.status(500).json({ success: false, error: message });
+  }
+}
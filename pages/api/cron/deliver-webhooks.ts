@@ -0,0 +1,52 @@
+/**
+ * GET /api/cron/deliver-webhooks
+ *
+ * Retries due webhook deliveries (lib/webhookService.ts). Runs every minute
+ * via Vercel Cron Jobs (see vercel.json), apart from the job dispatcher so a
+ * long dispatch run or a failing job can't hold retries back.
+ *
+ * Security: requires the Vercel cron Bearer token (CRON_SECRET), or the
+ * x-vercel-cron header when no secret is configured.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { isCronRequest } from '../../../lib/apiAuth';
+import { deliverDueWebhooks } from '../../../lib/webhookService';
+
+export const config = {
+  maxDuration: 60,
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isCronRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const webhooks = await deliverDueWebhooks();
+
+    return res.status(200).json({
+      success: true,
+      webhooks,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        component: 'queue.webhooks',
+        endpoint: '/api/cron/deliver-webhooks',
+      },
+    });
+
+    const message = error instanceof Error ? error.message : 'Failed to deliver webhooks';
+    return res.status(500).json({ success: false, error: message });
+  }
+}
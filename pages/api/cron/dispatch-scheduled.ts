@@ -0,0 +1,56 @@
+/**
+ * GET /api/cron/dispatch-scheduled
+ *
+ * Runs server-side queue jobs (due scheduled jobs and jobs handed to the
+ * server) in short time-boxed batches. Webhook retries, removal checks and
+ * metrics samples have their own routes (deliver-webhooks.ts,
+ * check-posts.ts, sample-posts.ts). Configured to run every minute via
+ * Vercel Cron Jobs (see vercel.json).
+ * Deployments with a long-running scripts/queue-worker.ts do the same work
+ * continuously; both can run side by side since jobs are claimed atomically.
+ *
+ * Security: requires the Vercel cron Bearer token (CRON_SECRET), or the
+ * x-vercel-cron header when no secret is configured.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { isCronRequest } from '../../../lib/apiAuth';
+import { dispatchDueJobs } from '../../../lib/queueDispatcher';
+
+export const config = {
+  maxDuration: 60,
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isCronRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const summary = await dispatchDueJobs();
+
+    return res.status(200).json({
+      success: true,
+      dispatched: summary.jobs,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        component: 'queue.dispatch',
+        endpoint: '/api/cron/dispatch-scheduled',
+      },
+    });
+
+    const message = error instanceof Error ? error.message : 'Failed to dispatch scheduled jobs';
+    return res.status(500).json({ success: false, error: message });
+  }
+}
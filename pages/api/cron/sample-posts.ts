@@ -0,0 +1,53 @@
+/**
+ * GET /api/cron/sample-posts
+ *
+ * Takes the due score and comment samples of posted items
+ * (lib/postMetricsService.ts). Scheduled every minute in vercel.json as a
+ * route of its own, so samples land near their planned times even when
+ * job dispatch uses its whole budget or fails.
+ *
+ * Security: requires the Vercel cron Bearer token (CRON_SECRET), or the
+ * x-vercel-cron header when no secret is configured.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { isCronRequest } from '../../../lib/apiAuth';
+import { sampleDuePosts } from '../../../lib/postMetricsService';
+
+export const config = {
+  maxDuration: 60,
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isCronRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const postSamples = await sampleDuePosts();
+
+    return res.status(200).json({
+      success: true,
+      postSamples,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        component: 'queue.post_metrics',
+        endpoint: '/api/cron/sample-posts',
+      },
+    });
+
+    const message = error instanceof Error ? error.message : 'Failed to sample posts';
+    return res.status(500).json({ success: false, error: message });
+  }
+}
@@ -7,9 +7,21 @@ import {
   formatFileSize,
 } from '../../lib/queueLimits';
 import { getUserId } from '../../lib/apiAuth';
-import { logPostAttempt, classifyPostError, isUserFirstPost } from '../../lib/supabase';
+import { rememberRedditToken } from '../../lib/redditTokenStore';
+import { logPostAttempt, classifyPostError, isUserFirstPost, getSubredditFlagInfo } from '../../lib/supabase';
+import { applySubredditFlagDefaults, parsePostFlags } from '../../lib/postFlags';
+import { parseGalleryItems, toSubmitGalleryItems } from '../../lib/galleryItems';
+import { parsePoll } from '../../lib/pollPost';
+import { parseFlairText } from '../../lib/flairText';
+import { markdownToRichtext } from '../../lib/richtext';
+import { getPostIdFromUrl } from '../../lib/queueCrosspost';
+import type { GalleryItemDetails, PollDetails, PostFlags } from '../../lib/queueJob';
 import { trackServerEvent, flushPostHogServer } from '../../lib/posthog-server';
 import { addApiBreadcrumb } from '../../lib/apiErrorHandler';
+import { IDEMPOTENCY_HEADER, parseIdempotencyKey } from '../../lib/idempotency';
+import { claimBatchItem, completeBatchItem, releaseBatchItem, type BatchItemClaim } from '../../lib/postingBatches';
+import type { BatchItemUpdate, BatchStreamEvent } from '../../lib/eventStream';
+import { openEventStream } from '../../lib/sse';
 import formidable from 'formidable';
 import fs from 'fs';
 
@@ -74,17 +86,28 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return; // Response already sent by applyRateLimit
   }
   
+  // Batch key from the client: a retried batch skips items it already posted
+  const { key: batchKey, error: batchKeyError } = parseIdempotencyKey(
+    req.headers[IDEMPOTENCY_HEADER.toLowerCase()]
+  );
+  if (batchKeyError) {
+    return res.status(400).json({ error: batchKeyError });
+  }
+  
   // Check if it's a file upload (multipart) or JSON
   const contentType = req.headers['content-type'] || '';
-  let items: { 
+  let items: (PostFlags & {
     subreddit: string;
     flairId?: string;
+    flairText?: string;
     titleSuffix?: string;
     customTitle?: string;
     kind: string;
     url?: string;
     text?: string;
-  }[];
+    galleryItems?: GalleryItemDetails[];
+    poll?: PollDetails;
+  })[];
   let caption: string;
   let prefixes: { f?: boolean; c?: boolean };
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -177,20 +200,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
   
   if (!Array.isArray(items) || items.length === 0) return res.status(400).json({ error: 'No items' });
-  
-  // Set up streaming response
-  res.setHeader('Content-Type', 'text/plain');
-  res.setHeader('Cache-Control', 'no-cache');
-  res.setHeader('Connection', 'keep-alive');
 
-  // streaming-ish
-  const write = (chunk: Record<string, unknown>) => {
-    res.write(JSON.stringify(chunk) + '\n');
-    // Force flush the response
-    if ('flush' in res && typeof res.flush === 'function') {
-      res.flush();
-    }
-  };
+  for (const item of items) {
+    const { error: flagsError } = parsePostFlags(item as unknown as Record<string, unknown>);
+    if (flagsError) return res.status(400).json({ error: `r/${item.subreddit}: ${flagsError}` });
+    const { items: galleryItems, error: galleryError } = parseGalleryItems(item.galleryItems);
+    if (galleryError) return res.status(400).json({ error: `r/${item.subreddit}: ${galleryError}` });
+    item.galleryItems = galleryItems;
+    const { poll, error: pollError } = parsePoll(item.kind, item.poll);
+    if (pollError) return res.status(400).json({ error: `r/${item.subreddit}: ${pollError}` });
+    item.poll = poll;
+    const { flairText, error: flairTextError } = parseFlairText(item.flairText, item.flairId);
+    if (flairTextError) return res.status(400).json({ error: `r/${item.subreddit}: ${flairTextError}` });
+    item.flairText = flairText;
+  }
+  items = applySubredditFlagDefaults(items, await getSubredditFlagInfo(items.map(item => item.subreddit)));
+  
+  // Set up streaming response (Server-Sent Events, see lib/eventStream.ts)
+  const stream = openEventStream<BatchStreamEvent>(res);
+  const write = (update: BatchItemUpdate) => stream.send({ event: 'item', data: update });
 
   let access = req.cookies['reddit_access'];
   const refresh = req.cookies['reddit_refresh'];
@@ -221,8 +249,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
     const client = redditClient(access);
 
+    // Posts are checked and sampled on the server later, with the stored token
+    if (userId) {
+      await rememberRedditToken(userId, refresh, req.cookies['reddit_scope']);
+    }
+
     // Send initial message to establish connection
-    write({ status: 'started', total: items.length });
+    stream.send({ event: 'started', data: { total: items.length } });
     
     // Track post submitted for engagement analytics
     if (userId) {
@@ -253,6 +286,37 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const item = items[i];
       write({ index: i, status: 'posting', subreddit: item.subreddit });
       
+      // Claim the item so a retry of this batch never posts it twice
+      const guardKey = userId && batchKey ? batchKey : null;
+      if (userId && guardKey) {
+        let claim: BatchItemClaim;
+        try {
+          claim = await claimBatchItem(userId, guardKey, i, item.subreddit);
+        } catch (guardError) {
+          Sentry.captureException(guardError, {
+            tags: { component: 'queue.post', subreddit: item.subreddit },
+            extra: { postIndex: i },
+          });
+          write({ index: i, status: 'error', subreddit: item.subreddit, error: 'Could not check for an earlier attempt - try again' });
+          continue;
+        }
+        
+        if (claim.state === 'posted') {
+          addApiBreadcrumb('Post already sent by earlier request', { subreddit: item.subreddit });
+          write({ index: i, status: 'success', subreddit: item.subreddit, url: claim.url ?? undefined, id: claim.postId ?? undefined });
+          continue;
+        }
+        if (claim.state === 'posting') {
+          write({
+            index: i,
+            status: 'error',
+            subreddit: item.subreddit,
+            error: `Posting was interrupted - check r/${item.subreddit} before posting again`,
+          });
+          continue;
+        }
+      }
+      
       // Get subreddit rules to determine if prefixes are needed
       let subredditRules;
       try {
@@ -334,8 +398,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         }
         
         // Determine post kind based on number of files
-        let postKind: 'self' | 'link' | 'image' | 'video' | 'gallery' = item.kind as 'self' | 'link' | 'image' | 'video' | 'gallery';
-        if (itemFiles.length > 1) {
+        let postKind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll' = item.kind as 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
+        if (itemFiles.length > 1 && postKind !== 'self') {
           postKind = 'gallery';
         }
         
@@ -352,8 +416,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           url: item.url,
           text: item.text,
           flair_id: item.flairId,
+          flair_text: item.flairText,
+          nsfw: item.nsfw,
+          spoiler: item.spoiler,
+          sendreplies: item.sendReplies,
+          original_content: item.originalContent,
           files: itemFiles.length > 0 ? itemFiles : undefined,
           file: itemFiles.length === 1 ? itemFiles[0] : undefined,
+          gallery_items: toSubmitGalleryItems(item.galleryItems),
+          buildRichtext: assetIds => markdownToRichtext(item.text ?? '', assetIds),
+          poll_options: item.poll?.options,
+          poll_duration: item.poll?.durationDays,
         });
         
         addApiBreadcrumb('Post successful', {
@@ -361,6 +434,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           hasUrl: !!result.url,
         });
         
+        if (userId && guardKey) {
+          await completeBatchItem(userId, guardKey, i, item.subreddit, result.url || null, result.id || null);
+        }
+        
         // Log success for analytics (non-blocking, privacy-first)
         if (userId) {
           logPostAttempt({
@@ -369,6 +446,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             post_kind: postKind,
             reddit_post_url: result.url || null,
             status: 'success',
+            reddit_post_id: result.id || getPostIdFromUrl(result.url) || null,
           }).catch(() => {}); // Fire and forget
           
           // Track post success for engagement analytics
@@ -415,6 +493,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           error: msg,
         }, 'error');
         
+        // Reddit refused the post - a retry may send it again
+        if (userId && guardKey) {
+          await releaseBatchItem(userId, guardKey, i, item.subreddit);
+        }
+        
         // Log error for analytics (non-blocking, privacy-first)
         if (userId) {
           const errorCategory = classifyPostError(msg);
@@ -440,13 +523,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       if (i < items.length - 1) { // Don't delay after the last post
         const delayMs = Math.floor(Math.random() * (4000 - 1000 + 1)) + 1000; // 1s to 4s
         const delaySeconds = Math.round(delayMs / 1000);
-        write({ index: i, status: 'waiting', subreddit: '', delaySeconds });
+        stream.send({ event: 'waiting', data: { index: i, delaySeconds } });
         await new Promise(resolve => setTimeout(resolve, delayMs));
       }
     }
     
     // Send completion message
-    write({ status: 'completed' });
+    stream.send({ event: 'completed', data: {} });
     
     // Flush PostHog events before ending response to ensure they're sent
     await flushPostHogServer();
@@ -466,6 +549,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       },
     });
     
-    res.status(500).end(JSON.stringify({ error: msg }));
+    if (res.headersSent) {
+      stream.send({ event: 'error', data: { error: msg } });
+      stream.end();
+    } else {
+      res.status(500).end(JSON.stringify({ error: msg }));
+    }
   }
 }
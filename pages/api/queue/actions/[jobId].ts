@@ -0,0 +1,100 @@
+/**
+ * POST /api/queue/actions/[jobId]
+ *
+ * Change every copy of a finished job on Reddit: edit the text, delete,
+ * mark or unmark NSFW/spoiler, or change the flair. Answers with one
+ * result per copy.
+ * Body: { action: 'edit', text: string }
+ *    or { action: 'delete' }
+ *    or { action: 'nsfw' | 'spoiler', value: boolean }
+ *    or { action: 'flair', flairs: { [subreddit]: { flairId, flairText? } } }
+ * plus optional indexes: number[] to limit it to some copies.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { redditClient, refreshAccessToken } from '../../../../utils/reddit';
+import { getUserId } from '../../../../lib/apiAuth';
+import { getQueueJob } from '../../../../lib/queueService';
+import { applyPostAction } from '../../../../lib/postActionService';
+import {
+  hasRedditScope,
+  parsePostActionInput,
+  POST_ACTION_SCOPES,
+  type PostActionResponse,
+} from '../../../../lib/postActions';
+import { addApiBreadcrumb } from '../../../../lib/apiErrorHandler';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PostActionResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ results: [], error: 'Method not allowed' });
+  }
+
+  const { jobId } = req.query;
+  if (!jobId || typeof jobId !== 'string') {
+    return res.status(400).json({ results: [], error: 'Job ID required' });
+  }
+
+  const { action, error: actionError } = parsePostActionInput(req.body);
+  if (!action) {
+    return res.status(400).json({ results: [], error: actionError || 'Action required' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ results: [], error: 'Unauthorized' });
+    }
+
+    const job = await getQueueJob(jobId);
+    if (!job || job.user_id !== userId) {
+      return res.status(404).json({ results: [], error: 'Job not found' });
+    }
+
+    if (!['completed', 'failed', 'cancelled'].includes(job.status)) {
+      return res.status(400).json({ results: [], error: 'Wait for the job to finish' });
+    }
+
+    if (job.dry_run) {
+      return res.status(400).json({ results: [], error: 'Dry runs have no posts' });
+    }
+
+    if (!hasRedditScope(req.cookies['reddit_scope'], POST_ACTION_SCOPES[action.action])) {
+      return res.status(403).json({
+        results: [],
+        error: 'Log out and back in to let the app change your posts on Reddit',
+      });
+    }
+
+    let access = req.cookies['reddit_access'];
+    const refresh = req.cookies['reddit_refresh'];
+
+    if (!access && refresh) {
+      try {
+        const t = await refreshAccessToken(refresh);
+        access = t.access_token;
+      } catch {
+        return res.status(401).json({ results: [], error: 'Failed to refresh token' });
+      }
+    }
+
+    if (!access) {
+      return res.status(401).json({ results: [], error: 'Unauthorized - please log in again' });
+    }
+
+    const results = await applyPostAction(redditClient(access), job, action);
+
+    addApiBreadcrumb('Post action applied', { jobId, action: action.action, copies: results.length });
+    return res.status(200).json({ results });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.actions' },
+      extra: { jobId },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to change posts';
+    return res.status(500).json({ results: [], error: message });
+  }
+}
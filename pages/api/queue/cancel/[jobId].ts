@@ -1,7 +1,7 @@
 /**
  * POST /api/queue/cancel/[jobId]
  * 
- * Cancel a running or pending queue job.
+ * Cancel a scheduled, pending or running queue job.
  * Cleans up files and marks job as cancelled.
  */
 
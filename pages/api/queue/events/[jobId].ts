@@ -0,0 +1,147 @@
+/**
+ * GET /api/queue/events/[jobId]
+ *
+ * Server-Sent Events stream of a queue job's progress (see lib/eventStream.ts).
+ * Replays the job's timeline, then sends new timeline events and the job
+ * whenever it changes. Timeline events carry their id, so a client that
+ * reconnects with Last-Event-ID (header or ?lastEventId=) only gets what it
+ * missed. Any tab or device of the owner can attach to a job this way.
+ * The stream closes after EVENT_STREAM_MAX_DURATION_MS for the client to
+ * reconnect, and ends with an 'end' event once the job is finished.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../../lib/apiAuth';
+import { getQueueJob } from '../../../../lib/queueService';
+import { getJobEvents, TIMELINE_PAGE_SIZE } from '../../../../lib/queueEvents';
+import { QueueJobStatus, QUEUE_JOB_CONSTANTS } from '../../../../lib/queueJob';
+import type { JobStreamEvent } from '../../../../lib/eventStream';
+import { openEventStream, getLastEventId } from '../../../../lib/sse';
+
+export const config = {
+  maxDuration: 60,
+};
+
+const isFinished = (status: QueueJobStatus): boolean =>
+  status === 'completed' || status === 'failed' || status === 'cancelled';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { jobId } = req.query;
+  if (!jobId || typeof jobId !== 'string') {
+    return res.status(400).json({ error: 'Job ID required' });
+  }
+
+  const lastEventId = getLastEventId(req);
+  let afterId: number | undefined;
+  if (lastEventId !== undefined) {
+    afterId = Number(lastEventId);
+    if (!Number.isInteger(afterId) || afterId < 0) {
+      return res.status(400).json({ error: 'Invalid Last-Event-ID' });
+    }
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const job = await getQueueJob(jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.user_id !== userId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.events' },
+      extra: { jobId },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to watch job';
+    return res.status(500).json({ error: message });
+  }
+
+  const stream = openEventStream<JobStreamEvent>(res, {
+    retryMs: QUEUE_JOB_CONSTANTS.EVENT_STREAM_RETRY_MS,
+  });
+  const deadline = Date.now() + QUEUE_JOB_CONSTANTS.EVENT_STREAM_MAX_DURATION_MS;
+  let lastSnapshot = '';
+  let lastWriteAt = Date.now();
+  let finishedStatus: QueueJobStatus | null = null;
+
+  try {
+    while (!stream.closed) {
+      // Read the job before its events so an event recorded alongside a
+      // status change is never missed
+      const job = await getQueueJob(jobId);
+      if (!job) {
+        stream.send({ event: 'end', data: { status: 'cancelled' } });
+        break;
+      }
+
+      const events = await getJobEvents(jobId, afterId);
+      for (const event of events) {
+        stream.send({ event: 'timeline', id: String(event.id), data: event });
+        afterId = event.id;
+      }
+
+      const snapshot = JSON.stringify(job);
+      const changed = snapshot !== lastSnapshot;
+      if (changed) {
+        stream.send({ event: 'job', data: job });
+        lastSnapshot = snapshot;
+      }
+
+      if (events.length > 0 || changed) {
+        lastWriteAt = Date.now();
+      }
+
+      // More events than one page - send the rest right away
+      if (events.length === TIMELINE_PAGE_SIZE) {
+        continue;
+      }
+
+      // Events of the last moments are recorded after the status changes,
+      // so read them once more before ending
+      if (finishedStatus) {
+        stream.send({ event: 'end', data: { status: finishedStatus } });
+        break;
+      }
+      if (isFinished(job.status)) {
+        finishedStatus = job.status;
+      }
+
+      if (Date.now() >= deadline) {
+        break;
+      }
+
+      if (Date.now() - lastWriteAt >= QUEUE_JOB_CONSTANTS.EVENT_STREAM_HEARTBEAT_MS) {
+        stream.comment('keep-alive');
+        lastWriteAt = Date.now();
+      }
+
+      await sleep(QUEUE_JOB_CONSTANTS.EVENT_STREAM_POLL_INTERVAL_MS);
+    }
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.events' },
+      extra: { jobId, afterId },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to read job events';
+    stream.send({ event: 'error', data: { error: message } });
+  } finally {
+    stream.end();
+  }
+}
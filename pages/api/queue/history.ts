@@ -0,0 +1,49 @@
+/**
+ * GET /api/queue/history
+ *
+ * The current user's finished jobs, newest first, with the post each item
+ * became (link, removal state, latest score).
+ * Query: ?q= caption text, ?subreddit=, ?status=success|error|skipped|not_posted,
+ * ?kind=, ?from= and ?to= (YYYY-MM-DD, UTC), ?before= cursor of the next page.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../lib/apiAuth';
+import { getPostHistory } from '../../../lib/postHistoryService';
+import { parseHistoryFilters, type PostHistoryResponse } from '../../../lib/postHistory';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PostHistoryResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ entries: [], nextCursor: null, error: 'Method not allowed' });
+  }
+
+  const { filters, error } = parseHistoryFilters(req.query);
+  if (!filters) {
+    return res.status(400).json({ entries: [], nextCursor: null, error });
+  }
+
+  const { before } = req.query;
+  if (before !== undefined && (typeof before !== 'string' || Number.isNaN(Date.parse(before)))) {
+    return res.status(400).json({ entries: [], nextCursor: null, error: 'Invalid cursor' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ entries: [], nextCursor: null, error: 'Unauthorized' });
+    }
+
+    const page = await getPostHistory(userId, filters, before);
+    return res.status(200).json(page);
+  } catch (err) {
+    Sentry.captureException(err, {
+      tags: { component: 'queue.history' },
+    });
+    const message = err instanceof Error ? err.message : 'Failed to get post history';
+    return res.status(500).json({ entries: [], nextCursor: null, error: message });
+  }
+}
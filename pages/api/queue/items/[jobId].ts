@@ -0,0 +1,86 @@
+/**
+ * POST /api/queue/items/[jobId]
+ *
+ * Skip, remove or reorder the not-yet-posted items of a scheduled, pending
+ * or paused queue job. Running jobs need to be paused first.
+ * Body: { action: 'skip' | 'unskip' | 'remove', index: number }
+ *    or { action: 'reorder', order: number[] }
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../../lib/apiAuth';
+import { getQueueJob, saveQueueJobItems } from '../../../../lib/queueService';
+import { EditJobItemsResponse } from '../../../../lib/queueJob';
+import { applyItemEdit, parseItemEditInput } from '../../../../lib/queueItems';
+import { recordJobEvent } from '../../../../lib/queueEvents';
+import { addApiBreadcrumb } from '../../../../lib/apiErrorHandler';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<EditJobItemsResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { jobId } = req.query;
+  if (!jobId || typeof jobId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Job ID required' });
+  }
+
+  const { edit, error: editError } = parseItemEditInput(req.body);
+  if (!edit) {
+    return res.status(400).json({ success: false, error: editError || 'Edit required' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const job = await getQueueJob(jobId);
+    if (!job || job.user_id !== userId) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+
+    if (!['scheduled', 'pending', 'paused'].includes(job.status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Pause the job before changing its posts',
+      });
+    }
+
+    const { items, filePaths, error } = applyItemEdit(job, edit);
+    if (!items || !filePaths) {
+      return res.status(400).json({ success: false, error: error || 'Invalid edit' });
+    }
+
+    const updatedJob = await saveQueueJobItems(job, items, filePaths);
+    if (!updatedJob) {
+      return res.status(409).json({
+        success: false,
+        error: 'Failed to update posts - the job is still posting. Try again in a moment.',
+      });
+    }
+
+    await recordJobEvent(jobId, 'items_edited', {
+      ...('index' in edit && {
+        itemIndex: edit.index,
+        subreddit: job.items[edit.index]?.subreddit,
+      }),
+      data: { ...edit },
+    });
+
+    addApiBreadcrumb('Queue job items edited', { jobId, action: edit.action });
+    return res.status(200).json({ success: true, job: updatedJob });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.items' },
+      extra: { jobId },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to update posts';
+    return res.status(500).json({ success: false, error: message });
+  }
+}
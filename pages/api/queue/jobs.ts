@@ -0,0 +1,52 @@
+/**
+ * GET /api/queue/jobs
+ * 
+ * List the current user's queue jobs.
+ * Query: ?status=scheduled returns upcoming scheduled jobs (soonest first),
+ * ?status=all also returns jobs finished in the last day (newest first),
+ * otherwise active jobs are returned. `limits` tells how many jobs the user
+ * can have going at once.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../lib/apiAuth';
+import { getMaxJobsPerUser, getUserQueueJobs, getUserScheduledJobs } from '../../../lib/queueService';
+import { isServerRunnerEnabled } from '../../../lib/queueDispatcher';
+import { ListJobsResponse } from '../../../lib/queueJob';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ListJobsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ jobs: [], error: 'Method not allowed' });
+  }
+
+  const { status } = req.query;
+  if (status !== undefined && status !== 'scheduled' && status !== 'all') {
+    return res.status(400).json({ jobs: [], error: 'Unsupported status filter' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ jobs: [], error: 'Unauthorized' });
+    }
+
+    const jobs = status === 'scheduled'
+      ? await getUserScheduledJobs(userId)
+      : await getUserQueueJobs(userId, status === 'all');
+
+    return res.status(200).json({
+      jobs,
+      limits: { maxActiveJobs: getMaxJobsPerUser(), serverQueue: isServerRunnerEnabled() },
+    });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.jobs' },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to list jobs';
+    return res.status(500).json({ jobs: [], error: message });
+  }
+}
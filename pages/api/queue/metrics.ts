@@ -0,0 +1,67 @@
+/**
+ * GET /api/queue/metrics
+ *
+ * How the current user's posts did: score, comments and upvote ratio
+ * aggregated per subreddit and per job, from the latest metrics sample
+ * of each successful post.
+ * Query: ?days=N limits the range (default 30, max 90).
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../lib/apiAuth';
+import { getUserPostMetrics } from '../../../lib/postMetricsService';
+import {
+  POST_METRICS_CONSTANTS,
+  summarizeByJob,
+  summarizeBySubreddit,
+  type UserMetricsResponse,
+} from '../../../lib/postMetrics';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<UserMetricsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ subreddits: [], jobs: [], error: 'Method not allowed' });
+  }
+
+  let days: number = POST_METRICS_CONSTANTS.DEFAULT_RANGE_DAYS;
+  if (req.query.days !== undefined) {
+    days = Number(req.query.days);
+    if (
+      typeof req.query.days !== 'string' ||
+      !Number.isInteger(days) ||
+      days < 1 ||
+      days > POST_METRICS_CONSTANTS.MAX_RANGE_DAYS
+    ) {
+      return res.status(400).json({
+        subreddits: [],
+        jobs: [],
+        error: `days must be a whole number from 1 to ${POST_METRICS_CONSTANTS.MAX_RANGE_DAYS}`,
+      });
+    }
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ subreddits: [], jobs: [], error: 'Unauthorized' });
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const posts = await getUserPostMetrics(userId, since);
+
+    return res.status(200).json({
+      subreddits: summarizeBySubreddit(posts),
+      jobs: summarizeByJob(posts),
+      since: since.toISOString(),
+    });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.metrics' },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to get post metrics';
+    return res.status(500).json({ subreddits: [], jobs: [], error: message });
+  }
+}
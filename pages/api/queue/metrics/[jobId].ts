@@ -0,0 +1,45 @@
+/**
+ * GET /api/queue/metrics/[jobId]
+ *
+ * Score, upvote ratio and comment snapshots of each successful post of a
+ * queue job, with totals for the job. Posts keep their snapshots after the
+ * job itself is cleaned up.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../../lib/apiAuth';
+import { getJobPostMetrics } from '../../../../lib/postMetricsService';
+import { summarizePostMetrics, type JobMetricsResponse } from '../../../../lib/postMetrics';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<JobMetricsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ posts: [], error: 'Method not allowed' });
+  }
+
+  const { jobId } = req.query;
+  if (!jobId || typeof jobId !== 'string') {
+    return res.status(400).json({ posts: [], error: 'Job ID required' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ posts: [], error: 'Unauthorized' });
+    }
+
+    // Only the user's own posts are read, so other jobs come back empty
+    const posts = await getJobPostMetrics(jobId, userId);
+    return res.status(200).json({ posts, summary: summarizePostMetrics(posts) });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.metrics' },
+      extra: { jobId },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to get post metrics';
+    return res.status(500).json({ posts: [], error: message });
+  }
+}
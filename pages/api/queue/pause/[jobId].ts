@@ -0,0 +1,53 @@
+/**
+ * POST /api/queue/pause/[jobId]
+ * 
+ * Pause a pending or running queue job.
+ * A running job stops after its current item; progress and files are kept.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../../lib/apiAuth';
+import { pauseQueueJob } from '../../../../lib/queueService';
+import { PauseJobResponse } from '../../../../lib/queueJob';
+import { addApiBreadcrumb } from '../../../../lib/apiErrorHandler';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PauseJobResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { jobId } = req.query;
+  if (!jobId || typeof jobId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Job ID required' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const job = await pauseQueueJob(jobId, userId);
+
+    if (!job) {
+      return res.status(400).json({
+        success: false,
+        error: 'Failed to pause job - it may not be running anymore',
+      });
+    }
+
+    addApiBreadcrumb('Queue job paused', { jobId, currentIndex: job.current_index });
+    return res.status(200).json({ success: true, job });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.pause' },
+      extra: { jobId },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to pause job';
+    return res.status(500).json({ success: false, error: message });
+  }
+}
@@ -2,40 +2,30 @@
  * POST /api/queue/process
  * 
  * Process a queue job. Called by client polling.
- * Processes one item at a time, streaming progress back.
+ * Runs the job until it is done, paused or deferred and answers with the
+ * outcome; progress is watched through GET /api/queue/events/[jobId].
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import * as Sentry from '@sentry/nextjs';
-import { 
-  redditClient, 
-  refreshAccessToken, 
-  submitPost, 
-  addSmartPrefixesToTitle, 
-  getSubredditRules 
-} from '../../../utils/reddit';
+import { redditClient, refreshAccessToken } from '../../../utils/reddit';
 import { getUserId } from '../../../lib/apiAuth';
-import { logPostAttempt, classifyPostError } from '../../../lib/supabase';
-import { addApiBreadcrumb } from '../../../lib/apiErrorHandler';
-import { getEntitlement, FREE_MAX_POST_ITEMS } from '../../../lib/entitlement';
+import { rememberRedditToken } from '../../../lib/redditTokenStore';
 import {
   getQueueJob,
   claimQueueJob,
-  updateJobProgress,
   completeQueueJob,
   failQueueJob,
-  isJobCancelled,
-  getJobItemFiles,
   generateWorkerId,
   canProcessJob,
   isJobFullyProcessed,
-  getNextJobItem,
 } from '../../../lib/queueService';
-import { QueueJobResult, JobProgressUpdate } from '../../../lib/queueJob';
+import { getJobEntitlementError, runQueueJob } from '../../../lib/queueProcessor';
+import { ProcessJobResponse } from '../../../lib/queueJob';
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse
+  res: NextApiResponse<ProcessJobResponse>
 ) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
@@ -65,10 +55,16 @@ export default async function handler(
     }
 
     // Re-check entitlement before processing (trial may have expired since job was submitted)
-    const entitlement = await getEntitlement(userId);
-    if (entitlement === 'free' && job.items.length > FREE_MAX_POST_ITEMS) {
-      return res.status(403).json({
-        error: `Your trial has expired. Free plan allows posting to ${FREE_MAX_POST_ITEMS} subreddits at once. Upgrade to continue.`,
+    const entitlementError = await getJobEntitlementError(job);
+    if (entitlementError) {
+      return res.status(403).json({ error: entitlementError });
+    }
+
+    // Server-run jobs (scheduled or worker-driven) are not processed by the browser
+    if (job.runner === 'server') {
+      return res.status(400).json({
+        error: 'This job is posted by the server',
+        status: job.status,
       });
     }
 
@@ -83,24 +79,9 @@ export default async function handler(
     // Check if already fully processed
     if (isJobFullyProcessed(job)) {
       await completeQueueJob(jobId);
-      return res.status(200).json({ 
-        status: 'completed',
-        results: job.results,
-      });
+      return res.status(200).json({ outcome: 'completed', status: 'completed' });
     }
 
-    // Set up streaming response
-    res.setHeader('Content-Type', 'text/plain');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-
-    const write = (update: JobProgressUpdate) => {
-      res.write(JSON.stringify(update) + '\n');
-      if ('flush' in res && typeof res.flush === 'function') {
-        res.flush();
-      }
-    };
-
     // Get Reddit access token
     let access = req.cookies['reddit_access'];
     const refresh = req.cookies['reddit_refresh'];
@@ -110,197 +91,45 @@ export default async function handler(
         const t = await refreshAccessToken(refresh);
         access = t.access_token;
       } catch {
-        write({ type: 'error', jobId, error: 'Failed to refresh token' });
-        res.end();
-        return;
+        return res.status(401).json({ error: 'Failed to refresh token' });
       }
     }
 
     if (!access) {
-      write({ type: 'error', jobId, error: 'Unauthorized - please log in again' });
-      res.end();
-      return;
+      return res.status(401).json({ error: 'Unauthorized - please log in again' });
     }
 
     const client = redditClient(access);
 
+    // Waiting for a rate-limited post to be retried - keep polling until then
+    const waitMs = job.next_item_at ? Date.parse(job.next_item_at) - Date.now() : 0;
+    if (waitMs > 0) {
+      return res.status(200).json({ outcome: 'waiting', status: job.status, nextItemAt: job.next_item_at! });
+    }
+
     // Claim the job
     const workerId = generateWorkerId();
     const claimedJob = await claimQueueJob(jobId, workerId);
     if (!claimedJob) {
-      write({ type: 'error', jobId, error: 'Failed to claim job - may be processed by another request' });
-      res.end();
-      return;
+      return res.status(409).json({ error: 'Failed to claim job - may be processed by another request' });
     }
 
-    write({ type: 'status', jobId, status: 'processing', currentIndex: claimedJob.current_index });
-
-    // Process items one at a time
-    let currentJob = claimedJob;
-    
-    while (!isJobFullyProcessed(currentJob)) {
-      // Check for cancellation
-      if (await isJobCancelled(jobId)) {
-        write({ type: 'status', jobId, status: 'cancelled' });
-        res.end();
-        return;
-      }
-
-      const itemIndex = currentJob.current_index;
-      const item = getNextJobItem(currentJob);
-      
-      if (!item) {
-        break;
-      }
-
-      write({ 
-        type: 'progress', 
-        jobId, 
-        currentIndex: itemIndex,
-      });
-
-      let result: QueueJobResult;
-
-      try {
-        // Get subreddit rules for smart prefixes
-        let subredditRules;
-        try {
-          subredditRules = await getSubredditRules(client, item.subreddit);
-        } catch {
-          subredditRules = undefined;
+    // Posts are checked and sampled on the server later, with the stored token
+    await rememberRedditToken(userId, refresh, req.cookies['reddit_scope']);
+
+    let runError: string | undefined;
+    const outcome = await runQueueJob({
+      job: claimedJob,
+      client,
+      workerId,
+      onUpdate: update => {
+        if (update.type === 'error') {
+          runError = update.error;
         }
+      },
+    });
 
-        // Build title
-        const baseTitle = item.customTitle ?? currentJob.caption;
-        let title = addSmartPrefixesToTitle(
-          baseTitle,
-          item.subreddit, 
-          currentJob.prefixes, 
-          subredditRules
-        );
-        if (item.titleSuffix) {
-          title = `${title} ${item.titleSuffix}`.trim();
-        }
-
-        // Get files for this item from storage
-        const itemFiles = await getJobItemFiles(currentJob, itemIndex);
-        
-        // Convert Blobs to File objects
-        const files: File[] = [];
-        for (const fileData of itemFiles) {
-          const buffer = await fileData.file.arrayBuffer();
-          const file = new File([buffer], fileData.name, { type: fileData.mimeType });
-          files.push(file);
-        }
-
-        // Determine post kind
-        let postKind = item.kind;
-        if (files.length > 1) {
-          postKind = 'gallery';
-        }
-
-        // Log video processing info
-        if (postKind === 'video') {
-          console.log(`[Queue] Processing video post to r/${item.subreddit}`, {
-            jobId,
-            itemIndex,
-            fileCount: files.length,
-            fileSize: files[0] ? `${Math.round(files[0].size / 1024)}KB` : 'N/A',
-            fileType: files[0]?.type || 'N/A',
-          });
-        }
-
-        // Submit to Reddit
-        const postResult = await submitPost(client, {
-          subreddit: item.subreddit,
-          title,
-          kind: postKind,
-          url: item.url,
-          text: item.text,
-          flair_id: item.flairId,
-          files: files.length > 0 ? files : undefined,
-          file: files.length === 1 ? files[0] : undefined,
-        });
-
-        result = {
-          index: itemIndex,
-          subreddit: item.subreddit,
-          status: 'success',
-          url: postResult.url,
-          postedAt: new Date().toISOString(),
-        };
-
-        // Log for analytics
-        logPostAttempt({
-          user_id: userId,
-          subreddit_name: item.subreddit,
-          post_kind: postKind,
-          reddit_post_url: postResult.url || null,
-          status: 'success',
-        }).catch(() => {});
-
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Failed to post';
-        
-        // Capture error to Sentry
-        Sentry.captureException(error, {
-          tags: {
-            component: 'queue.process',
-            subreddit: item.subreddit,
-          },
-          extra: {
-            jobId,
-            itemIndex,
-            totalItems: currentJob.items.length,
-          },
-        });
-        
-        addApiBreadcrumb('Post failed', { subreddit: item.subreddit, error: errorMessage }, 'error');
-
-        result = {
-          index: itemIndex,
-          subreddit: item.subreddit,
-          status: 'error',
-          error: errorMessage,
-          postedAt: new Date().toISOString(),
-        };
-
-        // Log for analytics
-        logPostAttempt({
-          user_id: userId,
-          subreddit_name: item.subreddit,
-          post_kind: item.kind,
-          status: 'error',
-          error_code: classifyPostError(errorMessage),
-        }).catch(() => {});
-      }
-
-      // Update job progress
-      const updatedJob = await updateJobProgress(jobId, itemIndex + 1, result);
-      if (!updatedJob) {
-        write({ type: 'error', jobId, error: 'Failed to update job progress' });
-        res.end();
-        return;
-      }
-
-      currentJob = updatedJob;
-
-      // Send result
-      write({ type: 'result', jobId, result });
-
-      // Add delay between posts (if not the last item)
-      if (!isJobFullyProcessed(currentJob)) {
-        const delayMs = Math.floor(Math.random() * (4000 - 1000 + 1)) + 1000;
-        const delaySeconds = Math.round(delayMs / 1000);
-        write({ type: 'waiting', jobId, waitSeconds: delaySeconds });
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-      }
-    }
-
-    // Mark job as completed
-    await completeQueueJob(jobId);
-    write({ type: 'complete', jobId, status: 'completed' });
-    res.end();
+    return res.status(200).json({ outcome, ...(runError && { error: runError }) });
 
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to process job';
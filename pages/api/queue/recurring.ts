@@ -0,0 +1,36 @@
+/**
+ * GET /api/queue/recurring
+ *
+ * List the current user's recurring jobs with their most recent runs.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../lib/apiAuth';
+import { getUserRecurringJobs } from '../../../lib/recurringJobService';
+import { ListRecurringJobsResponse } from '../../../lib/recurringJob';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ListRecurringJobsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ series: [], error: 'Method not allowed' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ series: [], error: 'Unauthorized' });
+    }
+
+    const series = await getUserRecurringJobs(userId);
+    return res.status(200).json({ series });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.recurring' },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to list recurring jobs';
+    return res.status(500).json({ series: [], error: message });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * PATCH  /api/queue/recurring/[id] - Pause/resume a series or edit it
+ * DELETE /api/queue/recurring/[id] - Delete a series and cancel its upcoming run
+ *
+ * Body (PATCH): { caption?, repeat?, timezone?, status?, removeIndex? }
+ * Edits apply from the next run on; jobs already created are not changed.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../../lib/apiAuth';
+import { addApiBreadcrumb } from '../../../../lib/apiErrorHandler';
+import {
+  deleteRecurringJob,
+  getRecurringJob,
+  updateRecurringJob,
+} from '../../../../lib/recurringJobService';
+import { parseRecurringJobUpdate } from '../../../../lib/recurrence';
+import { UpdateRecurringJobResponse } from '../../../../lib/recurringJob';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<UpdateRecurringJobResponse>
+) {
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    res.setHeader('Allow', ['PATCH', 'DELETE']);
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ success: false, error: 'Recurring job ID required' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const series = await getRecurringJob(id, userId);
+    if (!series) {
+      return res.status(404).json({ success: false, error: 'Recurring job not found' });
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteRecurringJob(series);
+
+      addApiBreadcrumb('Recurring job deleted', { recurringJobId: id });
+      return res.status(200).json({ success: true });
+    }
+
+    const { update, error: parseError } = parseRecurringJobUpdate(req.body);
+    if (parseError || !update) {
+      return res.status(400).json({ success: false, error: parseError });
+    }
+
+    const { series: updated, error } = await updateRecurringJob(series, update);
+    if (error || !updated) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    addApiBreadcrumb('Recurring job updated', {
+      recurringJobId: id,
+      fields: Object.keys(update),
+      nextRunAt: updated.next_run_at,
+    });
+    return res.status(200).json({ success: true, series: updated });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.recurring', method: req.method },
+      extra: { recurringJobId: id },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to update recurring job';
+    return res.status(500).json({ success: false, error: message });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * POST /api/queue/reschedule/[jobId]
+ * 
+ * Move a scheduled queue job to a new time.
+ * Body: { scheduledAt: string (ISO), timezone: string (IANA) }
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../../lib/apiAuth';
+import { rescheduleQueueJob } from '../../../../lib/queueService';
+import { RescheduleJobResponse } from '../../../../lib/queueJob';
+import { parseScheduleInput } from '../../../../lib/scheduling';
+import { addApiBreadcrumb } from '../../../../lib/apiErrorHandler';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RescheduleJobResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { jobId } = req.query;
+  if (!jobId || typeof jobId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Job ID required' });
+  }
+
+  const { schedule, error: scheduleError } = parseScheduleInput(req.body);
+  if (!schedule) {
+    return res.status(400).json({ success: false, error: scheduleError || 'Schedule required' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const job = await rescheduleQueueJob(jobId, userId, schedule);
+    if (!job) {
+      return res.status(400).json({
+        success: false,
+        error: 'Failed to reschedule job - it may have already started or been cancelled',
+      });
+    }
+
+    addApiBreadcrumb('Queue job rescheduled', { jobId, scheduledAt: schedule.scheduledAt });
+    return res.status(200).json({ success: true, job });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.reschedule' },
+      extra: { jobId },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to reschedule job';
+    return res.status(500).json({ success: false, error: message });
+  }
+}
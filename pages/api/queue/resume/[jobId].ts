@@ -0,0 +1,54 @@
+/**
+ * POST /api/queue/resume/[jobId]
+ * 
+ * Resume a paused queue job from where it stopped.
+ * Browser-run jobs continue once the tab polls /api/queue/process again;
+ * server-run jobs are picked up by the dispatcher.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../../lib/apiAuth';
+import { resumeQueueJob } from '../../../../lib/queueService';
+import { PauseJobResponse } from '../../../../lib/queueJob';
+import { addApiBreadcrumb } from '../../../../lib/apiErrorHandler';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PauseJobResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { jobId } = req.query;
+  if (!jobId || typeof jobId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Job ID required' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const job = await resumeQueueJob(jobId, userId);
+
+    if (!job) {
+      return res.status(400).json({
+        success: false,
+        error: 'Failed to resume job - it may not be paused anymore',
+      });
+    }
+
+    addApiBreadcrumb('Queue job resumed', { jobId, currentIndex: job.current_index });
+    return res.status(200).json({ success: true, job });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.resume' },
+      extra: { jobId },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to resume job';
+    return res.status(500).json({ success: false, error: message });
+  }
+}
@@ -7,6 +7,18 @@
  * 1. Direct Upload (recommended): Files are pre-uploaded to Supabase Storage by the client,
  *    then storage paths are sent in JSON body. Bypasses Vercel's 4.5MB payload limit.
  * 2. Legacy FormData: Files are sent in multipart form data (kept for backward compatibility).
+ *
+ * A request with the Idempotency-Key header of an earlier request returns
+ * that request's job instead of creating another one.
+ *
+ * A direct upload with a `repeat` rule (and a schedule for the first run)
+ * saves a recurring job instead; the dispatcher creates a job each time
+ * the rule fires.
+ *
+ * `dryRun: true` creates a job that checks every item without posting;
+ * its results carry a report of what would have been sent.
+ *
+ * `crosspost: true` posts the first item, then crossposts it to the others.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
@@ -15,15 +27,32 @@ import formidable from 'formidable';
 import fs from 'fs';
 import { getUserId } from '../../../lib/apiAuth';
 import { getEntitlement, FREE_MAX_POST_ITEMS } from '../../../lib/entitlement';
-import { uploadQueueFile, verifyQueueFileExists } from '../../../lib/supabase';
-import { createQueueJob } from '../../../lib/queueService';
+import { getSubredditFlagInfo, uploadQueueFile, verifyQueueFileExists } from '../../../lib/supabase';
+import { createQueueJob, getQueueJobByIdempotencyKey } from '../../../lib/queueService';
 import {
+  PostFlags,
   QueueJobItem,
   QueueFileReference,
+  QueueJobSchedule,
+  QueueJobRunner,
+  QueueJobPacing,
   SubmitJobResponse,
 } from '../../../lib/queueJob';
+import { parseScheduleInput } from '../../../lib/scheduling';
+import { parsePacingInput } from '../../../lib/pacing';
+import { parseRepeatInput } from '../../../lib/recurrence';
+import { applySubredditFlagDefaults, parsePostFlags } from '../../../lib/postFlags';
+import { parseGalleryItems } from '../../../lib/galleryItems';
+import { parsePoll } from '../../../lib/pollPost';
+import { parseFlairText } from '../../../lib/flairText';
+import { getInlineImageError } from '../../../lib/richtext';
+import { createRecurringJob } from '../../../lib/recurringJobService';
+import { isTokenStoreConfigured, rememberRedditToken, saveRedditRefreshToken } from '../../../lib/redditTokenStore';
+import { isServerRunnerEnabled } from '../../../lib/queueDispatcher';
+import { planQueueRunner } from '../../../lib/queueRunner';
 import { QUEUE_LIMITS } from '../../../lib/queueLimits';
 import { addApiBreadcrumb } from '../../../lib/apiErrorHandler';
+import { IDEMPOTENCY_HEADER, parseIdempotencyKey } from '../../../lib/idempotency';
 
 // Allow both JSON body and FormData
 export const config = {
@@ -34,14 +63,17 @@ export const config = {
   },
 };
 
-interface ParsedItem {
+interface ParsedItem extends PostFlags {
   subreddit: string;
   flairId?: string;
+  flairText?: unknown;
   titleSuffix?: string;
   customTitle?: string;
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   url?: string;
   text?: string;
+  galleryItems?: unknown;
+  poll?: unknown;
 }
 
 interface StoragePathInput {
@@ -59,6 +91,11 @@ interface DirectUploadBody {
   prefixes: Record<string, boolean>;
   jobFolder: string;
   storagePaths: StoragePathInput[];
+  schedule?: { scheduledAt: string; timezone: string };
+  pacing?: QueueJobPacing;
+  repeat?: unknown;
+  dryRun?: boolean;
+  crosspost?: boolean;
 }
 
 const isDirectUploadRequest = (req: NextApiRequest): boolean => {
@@ -66,10 +103,118 @@ const isDirectUploadRequest = (req: NextApiRequest): boolean => {
   return contentType.includes('application/json');
 };
 
+/**
+ * Turn submitted items into job items. Validates each item's post flags,
+ * flair text, gallery captions and links, poll and inline images, and
+ * applies the subreddit defaults (NSFW from the subreddit cache).
+ */
+async function buildJobItems(
+  items: ParsedItem[],
+  fileCount: number
+): Promise<{ items?: QueueJobItem[]; error?: string }> {
+  const jobItems: QueueJobItem[] = [];
+
+  for (const item of items) {
+    const { flags, error } = parsePostFlags(item as unknown as Record<string, unknown>);
+    if (error) {
+      return { error: `r/${item.subreddit}: ${error}` };
+    }
+    const { items: galleryItems, error: galleryError } = parseGalleryItems(item.galleryItems);
+    if (galleryError) {
+      return { error: `r/${item.subreddit}: ${galleryError}` };
+    }
+    const { poll, error: pollError } = parsePoll(item.kind, item.poll);
+    if (pollError) {
+      return { error: `r/${item.subreddit}: ${pollError}` };
+    }
+    const { flairText, error: flairTextError } = parseFlairText(item.flairText, item.flairId);
+    if (flairTextError) {
+      return { error: `r/${item.subreddit}: ${flairTextError}` };
+    }
+    const inlineImageError = item.kind === 'self' ? getInlineImageError(item.text, fileCount) : null;
+    if (inlineImageError) {
+      return { error: `r/${item.subreddit}: ${inlineImageError}` };
+    }
+    jobItems.push({
+      subreddit: item.subreddit,
+      flairId: item.flairId,
+      ...(flairText && { flairText }),
+      titleSuffix: item.titleSuffix,
+      customTitle: item.customTitle,
+      kind: item.kind,
+      url: item.url,
+      text: item.text,
+      ...(galleryItems && { galleryItems }),
+      ...(poll && { poll }),
+      ...flags,
+      fileCount,
+    });
+  }
+
+  const flagInfo = await getSubredditFlagInfo(jobItems.map(item => item.subreddit));
+  return { items: applySubredditFlagDefaults(jobItems, flagInfo) };
+}
+
+/**
+ * Decide who runs the job (planQueueRunner) and store the user's Reddit
+ * token - required when the server will post for them, best effort for
+ * browser-run jobs, whose posts are still checked and sampled on the
+ * server. Sends the error response itself and returns `ok: false` when the
+ * job cannot be created.
+ */
+async function prepareRunner(
+  req: NextApiRequest,
+  res: NextApiResponse<SubmitJobResponse>,
+  userId: string,
+  input: { schedule?: unknown; pacing?: unknown; itemCount: number; repeat?: boolean }
+): Promise<{
+  ok: boolean;
+  schedule?: QueueJobSchedule;
+  pacing?: QueueJobPacing;
+  runner: QueueJobRunner;
+}> {
+  const { schedule, error: scheduleError } = parseScheduleInput(input.schedule);
+  const { pacing, error: pacingError } = parsePacingInput(input.pacing, input.itemCount);
+  const error = scheduleError ?? pacingError;
+  if (error) {
+    res.status(400).json({ success: false, error });
+    return { ok: false, runner: 'browser' };
+  }
+
+  const refresh = req.cookies['reddit_refresh'];
+  const scope = req.cookies['reddit_scope'];
+  const plan = planQueueRunner({
+    deferred: !!(schedule || pacing),
+    serverRunnerEnabled: isServerRunnerEnabled(),
+    tokenStoreConfigured: isTokenStoreConfigured(),
+    hasRefreshToken: !!refresh,
+  });
+
+  if (plan.error) {
+    const feature = input.repeat ? 'repeat posts' : schedule ? 'schedule posts' : 'drip posts';
+    if (plan.error === 'unavailable') {
+      res.status(503).json({ success: false, error: `Unable to ${feature} right now` });
+    } else {
+      res.status(401).json({ success: false, error: `Unauthorized - please log in again to ${feature}` });
+    }
+    return { ok: false, runner: plan.runner };
+  }
+
+  if (plan.runner === 'server') {
+    await saveRedditRefreshToken(userId, refresh!, scope);
+  } else if (plan.storeToken) {
+    // Browser-run posts are still checked and sampled on the server
+    await rememberRedditToken(userId, refresh, scope);
+  }
+
+  return { ok: true, schedule, pacing, runner: plan.runner };
+}
+
 async function handleDirectUpload(
   req: NextApiRequest,
   res: NextApiResponse<SubmitJobResponse>,
-  userId: string
+  userId: string,
+  idempotencyKey?: string
 ): Promise<void> {
   const body = req.body as DirectUploadBody;
 
@@ -90,6 +235,52 @@ async function handleDirectUpload(
 
   const { items, caption = '', prefixes = {}, jobFolder, storagePaths = [] } = body;
 
+  const { items: jobItems, error: itemsError } = await buildJobItems(items, storagePaths.length);
+  if (!jobItems) {
+    res.status(400).json({ success: false, error: itemsError });
+    return;
+  }
+
+  const { repeat, error: repeatError } = parseRepeatInput(body.repeat);
+  if (repeatError) {
+    res.status(400).json({ success: false, error: repeatError });
+    return;
+  }
+  if (repeat && !body.schedule) {
+    res.status(400).json({ success: false, error: 'Repeating posts need a first run time' });
+    return;
+  }
+
+  if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+    res.status(400).json({ success: false, error: 'dryRun must be true or false' });
+    return;
+  }
+  const dryRun = body.dryRun === true;
+  if (dryRun && (body.schedule || body.pacing || repeat)) {
+    res.status(400).json({ success: false, error: 'Dry runs check the post now and cannot be scheduled, paced or repeated' });
+    return;
+  }
+
+  if (body.crosspost !== undefined && typeof body.crosspost !== 'boolean') {
+    res.status(400).json({ success: false, error: 'crosspost must be true or false' });
+    return;
+  }
+  const crosspost = body.crosspost === true;
+  if (crosspost && dryRun) {
+    res.status(400).json({ success: false, error: 'Dry runs check each post on its own and cannot crosspost' });
+    return;
+  }
+
+  const { ok, schedule, pacing, runner } = await prepareRunner(req, res, userId, {
+    schedule: body.schedule,
+    pacing: body.pacing,
+    itemCount: items.length,
+    repeat: !!repeat,
+  });
+  if (!ok) {
+    return;
+  }
+
   // Verify storage paths exist (optional validation)
   const filePaths: QueueFileReference[] = [];
   for (const sp of storagePaths) {
@@ -112,34 +303,61 @@ async function handleDirectUpload(
     });
   }
 
-  // Build job items
-  const jobItems: QueueJobItem[] = items.map(item => ({
-    subreddit: item.subreddit,
-    flairId: item.flairId,
-    titleSuffix: item.titleSuffix,
-    customTitle: item.customTitle,
-    kind: item.kind,
-    url: item.url,
-    text: item.text,
-    fileCount: storagePaths.length,
-  }));
+  if (repeat && schedule) {
+    const series = await createRecurringJob(userId, {
+      items: jobItems,
+      caption,
+      prefixes,
+      filePaths,
+      pacing,
+      repeat,
+      timezone: schedule.timezone,
+      startAt: schedule.scheduledAt,
+      idempotencyKey,
+      crosspost,
+    });
+
+    addApiBreadcrumb('Recurring job created', {
+      recurringJobId: series.id,
+      itemCount: jobItems.length,
+      fileCount: filePaths.length,
+      frequency: repeat.frequency,
+      nextRunAt: series.next_run_at,
+    });
+
+    res.status(200).json({ success: true, recurringJobId: series.id, nextRunAt: series.next_run_at });
+    return;
+  }
 
   // Create the queue job
-  const job = await createQueueJob(userId, jobItems, caption, prefixes, filePaths);
+  const job = await createQueueJob(userId, jobItems, caption, prefixes, filePaths, {
+    schedule,
+    pacing,
+    runner,
+    idempotencyKey,
+    dryRun,
+    crosspost,
+  });
 
   addApiBreadcrumb('Queue job created (direct upload)', {
     jobId: job.id,
     itemCount: jobItems.length,
     fileCount: filePaths.length,
+    scheduledAt: schedule?.scheduledAt,
+    pacing: pacing?.mode,
+    runner: job.runner,
+    dryRun,
+    crosspost,
   });
 
-  res.status(200).json({ success: true, jobId: job.id });
+  res.status(200).json({ success: true, jobId: job.id, runner: job.runner, items: job.items });
 }
 
 async function handleFormDataUpload(
   req: NextApiRequest,
   res: NextApiResponse<SubmitJobResponse>,
-  userId: string
+  userId: string,
+  idempotencyKey?: string
 ): Promise<void> {
   // Parse form data
   const form = formidable({ multiples: true });
@@ -187,21 +405,35 @@ async function handleFormDataUpload(
     }
   }
 
+  const dryRunField = Array.isArray(fields.dryRun) ? fields.dryRun[0] : fields.dryRun;
+  const dryRun = dryRunField === 'true';
+  const crosspostField = Array.isArray(fields.crosspost) ? fields.crosspost[0] : fields.crosspost;
+  const crosspost = crosspostField === 'true';
+  if (crosspost && dryRun) {
+    res.status(400).json({ success: false, error: 'Dry runs check each post on its own and cannot crosspost' });
+    return;
+  }
+
   // Generate meaningful folder path for file uploads
   const redditUsername = req.cookies['reddit_username'] || 'unknown';
   const dateStr = new Date().toISOString().split('T')[0];
   const shortId = Math.random().toString(36).slice(2, 8);
   const jobFolder = `${redditUsername}/${dateStr}/job_${shortId}`;
 
-  // Process shared files
-  const filePaths: QueueFileReference[] = [];
-  const jobItems: QueueJobItem[] = [];
-
   const sharedFileCountField = Array.isArray(fields.sharedFileCount) 
     ? fields.sharedFileCount[0] 
     : fields.sharedFileCount;
   const sharedFileCount = sharedFileCountField ? parseInt(sharedFileCountField as string) : 0;
 
+  const { items: jobItems, error: itemsError } = await buildJobItems(parsedItems, sharedFileCount);
+  if (!jobItems) {
+    res.status(400).json({ success: false, error: itemsError });
+    return;
+  }
+
+  // Process shared files
+  const filePaths: QueueFileReference[] = [];
+
   for (let fileIndex = 0; fileIndex < sharedFileCount; fileIndex++) {
     const fileKey = `sharedFile_${fileIndex}`;
     const uploadedFile = files[fileKey];
@@ -239,31 +471,17 @@ async function handleFormDataUpload(
     });
   }
 
-  // Build job items
-  for (let itemIndex = 0; itemIndex < parsedItems.length; itemIndex++) {
-    const item = parsedItems[itemIndex];
-    
-    jobItems.push({
-      subreddit: item.subreddit,
-      flairId: item.flairId,
-      titleSuffix: item.titleSuffix,
-      customTitle: item.customTitle,
-      kind: item.kind,
-      url: item.url,
-      text: item.text,
-      fileCount: sharedFileCount,
-    });
-  }
-
-  const job = await createQueueJob(userId, jobItems, caption, prefixes, filePaths);
+  const job = await createQueueJob(userId, jobItems, caption, prefixes, filePaths, { idempotencyKey, dryRun, crosspost });
 
   addApiBreadcrumb('Queue job created (form data)', {
     jobId: job.id,
     itemCount: jobItems.length,
     fileCount: filePaths.length,
+    dryRun,
+    crosspost,
   });
 
-  res.status(200).json({ success: true, jobId: job.id });
+  res.status(200).json({ success: true, jobId: job.id, runner: job.runner });
 }
 
 export default async function handler(
@@ -280,10 +498,32 @@ export default async function handler(
       return res.status(401).json({ success: false, error: 'Unauthorized' });
     }
 
+    const { key: idempotencyKey, error: keyError } = parseIdempotencyKey(
+      req.headers[IDEMPOTENCY_HEADER.toLowerCase()]
+    );
+    if (keyError) {
+      return res.status(400).json({ success: false, error: keyError });
+    }
+
+    // Retried request - hand back the job of the first one
+    if (idempotencyKey) {
+      const existingJob = await getQueueJobByIdempotencyKey(userId, idempotencyKey);
+      if (existingJob) {
+        addApiBreadcrumb('Queue job replayed', { jobId: existingJob.id });
+        return res.status(200).json({
+          success: true,
+          jobId: existingJob.id,
+          runner: existingJob.runner,
+          items: existingJob.items,
+          replayed: true,
+        });
+      }
+    }
+
     if (isDirectUploadRequest(req)) {
-      await handleDirectUpload(req, res, userId);
+      await handleDirectUpload(req, res, userId, idempotencyKey);
     } else {
-      await handleFormDataUpload(req, res, userId);
+      await handleFormDataUpload(req, res, userId, idempotencyKey);
     }
   } catch (error) {
     Sentry.captureException(error, {
@@ -0,0 +1,62 @@
+/**
+ * GET /api/queue/timeline/[jobId]
+ * 
+ * Get the event timeline of a queue job: claims, each item's start,
+ * media upload and Reddit response, waits, retries and user actions.
+ * Query: ?after=<event id> to fetch only newer events.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../../lib/apiAuth';
+import { getQueueJob } from '../../../../lib/queueService';
+import { getJobEvents } from '../../../../lib/queueEvents';
+import { JobTimelineResponse } from '../../../../lib/queueJob';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<JobTimelineResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ events: [], error: 'Method not allowed' });
+  }
+
+  const { jobId, after } = req.query;
+  if (!jobId || typeof jobId !== 'string') {
+    return res.status(400).json({ events: [], error: 'Job ID required' });
+  }
+
+  let afterId: number | undefined;
+  if (after !== undefined) {
+    afterId = Number(after);
+    if (typeof after !== 'string' || !Number.isInteger(afterId) || afterId < 0) {
+      return res.status(400).json({ events: [], error: 'Invalid after parameter' });
+    }
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ events: [], error: 'Unauthorized' });
+    }
+
+    const job = await getQueueJob(jobId);
+    if (!job) {
+      return res.status(404).json({ events: [], error: 'Job not found' });
+    }
+
+    if (job.user_id !== userId) {
+      return res.status(403).json({ events: [], error: 'Access denied' });
+    }
+
+    const events = await getJobEvents(jobId, afterId);
+    return res.status(200).json({ events });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'queue.timeline' },
+      extra: { jobId },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to get job timeline';
+    return res.status(500).json({ events: [], error: message });
+  }
+}
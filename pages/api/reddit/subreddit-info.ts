@@ -120,6 +120,9 @@ export default async function handler(
     const allowImages = aboutResult.allow_images !== false;
     const allowVideos = aboutResult.allow_videos !== false;
     const allowGifs = aboutResult.allow_videogifs !== false;
+    const over18 = aboutResult.over18 === true;
+    const allowOriginalContent = aboutResult.original_content_tag_enabled === true;
+    const allowPolls = typeof aboutResult.allow_polls === 'boolean' ? aboutResult.allow_polls : undefined;
 
     // Build user status - ONLY include fields that Reddit explicitly returns
     // CRITICAL: Do NOT default userIsContributor to false
@@ -187,6 +190,9 @@ export default async function handler(
       allowImages,
       allowVideos,
       allowGifs,
+      over18,
+      allowOriginalContent,
+      ...(allowPolls !== undefined && { allowPolls }),
       // Spread user status fields (only those that exist)
       ...userStatus,
       cachedAt: new Date().toISOString(),
@@ -208,6 +214,9 @@ export default async function handler(
       allowImages,
       allowVideos,
       allowGifs,
+      over18,
+      allowOriginalContent,
+      allowPolls,
     }).catch((error) => {
       console.warn(`Failed to update Supabase cache for ${subredditName}:`, error);
     });
@@ -247,6 +256,9 @@ async function updateSupabaseCache(
     allowImages: boolean;
     allowVideos: boolean;
     allowGifs: boolean;
+    over18: boolean;
+    allowOriginalContent: boolean;
+    allowPolls?: boolean;
   }
 ): Promise<void> {
   const supabase = createServerSupabaseClient();
@@ -272,10 +284,15 @@ async function updateSupabaseCache(
       allowImages: data.allowImages,
       allowVideos: data.allowVideos,
       allowGifs: data.allowGifs,
+      over18: data.over18,
+      allowOriginalContent: data.allowOriginalContent,
+      ...(data.allowPolls !== undefined && { allowPolls: data.allowPolls }),
     },
+    over_18: data.over18,
+    allow_original_content: data.allowOriginalContent,
     parsed_requirements: data.parsedRequirements || null,
     cached_at: new Date().toISOString(),
-    cache_version: 6, // New version for unified cache architecture
+    cache_version: 7, // Bumped for over_18 / allow_original_content
   };
 
   const { error } = await supabase
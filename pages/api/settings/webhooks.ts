@@ -0,0 +1,75 @@
+/**
+ * GET  /api/settings/webhooks - List the user's webhook endpoints
+ * POST /api/settings/webhooks - Register an endpoint
+ *
+ * Body (POST): { url, events? } - events default to all of
+ * WEBHOOK_EVENT_TYPES. The response carries the endpoint's signing secret;
+ * it is not shown again.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../lib/apiAuth';
+import { addApiBreadcrumb } from '../../../lib/apiErrorHandler';
+import { createWebhookEndpoint, listWebhookEndpoints } from '../../../lib/webhookService';
+import { checkWebhookTarget } from '../../../lib/webhookDelivery';
+import {
+  CreateWebhookResponse,
+  ListWebhooksResponse,
+  WEBHOOK_CONSTANTS,
+  parseWebhookEndpointInput,
+} from '../../../lib/webhook';
+
+type WebhooksResponse = ListWebhooksResponse | CreateWebhookResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WebhooksResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const endpoints = await listWebhookEndpoints(userId);
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ endpoints });
+    }
+
+    const { endpoint: input, error: inputError } = parseWebhookEndpointInput(req.body);
+    if (inputError || !input) {
+      return res.status(400).json({ success: false, error: inputError });
+    }
+
+    // The host must resolve to public addresses only
+    const targetError = await checkWebhookTarget(input.url);
+    if (targetError) {
+      return res.status(400).json({ success: false, error: targetError });
+    }
+
+    if (endpoints.length >= WEBHOOK_CONSTANTS.MAX_ENDPOINTS_PER_USER) {
+      return res.status(400).json({
+        success: false,
+        error: `You can register up to ${WEBHOOK_CONSTANTS.MAX_ENDPOINTS_PER_USER} webhooks`,
+      });
+    }
+
+    const { endpoint, secret } = await createWebhookEndpoint(userId, input);
+
+    addApiBreadcrumb('Webhook created', { endpointId: endpoint.id, events: endpoint.events });
+    return res.status(201).json({ success: true, endpoint, secret });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'settings.webhooks', method: req.method },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to load webhooks';
+    return res.status(500).json({ success: false, error: message });
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * PATCH  /api/settings/webhooks/[id] - Enable/disable an endpoint or change its events
+ * DELETE /api/settings/webhooks/[id] - Remove an endpoint and its delivery log
+ *
+ * Body (PATCH): { enabled?, events? }
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../../lib/apiAuth';
+import { addApiBreadcrumb } from '../../../../lib/apiErrorHandler';
+import { deleteWebhookEndpoint, updateWebhookEndpoint } from '../../../../lib/webhookService';
+import {
+  UpdateWebhookResponse,
+  WebhookEventType,
+  parseWebhookEvents,
+} from '../../../../lib/webhook';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<UpdateWebhookResponse>
+) {
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    res.setHeader('Allow', ['PATCH', 'DELETE']);
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ success: false, error: 'Webhook ID required' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    if (req.method === 'DELETE') {
+      const deleted = await deleteWebhookEndpoint(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Webhook not found' });
+      }
+
+      addApiBreadcrumb('Webhook deleted', { endpointId: id });
+      return res.status(200).json({ success: true });
+    }
+
+    const { enabled, events: rawEvents } = req.body ?? {};
+    const changes: { enabled?: boolean; events?: WebhookEventType[] } = {};
+
+    if (enabled !== undefined) {
+      if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ success: false, error: 'enabled must be true or false' });
+      }
+      changes.enabled = enabled;
+    }
+
+    if (rawEvents !== undefined) {
+      const { events, error } = parseWebhookEvents(rawEvents);
+      if (error || !events) {
+        return res.status(400).json({ success: false, error });
+      }
+      changes.events = events;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ success: false, error: 'Nothing to update' });
+    }
+
+    const endpoint = await updateWebhookEndpoint(id, userId, changes);
+    if (!endpoint) {
+      return res.status(404).json({ success: false, error: 'Webhook not found' });
+    }
+
+    addApiBreadcrumb('Webhook updated', { endpointId: id, ...changes });
+    return res.status(200).json({ success: true, endpoint });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'settings.webhooks', method: req.method },
+      extra: { endpointId: id },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to update webhook';
+    return res.status(500).json({ success: false, error: message });
+  }
+}
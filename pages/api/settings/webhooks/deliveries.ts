@@ -0,0 +1,44 @@
+/**
+ * GET /api/settings/webhooks/deliveries
+ *
+ * Delivery log of the user's webhooks, newest first.
+ * Query: ?endpointId= limits it to one endpoint.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../../lib/apiAuth';
+import { getWebhookDeliveries } from '../../../../lib/webhookService';
+import { WebhookDeliveriesResponse } from '../../../../lib/webhook';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WebhookDeliveriesResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ deliveries: [], error: 'Method not allowed' });
+  }
+
+  const { endpointId } = req.query;
+  if (endpointId !== undefined && typeof endpointId !== 'string') {
+    return res.status(400).json({ deliveries: [], error: 'Invalid endpoint ID' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ deliveries: [], error: 'Unauthorized' });
+    }
+
+    const deliveries = await getWebhookDeliveries(userId, endpointId);
+
+    return res.status(200).json({ deliveries });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'settings.webhooks' },
+      extra: { endpointId },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to load deliveries';
+    return res.status(500).json({ deliveries: [], error: message });
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * GET /api/user/analytics
+ *
+ * The current user's own posting stats from post_logs: totals, success
+ * rate, best subreddits, failures by error code and posts per day.
+ * Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD (UTC days, inclusive; default the
+ * last 30 days). The range is cut to the history the user's plan allows.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import * as Sentry from '@sentry/nextjs';
+import { getUserId } from '../../../lib/apiAuth';
+import { getEntitlement } from '../../../lib/entitlement';
+import { getUserPostLogs } from '../../../lib/supabase';
+import {
+  getAnalyticsHistoryDays,
+  getRangeBounds,
+  parseAnalyticsRange,
+  summarizeUserPosts,
+  type UserAnalyticsResponse,
+} from '../../../lib/userAnalytics';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<UserAnalyticsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const userId = await getUserId(req, res);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const historyDays = getAnalyticsHistoryDays(await getEntitlement(userId));
+    const { range, limited, error } = parseAnalyticsRange(req.query, historyDays);
+    if (!range) {
+      return res.status(400).json({ error, historyDays });
+    }
+
+    const { start, end } = getRangeBounds(range);
+    const posts = await getUserPostLogs(userId, start, end, [
+      'subreddit_name',
+      'status',
+      'error_code',
+      'created_at',
+      'post_state',
+    ]);
+
+    return res.status(200).json({
+      ...summarizeUserPosts(posts, range),
+      range,
+      historyDays,
+      limited,
+    });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: 'user.analytics' },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to get analytics';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,148 @@
+import React from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import axios from 'axios';
+import { LogoLoader } from '@/components/ui/loader';
+import { AppHeader } from '@/components/layout';
+import { HistoryFiltersBar, HistoryList, PostAgainDialog } from '@/components/history';
+import { PostActionsDialog } from '@/components/jobs';
+import { useAuth } from '../hooks/useAuth';
+import { usePostHistory } from '../hooks/usePostHistory';
+import { toast } from '@/hooks/useToast';
+import { QUEUE_JOB_CONSTANTS } from '@/lib/queueJob';
+import type { HistoryEntry, HistoryFilters } from '@/lib/postHistory';
+
+/**
+ * Post history: the user's finished jobs of the last
+ * QUEUE_JOB_CONSTANTS.HISTORY_RETENTION_DAYS days, searchable, with links
+ * to each post and "post again", which fills the composer with a job.
+ */
+export default function HistoryPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, entitlement, trialDaysLeft, me, logout } = useAuth();
+  const [filters, setFilters] = React.useState<HistoryFilters>({});
+  const { entries, isLoading, isLoadingMore, hasMore, error, loadMore, postAgain, refresh } = usePostHistory(filters);
+  const [postingAgain, setPostingAgain] = React.useState<HistoryEntry | null>(null);
+  const [managedJobId, setManagedJobId] = React.useState<string | null>(null);
+  const [isAdmin, setIsAdmin] = React.useState(false);
+
+  // Redirect to login if not authenticated
+  React.useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.replace('/login');
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  // Check admin status (non-blocking)
+  React.useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const checkAdmin = async () => {
+      try {
+        const adminRes = await axios.get<{ isAdmin: boolean; isAdminByUsername: boolean }>('/api/admin-check');
+        setIsAdmin(adminRes.data.isAdminByUsername === true);
+      } catch {
+        // ignore admin failures
+      }
+    };
+
+    checkAdmin();
+  }, [isAuthenticated]);
+
+  const handlePostAgain = React.useCallback(async (subreddits: string[]) => {
+    if (!postingAgain) return;
+    try {
+      await postAgain(postingAgain.jobId, subreddits);
+      setPostingAgain(null);
+      await router.push('/');
+    } catch (err) {
+      toast.error({
+        title: 'Could not load post',
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    }
+  }, [postingAgain, postAgain, router]);
+
+  if (authLoading) {
+    return (
+      <div className="min-h-viewport bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <LogoLoader size="md" />
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>History - Reddit Multi Poster</title>
+        <meta name="description" content="Browse and repost your past posts" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-viewport bg-background">
+        {isAuthenticated && (
+          <AppHeader
+            userName={me?.name}
+            userAvatar={me?.icon_img}
+            onLogout={logout}
+            isAdmin={isAdmin}
+            entitlement={entitlement}
+            trialDaysLeft={trialDaysLeft}
+            pageTitle="History"
+            showBackButton
+          />
+        )}
+
+        <main className="app-container py-4 sm:py-6 md:max-w-4xl safe-bottom">
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Your finished posts of the last {QUEUE_JOB_CONSTANTS.HISTORY_RETENTION_DAYS} days. Post one again to
+              fill the composer with it.
+            </p>
+
+            <HistoryFiltersBar filters={filters} onChange={setFilters} />
+
+            {error && (
+              <p className="text-sm text-red-400" role="alert">{error}</p>
+            )}
+
+            {isLoading && entries.length === 0 ? (
+              <div className="flex justify-center py-10">
+                <LogoLoader size="md" />
+              </div>
+            ) : (
+              <HistoryList
+                entries={entries}
+                filtered={Object.keys(filters).length > 0}
+                hasMore={hasMore}
+                isLoadingMore={isLoadingMore}
+                onLoadMore={loadMore}
+                onPostAgain={setPostingAgain}
+                onManagePosts={setManagedJobId}
+              />
+            )}
+          </div>
+        </main>
+      </div>
+
+      <PostAgainDialog
+        entry={postingAgain}
+        onOpenChange={open => !open && setPostingAgain(null)}
+        onConfirm={handlePostAgain}
+      />
+
+      <PostActionsDialog
+        jobId={managedJobId}
+        onOpenChange={open => {
+          if (!open) {
+            setManagedJobId(null);
+            void refresh();
+          }
+        }}
+      />
+    </>
+  );
+}
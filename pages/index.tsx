@@ -9,6 +9,8 @@ import { checkAuthCookies, redirectToLogin } from '@/lib/serverAuth';
 import * as Sentry from '@sentry/nextjs';
 import { SITE_URL } from '@/lib/site-config';
 import PostComposer, { PostComposerRef } from '../components/PostComposer';
+import PostFlagsFields from '../components/PostFlagsFields';
+import PollFields from '../components/PollFields';
 import { AppLoader, Skeleton, SubredditRowSkeleton, CardSkeleton } from '@/components/ui/loader';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
@@ -36,6 +38,11 @@ import { cn } from '@/lib/utils';
 import { normalizeSubredditKey } from '@/lib/subredditKey';
 import type { PerSubredditOverride } from '../components/subreddit-picker';
 import { trackEvent } from '@/lib/posthog';
+import type { QueueJobPacing, QueueJobSchedule } from '@/lib/queueJob';
+import type { RepeatRule } from '@/lib/recurringJob';
+import { COMPOSER_DRAFT_KEY, type ComposerDraft } from '@/lib/postHistory';
+import { toast } from '@/hooks/useToast';
+import type { ScheduleActionHandler } from '../components/PostingQueue';
 
 // Skeleton loader for SubredditFlairPicker
 const SubredditPickerSkeleton = () => (
@@ -117,6 +124,16 @@ const EditFailedPostDialog = dynamic(
   { ssr: false }
 );
 
+const ScheduleDialog = dynamic(
+  () => import('../components/posting-queue/ScheduleDialog'),
+  { ssr: false }
+);
+
+const DripDialog = dynamic(
+  () => import('../components/posting-queue/DripDialog'),
+  { ssr: false }
+);
+
 const CustomizePostDialog = dynamic(
   () => import('../components/subreddit-picker').then(mod => ({ default: mod.CustomizePostDialog })),
   { ssr: false }
@@ -170,6 +187,10 @@ export default function Home() {
   const [communitiesView, setCommunitiesView] = usePersistentState<'grouped' | 'all'>('rmp_communities_view', 'grouped');
   const [isReviewOpen, setIsReviewOpen] = React.useState(false);
   const postActionRef = React.useRef<(() => void) | null>(null);
+  const scheduleActionRef = React.useRef<ScheduleActionHandler | null>(null);
+  const dryRunActionRef = React.useRef<(() => void) | null>(null);
+  const [isScheduleOpen, setIsScheduleOpen] = React.useState(false);
+  const [isDripOpen, setIsDripOpen] = React.useState(false);
   const postComposerRef = React.useRef<PostComposerRef>(null);
   const [validationState, setValidationState] = React.useState<{
     canSubmit: boolean;
@@ -210,21 +231,33 @@ export default function Home() {
     setBody,
     prefixes,
     setPrefixes,
+    postFlags,
+    setPostFlags,
     mediaUrl,
     setMediaUrl,
     mediaFiles,
     setMediaFiles,
+    galleryItems,
+    setGalleryItems,
+    inlineImages,
+    setInlineImages,
     mediaType,
     setMediaType,
+    poll,
+    setPoll,
     flairs,
     setFlairs,
     titleSuffixes,
     setTitleSuffixes,
+    flairTexts,
+    setFlairTexts,
     customTitles,
     contentOverrides,
     setContentOverrides,
     postToProfile,
     setPostToProfile,
+    crosspost,
+    setCrosspost,
     hasFlairErrors,
     showValidationErrors,
     setShowValidationErrors,
@@ -234,6 +267,7 @@ export default function Home() {
     handleUnselectSuccessItems,
     clearSelection,
     clearAllState,
+    applyComposerDraft,
     // Last post settings feature
     hasLastPostSettings,
     lastPostSettingsDate,
@@ -265,6 +299,29 @@ export default function Home() {
     setBenchResetCounter((prev) => prev + 1);
   }, [clearAllState, failedPostsHook]);
 
+  // Load a past post picked for "post again" on the history page
+  React.useEffect(() => {
+    let draft: ComposerDraft;
+    try {
+      const saved = localStorage.getItem(COMPOSER_DRAFT_KEY);
+      if (!saved) return;
+      localStorage.removeItem(COMPOSER_DRAFT_KEY);
+      draft = JSON.parse(saved) as ComposerDraft;
+    } catch (error) {
+      console.warn('Failed to load post from history:', error);
+      return;
+    }
+
+    handleClearAll();
+    applyComposerDraft(draft);
+    toast({
+      title: 'Post loaded from history',
+      ...(draft.missingMedia && {
+        description: `Attach the ${draft.missingMedia === 'gallery' ? 'images' : draft.missingMedia} again before posting.`,
+      }),
+    });
+  }, [handleClearAll, applyComposerDraft]);
+
   const hasTitle = caption.trim().length > 0;
   const hasDestinations = selectedSubs.length > 0 || postToProfile;
   const blockingValidationErrors = validationState?.errors ?? [];
@@ -306,7 +363,8 @@ export default function Home() {
   }, [hasBlockingValidation, validationNavigatorIndex, blockingValidationSubreddits.length]);
 
   // Compute current post kind based on media state
-  const currentPostKind = React.useMemo((): 'self' | 'link' | 'image' | 'video' | 'gallery' => {
+  const currentPostKind = React.useMemo((): 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll' => {
+    if (mediaType === 'poll') return 'poll';
     if (mediaFiles.length > 1) return 'gallery';
     if (mediaFiles.length === 1) {
       const file = mediaFiles[0];
@@ -314,7 +372,7 @@ export default function Home() {
     }
     if (mediaUrl) return 'link';
     return 'self'; // text post
-  }, [mediaFiles, mediaUrl]);
+  }, [mediaType, mediaFiles, mediaUrl]);
 
   React.useEffect(() => {
     if (isReviewDisabled && isMoreActionsOpen) {
@@ -369,7 +427,7 @@ export default function Home() {
   // Handle save override from customize dialog
   const handleSaveOverride = React.useCallback((subreddit: string, override: PerSubredditOverride | undefined) => {
     setContentOverrides(prev => {
-      if (!override || (!override.title && !override.body)) {
+      if (!override || (!override.title && !override.body && !override.flags && !override.galleryItems)) {
         // Remove the override if it's undefined or empty
         const { [subreddit]: _, ...rest } = prev;
         return rest;
@@ -437,25 +495,28 @@ export default function Home() {
     handleOpenReview();
   }, [reviewCtaMode, hasTitle, handleGoToFirstValidationIssue, handleOpenReview, entitlement, totalSavedSubreddits]);
 
-  const handlePostNow = React.useCallback(() => {
-    // Check free user limits BEFORE posting
+  /**
+   * Check free plan limits before posting or scheduling.
+   * Opens the relevant modal and returns false when posting is blocked.
+   */
+  const checkPostingLimits = React.useCallback((source: string): boolean => {
     // First check if user is OVER the saved communities limit (e.g., trial expired with many communities)
     if (entitlement === 'free' && totalSavedSubreddits > FREE_MAX_SUBREDDITS) {
       trackEvent('community_selection_required', {
-        source: 'review_post_now',
+        source,
         subreddit_count: totalSavedSubreddits,
         max_allowed: FREE_MAX_SUBREDDITS,
       });
       setIsReviewOpen(false);
       setShowCommunitySelectionModal(true);
-      return; // Block posting, show community selection modal
+      return false; // Block posting, show community selection modal
     }
     
     const maxPostItems = limits.maxPostItems ?? 5;
     // Check if free user is trying to post to more subreddits than their limit
     if (entitlement === 'free' && selectedSubs.length > maxPostItems) {
       trackEvent('free_limit_reached', {
-        source: 'review_post_now',
+        source,
         subreddit_count: selectedSubs.length,
       });
       setIsReviewOpen(false);
@@ -464,14 +525,72 @@ export default function Home() {
         message: `Free: up to ${maxPostItems} per post. Go Pro for unlimited.`,
       });
       setShowUpgradeModal(true);
-      return; // Block posting, show upgrade modal
+      return false; // Block posting, show upgrade modal
+    }
+
+    return true;
+  }, [entitlement, totalSavedSubreddits, limits.maxPostItems, selectedSubs.length]);
+
+  const handlePostNow = React.useCallback(() => {
+    // Check free user limits BEFORE posting
+    if (!checkPostingLimits('review_post_now')) {
+      return;
     }
 
     if (postActionRef.current) {
       postActionRef.current();
     }
     setIsReviewOpen(false);
-  }, [entitlement, totalSavedSubreddits, limits.maxPostItems, selectedSubs.length]);
+  }, [checkPostingLimits]);
+
+  const handleOpenSchedule = React.useCallback(() => {
+    if (!checkPostingLimits('schedule_post')) {
+      return;
+    }
+    setIsScheduleOpen(true);
+  }, [checkPostingLimits]);
+
+  const handleSchedulePost = React.useCallback((
+    schedule: QueueJobSchedule,
+    pacing?: QueueJobPacing,
+    repeat?: RepeatRule
+  ) => {
+    trackEvent('post_scheduled', {
+      subreddit_count: selectedSubs.length,
+      timezone: schedule.timezone,
+      pacing_mode: pacing?.mode,
+      repeat_frequency: repeat?.frequency,
+    });
+    scheduleActionRef.current?.(schedule, pacing, repeat);
+    setIsScheduleOpen(false);
+  }, [selectedSubs.length]);
+
+  const handleOpenDrip = React.useCallback(() => {
+    if (!checkPostingLimits('drip_post')) {
+      return;
+    }
+    setIsDripOpen(true);
+  }, [checkPostingLimits]);
+
+  const handleDripPost = React.useCallback((pacing: QueueJobPacing) => {
+    trackEvent('post_drip_started', {
+      subreddit_count: selectedSubs.length,
+      pacing_mode: pacing.mode,
+    });
+    scheduleActionRef.current?.(null, pacing);
+    setIsDripOpen(false);
+  }, [selectedSubs.length]);
+
+  const handleDryRun = React.useCallback(() => {
+    if (!checkPostingLimits('dry_run')) {
+      return;
+    }
+    trackEvent('post_dry_run', {
+      subreddit_count: selectedSubs.length,
+    });
+    dryRunActionRef.current?.();
+    setIsReviewOpen(false);
+  }, [checkPostingLimits, selectedSubs.length]);
 
   const handleResetSelection = React.useCallback(() => {
     clearSelection();
@@ -956,14 +1075,37 @@ export default function Home() {
                       >
                         URL
                       </button>
+                      <button
+                        onClick={() => {
+                          resetMedia();
+                          setMediaType('poll');
+                        }}
+                        className={cn(
+                          "inline-flex items-center justify-center whitespace-nowrap rounded px-2.5 py-1 text-xs font-medium transition-colors",
+                          "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
+                          mediaType === 'poll'
+                            ? 'bg-background text-foreground shadow-sm'
+                            : 'hover:bg-background/50 hover:text-foreground',
+                          "cursor-pointer"
+                        )}
+                        aria-pressed={mediaType === 'poll'}
+                      >
+                        Poll
+                      </button>
                     </div>
                   </div>
-                  <MediaUpload
-                    onUrl={setMediaUrl}
-                    onFile={setMediaFiles}
-                    mode={mediaType}
-                    resetSignal={mediaResetCounter}
-                  />
+                  {mediaType === 'poll' ? (
+                    <PollFields poll={poll} onPollChange={setPoll} />
+                  ) : (
+                    <MediaUpload
+                      onUrl={setMediaUrl}
+                      onFile={setMediaFiles}
+                      mode={mediaType}
+                      resetSignal={mediaResetCounter}
+                      galleryItems={galleryItems}
+                      onGalleryItemsChange={setGalleryItems}
+                    />
+                  )}
                 </section>
 
                 <div className="border-t border-border/50 my-6" aria-hidden="true" />
@@ -980,6 +1122,8 @@ export default function Home() {
                     }}
                     body={body}
                     onBodyChange={setBody}
+                    inlineImages={inlineImages}
+                    onInlineImagesChange={currentPostKind === 'self' ? setInlineImages : undefined}
                     prefixes={prefixes}
                     onPrefixesChange={setPrefixes}
                     resetSignal={benchResetCounter}
@@ -993,9 +1137,14 @@ export default function Home() {
                     }}
                     aiContext={{
                       selectedSubreddits: selectedSubs,
-                      mediaType: currentPostKind,
+                      mediaType: currentPostKind === 'poll' ? 'self' : currentPostKind,
                     }}
                   />
+                  <PostFlagsFields
+                    flags={postFlags}
+                    onFlagsChange={setPostFlags}
+                    hint="Posts to NSFW communities are marked NSFW automatically."
+                  />
                 </section>
               </div>
 
@@ -1067,6 +1216,8 @@ export default function Home() {
                     onFlairChange={setFlairs}
                     titleSuffixValue={titleSuffixes}
                     onTitleSuffixChange={setTitleSuffixes}
+                    flairTextValue={flairTexts}
+                    onFlairTextChange={setFlairTexts}
                     onValidationChange={handleValidationChange}
                     showValidationErrors={showValidationErrors}
                     showInlineValidationHint={showValidationErrors}
@@ -1116,6 +1267,27 @@ export default function Home() {
                       </label>
                     </div>
                   )}
+
+                  {/* Crosspost mode - only meaningful with several destinations */}
+                  {items.length > 1 && (
+                    <div className="flex items-center gap-3 pt-4 border-t border-border/50">
+                      <Checkbox
+                        id="crosspost-mode"
+                        checked={crosspost}
+                        onCheckedChange={(checked) => setCrosspost(checked === true)}
+                        className="rounded-md"
+                      />
+                      <label
+                        htmlFor="crosspost-mode"
+                        className="text-sm cursor-pointer select-none font-medium text-foreground"
+                      >
+                        Crosspost to the rest
+                        <span className="text-muted-foreground text-xs font-normal ml-1.5">
+                          (post once, then crosspost where allowed)
+                        </span>
+                      </label>
+                    </div>
+                  )}
                 </section>
 
                 <div className="border-t border-border/50 my-4 lg:my-6" aria-hidden="true" />
@@ -1217,6 +1389,24 @@ export default function Home() {
                                   >
                                     Post now
                                   </DropdownMenuItemPrimitive>
+                                  <DropdownMenuItemPrimitive
+                                    onClick={handleOpenSchedule}
+                                    className="text-sm cursor-pointer"
+                                  >
+                                    Schedule for later…
+                                  </DropdownMenuItemPrimitive>
+                                  <DropdownMenuItemPrimitive
+                                    onClick={handleOpenDrip}
+                                    className="text-sm cursor-pointer"
+                                  >
+                                    Drip over time…
+                                  </DropdownMenuItemPrimitive>
+                                  <DropdownMenuItemPrimitive
+                                    onClick={handleDryRun}
+                                    className="text-sm cursor-pointer"
+                                  >
+                                    Dry run
+                                  </DropdownMenuItemPrimitive>
                                 </DropdownMenuContent>
                               </DropdownMenuRoot>
                             </div>
@@ -1252,6 +1442,7 @@ export default function Home() {
                     contentOverrides={contentOverrides}
                     customTitles={customTitles}
                     prefixes={prefixes}
+                    crosspost={crosspost && items.length > 1}
                     hasFlairErrors={hasFlairErrors}
                     onPostAttempt={handlePostWithLimitCheck}
                     onUnselectSuccessItems={handleUnselectSuccessItems}
@@ -1264,6 +1455,12 @@ export default function Home() {
                     onPostActionReady={(handler) => {
                       postActionRef.current = handler;
                     }}
+                    onScheduleActionReady={(handler) => {
+                      scheduleActionRef.current = handler;
+                    }}
+                    onDryRunActionReady={(handler) => {
+                      dryRunActionRef.current = handler;
+                    }}
                     onReviewRequest={handleReviewAndPostAction}
                     hideMobileBar={isReviewOpen}
                     onProcessingChange={handleProcessingChange}
@@ -1294,6 +1491,22 @@ export default function Home() {
             onResetSelection={handleResetSelection}
           />
 
+          <ScheduleDialog
+            open={isScheduleOpen}
+            onOpenChange={setIsScheduleOpen}
+            itemCount={selectedSubs.length}
+            showPacing
+            showRepeat
+            onConfirm={handleSchedulePost}
+          />
+
+          <DripDialog
+            open={isDripOpen}
+            onOpenChange={setIsDripOpen}
+            itemCount={selectedSubs.length}
+            onConfirm={handleDripPost}
+          />
+
           {/* Footer */}
           <AppFooter />
         </div>
@@ -1349,6 +1562,9 @@ export default function Home() {
           subredditName={customizingSubreddit}
           globalTitle={caption}
           globalBody={body}
+          globalFlags={postFlags}
+          galleryImageCount={mediaFiles.length}
+          globalGalleryItems={galleryItems}
           override={contentOverrides[customizingSubreddit]}
           postRequirements={postRequirements[customizingSubreddit]}
           onSave={handleSaveOverride}
@@ -0,0 +1,154 @@
+import React from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import axios from 'axios';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { LogoLoader } from '@/components/ui/loader';
+import { AppHeader } from '@/components/layout';
+import { JobsList, JobLiveLog, PostActionsDialog, SubredditPerformance } from '@/components/jobs';
+import { useAuth } from '../hooks/useAuth';
+import { useQueueJobs } from '../hooks/useQueueJobs';
+import { useUserMetrics } from '../hooks/usePostMetrics';
+import { describeJobQueueLimits } from '@/lib/queueOrder';
+
+/**
+ * Jobs dashboard: every queued, running and recently finished post of the
+ * user, with a live log for any of them. ?job=<id> opens that job's log.
+ */
+export default function Jobs() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, entitlement, trialDaysLeft, me, logout } = useAuth();
+  const { jobs, limits, isLoading, error, refresh, cancel } = useQueueJobs();
+  const metrics = useUserMetrics();
+  const [isAdmin, setIsAdmin] = React.useState(false);
+  const [managedJobId, setManagedJobId] = React.useState<string | null>(null);
+
+  const selectedJobId = typeof router.query.job === 'string' ? router.query.job : null;
+
+  // Redirect to login if not authenticated
+  React.useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.replace('/login');
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  // Check admin status (non-blocking)
+  React.useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const checkAdmin = async () => {
+      try {
+        const adminRes = await axios.get<{ isAdmin: boolean; isAdminByUsername: boolean }>('/api/admin-check');
+        setIsAdmin(adminRes.data.isAdminByUsername === true);
+      } catch {
+        // ignore admin failures
+      }
+    };
+
+    checkAdmin();
+  }, [isAuthenticated]);
+
+  const metricsByJob = React.useMemo(
+    () => Object.fromEntries(metrics.jobs.map(job => [job.jobId, job])),
+    [metrics.jobs]
+  );
+
+  const openLog = React.useCallback((jobId: string) => {
+    router.replace({ pathname: '/jobs', query: { job: jobId } }, undefined, { shallow: true });
+  }, [router]);
+
+  const closeLog = React.useCallback(() => {
+    router.replace('/jobs', undefined, { shallow: true });
+  }, [router]);
+
+  if (authLoading || (isLoading && jobs.length === 0)) {
+    return (
+      <div className="min-h-viewport bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <LogoLoader size="md" />
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Jobs - Reddit Multi Poster</title>
+        <meta name="description" content="Track your queued and running posts" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-viewport bg-background">
+        {isAuthenticated && (
+          <AppHeader
+            userName={me?.name}
+            userAvatar={me?.icon_img}
+            onLogout={logout}
+            isAdmin={isAdmin}
+            entitlement={entitlement}
+            trialDaysLeft={trialDaysLeft}
+            pageTitle="Jobs"
+            showBackButton
+            headerActions={
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => void refresh()}
+                className="min-h-[36px] cursor-pointer"
+                aria-label="Refresh jobs"
+              >
+                <RefreshCw className="h-4 w-4" aria-hidden="true" />
+              </Button>
+            }
+          />
+        )}
+
+        <main className="app-container py-4 sm:py-6 md:max-w-4xl safe-bottom">
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              {limits
+                ? describeJobQueueLimits(limits)
+                : 'Posts run one after another in the order you created them. Drip posts run alongside.'}
+            </p>
+
+            {error && (
+              <p className="text-sm text-red-400" role="alert">{error}</p>
+            )}
+
+            {selectedJobId && (
+              <JobLiveLog
+                jobId={selectedJobId}
+                onClose={closeLog}
+                onJobChanged={() => void refresh()}
+              />
+            )}
+
+            <JobsList
+              jobs={jobs}
+              selectedJobId={selectedJobId}
+              onOpenLog={openLog}
+              onCancel={cancel}
+              onManagePosts={setManagedJobId}
+              metricsByJob={metricsByJob}
+            />
+
+            <SubredditPerformance subreddits={metrics.subreddits} />
+          </div>
+        </main>
+      </div>
+
+      <PostActionsDialog
+        jobId={managedJobId}
+        onOpenChange={open => {
+          if (!open) {
+            setManagedJobId(null);
+            void refresh();
+          }
+        }}
+      />
+    </>
+  );
+}
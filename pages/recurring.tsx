@@ -0,0 +1,165 @@
+import React from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import axios from 'axios';
+import { Repeat } from 'lucide-react';
+import { LogoLoader } from '@/components/ui/loader';
+import ConfirmDialog from '@/components/ui/confirm-dialog';
+import { AppHeader } from '@/components/layout';
+import { RecurringJobCard, EditRecurringJobDialog } from '@/components/recurring';
+import { useAuth } from '../hooks/useAuth';
+import { useRecurringJobs } from '../hooks/useRecurringJobs';
+import type { RecurringJobUpdate, RecurringJobWithRuns } from '@/lib/recurringJob';
+
+/**
+ * Recurring posts: every saved post that repeats on a schedule, with its
+ * next run and recent runs. Series are created from the schedule dialog
+ * on the home page and can be paused, edited or deleted here.
+ */
+export default function Recurring() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, entitlement, trialDaysLeft, me, logout } = useAuth();
+  const { series, isLoading, error, update, remove } = useRecurringJobs();
+  const [isAdmin, setIsAdmin] = React.useState(false);
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [deleting, setDeleting] = React.useState<RecurringJobWithRuns | null>(null);
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+
+  // Follow list refreshes, e.g. after a community is removed in the dialog
+  const editing = series.find(s => s.id === editingId) ?? null;
+
+  // Redirect to login if not authenticated
+  React.useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.replace('/login');
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  // Check admin status (non-blocking)
+  React.useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const checkAdmin = async () => {
+      try {
+        const adminRes = await axios.get<{ isAdmin: boolean; isAdminByUsername: boolean }>('/api/admin-check');
+        setIsAdmin(adminRes.data.isAdminByUsername === true);
+      } catch {
+        // ignore admin failures
+      }
+    };
+
+    checkAdmin();
+  }, [isAuthenticated]);
+
+  const handleToggle = React.useCallback(async (item: RecurringJobWithRuns) => {
+    setBusyId(item.id);
+    await update(item.id, { status: item.status === 'active' ? 'paused' : 'active' });
+    setBusyId(null);
+  }, [update]);
+
+  const handleSave = React.useCallback(async (changes: RecurringJobUpdate) => {
+    if (!editingId) return false;
+    return update(editingId, changes);
+  }, [editingId, update]);
+
+  const handleRemoveItem = React.useCallback(async (index: number) => {
+    if (!editingId) return false;
+    return update(editingId, { removeIndex: index });
+  }, [editingId, update]);
+
+  const handleConfirmDelete = React.useCallback(async () => {
+    if (!deleting) return;
+    const seriesId = deleting.id;
+    setDeleting(null);
+    setBusyId(seriesId);
+    await remove(seriesId);
+    setBusyId(null);
+  }, [deleting, remove]);
+
+  if (authLoading || (isLoading && series.length === 0)) {
+    return (
+      <div className="min-h-viewport bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <LogoLoader size="md" />
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Recurring - Reddit Multi Poster</title>
+        <meta name="description" content="Manage your recurring posts" />
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-viewport bg-background">
+        {isAuthenticated && (
+          <AppHeader
+            userName={me?.name}
+            userAvatar={me?.icon_img}
+            onLogout={logout}
+            isAdmin={isAdmin}
+            entitlement={entitlement}
+            trialDaysLeft={trialDaysLeft}
+            pageTitle="Recurring"
+            showBackButton
+          />
+        )}
+
+        <main className="app-container py-4 sm:py-6 md:max-w-4xl safe-bottom">
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Each time a recurring post is due, it is scheduled as a new job and shows up on the Jobs page.
+              To create one, schedule a post and pick how often it repeats.
+            </p>
+
+            {error && (
+              <p className="text-sm text-red-400" role="alert">{error}</p>
+            )}
+
+            {series.length === 0 ? (
+              <div className="rounded-md border border-border bg-card/50 px-4 py-10 text-center">
+                <Repeat className="h-6 w-6 mx-auto mb-2 text-muted-foreground" aria-hidden="true" />
+                <p className="text-sm text-muted-foreground">No recurring posts yet.</p>
+              </div>
+            ) : (
+              <ul className="space-y-3">
+                {series.map(item => (
+                  <RecurringJobCard
+                    key={item.id}
+                    series={item}
+                    onToggle={handleToggle}
+                    onEdit={s => setEditingId(s.id)}
+                    onDelete={setDeleting}
+                    isBusy={busyId === item.id}
+                  />
+                ))}
+              </ul>
+            )}
+          </div>
+        </main>
+      </div>
+
+      <EditRecurringJobDialog
+        series={editing}
+        onOpenChange={open => !open && setEditingId(null)}
+        onSave={handleSave}
+        onRemoveItem={handleRemoveItem}
+      />
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        title="Delete this recurring post?"
+        message="No more posts are created from it and its next scheduled post is cancelled. Posts already made stay on Reddit."
+        confirmLabel="Delete"
+        cancelLabel="Keep"
+        variant="destructive"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleting(null)}
+      />
+    </>
+  );
+}
@@ -38,6 +38,7 @@ import {
   SettingsContext,
   SortableCategory,
   SearchResults,
+  WebhooksSection,
 } from '../components/settings';
 
 export default function Settings() {
@@ -670,6 +671,9 @@ export default function Settings() {
                   ) : null}
                 </DragOverlay>
               </DndContext>
+
+              {/* Webhooks */}
+              <WebhooksSection />
             </div>
           </main>
         </div>
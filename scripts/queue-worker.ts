@@ -0,0 +1,148 @@
+/**
+ * Queue Worker
+ *
+ * Long-running Node process that posts server-run queue jobs without an open
+ * browser tab. It reuses the same claim/progress/submit path as the cron
+ * dispatcher; the UI watches progress through the job event stream in
+ * useQueueJob. Between jobs it retries due webhook deliveries, checks
+ * posted items for removal and samples their score and comments.
+ *
+ * Usage:
+ *   npm run queue:worker          # env from the process (production)
+ *   npm run queue:worker:dev      # env from .env.local
+ *
+ * Set QUEUE_WORKER_ENABLED=true on the web app so new jobs are handed to
+ * the worker. Requires REDDIT_TOKEN_ENCRYPTION_KEY and the Supabase
+ * service role key.
+ */
+
+import '../sentry.server.config';
+import * as Sentry from '@sentry/nextjs';
+import { dispatchDueJobs } from '../lib/queueDispatcher';
+import { cleanupOldJobs, generateWorkerId } from '../lib/queueService';
+import { cleanupBatchItems } from '../lib/postingBatches';
+import { cleanupWebhookDeliveries, deliverDueWebhooks } from '../lib/webhookService';
+import { checkDuePosts } from '../lib/postCheckService';
+import { sampleDuePosts } from '../lib/postMetricsService';
+import { QUEUE_JOB_CONSTANTS } from '../lib/queueJob';
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+const workerId = generateWorkerId();
+let stopping = false;
+let wakeUp: (() => void) | null = null;
+
+const log = (message: string, extra?: Record<string, unknown>) => {
+  console.log(`[QueueWorker ${workerId}] ${message}`, extra ?? '');
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    wakeUp = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+
+// ============================================================================
+// Shutdown
+// ============================================================================
+
+// Finish the current item, release the job, then exit
+const requestStop = (signal: string) => {
+  if (stopping) return;
+  stopping = true;
+  log(`${signal} received, stopping after the current item`);
+  wakeUp?.();
+};
+
+process.on('SIGINT', () => requestStop('SIGINT'));
+process.on('SIGTERM', () => requestStop('SIGTERM'));
+
+// ============================================================================
+// Main Loop
+// ============================================================================
+
+/**
+ * Run one follow-up task of the loop (webhook retries, post checks, ...).
+ * A failure is reported and logged without holding back the tasks after it.
+ */
+async function runTask<T>(name: string, component: string, task: () => Promise<T>): Promise<T | null> {
+  try {
+    return await task();
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component },
+      extra: { workerId },
+    });
+    log(`${name} failed`, { error: error instanceof Error ? error.message : String(error) });
+    return null;
+  }
+}
+
+async function main(): Promise<void> {
+  log('Started');
+  let lastCleanupAt = 0;
+
+  while (!stopping) {
+    let processedAny = false;
+
+    try {
+      // Each job is processed for at most one time slice so the claim never
+      // goes stale; unfinished jobs are released and picked up again below.
+      const summary = await dispatchDueJobs({
+        timeBudgetMs: QUEUE_JOB_CONSTANTS.WORKER_TIME_SLICE_MS,
+        workerId,
+        shouldStop: () => stopping,
+      });
+
+      processedAny = summary.jobs.some(job => job.outcome !== 'skipped');
+      for (const job of summary.jobs) {
+        log(`Job ${job.jobId}: ${job.outcome}`, job.error ? { error: job.error } : undefined);
+      }
+
+      const webhooks = await runTask('Webhook retries', 'queue.webhooks', () => deliverDueWebhooks());
+      if (webhooks && webhooks.delivered + webhooks.failed > 0) {
+        log('Webhook retries sent', webhooks);
+      }
+
+      const postChecks = await runTask('Post checks', 'queue.post_check', () => checkDuePosts());
+      if (postChecks && postChecks.checked + postChecks.failed > 0) {
+        log('Posts checked', { ...postChecks });
+      }
+
+      const postSamples = await runTask('Post samples', 'queue.post_metrics', () => sampleDuePosts());
+      if (postSamples && postSamples.sampled + postSamples.failed > 0) {
+        log('Posts sampled', { ...postSamples });
+      }
+
+      if (Date.now() - lastCleanupAt >= CLEANUP_INTERVAL_MS) {
+        lastCleanupAt = Date.now();
+        await cleanupOldJobs(QUEUE_JOB_CONSTANTS.FILE_RETENTION_HOURS);
+        await cleanupBatchItems();
+        await cleanupWebhookDeliveries();
+      }
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: 'queue.worker' },
+        extra: { workerId },
+      });
+      log('Dispatch failed', { error: error instanceof Error ? error.message : String(error) });
+    }
+
+    if (!processedAny && !stopping) {
+      await sleep(QUEUE_JOB_CONSTANTS.WORKER_IDLE_INTERVAL_MS);
+    }
+  }
+
+  await Sentry.flush(2000);
+  log('Stopped');
+}
+
+main().catch(async (error) => {
+  Sentry.captureException(error, { tags: { component: 'queue.worker' } });
+  await Sentry.flush(2000);
+  console.error('[QueueWorker] Fatal error:', error);
+  process.exit(1);
+});
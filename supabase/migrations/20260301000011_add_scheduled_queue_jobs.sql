@@ -0,0 +1,78 @@
+-- ============================================
+-- SCHEDULED QUEUE JOBS
+-- Jobs can be created with a future scheduled_at time and are
+-- dispatched server-side by /api/cron/dispatch-scheduled
+-- ============================================
+
+alter table queue_jobs
+  add column if not exists scheduled_at timestamptz,
+  add column if not exists timezone text;
+
+-- Allow the new 'scheduled' status
+alter table queue_jobs drop constraint if exists queue_jobs_status_check;
+alter table queue_jobs add constraint queue_jobs_status_check
+  check (status in ('scheduled', 'pending', 'processing', 'completed', 'failed', 'cancelled'));
+
+-- Index for the dispatcher (find due scheduled jobs)
+create index if not exists idx_queue_jobs_scheduled_at on queue_jobs(scheduled_at)
+  where status = 'scheduled';
+
+comment on column queue_jobs.scheduled_at is 'When the job should start posting (null = post immediately from the browser)';
+comment on column queue_jobs.timezone is 'IANA timezone the user picked the schedule in (display only)';
+
+-- ============================================
+-- HELPER FUNCTION: Claim job (scheduled aware)
+-- Scheduled jobs can only be claimed once they are due
+-- ============================================
+
+create or replace function claim_queue_job(p_job_id uuid, p_worker_id text)
+returns queue_jobs as $$
+declare
+  v_job queue_jobs;
+begin
+  update queue_jobs
+  set
+    status = 'processing',
+    claimed_by = p_worker_id,
+    claimed_at = now(),
+    started_at = coalesce(started_at, now())
+  where id = p_job_id
+    and (
+      status in ('pending', 'processing')
+      or (status = 'scheduled' and scheduled_at <= now())
+    )
+    and (claimed_by is null or claimed_by = p_worker_id or claimed_at < now() - interval '5 minutes')
+  returning * into v_job;
+
+  return v_job;
+end;
+$$ language plpgsql;
+
+-- ============================================
+-- USER REDDIT TOKENS
+-- Server-held refresh tokens so jobs can post without an open browser.
+-- Tokens are encrypted by the app (AES-256-GCM) before they are stored.
+-- ============================================
+
+create table if not exists user_reddit_tokens (
+  user_id uuid primary key references users(id) on delete cascade,
+  refresh_token_encrypted text not null,
+  scope text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+alter table user_reddit_tokens enable row level security;
+
+create policy "Service role full access to user_reddit_tokens"
+  on user_reddit_tokens for all
+  to service_role
+  using (true)
+  with check (true);
+
+create trigger update_user_reddit_tokens_updated_at
+  before update on user_reddit_tokens
+  for each row
+  execute function update_updated_at_column();
+
+comment on table user_reddit_tokens is 'Encrypted Reddit refresh tokens used by server-side job dispatch';
@@ -0,0 +1,21 @@
+-- ============================================
+-- QUEUE JOB RUNNER
+-- Records who drives a job: the user's browser (via /api/queue/process)
+-- or the server (headless queue worker / cron dispatcher)
+-- ============================================
+
+alter table queue_jobs
+  add column if not exists runner text not null default 'browser';
+
+alter table queue_jobs drop constraint if exists queue_jobs_runner_check;
+alter table queue_jobs add constraint queue_jobs_runner_check
+  check (runner in ('browser', 'server'));
+
+-- Scheduled jobs have always been run by the server
+update queue_jobs set runner = 'server' where scheduled_at is not null;
+
+-- Index for the worker (find active server-run jobs)
+create index if not exists idx_queue_jobs_server_active on queue_jobs(created_at)
+  where runner = 'server' and status in ('scheduled', 'pending', 'processing');
+
+comment on column queue_jobs.runner is 'Who processes the job: browser (streaming process endpoint) or server (queue worker / cron)';
@@ -0,0 +1,46 @@
+-- ============================================
+-- DRIP PACING
+-- Jobs can spread their items over time. Each item in queue_jobs.items
+-- carries a notBefore timestamp; the runner releases the job until the
+-- next item is due and records that time in next_item_at.
+-- ============================================
+
+alter table queue_jobs
+  add column if not exists pacing jsonb,
+  add column if not exists next_item_at timestamptz;
+
+-- Index for the dispatcher (skip drip jobs whose next item is not due)
+create index if not exists idx_queue_jobs_next_item_at on queue_jobs(next_item_at)
+  where next_item_at is not null;
+
+comment on column queue_jobs.pacing is 'Drip pacing policy: {mode: fixed|random|spread, ...} (null = post items seconds apart)';
+comment on column queue_jobs.next_item_at is 'When the next item of a drip-paced job is due; the job cannot be claimed before';
+
+-- ============================================
+-- HELPER FUNCTION: Claim job (pacing aware)
+-- Drip jobs can only be claimed once their next item is due
+-- ============================================
+
+create or replace function claim_queue_job(p_job_id uuid, p_worker_id text)
+returns queue_jobs as $$
+declare
+  v_job queue_jobs;
+begin
+  update queue_jobs
+  set
+    status = 'processing',
+    claimed_by = p_worker_id,
+    claimed_at = now(),
+    started_at = coalesce(started_at, now())
+  where id = p_job_id
+    and (
+      status in ('pending', 'processing')
+      or (status = 'scheduled' and scheduled_at <= now())
+    )
+    and (next_item_at is null or next_item_at <= now())
+    and (claimed_by is null or claimed_by = p_worker_id or claimed_at < now() - interval '5 minutes')
+  returning * into v_job;
+
+  return v_job;
+end;
+$$ language plpgsql;
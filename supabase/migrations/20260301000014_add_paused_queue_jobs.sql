@@ -0,0 +1,16 @@
+-- ============================================
+-- PAUSED QUEUE JOBS
+-- A running job can be paused and resumed later. Paused jobs keep their
+-- current_index, results and storage files; claim_queue_job never picks
+-- them up because it only claims pending/processing/due scheduled jobs.
+-- ============================================
+
+alter table queue_jobs
+  add column if not exists paused_at timestamptz;
+
+-- Allow the new 'paused' status
+alter table queue_jobs drop constraint if exists queue_jobs_status_check;
+alter table queue_jobs add constraint queue_jobs_status_check
+  check (status in ('scheduled', 'pending', 'processing', 'paused', 'completed', 'failed', 'cancelled'));
+
+comment on column queue_jobs.paused_at is 'When the job was paused (null when not paused); drip times shift by the pause length on resume';
@@ -0,0 +1,55 @@
+-- ============================================
+-- SEQUENTIAL QUEUE JOBS
+-- A user can queue several jobs; they run one after another in the order
+-- they were created. Drip-paced jobs run in the background and neither
+-- wait nor block.
+-- ============================================
+
+-- Index for the per-user queue lookup in claim_queue_job
+create index if not exists idx_queue_jobs_user_active on queue_jobs(user_id, created_at)
+  where status in ('pending', 'processing') and pacing is null;
+
+-- ============================================
+-- HELPER FUNCTION: Claim job (sequential per user)
+-- A job cannot be claimed while an older job of the same user is still
+-- pending/processing, or while another of their jobs is being posted
+-- ============================================
+
+create or replace function claim_queue_job(p_job_id uuid, p_worker_id text)
+returns queue_jobs as $$
+declare
+  v_job queue_jobs;
+begin
+  update queue_jobs j
+  set
+    status = 'processing',
+    claimed_by = p_worker_id,
+    claimed_at = now(),
+    started_at = coalesce(j.started_at, now())
+  where j.id = p_job_id
+    and (
+      j.status in ('pending', 'processing')
+      or (j.status = 'scheduled' and j.scheduled_at <= now())
+    )
+    and (j.next_item_at is null or j.next_item_at <= now())
+    and (j.claimed_by is null or j.claimed_by = p_worker_id or j.claimed_at < now() - interval '5 minutes')
+    and (
+      j.pacing is not null
+      or not exists (
+        select 1
+        from queue_jobs o
+        where o.user_id = j.user_id
+          and o.id <> j.id
+          and o.pacing is null
+          and o.status in ('pending', 'processing')
+          and (
+            o.created_at < j.created_at
+            or (o.claimed_by is not null and o.claimed_at >= now() - interval '5 minutes')
+          )
+      )
+    )
+  returning * into v_job;
+
+  return v_job;
+end;
+$$ language plpgsql;
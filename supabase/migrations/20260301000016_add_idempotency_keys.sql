@@ -0,0 +1,77 @@
+-- ============================================
+-- IDEMPOTENT SUBMISSION
+-- Clients send an idempotency key with each submission. A retried
+-- request with the same key gets the job (or the posted items) of the
+-- first request instead of posting again.
+-- ============================================
+
+alter table queue_jobs
+  add column if not exists idempotency_key text;
+
+-- One job per key and user
+create unique index if not exists idx_queue_jobs_idempotency_key on queue_jobs(user_id, idempotency_key)
+  where idempotency_key is not null;
+
+comment on column queue_jobs.idempotency_key is 'Client-generated key of the submit request; a retry with the same key returns this job';
+
+-- ============================================
+-- HELPER FUNCTION: Mark job item as posting
+-- Stamps items[p_index].postingAt right before the item is sent to Reddit.
+-- A runner that re-claims the job after a crash sees the stamp and does
+-- not submit the item a second time.
+-- ============================================
+
+create or replace function mark_queue_item_posting(
+  p_job_id uuid,
+  p_worker_id text,
+  p_index int
+)
+returns queue_jobs as $$
+declare
+  v_job queue_jobs;
+begin
+  update queue_jobs
+  set items = jsonb_set(items, array[p_index::text, 'postingAt'], to_jsonb(now()))
+  where id = p_job_id
+    and claimed_by = p_worker_id
+    and current_index = p_index
+    and items -> p_index ->> 'postingAt' is null
+  returning * into v_job;
+
+  return v_job;
+end;
+$$ language plpgsql;
+
+-- ============================================
+-- POSTING BATCH ITEMS TABLE
+-- Per-item guard for direct posting batches (/api/queue), which have no
+-- queue job. An item is claimed as 'posting' before it is sent to Reddit
+-- and marked 'success' afterwards; failed items are released again.
+-- The subreddit is part of the key so an edited batch is not mistaken for
+-- the one that was posted.
+-- ============================================
+
+create table if not exists posting_batch_items (
+  user_id uuid not null references users(id) on delete cascade,
+  idempotency_key text not null,
+  item_index int not null,
+  subreddit text not null,
+  status text not null default 'posting'
+    check (status in ('posting', 'success')),
+  url text,
+  post_id text,
+  created_at timestamptz default now(),
+  primary key (user_id, idempotency_key, item_index, subreddit)
+);
+
+-- Index for cleanup queries
+create index if not exists idx_posting_batch_items_created_at on posting_batch_items(created_at);
+
+alter table posting_batch_items enable row level security;
+
+-- Service role has full access (used by API routes)
+create policy "Service role full access to posting_batch_items"
+  on posting_batch_items for all
+  to service_role
+  using (true)
+  with check (true);
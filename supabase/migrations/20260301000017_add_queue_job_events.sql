@@ -0,0 +1,47 @@
+-- ============================================
+-- QUEUE JOB EVENTS
+-- Append-only timeline of what happened to a job: claims, each item's
+-- start, media upload and Reddit response, waits, retries and user
+-- actions. Shown to the user on the jobs dashboard.
+-- ============================================
+
+create table if not exists queue_job_events (
+  id bigint generated always as identity primary key,
+  job_id uuid not null references queue_jobs(id) on delete cascade,
+
+  -- What happened
+  type text not null
+    check (type in (
+      'created', 'claimed', 'released',
+      'item_started', 'media_uploaded', 'reddit_response',
+      'item_skipped', 'item_interrupted',
+      'waiting', 'retry_scheduled',
+      'paused', 'resumed', 'rescheduled', 'items_edited',
+      'cancelled', 'completed', 'failed'
+    )),
+
+  -- Item the event is about (null for job-level events)
+  item_index int,
+  subreddit text,
+
+  -- Runner that recorded the event (null for user actions)
+  worker_id text,
+
+  -- Short human-readable summary and structured details
+  message text,
+  data jsonb default '{}'::jsonb,
+
+  created_at timestamptz default now()
+);
+
+-- Index for reading a job's timeline in order
+create index if not exists idx_queue_job_events_job_id on queue_job_events(job_id, id);
+
+alter table queue_job_events enable row level security;
+
+-- Service role has full access (used by API routes)
+create policy "Service role full access to queue_job_events"
+  on queue_job_events for all
+  to service_role
+  using (true)
+  with check (true);
@@ -0,0 +1,107 @@
+-- ============================================
+-- WEBHOOK ENDPOINTS
+-- URLs a user registered in settings to be told when their queue jobs
+-- finish. Payloads are signed with the endpoint's secret the Standard
+-- Webhooks way (webhook-id / webhook-timestamp / webhook-signature).
+-- ============================================
+
+create table if not exists webhook_endpoints (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+
+  url text not null,
+
+  -- Signing secret (whsec_<base64>), shown to the user once
+  secret text not null,
+
+  -- Event types sent to this endpoint
+  events text[] not null default array['job.completed', 'job.failed', 'item.posted'],
+
+  enabled boolean not null default true,
+
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_webhook_endpoints_user_id on webhook_endpoints(user_id, created_at);
+
+alter table webhook_endpoints enable row level security;
+
+-- Service role has full access (used by API routes)
+create policy "Service role full access to webhook_endpoints"
+  on webhook_endpoints for all
+  to service_role
+  using (true)
+  with check (true);
+
+-- ============================================
+-- WEBHOOK DELIVERIES
+-- One row per event and endpoint. The row id is sent as webhook-id so
+-- receivers can drop retried duplicates. Failed attempts are retried with
+-- backoff until max attempts; the rows double as the delivery log.
+-- ============================================
+
+create table if not exists webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  endpoint_id uuid not null references webhook_endpoints(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+
+  event_type text not null
+    check (event_type in ('job.completed', 'job.failed', 'item.posted')),
+  payload jsonb not null,
+
+  status text not null default 'pending'
+    check (status in ('pending', 'success', 'failed')),
+  attempts int not null default 0,
+
+  -- When the next attempt is due; also holds off other runners while one
+  -- is sending (see claim_webhook_deliveries)
+  next_attempt_at timestamptz default now(),
+
+  -- Outcome of the last attempt
+  last_status_code int,
+  last_error text,
+
+  created_at timestamptz default now(),
+  delivered_at timestamptz
+);
+
+-- Index for picking up due deliveries
+create index if not exists idx_webhook_deliveries_due on webhook_deliveries(next_attempt_at)
+  where status = 'pending';
+
+-- Index for the delivery log of an endpoint
+create index if not exists idx_webhook_deliveries_endpoint on webhook_deliveries(endpoint_id, created_at desc);
+
+alter table webhook_deliveries enable row level security;
+
+-- Service role has full access (used by API routes)
+create policy "Service role full access to webhook_deliveries"
+  on webhook_deliveries for all
+  to service_role
+  using (true)
+  with check (true);
+
+-- ============================================
+-- HELPER FUNCTION: Claim due deliveries
+-- Pushes next_attempt_at out by the lease so the cron dispatcher and the
+-- queue worker never send the same delivery at once
+-- ============================================
+
+create or replace function claim_webhook_deliveries(p_limit int, p_lease_seconds int)
+returns setof webhook_deliveries as $$
+begin
+  return query
+  update webhook_deliveries d
+  set next_attempt_at = now() + make_interval(secs => p_lease_seconds)
+  where d.id in (
+    select id
+    from webhook_deliveries
+    where status = 'pending'
+      and next_attempt_at <= now()
+    order by next_attempt_at
+    limit p_limit
+    for update skip locked
+  )
+  returning d.*;
+end;
+$$ language plpgsql;
@@ -0,0 +1,81 @@
+-- ============================================
+-- RECURRING JOBS
+-- A saved job definition (caption, items, flairs, media references) with
+-- a repeat rule in a timezone. Each time the rule fires the dispatcher
+-- creates a scheduled queue_jobs row from it; the series keeps its media
+-- files for the next run.
+-- ============================================
+
+create table if not exists recurring_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+
+  -- 'active' series create jobs; 'paused' ones wait until resumed
+  status text not null default 'active'
+    check (status in ('active', 'paused')),
+
+  -- Job definition, copied into every run
+  caption text not null default '',
+  prefixes jsonb default '{}'::jsonb,
+  items jsonb not null,
+  file_paths jsonb default '[]'::jsonb,
+  pacing jsonb,
+
+  -- Repeat rule: { frequency: 'daily' | 'weekly' | 'monthly', time: 'HH:mm',
+  -- weekdays?: int[], dayOfMonth?: int }, in the wall-clock time of `timezone`
+  repeat jsonb not null,
+  timezone text not null,
+
+  -- Next time the rule fires (UTC)
+  next_run_at timestamptz not null,
+
+  -- Last run that created a job
+  last_run_at timestamptz,
+  last_job_id uuid references queue_jobs(id) on delete set null,
+  run_count int not null default 0,
+
+  -- Why the last run did not create a job (missed, limits, ...)
+  last_error text,
+
+  -- Key of the submit request that created the series
+  idempotency_key text,
+
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Index for the dispatcher's due-series lookup
+create index if not exists idx_recurring_jobs_due on recurring_jobs(next_run_at)
+  where status = 'active';
+
+-- Index for listing a user's series
+create index if not exists idx_recurring_jobs_user_id on recurring_jobs(user_id, created_at);
+
+-- A retried submit request returns the series it created
+create unique index if not exists idx_recurring_jobs_idempotency_key
+  on recurring_jobs(user_id, idempotency_key)
+  where idempotency_key is not null;
+
+create trigger update_recurring_jobs_updated_at
+  before update on recurring_jobs
+  for each row
+  execute function update_updated_at_column();
+
+alter table recurring_jobs enable row level security;
+
+-- Service role has full access (used by API routes)
+create policy "Service role full access to recurring_jobs"
+  on recurring_jobs for all
+  to service_role
+  using (true)
+  with check (true);
+
+-- ============================================
+-- QUEUE JOBS: link runs to their series
+-- ============================================
+
+alter table queue_jobs
+  add column if not exists recurring_job_id uuid references recurring_jobs(id) on delete set null;
+
+create index if not exists idx_queue_jobs_recurring_job_id on queue_jobs(recurring_job_id, created_at desc)
+  where recurring_job_id is not null;
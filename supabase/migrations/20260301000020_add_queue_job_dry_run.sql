@@ -0,0 +1,30 @@
+-- ============================================
+-- DRY RUNS
+-- A dry-run job goes through every step of posting (titles with smart
+-- prefixes, media download, post kind, preflight checks against the
+-- subreddit's current requirements) but never submits to Reddit. Each
+-- result carries a report of what would have been sent.
+-- ============================================
+
+alter table queue_jobs
+  add column if not exists dry_run boolean not null default false;
+
+comment on column queue_jobs.dry_run is 'Check every item without posting; results hold a report of what would have been sent';
+
+-- ============================================
+-- QUEUE JOB EVENTS: checked items of dry runs
+-- ============================================
+
+alter table queue_job_events
+  drop constraint if exists queue_job_events_type_check;
+
+alter table queue_job_events
+  add constraint queue_job_events_type_check
+    check (type in (
+      'created', 'claimed', 'released',
+      'item_started', 'media_uploaded', 'reddit_response',
+      'item_skipped', 'item_interrupted', 'item_checked',
+      'waiting', 'retry_scheduled',
+      'paused', 'resumed', 'rescheduled', 'items_edited',
+      'cancelled', 'completed', 'failed'
+    ));
@@ -0,0 +1,21 @@
+-- ============================================
+-- POST FLAGS
+-- Queue items carry nsfw / spoiler / sendReplies / originalContent flags.
+-- When an item leaves NSFW out, the submit endpoint uses the subreddit's
+-- over_18 from this cache; OC is only sent where the subreddit enables
+-- the OC tag.
+-- ============================================
+
+-- over_18 was never filled in before; rows cached before this change are unknown
+alter table subreddit_cache
+  alter column over_18 drop default;
+
+update subreddit_cache
+  set over_18 = null
+  where cache_version < 7;
+
+alter table subreddit_cache
+  add column if not exists allow_original_content boolean default null;
+
+comment on column subreddit_cache.over_18 is 'Subreddit is NSFW; default for the NSFW flag of queued posts (null when unknown)';
+comment on column subreddit_cache.allow_original_content is 'Subreddit enables the OC tag (null when unknown)';
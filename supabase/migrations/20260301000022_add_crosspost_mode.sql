@@ -0,0 +1,21 @@
+-- ============================================
+-- CROSSPOST MODE
+-- A crosspost job submits its first item normally, then crossposts
+-- that post to the remaining subreddits instead of uploading the media
+-- again. Subreddits that do not take crossposts get a normal upload.
+-- Each crosspost result links to the post it was crossposted from.
+-- ============================================
+
+alter table queue_jobs
+  add column if not exists crosspost boolean not null default false;
+
+comment on column queue_jobs.crosspost is 'Post the first item, then crosspost it to the remaining subreddits';
+
+-- ============================================
+-- RECURRING JOBS: runs of a series keep its crosspost mode
+-- ============================================
+
+alter table recurring_jobs
+  add column if not exists crosspost boolean not null default false;
+
+comment on column recurring_jobs.crosspost is 'Runs are created as crosspost jobs';
@@ -0,0 +1,12 @@
+-- ============================================
+-- MEDIA ASSET CACHE
+-- Shared files (itemIndex = -1) are uploaded to Reddit once per job.
+-- The first item that posts them stores their asset IDs here and later
+-- items submit the same assets instead of uploading again. A subreddit
+-- that rejects a reused asset gets a fresh upload.
+-- ============================================
+
+alter table queue_jobs
+  add column if not exists media_assets jsonb not null default '[]'::jsonb;
+
+comment on column queue_jobs.media_assets is 'Reddit asset IDs of the shared files: [{fileIndex, assetId, url, uploadedAt}]';
@@ -0,0 +1,81 @@
+-- ============================================
+-- POST CHECKS
+-- Reddit accepting a submit call doesn't mean the post stays up:
+-- AutoModerator and the spam filter often remove it minutes later.
+-- Posted items are fetched again from /api/info 5 minutes, 1 hour and
+-- 24 hours after posting; the state found is kept here and on the job
+-- result (results[].postCheck).
+-- ============================================
+
+alter table post_logs
+  add column if not exists reddit_post_id text,
+  add column if not exists job_id uuid references queue_jobs(id) on delete set null,
+  add column if not exists result_index int,
+  add column if not exists post_state text
+    check (post_state in ('live', 'removed', 'spam', 'deleted')),
+  add column if not exists removed_by_category text,
+  add column if not exists removal_reason text,
+  add column if not exists locked boolean,
+  add column if not exists removed_at timestamptz,
+  add column if not exists check_count int not null default 0,
+  add column if not exists checked_at timestamptz,
+  add column if not exists next_check_at timestamptz;
+
+-- Index for picking up due checks
+create index if not exists idx_post_logs_next_check on post_logs(next_check_at)
+  where next_check_at is not null;
+
+comment on column post_logs.reddit_post_id is 'Reddit post ID (without t3_) used for the follow-up checks';
+comment on column post_logs.post_state is 'State at the last check: live, removed, spam or deleted (null until checked)';
+comment on column post_logs.removed_by_category is 'Reddit removed_by_category, e.g. moderator, automod_filtered, reddit';
+comment on column post_logs.removed_at is 'First check that found the post no longer live';
+comment on column post_logs.next_check_at is 'When the next check is due; null once the schedule is done';
+
+-- ============================================
+-- HELPER FUNCTION: Claim due checks
+-- Pushes next_check_at out by the lease so the cron dispatcher and the
+-- queue worker never check the same post at once
+-- ============================================
+
+create or replace function claim_post_checks(p_limit int, p_lease_seconds int)
+returns setof post_logs as $$
+begin
+  return query
+  update post_logs p
+  set next_check_at = now() + make_interval(secs => p_lease_seconds)
+  where p.id in (
+    select id
+    from post_logs
+    where next_check_at <= now()
+    order by next_check_at
+    limit p_limit
+    for update skip locked
+  )
+  returning p.*;
+end;
+$$ language plpgsql;
+
+-- ============================================
+-- HELPER FUNCTION: Record a check on the job result
+-- Replaces postCheck on the successful result of the item, in the same
+-- row update as progress so a running job never loses a result
+-- ============================================
+
+create or replace function set_queue_job_post_check(p_job_id uuid, p_index int, p_check jsonb)
+returns void as $$
+begin
+  update queue_jobs
+  set results = (
+    select coalesce(jsonb_agg(
+      case
+        when (r->>'index')::int = p_index and r->>'status' = 'success'
+          then r || jsonb_build_object('postCheck', p_check)
+        else r
+      end
+      order by ord
+    ), '[]'::jsonb)
+    from jsonb_array_elements(results) with ordinality as t(r, ord)
+  )
+  where id = p_job_id;
+end;
+$$ language plpgsql;
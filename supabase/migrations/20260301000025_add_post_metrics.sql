@@ -0,0 +1,78 @@
+-- ============================================
+-- POST METRICS
+-- Score, upvote ratio and comment count of successful posts, sampled
+-- from /api/info on a schedule after posting (15 minutes to 7 days).
+-- Each sample is a snapshot row; the latest numbers are also kept on the
+-- post_logs row for aggregates.
+-- ============================================
+
+create table if not exists post_metrics (
+  id bigint generated always as identity primary key,
+  post_log_id uuid not null references post_logs(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+
+  score int not null,
+  upvote_ratio real not null,
+  num_comments int not null,
+
+  sampled_at timestamptz not null default now()
+);
+
+-- Index for the snapshots of a post, in order
+create index if not exists idx_post_metrics_post on post_metrics(post_log_id, sampled_at);
+
+alter table post_metrics enable row level security;
+
+-- Service role has full access (used by API routes)
+create policy "Service role full access to post_metrics"
+  on post_metrics for all
+  to service_role
+  using (true)
+  with check (true);
+
+alter table post_logs
+  add column if not exists score int,
+  add column if not exists upvote_ratio real,
+  add column if not exists num_comments int,
+  add column if not exists sampled_at timestamptz,
+  add column if not exists sample_count int not null default 0,
+  add column if not exists next_sample_at timestamptz;
+
+-- Index for picking up due samples
+create index if not exists idx_post_logs_next_sample on post_logs(next_sample_at)
+  where next_sample_at is not null;
+
+-- Jobs are deleted a day after they finish; the posts keep the job ID so
+-- aggregates per job still work
+alter table post_logs drop constraint if exists post_logs_job_id_fkey;
+
+-- Index for the posts of a job
+create index if not exists idx_post_logs_job_id on post_logs(job_id)
+  where job_id is not null;
+
+comment on column post_logs.score is 'Score at the latest sample (null until sampled)';
+comment on column post_logs.next_sample_at is 'When the next metrics sample is due; null once the schedule is done';
+
+-- ============================================
+-- HELPER FUNCTION: Claim due samples
+-- Pushes next_sample_at out by the lease so the cron dispatcher and the
+-- queue worker never sample the same post at once
+-- ============================================
+
+create or replace function claim_post_samples(p_limit int, p_lease_seconds int)
+returns setof post_logs as $$
+begin
+  return query
+  update post_logs p
+  set next_sample_at = now() + make_interval(secs => p_lease_seconds)
+  where p.id in (
+    select id
+    from post_logs
+    where next_sample_at <= now()
+    order by next_sample_at
+    limit p_limit
+    for update skip locked
+  )
+  returning p.*;
+end;
+$$ language plpgsql;
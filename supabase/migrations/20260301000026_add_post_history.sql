@@ -0,0 +1,12 @@
+-- ============================================
+-- POST HISTORY
+-- Finished jobs are kept for 90 days (their files are still removed a day
+-- after they finish) so users can browse, search and post them again.
+-- ============================================
+
+-- Index for a user's jobs, newest first
+create index if not exists idx_queue_jobs_user_created on queue_jobs(user_id, created_at desc);
+
+-- Index for file cleanup of finished jobs that still reference files
+create index if not exists idx_queue_jobs_completed_files on queue_jobs(completed_at)
+  where completed_at is not null and file_paths <> '[]'::jsonb;
@@ -0,0 +1,19 @@
+-- ============================================
+-- POST ACTIONS
+-- Users can edit, delete, mark NSFW/spoiler or re-flair every copy of a
+-- finished job at once. Each run is logged on the job's timeline.
+-- ============================================
+
+alter table queue_job_events
+  drop constraint if exists queue_job_events_type_check;
+
+alter table queue_job_events
+  add constraint queue_job_events_type_check
+    check (type in (
+      'created', 'claimed', 'released',
+      'item_started', 'media_uploaded', 'reddit_response',
+      'item_skipped', 'item_interrupted', 'item_checked',
+      'waiting', 'retry_scheduled',
+      'paused', 'resumed', 'rescheduled', 'items_edited', 'post_action',
+      'cancelled', 'completed', 'failed'
+    ));
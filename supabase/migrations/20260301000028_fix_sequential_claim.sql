@@ -0,0 +1,48 @@
+-- ============================================
+-- SEQUENTIAL QUEUE JOBS: ABANDONED JOBS
+-- Only server-run jobs keep a user's later jobs waiting. A browser-run
+-- job is driven by its tab; when the tab is closed mid-job it stays
+-- 'processing' with an expired claim and must not hold up the user's
+-- scheduled, recurring or worker-run jobs. Older jobs whose claim has
+-- expired don't block either. A job that is being posted right now
+-- (live claim, any runner) still does.
+-- ============================================
+
+create or replace function claim_queue_job(p_job_id uuid, p_worker_id text)
+returns queue_jobs as $$
+declare
+  v_job queue_jobs;
+begin
+  update queue_jobs j
+  set
+    status = 'processing',
+    claimed_by = p_worker_id,
+    claimed_at = now(),
+    started_at = coalesce(j.started_at, now())
+  where j.id = p_job_id
+    and (
+      j.status in ('pending', 'processing')
+      or (j.status = 'scheduled' and j.scheduled_at <= now())
+    )
+    and (j.next_item_at is null or j.next_item_at <= now())
+    and (j.claimed_by is null or j.claimed_by = p_worker_id or j.claimed_at < now() - interval '5 minutes')
+    and (
+      j.pacing is not null
+      or not exists (
+        select 1
+        from queue_jobs o
+        where o.user_id = j.user_id
+          and o.id <> j.id
+          and o.pacing is null
+          and o.status in ('pending', 'processing')
+          and (
+            (o.runner = 'server' and o.created_at < j.created_at and o.claimed_by is null)
+            or (o.claimed_by is not null and o.claimed_at >= now() - interval '5 minutes')
+          )
+      )
+    )
+  returning * into v_job;
+
+  return v_job;
+end;
+$$ language plpgsql;
@@ -3,6 +3,8 @@
  * These mock objects represent various application states and API responses.
  */
 
+import { formatStreamEvent } from '@/lib/eventStream';
+
 export const testData = {
   /**
    * Mock user data for authentication tests
@@ -166,48 +168,54 @@ export const testData = {
 };
 
 /**
- * Helper to generate streaming queue response
+ * Helper to generate the event stream of POST /api/queue
  */
 export const generateQueueStreamResponse = (
   subreddits: string[],
   outcomes: ('success' | 'error')[] = []
 ): string => {
-  const lines: string[] = [
-    JSON.stringify({ status: 'started', total: subreddits.length }),
+  const frames: string[] = [
+    formatStreamEvent({ event: 'started', data: { total: subreddits.length } }),
   ];
 
   subreddits.forEach((subreddit, index) => {
-    lines.push(JSON.stringify({ index, status: 'posting', subreddit }));
+    frames.push(formatStreamEvent({ event: 'item', data: { index, status: 'posting', subreddit } }));
 
     const outcome = outcomes[index] || 'success';
     if (outcome === 'success') {
-      lines.push(
-        JSON.stringify({
-          index,
-          status: 'success',
-          subreddit,
-          url: `https://reddit.com/r/${subreddit}/comments/test${index}`,
-          id: `test${index}`,
+      frames.push(
+        formatStreamEvent({
+          event: 'item',
+          data: {
+            index,
+            status: 'success',
+            subreddit,
+            url: `https://reddit.com/r/${subreddit}/comments/test${index}`,
+            id: `test${index}`,
+          },
         })
       );
     } else {
-      lines.push(
-        JSON.stringify({
-          index,
-          status: 'error',
-          subreddit,
-          error: 'Post failed',
+      frames.push(
+        formatStreamEvent({
+          event: 'item',
+          data: {
+            index,
+            status: 'error',
+            subreddit,
+            error: 'Post failed',
+          },
         })
       );
     }
 
     // Add waiting status between posts (except for the last one)
     if (index < subreddits.length - 1) {
-      lines.push(JSON.stringify({ index, status: 'waiting', delaySeconds: 2 }));
+      frames.push(formatStreamEvent({ event: 'waiting', data: { index, delaySeconds: 2 } }));
     }
   });
 
-  lines.push(JSON.stringify({ status: 'completed' }));
+  frames.push(formatStreamEvent({ event: 'completed', data: {} }));
 
-  return lines.join('\n');
+  return frames.join('');
 };
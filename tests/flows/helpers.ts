@@ -1,6 +1,7 @@
 import { expect, Page, Route } from '@playwright/test';
 import { testData } from '../fixtures/test-data';
 import { setupMockRoutes } from '../mocks/handlers';
+import { formatStreamEvent } from '@/lib/eventStream';
 
 export interface QueuePayloadItem {
   subreddit: string;
@@ -55,7 +56,7 @@ export const selectSubreddits = async (page: Page, subreddits: string[]): Promis
  * The new queue flow:
  * 1. POST /api/queue/submit → returns { success: true, jobId: "..." }
  * 2. POST /api/queue/process?jobId=... → triggers processing
- * 3. GET /api/queue/status/{jobId} → polled for results
+ * 3. GET /api/queue/events/{jobId} → event stream with the job's progress
  */
 export const setupQueueContractMock = async (
   page: Page,
@@ -65,7 +66,6 @@ export const setupQueueContractMock = async (
   let payload: CapturedQueuePayload | null = null;
   let submitCalled = false;
   const mockJobId = `mock-job-${Date.now()}`;
-  let pollCount = 0;
 
   // Generate results based on outcomes
   const generateResults = () => {
@@ -118,36 +118,33 @@ export const setupQueueContractMock = async (
     await route.fulfill({
       status: 200,
       contentType: 'application/json',
-      body: JSON.stringify({ success: true }),
+      body: JSON.stringify({ outcome: 'completed' }),
     });
   });
 
-  // Mock /api/queue/status/{jobId} - returns job status and results
-  // Simulate progression: first call = processing, second call = completed
-  await page.route('**/api/queue/status/*', async (route: Route) => {
-    pollCount++;
+  // Mock /api/queue/events/{jobId} - streams the job in progress, then completed
+  await page.route('**/api/queue/events/*', async (route: Route) => {
     const results = generateResults();
-    
-    // On first poll, return in-progress status; on subsequent polls, return completed
-    const isCompleted = pollCount > 1;
-    
+    const buildJob = (completed: boolean) => ({
+      id: mockJobId,
+      status: completed ? 'completed' : 'processing',
+      current_index: completed ? subreddits.length : 1,
+      results: completed ? results : results.slice(0, 1),
+      items: subreddits.map((subreddit, index) => ({
+        index,
+        subreddit,
+        kind: 'link',
+      })),
+    });
+
     await route.fulfill({
       status: 200,
-      contentType: 'application/json',
-      body: JSON.stringify({
-        success: true,
-        job: {
-          id: mockJobId,
-          status: isCompleted ? 'completed' : 'processing',
-          current_index: isCompleted ? subreddits.length : Math.min(pollCount, subreddits.length - 1),
-          results: isCompleted ? results : results.slice(0, pollCount),
-          items: subreddits.map((subreddit, index) => ({
-            index,
-            subreddit,
-            kind: 'link',
-          })),
-        },
-      }),
+      contentType: 'text/event-stream',
+      body: [
+        formatStreamEvent({ event: 'job', data: buildJob(false) }),
+        formatStreamEvent({ event: 'job', data: buildJob(true) }),
+        formatStreamEvent({ event: 'end', data: { status: 'completed' } }),
+      ].join(''),
     });
   });
 
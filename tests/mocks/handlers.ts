@@ -1,5 +1,6 @@
 import { Page, Route } from '@playwright/test';
 import { testData, generateQueueStreamResponse } from '../fixtures/test-data';
+import { formatStreamEvent } from '@/lib/eventStream';
 
 /**
  * Mock API response handlers for Playwright route interception.
@@ -157,78 +158,85 @@ const fulfillApiError = async (
 const normalizeSubredditName = (value: string): string =>
   value.trim().replace(/^r\//i, '').toLowerCase();
 
-const buildQueueProcessStreamResponse = (
+const buildMockJob = (
+  jobId: string,
+  subreddits: string[],
+  status: string,
+  results: Record<string, unknown>[]
+): Record<string, unknown> => ({
+  id: jobId,
+  status,
+  runner: 'browser',
+  current_index: results.length,
+  items: subreddits.map((subreddit) => ({ subreddit, kind: 'link' })),
+  results,
+  error: null,
+  started_at: new Date().toISOString(),
+  completed_at: status === 'completed' ? new Date().toISOString() : null,
+});
+
+/**
+ * Event stream of GET /api/queue/events/[jobId] for a job that posts to
+ * `subreddits` with the given outcomes and completes.
+ */
+const buildJobEventStreamResponse = (
   subreddits: string[],
   outcomes: QueueOutcome[] = [],
   jobId: string = DEFAULT_DEMO_JOB_ID
 ): string => {
-  const lines: string[] = [
-    JSON.stringify({
-      type: 'status',
-      jobId,
-      status: 'processing',
-      currentIndex: 0,
-    }),
+  const results: Record<string, unknown>[] = [];
+  const frames: string[] = [
+    formatStreamEvent({ event: 'job', data: buildMockJob(jobId, subreddits, 'processing', results) }),
   ];
 
   subreddits.forEach((subreddit, index) => {
-    lines.push(
-      JSON.stringify({
-        type: 'progress',
-        jobId,
-        currentIndex: index,
-      })
-    );
-
     const outcome = outcomes[index] ?? 'success';
-    if (outcome === 'success') {
-      lines.push(
-        JSON.stringify({
-          type: 'result',
-          jobId,
-          result: {
+    results.push(
+      outcome === 'success'
+        ? {
             index,
             subreddit,
             status: 'success',
             url: `https://reddit.com/r/${subreddit}/comments/test${index}`,
             postedAt: new Date().toISOString(),
-          },
-        })
-      );
-    } else {
-      lines.push(
-        JSON.stringify({
-          type: 'result',
-          jobId,
-          result: {
+          }
+        : {
             index,
             subreddit,
             status: 'error',
             error: 'Post failed',
-          },
-        })
-      );
-    }
+          }
+    );
 
-    if (index < subreddits.length - 1) {
-      lines.push(
-        JSON.stringify({
-          type: 'waiting',
-          jobId,
-          waitSeconds: 2,
-        })
-      );
-    }
+    frames.push(
+      formatStreamEvent({
+        event: 'timeline',
+        id: String(index + 1),
+        data: {
+          id: index + 1,
+          job_id: jobId,
+          type: 'reddit_response',
+          item_index: index,
+          subreddit,
+          worker_id: 'mock-worker',
+          message: outcome === 'success' ? 'Posted' : 'Post failed',
+          data: {},
+          created_at: new Date().toISOString(),
+        },
+      }),
+      formatStreamEvent({
+        event: 'job',
+        data: buildMockJob(jobId, subreddits, 'processing', [...results]),
+      })
+    );
   });
 
-  lines.push(
-    JSON.stringify({
-      type: 'complete',
-      jobId,
-    })
+  frames.push(
+    formatStreamEvent({ event: 'job', data: buildMockJob(jobId, subreddits, 'completed', results) }),
+    formatStreamEvent({ event: 'end', data: { status: 'completed' } })
   );
 
-  return lines.join('\n');
+  return frames.join('');
 };
 
 /**
@@ -721,11 +729,18 @@ export const setupQueueMockSuccess = async (
   });
 
   await page.route('**/api/queue/process*', async (route: Route) => {
-    const streamResponse = buildQueueProcessStreamResponse(subreddits, [], DEFAULT_DEMO_JOB_ID);
     await route.fulfill({
       status: 200,
-      contentType: 'text/plain',
-      body: streamResponse,
+      contentType: 'application/json',
+      body: JSON.stringify({ outcome: 'completed' }),
+    });
+  });
+
+  await page.route('**/api/queue/events/*', async (route: Route) => {
+    await route.fulfill({
+      status: 200,
+      contentType: 'text/event-stream',
+      body: buildJobEventStreamResponse(subreddits, [], DEFAULT_DEMO_JOB_ID),
     });
   });
 
@@ -734,7 +749,7 @@ export const setupQueueMockSuccess = async (
     const streamResponse = generateQueueStreamResponse(subreddits);
     await route.fulfill({
       status: 200,
-      contentType: 'text/plain',
+      contentType: 'text/event-stream',
       body: streamResponse,
     });
   });
@@ -757,11 +772,18 @@ export const setupQueueMockMixed = async (
   });
 
   await page.route('**/api/queue/process*', async (route: Route) => {
-    const streamResponse = buildQueueProcessStreamResponse(subreddits, outcomes, DEFAULT_DEMO_JOB_ID);
     await route.fulfill({
       status: 200,
-      contentType: 'text/plain',
-      body: streamResponse,
+      contentType: 'application/json',
+      body: JSON.stringify({ outcome: 'completed' }),
+    });
+  });
+
+  await page.route('**/api/queue/events/*', async (route: Route) => {
+    await route.fulfill({
+      status: 200,
+      contentType: 'text/event-stream',
+      body: buildJobEventStreamResponse(subreddits, outcomes, DEFAULT_DEMO_JOB_ID),
     });
   });
 
@@ -769,7 +791,7 @@ export const setupQueueMockMixed = async (
     const streamResponse = generateQueueStreamResponse(subreddits, outcomes);
     await route.fulfill({
       status: 200,
-      contentType: 'text/plain',
+      contentType: 'text/event-stream',
       body: streamResponse,
     });
   });
@@ -788,33 +810,30 @@ export const setupQueueMockHanging = async (page: Page): Promise<void> => {
   });
 
   await page.route('**/api/queue/process*', async (route: Route) => {
-    const streamResponse =
-      JSON.stringify({
-        type: 'status',
-        jobId: DEFAULT_DEMO_JOB_ID,
-        status: 'processing',
-        currentIndex: 0,
-      }) +
-      '\n' +
-      JSON.stringify({
-        type: 'progress',
-        jobId: DEFAULT_DEMO_JOB_ID,
-        currentIndex: 0,
-      }) +
-      '\n';
+    await route.fulfill({
+      status: 200,
+      contentType: 'application/json',
+      body: JSON.stringify({ outcome: 'yielded' }),
+    });
+  });
 
+  // The job stays at its first post; the stream closes without 'end' and is reopened
+  await page.route('**/api/queue/events/*', async (route: Route) => {
     await route.fulfill({
       status: 200,
-      contentType: 'text/plain',
-      body: streamResponse,
+      contentType: 'text/event-stream',
+      body: formatStreamEvent({
+        event: 'job',
+        data: buildMockJob(DEFAULT_DEMO_JOB_ID, ['pics', 'images', 'funny'], 'processing', []),
+      }),
     });
   });
 
   await page.route('**/api/queue', async (route: Route) => {
     await route.fulfill({
       status: 200,
-      contentType: 'text/plain',
-      body: JSON.stringify({ status: 'started', total: 3 }) + '\n',
+      contentType: 'text/event-stream',
+      body: formatStreamEvent({ event: 'started', data: { total: 3 } }),
     });
   });
 };
@@ -0,0 +1,62 @@
+import { expect, test } from '@playwright/test';
+import type { QueueJobResult } from '@/lib/queueJob';
+import {
+  acceptsCrossposts,
+  getCrosspostParent,
+  getPostIdFromUrl,
+  toPostFullname,
+} from '@/lib/queueCrosspost';
+
+const posted = (index: number, subreddit: string, postId: string): QueueJobResult => ({
+  index,
+  subreddit,
+  status: 'success',
+  url: `https://www.reddit.com/r/${subreddit}/comments/${postId}/`,
+  postId,
+});
+
+test('getCrosspostParent waits for the first post', () => {
+  expect(getCrosspostParent([])).toBeNull();
+  expect(getCrosspostParent([{ index: 0, subreddit: 'pics', status: 'error', error: 'SUBREDDIT_NOTALLOWED' }])).toBeNull();
+});
+
+test('getCrosspostParent picks the first normally posted item', () => {
+  const original = posted(1, 'EarthPorn', 'abc123');
+  const crosspost: QueueJobResult = {
+    ...posted(2, 'pics', 'def456'),
+    crosspostOf: { index: 1, subreddit: 'EarthPorn', postId: 'abc123' },
+  };
+
+  expect(getCrosspostParent([
+    { index: 0, subreddit: 'pics', status: 'error', error: 'Failed to post' },
+    original,
+    crosspost,
+  ])).toEqual({
+    index: 1,
+    subreddit: 'EarthPorn',
+    postId: 'abc123',
+    url: 'https://www.reddit.com/r/EarthPorn/comments/abc123/',
+  });
+});
+
+test('getCrosspostParent skips posts without a post ID', () => {
+  expect(getCrosspostParent([
+    { index: 0, subreddit: 'pics', status: 'success', url: 'https://i.redd.it/x.jpg' },
+    posted(1, 'EarthPorn', 'abc123'),
+  ])?.index).toBe(1);
+});
+
+test('acceptsCrossposts follows the subreddit settings', () => {
+  expect(acceptsCrossposts({ submissionType: 'any' })).toBe(true);
+  expect(acceptsCrossposts({ submissionType: 'link', allowCrossposts: true })).toBe(true);
+  expect(acceptsCrossposts({ submissionType: 'any', allowCrossposts: false })).toBe(false);
+  expect(acceptsCrossposts({ submissionType: 'self' })).toBe(false);
+});
+
+test('post IDs convert to fullnames and come out of post URLs', () => {
+  expect(toPostFullname('abc123')).toBe('t3_abc123');
+  expect(toPostFullname('t3_abc123')).toBe('t3_abc123');
+  expect(getPostIdFromUrl('https://www.reddit.com/r/pics/comments/abc123/sunset/')).toBe('abc123');
+  expect(getPostIdFromUrl('https://i.redd.it/x.jpg')).toBeUndefined();
+  expect(getPostIdFromUrl(undefined)).toBeUndefined();
+});
@@ -0,0 +1,80 @@
+import { expect, test } from '@playwright/test';
+import { buildDryRunResult, type PreparedPost } from '@/lib/queueDryRun';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const FLAIRS = [{ id: 'oc', text: 'OC' }, { id: 'question', text: 'Question' }];
+
+const post = (overrides: Partial<PreparedPost> = {}): PreparedPost => ({
+  subreddit: 'pics',
+  title: '[OC] Sunset over the bay',
+  kind: 'image',
+  flairId: 'oc',
+  flags: { nsfw: false, spoiler: false, sendReplies: true, originalContent: true },
+  files: [{ name: 'sunset.jpg', mimeType: 'image/jpeg', size: 2048 }],
+  ...overrides,
+});
+
+test('buildDryRunResult reports exactly what would be sent', () => {
+  const result = buildDryRunResult(2, post(), {}, FLAIRS, NOW);
+
+  expect(result).toEqual({
+    index: 2,
+    subreddit: 'pics',
+    status: 'success',
+    postedAt: NOW.toISOString(),
+    dryRun: {
+      title: '[OC] Sunset over the bay',
+      kind: 'image',
+      flairId: 'oc',
+      flairText: 'OC',
+      flags: { nsfw: false, spoiler: false, sendReplies: true, originalContent: true },
+      files: [{ name: 'sunset.jpg', mimeType: 'image/jpeg', size: 2048 }],
+      issues: [],
+    },
+  });
+});
+
+test('buildDryRunResult fails items missing a required flair', () => {
+  const result = buildDryRunResult(0, post({ flairId: undefined }), { is_flair_required: true }, FLAIRS, NOW);
+
+  expect(result.status).toBe('error');
+  expect(result.error).toBe('r/pics requires a flair');
+  expect(result.dryRun?.issues.map(issue => issue.code)).toEqual(['FLAIR_REQUIRED']);
+});
+
+test('buildDryRunResult checks the prepared title against the requirements', () => {
+  const result = buildDryRunResult(0, post(), { title_text_max_length: 10 }, FLAIRS, NOW);
+
+  expect(result.status).toBe('error');
+  expect(result.dryRun?.issues.map(issue => issue.code)).toEqual(['TITLE_TOO_LONG']);
+  expect(result.dryRun?.title).toBe('[OC] Sunset over the bay');
+});
+
+test('buildDryRunResult fails media posts whose files are missing', () => {
+  const result = buildDryRunResult(0, post({ kind: 'gallery', files: [] }), {}, FLAIRS, NOW);
+
+  expect(result.status).toBe('error');
+  expect(result.dryRun?.issues.map(issue => issue.code)).toEqual(['MEDIA_MISSING']);
+});
+
+test('buildDryRunResult warns about flairs that are no longer offered', () => {
+  const result = buildDryRunResult(0, post({ flairId: 'retired' }), {}, FLAIRS, NOW);
+
+  expect(result.status).toBe('success');
+  expect(result.error).toBeUndefined();
+  expect(result.dryRun?.flairId).toBe('retired');
+  expect(result.dryRun?.flairText).toBeUndefined();
+  expect(result.dryRun?.issues.map(issue => [issue.code, issue.severity])).toEqual([
+    ['FLAIR_NOT_OFFERED', 'warning'],
+  ]);
+});
+
+test('buildDryRunResult includes the body and link of text and link posts', () => {
+  const self = buildDryRunResult(0, post({ kind: 'self', text: 'Details inside', files: [] }), {}, FLAIRS, NOW);
+  expect(self.status).toBe('success');
+  expect(self.dryRun?.text).toBe('Details inside');
+
+  const link = buildDryRunResult(1, post({ kind: 'link', url: 'https://example.com/a', files: [] }), {}, FLAIRS, NOW);
+  expect(link.status).toBe('success');
+  expect(link.dryRun?.url).toBe('https://example.com/a');
+});
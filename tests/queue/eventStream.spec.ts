@@ -0,0 +1,39 @@
+import { expect, test } from '@playwright/test';
+import { createStreamParser, formatStreamEvent, type StreamEvent } from '@/lib/eventStream';
+
+const parseAll = (chunks: string[]) => {
+  const events: StreamEvent[] = [];
+  const parser = createStreamParser(event => events.push(event));
+  chunks.forEach(chunk => parser.push(chunk));
+  return { events, parser };
+};
+
+test('formatStreamEvent frames parse back into the same events', () => {
+  const frames =
+    formatStreamEvent({ event: 'timeline', id: '7', data: { type: 'claimed', message: 'a\nb' } }) +
+    formatStreamEvent({ event: 'end', data: { status: 'completed' } });
+
+  const { events, parser } = parseAll([frames]);
+  expect(events).toEqual([
+    { event: 'timeline', id: '7', data: { type: 'claimed', message: 'a\nb' } },
+    { event: 'end', id: '7', data: { status: 'completed' } },
+  ]);
+  expect(parser.lastEventId).toBe('7');
+});
+
+test('createStreamParser handles split chunks, CRLF, comments and retry', () => {
+  const { events, parser } = parseAll([
+    'retry: 2500\n\n: keep-alive\n\nid: 3\r\nevent: job\r\nda',
+    'ta: {"id":"j1"}\r\n',
+    '\r\n',
+    'data: not json\n\n',
+  ]);
+
+  expect(events).toEqual([{ event: 'job', id: '3', data: { id: 'j1' } }]);
+  expect(parser.retryMs).toBe(2500);
+});
+
+test('createStreamParser joins multi-line data and defaults the event name', () => {
+  const { events } = parseAll(['data: [1,\ndata: 2]\n\n']);
+  expect(events).toEqual([{ event: 'message', data: [1, 2] }]);
+});
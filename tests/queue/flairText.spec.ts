@@ -0,0 +1,71 @@
+import { expect, test } from '@playwright/test';
+import { getFlairParts, parseFlairText } from '@/lib/flairText';
+import { buildDryRunResult, type PreparedPost } from '@/lib/queueDryRun';
+import type { FlairOption } from '@/utils/reddit';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const STAR = 'https://emoji.redditmedia.com/star.png';
+const editable: FlairOption = {
+  id: 'rating',
+  text: ':star: Rating',
+  text_editable: true,
+  richtext: [
+    { e: 'emoji', a: ':star:', u: STAR },
+    { e: 'text', t: ' Rating' },
+  ],
+  background_color: '#ff4500',
+  text_color: 'light',
+};
+
+const post = (overrides: Partial<PreparedPost> = {}): PreparedPost => ({
+  subreddit: 'movies',
+  title: 'Dune review',
+  kind: 'self',
+  flairId: 'rating',
+  flairText: ':star: 9/10',
+  flags: { nsfw: false, spoiler: false, sendReplies: true, originalContent: false },
+  files: [],
+  ...overrides,
+});
+
+test('getFlairParts draws the template richtext with its emoji', () => {
+  expect(getFlairParts(editable)).toEqual([
+    { type: 'emoji', name: ':star:', url: STAR },
+    { type: 'text', text: ' Rating' },
+  ]);
+  expect(getFlairParts({ id: 'plain', text: 'Discussion', text_editable: false })).toEqual([
+    { type: 'text', text: 'Discussion' },
+  ]);
+});
+
+test('getFlairParts shows own text with the template emoji codes', () => {
+  expect(getFlairParts(editable, ' :star::star: Loved it :unknown: ')).toEqual([
+    { type: 'emoji', name: ':star:', url: STAR },
+    { type: 'emoji', name: ':star:', url: STAR },
+    { type: 'text', text: ' Loved it ' },
+    { type: 'text', text: ':unknown:' },
+  ]);
+  expect(getFlairParts(editable, '  ')).toHaveLength(2);
+});
+
+test('parseFlairText trims text and needs a flair', () => {
+  expect(parseFlairText(undefined, 'rating')).toEqual({});
+  expect(parseFlairText('   ', 'rating')).toEqual({});
+  expect(parseFlairText(' 9/10 ', 'rating')).toEqual({ flairText: '9/10' });
+  expect(parseFlairText('9/10')).toEqual({ error: 'Flair text needs a flair' });
+  expect(parseFlairText(9, 'rating')).toEqual({ error: 'flairText must be text' });
+  expect(parseFlairText('x'.repeat(65), 'rating')).toEqual({
+    error: 'Flair text is longer than 64 characters',
+  });
+});
+
+test('dry runs report own flair text and warn when the flair is not editable', () => {
+  const editableResult = buildDryRunResult(0, post(), {}, [editable], NOW);
+  expect(editableResult.dryRun?.flairText).toBe(':star: 9/10');
+  expect(editableResult.dryRun?.issues).toEqual([]);
+
+  const fixed = buildDryRunResult(0, post(), {}, [{ ...editable, text_editable: false }], NOW);
+  expect(fixed.status).toBe('success');
+  expect(fixed.dryRun?.issues.map(issue => issue.code)).toEqual(['FLAIR_TEXT_NOT_EDITABLE']);
+});
@@ -0,0 +1,86 @@
+import { expect, test } from '@playwright/test';
+import { mergeGalleryItems, parseGalleryItems, toSubmitGalleryItems } from '@/lib/galleryItems';
+import { validatePreflight, type PreflightInput } from '@/lib/preflightValidation';
+import type { PostRequirements } from '@/utils/reddit';
+
+const galleryInput = (
+  requirements: PostRequirements,
+  overrides: Partial<PreflightInput> = {}
+): PreflightInput => ({
+  title: 'Sunset series',
+  kind: 'gallery',
+  subreddits: ['pics'],
+  flairValue: {},
+  flairRequired: {},
+  flairOptions: {},
+  postRequirements: { pics: requirements },
+  mediaCount: 3,
+  ...overrides,
+});
+
+const galleryCodes = (input: PreflightInput) =>
+  validatePreflight(input).issues.filter(issue => issue.field === 'media').map(issue => issue.code);
+
+test('mergeGalleryItems lets non-empty overrides win per image', () => {
+  expect(mergeGalleryItems(
+    [{ caption: 'First', outboundUrl: 'https://example.com/1' }, { caption: 'Second' }],
+    [{ caption: '  ' }, { caption: 'Own second', outboundUrl: 'https://example.com/2' }, { caption: 'Third' }]
+  )).toEqual([
+    { caption: 'First', outboundUrl: 'https://example.com/1' },
+    { caption: 'Own second', outboundUrl: 'https://example.com/2' },
+    { caption: 'Third' },
+  ]);
+  expect(mergeGalleryItems([{ caption: ' ' }, {}])).toBeUndefined();
+});
+
+test('parseGalleryItems trims details and rejects bad captions and links', () => {
+  expect(parseGalleryItems(undefined)).toEqual({});
+  expect(parseGalleryItems([null, { caption: ' Hi ', outboundUrl: '' }])).toEqual({ items: [{}, { caption: 'Hi' }] });
+  expect(parseGalleryItems('caption')).toEqual({ error: 'galleryItems must be a list' });
+  expect(parseGalleryItems([{}, { outboundUrl: 'javascript:alert(1)' }])).toEqual({
+    error: 'Image 2: link must be an http(s) URL',
+  });
+  expect(parseGalleryItems([{ caption: 'x'.repeat(181) }])).toEqual({
+    error: 'Image 1: caption is longer than 180 characters',
+  });
+});
+
+test('toSubmitGalleryItems uses the field names Reddit expects', () => {
+  expect(toSubmitGalleryItems([{ caption: 'One', outboundUrl: 'https://example.com' }, {}])).toEqual([
+    { caption: 'One', outbound_url: 'https://example.com' },
+    {},
+  ]);
+  expect(toSubmitGalleryItems(undefined)).toBeUndefined();
+});
+
+test('preflight checks the gallery image count', () => {
+  expect(galleryCodes(galleryInput({ gallery_min_items: 4 }))).toEqual(['GALLERY_TOO_FEW_ITEMS']);
+  expect(galleryCodes(galleryInput({ gallery_max_items: 2 }))).toEqual(['GALLERY_TOO_MANY_ITEMS']);
+  expect(galleryCodes(galleryInput({ gallery_min_items: 2, gallery_max_items: 20 }))).toEqual([]);
+});
+
+test('preflight requires captions and links where the subreddit does', () => {
+  const requirements: PostRequirements = {
+    gallery_captions_requirement: 'required',
+    gallery_urls_requirement: 'required',
+  };
+  const result = validatePreflight(galleryInput(requirements, {
+    galleryItemsBySubreddit: {
+      pics: [{ caption: 'One', outboundUrl: 'https://example.com' }, { caption: 'Two' }],
+    },
+  }));
+
+  expect(result.canProceed).toBe(false);
+  expect(result.blockingErrors.map(issue => issue.message)).toEqual([
+    'r/pics: Every gallery image needs a caption (missing on image 3)',
+    'r/pics: Every gallery image needs a link (missing on images 2, 3)',
+  ]);
+  expect(galleryCodes(galleryInput({ gallery_captions_requirement: 'optional' }))).toEqual([]);
+});
+
+test('preflight skips gallery checks for other kinds and unknown counts', () => {
+  const requirements: PostRequirements = { gallery_min_items: 4, gallery_captions_requirement: 'required' };
+
+  expect(galleryCodes(galleryInput(requirements, { kind: 'image', mediaCount: 1 }))).toEqual([]);
+  expect(galleryCodes(galleryInput(requirements, { mediaCount: undefined }))).toEqual([]);
+});
@@ -0,0 +1,19 @@
+import { expect, test } from '@playwright/test';
+import { createIdempotencyKey, parseIdempotencyKey } from '@/lib/idempotency';
+
+test('createIdempotencyKey makes distinct keys the parser accepts', () => {
+  const first = createIdempotencyKey();
+  const second = createIdempotencyKey();
+  expect(first).not.toBe(second);
+  expect(parseIdempotencyKey(first)).toEqual({ key: first });
+  expect(parseIdempotencyKey(`${first}:2`)).toEqual({ key: `${first}:2` });
+});
+
+test('parseIdempotencyKey allows a missing key and rejects malformed ones', () => {
+  expect(parseIdempotencyKey(undefined)).toEqual({});
+  expect(parseIdempotencyKey('')).toEqual({});
+  expect(parseIdempotencyKey(['abcdefgh-1', 'other'])).toEqual({ key: 'abcdefgh-1' });
+  expect(parseIdempotencyKey('short').error).toBeDefined();
+  expect(parseIdempotencyKey('has spaces in it').error).toBeDefined();
+  expect(parseIdempotencyKey('x'.repeat(129)).error).toBeDefined();
+});
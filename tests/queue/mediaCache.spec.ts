@@ -0,0 +1,65 @@
+import { expect, test } from '@playwright/test';
+import type { QueueFileReference, QueueJob, QueueMediaAsset } from '@/lib/queueJob';
+import { buildMediaAssetCache, getReusableAssetIds, shouldReuploadAfterError } from '@/lib/queueMediaCache';
+
+const file = (itemIndex: number, fileIndex: number): QueueFileReference => ({
+  itemIndex,
+  fileIndex,
+  storagePath: `user/2026-03-01/job_abc/${itemIndex}_${fileIndex}_photo.jpg`,
+  originalName: 'photo.jpg',
+  mimeType: 'image/jpeg',
+  size: 1024,
+});
+
+const asset = (fileIndex: number, assetId: string): QueueMediaAsset => ({
+  fileIndex,
+  assetId,
+  url: `https://reddit-uploaded-media.s3-accelerate.amazonaws.com/${assetId}`,
+  uploadedAt: '2026-03-01T12:00:00.000Z',
+});
+
+const makeJob = (files: QueueFileReference[], mediaAssets: QueueMediaAsset[] = [], kind = 'image') =>
+  ({ id: 'job-1', items: [{ kind }, { kind }], file_paths: files, media_assets: mediaAssets }) as unknown as QueueJob;
+
+test('getReusableAssetIds returns cached assets in file order', () => {
+  const job = makeJob([file(-1, 0), file(-1, 1)], [asset(1, 'b'), asset(0, 'a')]);
+
+  expect(getReusableAssetIds(job, 2)).toEqual(['a', 'b']);
+});
+
+test('getReusableAssetIds waits until every shared file is cached', () => {
+  expect(getReusableAssetIds(makeJob([file(-1, 0), file(-1, 1)], [asset(0, 'a')]), 1)).toBeNull();
+  expect(getReusableAssetIds(makeJob([]), 0)).toBeNull();
+});
+
+test('items with their own files upload them', () => {
+  const job = makeJob([file(-1, 0), file(1, 0)], [asset(0, 'a')]);
+
+  expect(getReusableAssetIds(job, 1)).toBeNull();
+  expect(getReusableAssetIds(job, 0)).toEqual(['a']);
+  expect(buildMediaAssetCache(job, 1, ['x'])).toBeNull();
+});
+
+test('buildMediaAssetCache maps uploads onto the shared files', () => {
+  const job = makeJob([file(-1, 0), file(-1, 1)]);
+  const now = new Date('2026-03-01T12:00:00.000Z');
+
+  expect(buildMediaAssetCache(job, 0, ['a', 'b'], now)).toEqual([asset(0, 'a'), asset(1, 'b')]);
+  expect(buildMediaAssetCache(job, 0, ['a'], now)).toBeNull();
+});
+
+test('video assets are uploaded by every item', () => {
+  // Videos are submitted without validation, so a bad reused asset would never be caught
+  const video = { ...file(-1, 0), originalName: 'clip.mp4', mimeType: 'video/mp4' };
+
+  expect(getReusableAssetIds(makeJob([video], [asset(0, 'a')], 'video'), 1)).toBeNull();
+  expect(getReusableAssetIds(makeJob([file(-1, 0)], [asset(0, 'a')], 'video'), 1)).toBeNull();
+  expect(buildMediaAssetCache(makeJob([video], [], 'video'), 0, ['a'])).toBeNull();
+  expect(buildMediaAssetCache(makeJob([video]), 0, ['a'])).toBeNull();
+});
+
+test('shouldReuploadAfterError retries media and unexplained errors only', () => {
+  expect(shouldReuploadAfterError('Media upload failed - no media asset ID available')).toBe(true);
+  expect(shouldReuploadAfterError('Something odd happened')).toBe(true);
+  expect(shouldReuploadAfterError('SUBMIT_VALIDATION_FLAIR_REQUIRED: Your post must contain post flair')).toBe(false);
+});
@@ -0,0 +1,117 @@
+import { expect, test } from '@playwright/test';
+import {
+  applyPacing,
+  getItemWaitMs,
+  parsePacingInput,
+  planItemTimes,
+  shiftItemTimes,
+} from '@/lib/pacing';
+import type { QueueJobItem } from '@/lib/queueJob';
+
+const START = Date.parse('2026-03-01T12:00:00Z');
+const MINUTE = 60 * 1000;
+
+const items = (count: number): QueueJobItem[] =>
+  Array.from({ length: count }, (_, i) => ({ subreddit: `sub${i}`, kind: 'self' as const }));
+
+test('planItemTimes starts the first item at the start time', () => {
+  expect(planItemTimes({ mode: 'fixed', intervalMinutes: 15 }, 1, START)).toEqual([START]);
+  expect(planItemTimes({ mode: 'spread', hours: 6 }, 1, START)).toEqual([START]);
+});
+
+test('planItemTimes uses a fixed interval between items', () => {
+  expect(planItemTimes({ mode: 'fixed', intervalMinutes: 15 }, 3, START)).toEqual([
+    START,
+    START + 15 * MINUTE,
+    START + 30 * MINUTE,
+  ]);
+});
+
+test('planItemTimes picks random gaps inside the window', () => {
+  const gaps = [0, 0.5, 1];
+  let call = 0;
+  const times = planItemTimes(
+    { mode: 'random', minMinutes: 10, maxMinutes: 30 },
+    4,
+    START,
+    () => gaps[call++]
+  );
+  expect(times).toEqual([
+    START,
+    START + 10 * MINUTE,
+    START + 30 * MINUTE,
+    START + 60 * MINUTE,
+  ]);
+});
+
+test('planItemTimes spreads items evenly ending at the last hour', () => {
+  const times = planItemTimes({ mode: 'spread', hours: 6 }, 4, START);
+  expect(times).toEqual([
+    START,
+    START + 120 * MINUTE,
+    START + 240 * MINUTE,
+    START + 360 * MINUTE,
+  ]);
+});
+
+test('applyPacing and shiftItemTimes stamp and move planned times', () => {
+  const paced = applyPacing(items(2), { mode: 'fixed', intervalMinutes: 30 }, START);
+  expect(paced.map(item => item.notBefore)).toEqual([
+    '2026-03-01T12:00:00.000Z',
+    '2026-03-01T12:30:00.000Z',
+  ]);
+
+  const shifted = shiftItemTimes(paced, 60 * MINUTE);
+  expect(shifted.map(item => item.notBefore)).toEqual([
+    '2026-03-01T13:00:00.000Z',
+    '2026-03-01T13:30:00.000Z',
+  ]);
+});
+
+test('shiftItemTimes leaves items before fromIndex alone (resume after pause)', () => {
+  const paced = applyPacing(items(3), { mode: 'fixed', intervalMinutes: 30 }, START);
+  const resumed = shiftItemTimes(paced, 10 * MINUTE, 1);
+  expect(resumed.map(item => item.notBefore)).toEqual([
+    '2026-03-01T12:00:00.000Z',
+    '2026-03-01T12:40:00.000Z',
+    '2026-03-01T13:10:00.000Z',
+  ]);
+});
+
+test('getItemWaitMs is zero for unpaced and due items', () => {
+  expect(getItemWaitMs({ subreddit: 'a', kind: 'self' }, START)).toBe(0);
+  expect(getItemWaitMs({ subreddit: 'a', kind: 'self', notBefore: '2026-03-01T11:00:00Z' }, START)).toBe(0);
+  expect(getItemWaitMs({ subreddit: 'a', kind: 'self', notBefore: '2026-03-01T12:05:00Z' }, START)).toBe(5 * MINUTE);
+});
+
+test('getItemWaitMs waits for the later of the planned and retry times', () => {
+  const item: QueueJobItem = {
+    subreddit: 'a',
+    kind: 'self',
+    notBefore: '2026-03-01T12:05:00Z',
+    retryAt: '2026-03-01T12:09:00Z',
+  };
+  expect(getItemWaitMs(item, START)).toBe(9 * MINUTE);
+  expect(getItemWaitMs({ ...item, notBefore: '2026-03-01T12:20:00Z' }, START)).toBe(20 * MINUTE);
+});
+
+test('parsePacingInput returns no pacing when none is requested', () => {
+  expect(parsePacingInput(undefined, 5)).toEqual({});
+  expect(parsePacingInput(null, 5)).toEqual({});
+});
+
+test('parsePacingInput validates each mode', () => {
+  expect(parsePacingInput({ mode: 'fixed', intervalMinutes: 15 }, 5)).toEqual({
+    pacing: { mode: 'fixed', intervalMinutes: 15 },
+  });
+  expect(parsePacingInput({ mode: 'fixed', intervalMinutes: 0 }, 5).error).toContain('at least');
+  expect(parsePacingInput({ mode: 'random', minMinutes: 30, maxMinutes: 10 }, 5).error).toContain('Maximum gap');
+  expect(parsePacingInput({ mode: 'spread', hours: 'six' }, 5).error).toContain('positive');
+  expect(parsePacingInput({ mode: 'burst' }, 5).error).toContain('fixed, random or spread');
+});
+
+test('parsePacingInput rejects policies that run too long or too tight', () => {
+  expect(parsePacingInput({ mode: 'fixed', intervalMinutes: 600 }, 10).error).toContain('within');
+  expect(parsePacingInput({ mode: 'spread', hours: 100 }, 3).error).toContain('within');
+  expect(parsePacingInput({ mode: 'spread', hours: 0.5 }, 100).error).toContain('too short');
+});
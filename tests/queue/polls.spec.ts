@@ -0,0 +1,102 @@
+import { expect, test } from '@playwright/test';
+import { cleanPoll, getPollError, parsePoll } from '@/lib/pollPost';
+import { getEligibilityForSubreddit, validatePreflight, type PreflightInput } from '@/lib/preflightValidation';
+import type { SubredditEligibility } from '@/utils/reddit';
+
+const pollInput = (overrides: Partial<PreflightInput> = {}): PreflightInput => ({
+  title: 'Best editor?',
+  kind: 'poll',
+  subreddits: ['vim', 'emacs'],
+  flairValue: {},
+  flairRequired: {},
+  flairOptions: {},
+  postRequirements: {},
+  poll: { options: ['Vim', 'Emacs'], durationDays: 3 },
+  ...overrides,
+});
+
+const pollCodes = (input: PreflightInput) =>
+  validatePreflight(input).issues.filter(issue => issue.field === 'poll').map(issue => issue.code);
+
+const eligibility = (overrides: Partial<SubredditEligibility> = {}): SubredditEligibility => ({
+  subreddit: 'vim',
+  subredditType: 'public',
+  restrictPosting: false,
+  submissionType: 'any',
+  allowImages: true,
+  allowVideos: true,
+  allowGifs: true,
+  userIsBanned: false,
+  userIsSubscriber: true,
+  userIsModerator: false,
+  ...overrides,
+});
+
+test('cleanPoll trims options and drops empty ones', () => {
+  expect(cleanPoll({ options: [' Vim ', '', '  ', 'Emacs'], durationDays: 2 })).toEqual({
+    options: ['Vim', 'Emacs'],
+    durationDays: 2,
+  });
+});
+
+test('getPollError checks option count, length, duplicates and duration', () => {
+  expect(getPollError({ options: ['Vim', 'Emacs'], durationDays: 3 })).toBeNull();
+  expect(getPollError({ options: ['Vim'], durationDays: 3 })).toBe('Polls need at least 2 options');
+  expect(getPollError({ options: ['1', '2', '3', '4', '5', '6', '7'], durationDays: 3 })).toBe(
+    'Polls can have at most 6 options'
+  );
+  expect(getPollError({ options: ['Vim', 'x'.repeat(121)], durationDays: 3 })).toBe(
+    'Option 2 is longer than 120 characters'
+  );
+  expect(getPollError({ options: ['Vim', 'vim'], durationDays: 3 })).toBe('"vim" is listed twice');
+  expect(getPollError({ options: ['Vim', 'Emacs'], durationDays: 8 })).toBe('Poll duration must be 1-7 days');
+  expect(getPollError({ options: ['Vim', 'Emacs'], durationDays: 1.5 })).toBe('Poll duration must be 1-7 days');
+});
+
+test('parsePoll requires a poll on poll items only', () => {
+  expect(parsePoll('poll', { options: [' Vim', 'Emacs', ''], durationDays: 5 })).toEqual({
+    poll: { options: ['Vim', 'Emacs'], durationDays: 5 },
+  });
+  expect(parsePoll('poll', undefined)).toEqual({ error: 'Poll posts need options and a duration' });
+  expect(parsePoll('poll', { options: ['Vim', 2], durationDays: 5 })).toEqual({
+    error: 'Poll options must be a list of text',
+  });
+  expect(parsePoll('poll', { options: ['Vim', 'Emacs'], durationDays: '5' })).toEqual({
+    error: 'Poll duration must be a number of days',
+  });
+  expect(parsePoll('poll', { options: ['Vim', ' '], durationDays: 5 })).toEqual({
+    error: 'Polls need at least 2 options',
+  });
+  expect(parsePoll('self', undefined)).toEqual({});
+  expect(parsePoll('self', { options: ['Vim', 'Emacs'], durationDays: 5 })).toEqual({
+    error: 'Only poll posts can have poll options',
+  });
+});
+
+test('preflight blocks invalid polls and communities without polls', () => {
+  expect(pollCodes(pollInput())).toEqual([]);
+  expect(pollCodes(pollInput({ poll: { options: ['Vim', ''], durationDays: 3 } }))).toEqual(['POLL_INVALID']);
+
+  const result = validatePreflight(pollInput({ allowPolls: { vim: true, emacs: false } }));
+  expect(result.canProceed).toBe(false);
+  expect(result.blockingErrors.map(issue => issue.message)).toEqual([
+    "r/emacs: This community doesn't allow polls",
+  ]);
+
+  expect(pollCodes(pollInput({ kind: 'self', allowPolls: { emacs: false } }))).toEqual([]);
+});
+
+test('eligibility blocks polls where they are not allowed', () => {
+  expect(getEligibilityForSubreddit('vim', eligibility(), undefined, 'poll').status).toBe('ready');
+  expect(getEligibilityForSubreddit('vim', eligibility({ allowPolls: false }), undefined, 'poll')).toMatchObject({
+    status: 'blocked',
+    reasons: ["r/vim doesn't allow polls"],
+  });
+  expect(getEligibilityForSubreddit('vim', eligibility({ submissionType: 'link' }), undefined, 'poll')).toMatchObject({
+    status: 'blocked',
+    reasons: ['r/vim only allows link posts'],
+  });
+  expect(getEligibilityForSubreddit('vim', eligibility({ submissionType: 'self' }), undefined, 'poll').status).toBe(
+    'ready'
+  );
+});
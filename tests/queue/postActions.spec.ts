@@ -0,0 +1,80 @@
+import { expect, test } from '@playwright/test';
+import {
+  getPostActionSkipReason,
+  getPostActionTargets,
+  hasRedditScope,
+  parsePostActionInput,
+} from '@/lib/postActions';
+import type { QueueJob } from '@/lib/queueJob';
+
+const job: Pick<QueueJob, 'items' | 'results' | 'dry_run'> = {
+  dry_run: false,
+  items: [
+    { subreddit: 'pics', kind: 'self', text: 'Body' },
+    { subreddit: 'Cats', kind: 'self', text: 'Body' },
+    { subreddit: 'aww', kind: 'image' },
+    { subreddit: 'u_me', kind: 'self', text: 'Body' },
+    { subreddit: 'dogs', kind: 'self', text: 'Body' },
+  ],
+  results: [
+    { index: 3, subreddit: 'u_me', status: 'success', postId: 'p3', url: 'https://reddit.com/user/me/comments/p3/' },
+    { index: 0, subreddit: 'pics', status: 'success', postId: 'p0', url: 'https://reddit.com/r/pics/comments/p0/' },
+    { index: 1, subreddit: 'Cats', status: 'success', url: 'https://reddit.com/r/Cats/comments/p1/x/',
+      crosspostOf: { index: 0, subreddit: 'pics', postId: 'p0' } },
+    { index: 2, subreddit: 'aww', status: 'error', error: 'Flair required' },
+    { index: 4, subreddit: 'dogs', status: 'success', postId: 'p4',
+      postCheck: { state: 'deleted', checkedAt: '2026-03-10T12:00:00.000Z' } },
+  ],
+};
+
+test('parsePostActionInput validates each action', () => {
+  expect(parsePostActionInput({ action: 'edit', text: 'Fixed', indexes: [0, 2] })).toEqual({
+    action: { action: 'edit', text: 'Fixed', indexes: [0, 2] },
+  });
+  expect(parsePostActionInput({ action: 'delete' })).toEqual({ action: { action: 'delete' } });
+  expect(parsePostActionInput({ action: 'spoiler', value: false })).toEqual({
+    action: { action: 'spoiler', value: false },
+  });
+  expect(parsePostActionInput({ action: 'flair', flairs: { 'r/Pics': { flairId: 'f1', flairText: ' OC ' } } })).toEqual({
+    action: { action: 'flair', flairs: { pics: { flairId: 'f1', flairText: 'OC' } } },
+  });
+
+  expect(parsePostActionInput(null).error).toBe('Action required');
+  expect(parsePostActionInput({ action: 'lock' }).error).toContain('Action must be one of');
+  expect(parsePostActionInput({ action: 'edit' }).error).toBe('Text required');
+  expect(parsePostActionInput({ action: 'edit', text: 'x'.repeat(40001) }).error).toContain('at most 40000');
+  expect(parsePostActionInput({ action: 'nsfw', value: 'yes' }).error).toBe('value must be true or false');
+  expect(parsePostActionInput({ action: 'flair', flairs: {} }).error).toBe('Flairs required');
+  expect(parsePostActionInput({ action: 'flair', flairs: { pics: {} } }).error).toBe('Flair of r/pics required');
+  expect(parsePostActionInput({ action: 'delete', indexes: [-1] }).error).toContain('indexes');
+});
+
+test('getPostActionTargets lists the posted copies that are still up', () => {
+  expect(getPostActionTargets(job)).toEqual([
+    { index: 0, subreddit: 'pics', kind: 'self', postId: 'p0', url: 'https://reddit.com/r/pics/comments/p0/', crosspost: false },
+    { index: 1, subreddit: 'Cats', kind: 'self', postId: 'p1', url: 'https://reddit.com/r/Cats/comments/p1/x/', crosspost: true },
+    { index: 3, subreddit: 'u_me', kind: 'self', postId: 'p3', url: 'https://reddit.com/user/me/comments/p3/', crosspost: false },
+  ]);
+  expect(getPostActionTargets({ ...job, dry_run: true })).toEqual([]);
+});
+
+test('getPostActionSkipReason explains copies an action does not apply to', () => {
+  const [pics, cats, profile] = getPostActionTargets(job);
+  const image = { ...pics, kind: 'image' as const };
+
+  expect(getPostActionSkipReason(pics, { action: 'edit', text: 'x' })).toBeNull();
+  expect(getPostActionSkipReason(cats, { action: 'edit', text: 'x' })).toBe('Crossposts have no text of their own');
+  expect(getPostActionSkipReason(image, { action: 'edit', text: 'x' })).toBe('Only text posts can be edited');
+  expect(getPostActionSkipReason(image, { action: 'delete' })).toBeNull();
+
+  const flair = { action: 'flair' as const, flairs: { cats: { flairId: 'f1' } } };
+  expect(getPostActionSkipReason(cats, flair)).toBeNull();
+  expect(getPostActionSkipReason(pics, flair)).toBe('No flair picked');
+  expect(getPostActionSkipReason(profile, flair)).toBe('Profile posts have no flair');
+});
+
+test('hasRedditScope checks the granted scopes', () => {
+  expect(hasRedditScope('identity submit edit flair', 'edit')).toBe(true);
+  expect(hasRedditScope('identity submit flair', 'modposts')).toBe(false);
+  expect(hasRedditScope(undefined, 'edit')).toBe(false);
+});
@@ -0,0 +1,65 @@
+import { expect, test } from '@playwright/test';
+import {
+  buildPostCheck,
+  describePostRemoval,
+  getNextPostCheckAt,
+  getPostState,
+  isRemovedAfterPosting,
+} from '@/lib/postCheck';
+
+const POSTED_AT = '2026-03-01T12:00:00.000Z';
+const CHECKED_AT = '2026-03-01T12:05:00.000Z';
+
+const live = { removed_by_category: null, removal_reason: null, spam: false, locked: false };
+
+test('posts are checked 5 minutes, 1 hour and 24 hours after posting', () => {
+  expect(getNextPostCheckAt(POSTED_AT, 0)).toBe('2026-03-01T12:05:00.000Z');
+  expect(getNextPostCheckAt(POSTED_AT, 1)).toBe('2026-03-01T13:00:00.000Z');
+  expect(getNextPostCheckAt(POSTED_AT, 2)).toBe('2026-03-02T12:00:00.000Z');
+  expect(getNextPostCheckAt(POSTED_AT, 3)).toBeNull();
+});
+
+test('getPostState reads removals, the spam filter and deletions', () => {
+  expect(getPostState(live)).toBe('live');
+  expect(getPostState({ ...live, removed_by_category: 'automod_filtered' })).toBe('removed');
+  expect(getPostState({ ...live, removed_by_category: 'moderator' })).toBe('removed');
+  expect(getPostState({ ...live, removed_by_category: 'reddit' })).toBe('spam');
+  expect(getPostState({ ...live, spam: true })).toBe('spam');
+  expect(getPostState({ ...live, removed_by_category: 'deleted' })).toBe('deleted');
+  expect(getPostState(null)).toBe('deleted');
+});
+
+test('buildPostCheck keeps when the post was first found removed', () => {
+  expect(buildPostCheck({ ...live, locked: true }, CHECKED_AT)).toEqual({
+    state: 'live',
+    locked: true,
+    checkedAt: CHECKED_AT,
+  });
+
+  const removed = { ...live, removed_by_category: 'automod_filtered', removal_reason: 'Account too new' };
+  expect(buildPostCheck(removed, CHECKED_AT)).toEqual({
+    state: 'removed',
+    removedByCategory: 'automod_filtered',
+    removalReason: 'Account too new',
+    checkedAt: CHECKED_AT,
+    removedAt: CHECKED_AT,
+  });
+  expect(buildPostCheck(removed, '2026-03-01T13:00:00.000Z', { removedAt: CHECKED_AT }).removedAt).toBe(CHECKED_AT);
+});
+
+test('describePostRemoval names who removed the post and why', () => {
+  const check = (overrides: Partial<Parameters<typeof describePostRemoval>[0] & object>) =>
+    describePostRemoval({ state: 'removed', ...overrides });
+
+  expect(check({ removedByCategory: 'automod_filtered', removalReason: 'Account too new' }))
+    .toBe('Removed by AutoModerator: Account too new');
+  expect(check({ removedByCategory: 'moderator' })).toBe('Removed by the moderators');
+  expect(check({ removedByCategory: 'something_new' })).toBe('Removed after posting');
+  expect(check({ state: 'spam', removedByCategory: 'reddit' })).toBe("Removed by Reddit's spam filter");
+  expect(check({ state: 'deleted', removedByCategory: 'author' })).toBe('Deleted by you');
+  expect(check({ state: 'live' })).toBeNull();
+
+  expect(isRemovedAfterPosting({ state: 'spam' })).toBe(true);
+  expect(isRemovedAfterPosting({ state: 'deleted' })).toBe(false);
+  expect(isRemovedAfterPosting(undefined)).toBe(false);
+});
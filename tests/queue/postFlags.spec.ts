@@ -0,0 +1,58 @@
+import { expect, test } from '@playwright/test';
+import {
+  applySubredditFlagDefaults,
+  mergePostFlags,
+  parsePostFlags,
+  resolveSubmitFlags,
+} from '@/lib/postFlags';
+
+test('mergePostFlags lets per-subreddit overrides win', () => {
+  expect(mergePostFlags({ spoiler: true, sendReplies: false }, { spoiler: false, originalContent: true })).toEqual({
+    spoiler: false,
+    sendReplies: false,
+    originalContent: true,
+  });
+});
+
+test('mergePostFlags leaves NSFW to the subreddit unless it is turned on or overridden', () => {
+  expect(mergePostFlags({ nsfw: false })).toEqual({});
+  expect(mergePostFlags({ nsfw: true })).toEqual({ nsfw: true });
+  expect(mergePostFlags({ nsfw: false }, { nsfw: false })).toEqual({ nsfw: false });
+});
+
+test('resolveSubmitFlags sends replies unless turned off', () => {
+  expect(resolveSubmitFlags({})).toEqual({ nsfw: false, spoiler: false, sendReplies: true, originalContent: false });
+  expect(resolveSubmitFlags({ nsfw: true, sendReplies: false })).toEqual({
+    nsfw: true,
+    spoiler: false,
+    sendReplies: false,
+    originalContent: false,
+  });
+});
+
+test('parsePostFlags keeps booleans and rejects anything else', () => {
+  expect(parsePostFlags({ subreddit: 'pics', nsfw: true, spoiler: null })).toEqual({ flags: { nsfw: true } });
+  expect(parsePostFlags({ sendReplies: 'false' })).toEqual({ error: 'sendReplies must be true or false' });
+});
+
+test('applySubredditFlagDefaults follows over_18 and drops OC where it is turned off', () => {
+  const items = applySubredditFlagDefaults(
+    [
+      { subreddit: 'NSFWArt', originalContent: true },
+      { subreddit: 'NSFWArt', nsfw: false },
+      { subreddit: 'pics', originalContent: true },
+      { subreddit: 'unknown', originalContent: true },
+    ],
+    {
+      nsfwart: { over18: true, allowOriginalContent: true },
+      pics: { over18: false, allowOriginalContent: false },
+    }
+  );
+
+  expect(items).toEqual([
+    { subreddit: 'NSFWArt', nsfw: true, originalContent: true },
+    { subreddit: 'NSFWArt', nsfw: false },
+    { subreddit: 'pics', nsfw: false },
+    { subreddit: 'unknown', originalContent: true },
+  ]);
+});
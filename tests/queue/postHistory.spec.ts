@@ -0,0 +1,154 @@
+import { expect, test } from '@playwright/test';
+import {
+  buildComposerDraft,
+  parseHistoryFilters,
+  toHistoryEntry,
+  type HistoryJob,
+  type HistoryPostLog,
+} from '@/lib/postHistory';
+import type { QueueJobItem } from '@/lib/queueJob';
+
+const item = (subreddit: string, extra: Partial<QueueJobItem> = {}): QueueJobItem => ({
+  subreddit,
+  kind: 'self',
+  text: 'Body',
+  ...extra,
+});
+
+const job = (items: QueueJobItem[], extra: Partial<HistoryJob> = {}): HistoryJob => ({
+  id: 'job-1',
+  caption: 'My post',
+  status: 'completed',
+  created_at: '2026-03-10T12:00:00.000Z',
+  dry_run: false,
+  items,
+  results: [],
+  ...extra,
+});
+
+test('parseHistoryFilters validates each filter', () => {
+  expect(parseHistoryFilters({})).toEqual({ filters: {} });
+  expect(parseHistoryFilters({
+    q: '  cats ',
+    subreddit: 'r/Pics',
+    status: 'not_posted',
+    kind: 'gallery',
+    from: '2026-03-01',
+    to: '2026-03-10',
+  })).toEqual({
+    filters: { q: 'cats', subreddit: 'pics', status: 'not_posted', kind: 'gallery', from: '2026-03-01', to: '2026-03-10' },
+  });
+
+  expect(parseHistoryFilters({ q: ['a', 'b'] }).error).toBe('q must be given once');
+  expect(parseHistoryFilters({ status: 'posted' }).error).toContain('status must be one of');
+  expect(parseHistoryFilters({ kind: 'story' }).error).toContain('kind must be one of');
+  expect(parseHistoryFilters({ from: '03/01/2026' }).error).toContain('YYYY-MM-DD');
+  expect(parseHistoryFilters({ from: '2026-03-10', to: '2026-03-01' }).error).toBe('from must not be after to');
+  expect(parseHistoryFilters({ q: 'x'.repeat(201) }).error).toContain('at most 200');
+});
+
+test('toHistoryEntry merges results and post logs and narrows to the filters', () => {
+  const history = job(
+    [item('pics', { kind: 'image' }), item('Cats'), item('aww', { kind: 'link', url: 'https://example.com' })],
+    {
+      status: 'cancelled',
+      results: [
+        { index: 0, subreddit: 'pics', status: 'success', url: 'https://reddit.com/r/pics/1', postedAt: '2026-03-10T12:01:00.000Z' },
+        { index: 1, subreddit: 'Cats', status: 'error', error: 'Flair required' },
+      ],
+    }
+  );
+  const logs: HistoryPostLog[] = [
+    { job_id: 'job-1', result_index: 0, reddit_post_url: null, post_state: 'removed', score: 12, num_comments: 3 },
+    { job_id: 'job-2', result_index: 1, reddit_post_url: 'https://reddit.com/x', post_state: null, score: 99, num_comments: 0 },
+  ];
+
+  const entry = toHistoryEntry(history, logs);
+  expect(entry?.subreddits).toEqual(['pics', 'Cats', 'aww']);
+  expect(entry?.posts).toEqual([
+    {
+      index: 0,
+      subreddit: 'pics',
+      kind: 'image',
+      status: 'success',
+      url: 'https://reddit.com/r/pics/1',
+      postedAt: '2026-03-10T12:01:00.000Z',
+      postState: 'removed',
+      score: 12,
+      comments: 3,
+    },
+    { index: 1, subreddit: 'Cats', kind: 'self', status: 'error', error: 'Flair required' },
+    { index: 2, subreddit: 'aww', kind: 'link', status: 'not_posted' },
+  ]);
+
+  expect(toHistoryEntry(history, logs, { subreddit: 'cats' })?.posts.map(p => p.index)).toEqual([1]);
+  expect(toHistoryEntry(history, logs, { status: 'not_posted', kind: 'link' })?.posts.map(p => p.index)).toEqual([2]);
+  expect(toHistoryEntry(history, logs, { status: 'skipped' })).toBeNull();
+});
+
+test('buildComposerDraft keeps what most items share and overrides the rest', () => {
+  const draft = buildComposerDraft({
+    caption: 'My post',
+    prefixes: { f: true },
+    crosspost: false,
+    items: [
+      item('pics', { flairId: 'f1', titleSuffix: '(OC)', nsfw: true }),
+      item('Cats', { flairId: 'f2', flairText: 'Tabby', nsfw: true }),
+      item('aww', { text: 'Other body', customTitle: 'Look', nsfw: false, sendReplies: false }),
+      item('u_me', { nsfw: true }),
+    ],
+  });
+
+  expect(draft).toMatchObject({
+    caption: 'My post',
+    body: 'Body',
+    prefixes: { f: true, c: false },
+    postFlags: { nsfw: true },
+    mediaType: 'image',
+    subreddits: ['pics', 'Cats', 'aww'],
+    postToProfile: true,
+    flairs: { pics: 'f1', cats: 'f2' },
+    flairTexts: { cats: 'Tabby' },
+    titleSuffixes: { pics: '(OC)' },
+    missingMedia: null,
+  });
+  expect(draft.contentOverrides).toEqual({
+    aww: { title: 'Look', body: 'Other body', flags: { nsfw: false, sendReplies: false } },
+  });
+});
+
+test('buildComposerDraft posts to a different selection and flags missing media', () => {
+  const draft = buildComposerDraft(
+    {
+      caption: 'Gallery',
+      prefixes: {},
+      crosspost: false,
+      items: [
+        item('pics', { kind: 'gallery', text: undefined }),
+        item('Cats', { kind: 'gallery', text: undefined }),
+        item('aww', { kind: 'gallery', text: undefined }),
+      ],
+    },
+    ['cats', 'aww']
+  );
+
+  expect(draft.subreddits).toEqual(['Cats', 'aww']);
+  expect(draft.postToProfile).toBe(false);
+  expect(draft.missingMedia).toBe('gallery');
+
+  const link = buildComposerDraft({
+    caption: 'Link',
+    prefixes: {},
+    crosspost: false,
+    items: [item('pics', { kind: 'link', url: 'https://example.com', text: undefined })],
+  });
+  expect(link).toMatchObject({ mediaType: 'url', mediaUrl: 'https://example.com', missingMedia: null });
+
+  const selfWithCaption = buildComposerDraft({
+    caption: 'Only a title',
+    prefixes: {},
+    crosspost: false,
+    items: [item('pics', { text: 'Only a title' })],
+  });
+  expect(selfWithCaption.body).toBe('');
+});
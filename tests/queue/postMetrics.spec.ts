@@ -0,0 +1,96 @@
+import { expect, test } from '@playwright/test';
+import {
+  getNextMetricsSampleAt,
+  getSparklinePoints,
+  summarizeByJob,
+  summarizeBySubreddit,
+  summarizePostMetrics,
+  type PostMetricsSeries,
+  type PostMetricsSnapshot,
+} from '@/lib/postMetrics';
+
+const POSTED_AT = '2026-03-01T12:00:00.000Z';
+
+const snapshot = (score: number, minutes: number, comments = 0, upvoteRatio = 1): PostMetricsSnapshot => ({
+  score,
+  comments,
+  upvoteRatio,
+  sampledAt: new Date(Date.parse(POSTED_AT) + minutes * 60 * 1000).toISOString(),
+});
+
+const series = (
+  subreddit: string,
+  snapshots: PostMetricsSnapshot[],
+  jobId: string | null = 'job-1'
+): PostMetricsSeries => ({
+  id: `${subreddit}-${snapshots.length}`,
+  subreddit,
+  postId: 'abc123',
+  url: null,
+  jobId,
+  resultIndex: 0,
+  postedAt: POSTED_AT,
+  snapshots,
+});
+
+test('posts are sampled from 15 minutes to 7 days after posting', () => {
+  expect(getNextMetricsSampleAt(POSTED_AT, 0)).toBe('2026-03-01T12:15:00.000Z');
+  expect(getNextMetricsSampleAt(POSTED_AT, 5)).toBe('2026-03-02T12:00:00.000Z');
+  expect(getNextMetricsSampleAt(POSTED_AT, 8)).toBe('2026-03-08T12:00:00.000Z');
+  expect(getNextMetricsSampleAt(POSTED_AT, 9)).toBeNull();
+});
+
+test('summarizePostMetrics aggregates the latest sample of each post', () => {
+  expect(summarizePostMetrics([
+    series('pics', [snapshot(1, 15), snapshot(10, 60, 4, 0.9)]),
+    series('pics', [snapshot(3, 15, 1, 0.8)]),
+    series('aww', [snapshot(40, 15, 7, 0.95)]),
+    series('aww', []),
+  ])).toEqual({
+    posts: 4,
+    sampled: 3,
+    totalScore: 53,
+    averageScore: 17.7,
+    medianScore: 10,
+    totalComments: 12,
+    averageComments: 4,
+    averageUpvoteRatio: 0.88,
+  });
+
+  expect(summarizePostMetrics([series('pics', [])])).toEqual({
+    posts: 1,
+    sampled: 0,
+    totalScore: 0,
+    averageScore: 0,
+    medianScore: 0,
+    totalComments: 0,
+    averageComments: 0,
+    averageUpvoteRatio: null,
+  });
+});
+
+test('aggregates group by subreddit (best first) and by job', () => {
+  const posts = [
+    series('pics', [snapshot(2, 15)]),
+    series('Aww', [snapshot(30, 15)], 'job-2'),
+    series('aww', [snapshot(10, 15)], 'job-2'),
+    series('cats', []),
+    series('pics', [snapshot(4, 15)], null),
+  ];
+
+  expect(summarizeBySubreddit(posts).map(row => [row.subreddit, row.posts, row.averageScore])).toEqual([
+    ['Aww', 2, 20],
+    ['pics', 2, 3],
+    ['cats', 1, 0],
+  ]);
+  expect(summarizeByJob(posts).map(row => [row.jobId, row.posts, row.totalScore])).toEqual([
+    ['job-1', 2, 2],
+    ['job-2', 2, 40],
+  ]);
+});
+
+test('getSparklinePoints scales scores over time since posting', () => {
+  expect(getSparklinePoints([snapshot(5, 15)], 60, 10)).toBe('');
+  expect(getSparklinePoints([snapshot(0, 15), snapshot(10, 60)], 60, 10, POSTED_AT)).toBe('15,10 60,0');
+  expect(getSparklinePoints([snapshot(3, 0), snapshot(3, 60)], 60, 10)).toBe('0,5 60,5');
+});
@@ -0,0 +1,136 @@
+import { expect, test } from '@playwright/test';
+import {
+  applyItemEdit,
+  buildMoveEdit,
+  parseItemEditInput,
+  planItemRetry,
+  requeueItem,
+} from '@/lib/queueItems';
+import { parseRetryAfterMs } from '@/lib/errorClassification';
+import type { QueueFileReference, QueueJobItem } from '@/lib/queueJob';
+
+const item = (subreddit: string, notBefore?: string): QueueJobItem => ({
+  subreddit,
+  kind: 'image',
+  ...(notBefore ? { notBefore } : {}),
+});
+
+const file = (itemIndex: number): QueueFileReference => ({
+  itemIndex,
+  fileIndex: 0,
+  storagePath: `user/job/${itemIndex}.png`,
+  originalName: `${itemIndex}.png`,
+  mimeType: 'image/png',
+  size: 1,
+});
+
+// sub0 is already posted; sub1..sub3 are still to go
+const job = {
+  items: [item('sub0'), item('sub1'), item('sub2'), item('sub3')],
+  file_paths: [file(-1), file(0), file(1), file(3)],
+  current_index: 1,
+};
+
+test('parseItemEditInput validates the action and indices', () => {
+  expect(parseItemEditInput({ action: 'skip', index: 2 })).toEqual({ edit: { action: 'skip', index: 2 } });
+  expect(parseItemEditInput({ action: 'reorder', order: [3, 1, 2] })).toEqual({
+    edit: { action: 'reorder', order: [3, 1, 2] },
+  });
+  expect(parseItemEditInput({ action: 'remove', index: -1 }).error).toContain('index');
+  expect(parseItemEditInput({ action: 'reorder', order: [1.5] }).error).toContain('indices');
+  expect(parseItemEditInput({ action: 'move' }).error).toContain('skip, unskip, remove or reorder');
+  expect(parseItemEditInput(null).error).toBeDefined();
+});
+
+test('applyItemEdit refuses to touch posted items', () => {
+  expect(applyItemEdit(job, { action: 'skip', index: 0 }).error).toContain('already been posted');
+  expect(applyItemEdit(job, { action: 'remove', index: 9 }).error).toContain('not found');
+  expect(applyItemEdit(job, { action: 'reorder', order: [0, 1, 2, 3] }).error).toContain('every post');
+  expect(applyItemEdit(job, { action: 'reorder', order: [1, 1, 2] }).error).toContain('every post');
+});
+
+test('applyItemEdit marks and unmarks skipped items', () => {
+  const skipped = applyItemEdit(job, { action: 'skip', index: 2 });
+  expect(skipped.items?.map(i => !!i.skipped)).toEqual([false, false, true, false]);
+  expect(skipped.filePaths).toEqual(job.file_paths);
+
+  const unskipped = applyItemEdit({ ...job, items: skipped.items! }, { action: 'unskip', index: 2 });
+  expect(unskipped.items?.[2]).toEqual(item('sub2'));
+});
+
+test('applyItemEdit removes an item and shifts file indices', () => {
+  const { items, filePaths } = applyItemEdit(job, { action: 'remove', index: 1 });
+  expect(items?.map(i => i.subreddit)).toEqual(['sub0', 'sub2', 'sub3']);
+  expect(filePaths?.map(f => f.itemIndex)).toEqual([-1, 0, 2]);
+  expect(filePaths?.[2].storagePath).toBe('user/job/3.png');
+});
+
+test('applyItemEdit keeps the last remaining item', () => {
+  const almostDone = { ...job, current_index: 3 };
+  expect(applyItemEdit(almostDone, { action: 'remove', index: 3 }).error).toContain('cancel the job');
+});
+
+test('applyItemEdit reorders remaining items with their files, keeping slot times', () => {
+  const paced = {
+    ...job,
+    items: [
+      item('sub0', '2026-03-01T12:00:00.000Z'),
+      item('sub1', '2026-03-01T12:30:00.000Z'),
+      item('sub2', '2026-03-01T13:00:00.000Z'),
+      item('sub3', '2026-03-01T13:30:00.000Z'),
+    ],
+  };
+  const { items, filePaths } = applyItemEdit(paced, { action: 'reorder', order: [3, 1, 2] });
+  expect(items?.map(i => i.subreddit)).toEqual(['sub0', 'sub3', 'sub1', 'sub2']);
+  expect(items?.map(i => i.notBefore)).toEqual(paced.items.map(i => i.notBefore));
+  expect(filePaths?.map(f => [f.itemIndex, f.storagePath])).toEqual([
+    [-1, 'user/job/-1.png'],
+    [0, 'user/job/0.png'],
+    [2, 'user/job/1.png'],
+    [1, 'user/job/3.png'],
+  ]);
+});
+
+test('buildMoveEdit swaps neighbours inside the remaining items', () => {
+  expect(buildMoveEdit(4, 1, 2, -1)).toEqual({ action: 'reorder', order: [2, 1, 3] });
+  expect(buildMoveEdit(4, 1, 3, 1)).toBeNull();
+  expect(buildMoveEdit(4, 1, 1, -1)).toBeNull();
+  expect(buildMoveEdit(4, 1, 0, 1)).toBeNull();
+});
+
+const RATE_LIMIT = 'RATELIMIT: Looks like you\'ve been doing that a lot. Take a break for 9 minutes before trying again.: ratelimit';
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+test('parseRetryAfterMs reads the wait from Reddit rate-limit messages', () => {
+  expect(parseRetryAfterMs(RATE_LIMIT)).toBe(9 * 60 * 1000);
+  expect(parseRetryAfterMs('you are doing that too much. try again in 54 seconds.')).toBe(54 * 1000);
+  expect(parseRetryAfterMs('try again in a minute')).toBe(60 * 1000);
+  expect(parseRetryAfterMs('RATELIMIT: slow down')).toBeNull();
+});
+
+test('planItemRetry reschedules rate-limited items and records the attempt', () => {
+  const retry = planItemRetry(item('sub1'), RATE_LIMIT, 3, NOW);
+  expect(retry?.retryAt).toBe('2026-03-01T12:09:15.000Z');
+  expect(retry?.attempts).toEqual([
+    { error: RATE_LIMIT, at: '2026-03-01T12:00:00.000Z', retryAt: '2026-03-01T12:09:15.000Z' },
+  ]);
+  expect(planItemRetry(retry!, RATE_LIMIT, 3, NOW)?.attempts).toHaveLength(2);
+  expect(planItemRetry({ ...item('sub1'), postingAt: '2026-03-01T11:59:58Z' }, RATE_LIMIT, 3, NOW)?.postingAt)
+    .toBeUndefined();
+});
+
+test('planItemRetry gives up on other errors, used-up attempts and long waits', () => {
+  expect(planItemRetry(item('sub1'), 'SUBMIT_VALIDATION_FLAIR_REQUIRED: flair required', 3, NOW)).toBeNull();
+  expect(planItemRetry(item('sub1'), RATE_LIMIT, 1, NOW)).toBeNull();
+  const twice = planItemRetry(planItemRetry(item('sub1'), RATE_LIMIT, 3, NOW)!, RATE_LIMIT, 3, NOW)!;
+  expect(planItemRetry(twice, RATE_LIMIT, 3, NOW)).toBeNull();
+  expect(planItemRetry(item('sub1'), 'try again in 3 hours', 3, NOW)).toBeNull();
+});
+
+test('requeueItem moves the item to the back with its files', () => {
+  const retry = { ...item('sub1'), retryAt: '2026-03-01T12:09:15.000Z' };
+  const { items, filePaths } = requeueItem(job, 1, retry);
+  expect(items.map(i => i.subreddit)).toEqual(['sub0', 'sub2', 'sub3', 'sub1']);
+  expect(items[3]).toBe(retry);
+  expect(filePaths.map(f => f.itemIndex)).toEqual([-1, 0, 3, 2]);
+});
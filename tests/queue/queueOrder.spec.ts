@@ -0,0 +1,80 @@
+import { expect, test } from '@playwright/test';
+import type { QueueJob } from '@/lib/queueJob';
+import { countJobsAhead, describeJobQueueLimits, isWaitingFor } from '@/lib/queueOrder';
+
+const NOW = Date.parse('2026-03-10T12:00:00.000Z');
+
+const makeJob = (id: string, overrides: Partial<QueueJob> = {}) => ({
+  id,
+  status: 'pending',
+  pacing: null,
+  runner: 'server',
+  created_at: '2026-03-10T11:00:00.000Z',
+  claimed_by: null,
+  claimed_at: null,
+  ...overrides,
+}) as QueueJob;
+
+test('an abandoned browser job does not hold up a later scheduled job', () => {
+  // Tab closed mid-job: still 'processing', claim long expired
+  const abandoned = makeJob('browser', {
+    status: 'processing',
+    runner: 'browser',
+    created_at: '2026-03-10T09:00:00.000Z',
+    claimed_by: 'browser-worker',
+    claimed_at: '2026-03-10T09:01:00.000Z',
+  });
+  const scheduled = makeJob('scheduled', { status: 'scheduled', created_at: '2026-03-10T10:00:00.000Z' });
+
+  expect(isWaitingFor(scheduled, abandoned, NOW)).toBe(false);
+  expect(countJobsAhead(scheduled, [abandoned, scheduled], NOW)).toBe(0);
+
+  // Never claimed at all (tab closed right after submitting)
+  expect(isWaitingFor(scheduled, { ...abandoned, status: 'pending', claimed_by: null, claimed_at: null }, NOW))
+    .toBe(false);
+});
+
+test('jobs wait for older server jobs and for jobs being posted', () => {
+  const job = makeJob('job');
+  const older = makeJob('older', { created_at: '2026-03-10T10:00:00.000Z' });
+  const posting = makeJob('posting', {
+    status: 'processing',
+    runner: 'browser',
+    created_at: '2026-03-10T11:30:00.000Z',
+    claimed_by: 'tab',
+    claimed_at: '2026-03-10T11:59:00.000Z',
+  });
+
+  expect(isWaitingFor(job, older, NOW)).toBe(true);
+  expect(isWaitingFor(job, posting, NOW)).toBe(true);
+  expect(isWaitingFor(older, job, NOW)).toBe(false);
+  expect(countJobsAhead(job, [older, job, posting], NOW)).toBe(2);
+});
+
+test('expired claims, finished jobs and drip jobs do not hold up the queue', () => {
+  const job = makeJob('job');
+  const stale = makeJob('stale', {
+    status: 'processing',
+    created_at: '2026-03-10T10:00:00.000Z',
+    claimed_by: 'worker',
+    claimed_at: '2026-03-10T11:50:00.000Z',
+  });
+
+  expect(isWaitingFor(job, stale, NOW)).toBe(false);
+  expect(isWaitingFor(job, makeJob('done', { status: 'completed', created_at: '2026-03-10T10:00:00.000Z' }), NOW))
+    .toBe(false);
+  const drip = makeJob('drip', { pacing: { mode: 'fixed', intervalMinutes: 10 }, created_at: '2026-03-10T10:00:00.000Z' });
+  expect(isWaitingFor(job, drip, NOW)).toBe(false);
+  expect(isWaitingFor(drip, makeJob('older', { created_at: '2026-03-10T09:00:00.000Z' }), NOW)).toBe(false);
+});
+
+test('describeJobQueueLimits says whether immediate posts can queue', () => {
+  expect(describeJobQueueLimits({ maxActiveJobs: 3, serverQueue: true })).toBe(
+    'You can queue up to 3 posts at once, one after another in the order you created them. Drip posts run alongside.'
+  );
+  expect(describeJobQueueLimits({ maxActiveJobs: 1, serverQueue: true })).toContain('one post at a time');
+
+  const browserOnly = describeJobQueueLimits({ maxActiveJobs: 3, serverQueue: false });
+  expect(browserOnly).toContain('from this browser one at a time');
+  expect(browserOnly).toContain('Scheduled posts queue on the server, up to 3 posts at once');
+});
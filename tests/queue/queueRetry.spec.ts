@@ -0,0 +1,30 @@
+import { expect, test } from '@playwright/test';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { isTemporaryDispatchError } from '@/lib/queueRetry';
+
+const redditError = (status: number, error?: string) =>
+  new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    statusText: '',
+    data: error ? { error } : {},
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+  });
+
+test('network errors and Reddit outages are retried', () => {
+  expect(isTemporaryDispatchError(new AxiosError('timeout of 15000ms exceeded', 'ECONNABORTED'))).toBe(true);
+  expect(isTemporaryDispatchError(redditError(502))).toBe(true);
+  expect(isTemporaryDispatchError(redditError(503))).toBe(true);
+  expect(isTemporaryDispatchError(redditError(429))).toBe(true);
+  expect(isTemporaryDispatchError(Object.assign(new Error('getaddrinfo EAI_AGAIN'), { code: 'EAI_AGAIN' }))).toBe(true);
+});
+
+test('a revoked or missing token fails the job', () => {
+  expect(isTemporaryDispatchError(redditError(400, 'invalid_grant'))).toBe(false);
+  expect(isTemporaryDispatchError(redditError(401))).toBe(false);
+  expect(isTemporaryDispatchError(
+    new Error('No Reddit authorization stored - sign in again to post in the background')
+  )).toBe(false);
+  expect(isTemporaryDispatchError('Failed')).toBe(false);
+  expect(isTemporaryDispatchError(null)).toBe(false);
+});
@@ -0,0 +1,28 @@
+import { expect, test } from '@playwright/test';
+import { planQueueRunner } from '@/lib/queueRunner';
+
+const immediate = { deferred: false, serverRunnerEnabled: false, tokenStoreConfigured: true, hasRefreshToken: true };
+
+test('planQueueRunner stores the token of browser-run jobs when the store is configured', () => {
+  expect(planQueueRunner(immediate)).toEqual({ runner: 'browser', storeToken: true });
+  expect(planQueueRunner({ ...immediate, hasRefreshToken: false })).toEqual({ runner: 'browser', storeToken: false });
+  expect(planQueueRunner({ ...immediate, tokenStoreConfigured: false })).toEqual({
+    runner: 'browser',
+    storeToken: false,
+  });
+});
+
+test('planQueueRunner runs immediate jobs on the server when the worker can post', () => {
+  expect(planQueueRunner({ ...immediate, serverRunnerEnabled: true })).toEqual({ runner: 'server', storeToken: true });
+  expect(planQueueRunner({ ...immediate, serverRunnerEnabled: true, hasRefreshToken: false })).toEqual({
+    runner: 'browser',
+    storeToken: false,
+  });
+});
+
+test('planQueueRunner requires a stored token for scheduled and paced jobs', () => {
+  const deferred = { ...immediate, deferred: true };
+  expect(planQueueRunner(deferred)).toEqual({ runner: 'server', storeToken: true });
+  expect(planQueueRunner({ ...deferred, tokenStoreConfigured: false }).error).toBe('unavailable');
+  expect(planQueueRunner({ ...deferred, hasRefreshToken: false }).error).toBe('unauthorized');
+});
@@ -0,0 +1,108 @@
+import { expect, test } from '@playwright/test';
+import {
+  buildRepeatRule,
+  describeRepeatRule,
+  getFirstOccurrence,
+  getNextOccurrence,
+  parseRecurringJobUpdate,
+  parseRepeatInput,
+} from '@/lib/recurrence';
+import type { RepeatRule } from '@/lib/recurringJob';
+
+const FRIDAY_5PM: RepeatRule = { frequency: 'weekly', time: '17:00', weekdays: [5] };
+
+test('getNextOccurrence keeps the wall-clock time across a DST change', () => {
+  // Berlin moves to summer time on 2026-03-29
+  const first = getNextOccurrence(FRIDAY_5PM, 'Europe/Berlin', new Date('2026-03-20T16:00:00Z'));
+  expect(first.toISOString()).toBe('2026-03-27T16:00:00.000Z');
+
+  const second = getNextOccurrence(FRIDAY_5PM, 'Europe/Berlin', first);
+  expect(second.toISOString()).toBe('2026-04-03T15:00:00.000Z');
+});
+
+test('getNextOccurrence picks the next of several weekdays', () => {
+  const rule: RepeatRule = { frequency: 'weekly', time: '09:00', weekdays: [1, 5] };
+  // Wednesday 2026-03-04
+  expect(getNextOccurrence(rule, 'UTC', new Date('2026-03-04T12:00:00Z')).toISOString())
+    .toBe('2026-03-06T09:00:00.000Z');
+  expect(getNextOccurrence(rule, 'UTC', new Date('2026-03-06T09:00:00Z')).toISOString())
+    .toBe('2026-03-09T09:00:00.000Z');
+});
+
+test('getNextOccurrence runs monthly rules on the last day of shorter months', () => {
+  const rule: RepeatRule = { frequency: 'monthly', time: '09:00', dayOfMonth: 31 };
+  const february = getNextOccurrence(rule, 'UTC', new Date('2026-02-01T00:00:00Z'));
+  expect(february.toISOString()).toBe('2026-02-28T09:00:00.000Z');
+  expect(getNextOccurrence(rule, 'UTC', february).toISOString()).toBe('2026-03-31T09:00:00.000Z');
+});
+
+test('getNextOccurrence uses the local date of the timezone', () => {
+  // 23:30 UTC on Thursday is already Friday in Tokyo
+  const rule: RepeatRule = { frequency: 'daily', time: '08:00' };
+  expect(getNextOccurrence(rule, 'Asia/Tokyo', new Date('2026-03-05T23:30:00Z')).toISOString())
+    .toBe('2026-03-06T23:00:00.000Z');
+});
+
+test('getFirstOccurrence starts at the schedule time when the rule fires then', () => {
+  const start = new Date('2026-03-06T16:00:00Z');
+  expect(getFirstOccurrence(FRIDAY_5PM, 'Europe/Berlin', start).toISOString()).toBe(start.toISOString());
+
+  // Picked a Wednesday for a Friday rule - the first run is that Friday
+  const wednesday = new Date('2026-03-04T16:00:00Z');
+  expect(getFirstOccurrence(FRIDAY_5PM, 'Europe/Berlin', wednesday).toISOString()).toBe(start.toISOString());
+});
+
+test('buildRepeatRule takes the time and day from the picked date', () => {
+  const start = new Date('2026-03-06T16:00:00Z');
+  expect(buildRepeatRule('daily', start, 'Europe/Berlin')).toEqual({ frequency: 'daily', time: '17:00' });
+  expect(buildRepeatRule('weekly', start, 'Europe/Berlin')).toEqual(FRIDAY_5PM);
+  expect(buildRepeatRule('weekly', start, 'Europe/Berlin', [5, 1])).toEqual({
+    frequency: 'weekly',
+    time: '17:00',
+    weekdays: [1, 5],
+  });
+  expect(buildRepeatRule('monthly', start, 'Europe/Berlin')).toEqual({
+    frequency: 'monthly',
+    time: '17:00',
+    dayOfMonth: 6,
+  });
+});
+
+test('parseRepeatInput validates rules', () => {
+  expect(parseRepeatInput(undefined)).toEqual({});
+  expect(parseRepeatInput({ frequency: 'weekly', time: '17:00', weekdays: [5, 1, 5] })).toEqual({
+    repeat: { frequency: 'weekly', time: '17:00', weekdays: [1, 5] },
+  });
+  expect(parseRepeatInput({ frequency: 'monthly', time: '08:30', dayOfMonth: 15 }).repeat).toBeTruthy();
+
+  expect(parseRepeatInput({ frequency: 'daily', time: '24:00' }).error).toBe('Repeat time must be HH:mm');
+  expect(parseRepeatInput({ frequency: 'weekly', time: '17:00', weekdays: [] }).error).toBeTruthy();
+  expect(parseRepeatInput({ frequency: 'weekly', time: '17:00', weekdays: [7] }).error).toBeTruthy();
+  expect(parseRepeatInput({ frequency: 'monthly', time: '17:00', dayOfMonth: 0 }).error).toBeTruthy();
+  expect(parseRepeatInput({ frequency: 'hourly', time: '17:00' }).error).toBe('Repeat must be daily, weekly or monthly');
+  expect(parseRepeatInput('weekly').error).toBe('Invalid repeat rule');
+});
+
+test('parseRecurringJobUpdate accepts only known, valid changes', () => {
+  expect(parseRecurringJobUpdate({ status: 'paused' })).toEqual({ update: { status: 'paused' } });
+  expect(parseRecurringJobUpdate({ caption: 'New title', timezone: 'Europe/Berlin', removeIndex: 2 })).toEqual({
+    update: { caption: 'New title', timezone: 'Europe/Berlin', removeIndex: 2 },
+  });
+
+  expect(parseRecurringJobUpdate({}).error).toBe('Nothing to update');
+  expect(parseRecurringJobUpdate({ status: 'done' }).error).toBeTruthy();
+  expect(parseRecurringJobUpdate({ timezone: 'Mars/Olympus' }).error).toBe('Unknown timezone: Mars/Olympus');
+  expect(parseRecurringJobUpdate({ caption: 'x'.repeat(301) }).error).toBeTruthy();
+  expect(parseRecurringJobUpdate({ removeIndex: -1 }).error).toBeTruthy();
+  expect(parseRecurringJobUpdate({ repeat: { frequency: 'daily' } }).error).toBe('Repeat time must be HH:mm');
+});
+
+test('describeRepeatRule gives a short summary', () => {
+  expect(describeRepeatRule(FRIDAY_5PM)).toBe('Weekly on Fri at 17:00');
+  expect(describeRepeatRule({ frequency: 'weekly', time: '09:00', weekdays: [0, 1, 2, 3, 4, 5, 6] }))
+    .toBe('Every day at 09:00');
+  expect(describeRepeatRule({ frequency: 'daily', time: '08:00' })).toBe('Daily at 08:00');
+  expect(describeRepeatRule({ frequency: 'monthly', time: '08:00', dayOfMonth: 1 })).toBe('Monthly on the 1st at 08:00');
+  expect(describeRepeatRule({ frequency: 'monthly', time: '08:00', dayOfMonth: 22 })).toBe('Monthly on the 22nd at 08:00');
+  expect(describeRepeatRule({ frequency: 'monthly', time: '08:00', dayOfMonth: 11 })).toBe('Monthly on the 11th at 08:00');
+});
@@ -0,0 +1,105 @@
+import { expect, test } from '@playwright/test';
+import {
+  getInlineImageError,
+  getInlineImageNumbers,
+  inlineImageMarkdown,
+  markdownToRichtext,
+  removeInlineImage,
+  stripInlineImages,
+} from '@/lib/richtext';
+
+test('inline image markers are numbered by uploaded file', () => {
+  const body = `Intro\n\n${inlineImageMarkdown(2, 'Second [pic]')}\n\n${inlineImageMarkdown(1)}\n\n${inlineImageMarkdown(2)}`;
+
+  expect(inlineImageMarkdown(2, 'Second [pic]')).toBe('![Second pic](inline:2)');
+  expect(getInlineImageNumbers(body)).toEqual([2, 1]);
+  expect(getInlineImageError(body, 2)).toBeNull();
+  expect(getInlineImageError(body, 1)).toBe('Inline image 2 has no uploaded file');
+  expect(getInlineImageError(undefined, 0)).toBeNull();
+});
+
+test('removeInlineImage drops the image and renumbers later ones', () => {
+  const body = 'Before\n\n![One](inline:1)\n\nMiddle\n\n![Two](inline:2)\n\n![Three](inline:3)';
+
+  expect(removeInlineImage(body, 2)).toBe('Before\n\n![One](inline:1)\n\nMiddle\n\n![Three](inline:2)');
+  expect(removeInlineImage('No images', 1)).toBe('No images');
+});
+
+test('stripInlineImages keeps only markers of files that are sent', () => {
+  const body = 'Text\n\n![](inline:1)\n\n![](inline:2)\n\nEnd';
+
+  expect(stripInlineImages(body)).toBe('Text\n\nEnd');
+  expect(stripInlineImages(body, 1)).toBe('Text\n\n![](inline:1)\n\nEnd');
+  expect(stripInlineImages(body, 2)).toBe(body);
+});
+
+test('markdownToRichtext converts inline formatting and links', () => {
+  expect(markdownToRichtext('Hello **bold** and *it* with `code`, ~~gone~~ and [a link](https://example.com).\nsnake_case_name', [])).toEqual({
+    document: [
+      {
+        e: 'par',
+        c: [
+          {
+            e: 'text',
+            t: 'Hello bold and it with code, gone and ',
+            f: [[1, 6, 4], [2, 15, 2], [64, 23, 4], [8, 29, 4]],
+          },
+          { e: 'link', t: 'a link', u: 'https://example.com' },
+          { e: 'text', t: '. snake_case_name' },
+        ],
+      },
+    ],
+  });
+});
+
+test('markdownToRichtext converts blocks and places images by asset', () => {
+  const markdown = [
+    '# Trip **report**',
+    '',
+    'Day one  ',
+    'went well.',
+    '',
+    '![The view](inline:1)',
+    '',
+    '- one',
+    '- two',
+    '',
+    '1. first',
+    '',
+    '> quoted',
+    '',
+    '```',
+    'const a = 1;',
+    '```',
+    '',
+    '---',
+    'Look ![](inline:2) here',
+  ].join('\n');
+
+  expect(markdownToRichtext(markdown, ['asset1', 'asset2'])).toEqual({
+    document: [
+      { e: 'h', l: 1, c: [{ e: 'raw', t: 'Trip report' }] },
+      { e: 'par', c: [{ e: 'text', t: 'Day one' }, { e: 'br' }, { e: 'text', t: 'went well.' }] },
+      { e: 'img', id: 'asset1', c: 'The view' },
+      {
+        e: 'list',
+        o: false,
+        c: [
+          { e: 'li', c: [{ e: 'par', c: [{ e: 'text', t: 'one' }] }] },
+          { e: 'li', c: [{ e: 'par', c: [{ e: 'text', t: 'two' }] }] },
+        ],
+      },
+      { e: 'list', o: true, c: [{ e: 'li', c: [{ e: 'par', c: [{ e: 'text', t: 'first' }] }] }] },
+      { e: 'blockquote', c: [{ e: 'par', c: [{ e: 'text', t: 'quoted' }] }] },
+      { e: 'code', c: [{ e: 'raw', t: 'const a = 1;' }] },
+      { e: 'hr' },
+      { e: 'par', c: [{ e: 'text', t: 'Look' }] },
+      { e: 'img', id: 'asset2' },
+      { e: 'par', c: [{ e: 'text', t: 'here' }] },
+    ],
+  });
+});
+
+test('markdownToRichtext fails when an image was not uploaded', () => {
+  expect(() => markdownToRichtext('![](inline:2)', ['asset1'])).toThrow('Inline image 2 was not uploaded');
+});
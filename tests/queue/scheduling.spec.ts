@@ -0,0 +1,57 @@
+import { expect, test } from '@playwright/test';
+import {
+  parseScheduleInput,
+  utcToZonedInputValue,
+  validateScheduledAt,
+  zonedTimeToUtc,
+} from '@/lib/scheduling';
+
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+test('zonedTimeToUtc converts wall-clock time in a timezone to UTC', () => {
+  expect(zonedTimeToUtc('2026-03-06T17:00', 'Europe/Berlin').toISOString()).toBe('2026-03-06T16:00:00.000Z');
+  expect(zonedTimeToUtc('2026-07-03T17:00', 'Europe/Berlin').toISOString()).toBe('2026-07-03T15:00:00.000Z');
+  expect(zonedTimeToUtc('2026-03-06T09:30', 'America/New_York').toISOString()).toBe('2026-03-06T14:30:00.000Z');
+  expect(zonedTimeToUtc('2026-03-06T09:30', 'UTC').toISOString()).toBe('2026-03-06T09:30:00.000Z');
+});
+
+test('zonedTimeToUtc handles the day after a DST change', () => {
+  // US DST starts 2026-03-08; 10:00 local is then UTC-4
+  expect(zonedTimeToUtc('2026-03-08T10:00', 'America/New_York').toISOString()).toBe('2026-03-08T14:00:00.000Z');
+});
+
+test('zonedTimeToUtc rejects malformed input', () => {
+  expect(() => zonedTimeToUtc('06/03/2026 17:00', 'UTC')).toThrow('Invalid date/time');
+  expect(() => zonedTimeToUtc('2026-03-06T17:00', 'Mars/Olympus')).toThrow('Invalid timezone');
+});
+
+test('utcToZonedInputValue round-trips with zonedTimeToUtc', () => {
+  const utc = zonedTimeToUtc('2026-11-20T08:15', 'Asia/Kolkata');
+  expect(utcToZonedInputValue(utc, 'Asia/Kolkata')).toBe('2026-11-20T08:15');
+});
+
+test('validateScheduledAt enforces the minimum lead time and maximum horizon', () => {
+  expect(validateScheduledAt('not a date', NOW)).toBe('Invalid schedule time');
+  expect(validateScheduledAt('2026-03-01T12:01:00Z', NOW)).toContain('at least');
+  expect(validateScheduledAt('2026-03-01T13:00:00Z', NOW)).toBeNull();
+  expect(validateScheduledAt('2026-05-01T12:00:00Z', NOW)).toContain('within');
+});
+
+test('parseScheduleInput returns no schedule when none is requested', () => {
+  expect(parseScheduleInput(undefined, NOW)).toEqual({});
+  expect(parseScheduleInput(null, NOW)).toEqual({});
+});
+
+test('parseScheduleInput validates fields and normalizes the timestamp', () => {
+  expect(parseScheduleInput('tomorrow', NOW).error).toBe('Invalid schedule');
+  expect(parseScheduleInput({ scheduledAt: '2026-03-02T12:00:00Z' }, NOW).error).toContain('timezone');
+  expect(parseScheduleInput({ scheduledAt: '2026-03-02T12:00:00Z', timezone: 'Nowhere/City' }, NOW).error)
+    .toContain('Unknown timezone');
+
+  const { schedule, error } = parseScheduleInput(
+    { scheduledAt: '2026-03-02T13:00:00+01:00', timezone: 'Europe/Berlin' },
+    NOW
+  );
+  expect(error).toBeUndefined();
+  expect(schedule).toEqual({ scheduledAt: '2026-03-02T12:00:00.000Z', timezone: 'Europe/Berlin' });
+});
@@ -0,0 +1,97 @@
+import { expect, test } from '@playwright/test';
+import {
+  getAnalyticsHistoryDays,
+  getRangeBounds,
+  parseAnalyticsRange,
+  summarizeUserPosts,
+  type AnalyticsPost,
+} from '@/lib/userAnalytics';
+
+const NOW = new Date('2026-03-31T15:00:00.000Z');
+
+const post = (
+  subreddit: string,
+  status: AnalyticsPost['status'],
+  day: string,
+  extra: Partial<AnalyticsPost> = {}
+): AnalyticsPost => ({
+  subreddit_name: subreddit,
+  status,
+  error_code: null,
+  created_at: `${day}T12:00:00.000Z`,
+  post_state: null,
+  ...extra,
+});
+
+test('history depth depends on the plan', () => {
+  expect(getAnalyticsHistoryDays('free')).toBe(30);
+  expect(getAnalyticsHistoryDays('trial')).toBe(365);
+  expect(getAnalyticsHistoryDays('paid')).toBe(365);
+});
+
+test('parseAnalyticsRange defaults to the last 30 days and keeps within the history', () => {
+  expect(parseAnalyticsRange({}, 365, NOW)).toEqual({
+    range: { from: '2026-03-02', to: '2026-03-31' },
+    limited: false,
+  });
+  expect(parseAnalyticsRange({ from: '2026-01-01', to: '2026-04-10' }, 30, NOW)).toEqual({
+    range: { from: '2026-03-02', to: '2026-03-31' },
+    limited: true,
+  });
+  expect(parseAnalyticsRange({ from: '2026-03-10', to: '2026-03-12' }, 30, NOW)).toEqual({
+    range: { from: '2026-03-10', to: '2026-03-12' },
+    limited: false,
+  });
+  expect(parseAnalyticsRange({ to: '2026-03-20' }, 7, NOW)).toEqual({
+    range: { from: '2026-03-25', to: '2026-03-25' },
+    limited: true,
+  });
+});
+
+test('parseAnalyticsRange rejects bad dates and reversed ranges', () => {
+  expect(parseAnalyticsRange({ from: 'yesterday' }, 30, NOW).error).toBeDefined();
+  expect(parseAnalyticsRange({ from: '2026-02-30' }, 30, NOW).error).toBeDefined();
+  expect(parseAnalyticsRange({ from: ['2026-03-01'] }, 30, NOW).error).toBeDefined();
+  expect(parseAnalyticsRange({ from: '2026-03-12', to: '2026-03-10' }, 30, NOW).error).toBe(
+    'from must not be after to'
+  );
+});
+
+test('getRangeBounds covers whole UTC days', () => {
+  const { start, end } = getRangeBounds({ from: '2026-03-10', to: '2026-03-12' });
+  expect(start.toISOString()).toBe('2026-03-10T00:00:00.000Z');
+  expect(end.toISOString()).toBe('2026-03-13T00:00:00.000Z');
+});
+
+test('summarizeUserPosts aggregates totals, subreddits, failures and days', () => {
+  const summary = summarizeUserPosts([
+    post('pics', 'success', '2026-03-10', { post_state: 'removed' }),
+    post('Pics', 'success', '2026-03-10'),
+    post('pics', 'error', '2026-03-11', { error_code: 'flair_required' }),
+    post('aww', 'success', '2026-03-12', { post_state: 'live' }),
+    post('cats', 'error', '2026-03-12', { error_code: 'flair_required' }),
+    post('cats', 'error', '2026-03-12'),
+  ], { from: '2026-03-10', to: '2026-03-12' });
+
+  expect(summary).toMatchObject({
+    totalPosts: 6,
+    successfulPosts: 3,
+    failedPosts: 3,
+    successRate: 50,
+    removedAfterPosting: 1,
+  });
+  expect(summary.topSubreddits).toEqual([
+    { subreddit: 'pics', count: 3, successCount: 2, successRate: 67 },
+    { subreddit: 'aww', count: 1, successCount: 1, successRate: 100 },
+    { subreddit: 'cats', count: 2, successCount: 0, successRate: 0 },
+  ]);
+  expect(summary.errorBreakdown).toEqual([
+    { code: 'flair_required', label: 'Flair required', count: 2, share: 67 },
+    { code: 'unknown_error', label: 'Posting failed', count: 1, share: 33 },
+  ]);
+  expect(summary.postsByDay).toEqual([
+    { date: '2026-03-10', success: 2, error: 0 },
+    { date: '2026-03-11', success: 0, error: 1 },
+    { date: '2026-03-12', success: 1, error: 2 },
+  ]);
+});
@@ -0,0 +1,214 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { expect, test } from '@playwright/test';
+import { Webhook } from 'standardwebhooks';
+import type { QueueJob } from '@/lib/queueJob';
+import {
+  PRIVATE_ADDRESS_ERROR,
+  WEBHOOK_CONSTANTS,
+  buildItemPostedPayload,
+  buildJobPayload,
+  getRetryDelayMs,
+  isPublicAddress,
+  parseWebhookEndpointInput,
+  validateWebhookUrl,
+} from '@/lib/webhook';
+import { checkWebhookTarget, createWebhookSecret, lookupPublicAddress, sendWebhook } from '@/lib/webhookDelivery';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/** Local receiver answering each request with the next status in `statuses` */
+const startReceiver = async (statuses: number[], delayMs = 0) => {
+  const received: ReceivedRequest[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      const status = statuses[Math.min(received.length - 1, statuses.length - 1)];
+      setTimeout(() => {
+        res.writeHead(status, status === 302 ? { Location: 'https://example.com' } : {});
+        res.end(status >= 400 ? 'receiver error' : '');
+      }, delayMs);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+};
+
+const job = {
+  id: 'job-1',
+  status: 'completed',
+  caption: 'Hello',
+  items: [{}, {}, {}],
+  results: [
+    { index: 0, subreddit: 'pics', status: 'success', url: 'https://reddit.com/r/pics/1' },
+    { index: 1, subreddit: 'art', status: 'error', error: 'Banned' },
+    { index: 2, subreddit: 'test', status: 'skipped' },
+  ],
+  error: null,
+  created_at: '2026-03-01T10:00:00.000Z',
+  completed_at: '2026-03-01T10:05:00.000Z',
+} as unknown as QueueJob;
+
+test('sendWebhook signs requests so Standard Webhooks receivers can verify them', async () => {
+  const receiver = await startReceiver([204]);
+  const secret = createWebhookSecret();
+  const payload = buildJobPayload('job.completed', job, new Date('2026-03-01T10:05:01.000Z'));
+
+  try {
+    const result = await sendWebhook({ url: receiver.url, secret }, { id: 'msg_1', payload });
+    expect(result).toEqual({ ok: true, statusCode: 204 });
+
+    const [request] = receiver.received;
+    expect(request.headers['webhook-id']).toBe('msg_1');
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(JSON.parse(request.body)).toEqual(payload);
+
+    const verified = new Webhook(secret).verify(request.body, {
+      'webhook-id': request.headers['webhook-id'] as string,
+      'webhook-timestamp': request.headers['webhook-timestamp'] as string,
+      'webhook-signature': request.headers['webhook-signature'] as string,
+    });
+    expect(verified).toEqual(payload);
+
+    expect(() => new Webhook(createWebhookSecret()).verify(request.body, {
+      'webhook-id': request.headers['webhook-id'] as string,
+      'webhook-timestamp': request.headers['webhook-timestamp'] as string,
+      'webhook-signature': request.headers['webhook-signature'] as string,
+    })).toThrow();
+  } finally {
+    await receiver.close();
+  }
+});
+
+test('sendWebhook reports failed attempts and keeps the message id for the retry', async () => {
+  const receiver = await startReceiver([500, 302, 200]);
+  const target = { url: receiver.url, secret: createWebhookSecret() };
+  const message = { id: 'msg_2', payload: buildItemPostedPayload(job, job.results[0]) };
+
+  try {
+    const first = await sendWebhook(target, message);
+    expect(first).toEqual({ ok: false, statusCode: 500, error: 'HTTP 500: receiver error' });
+
+    // Redirects are not followed
+    const second = await sendWebhook(target, message);
+    expect(second.ok).toBe(false);
+    expect(second.statusCode).toBe(302);
+
+    const third = await sendWebhook(target, message);
+    expect(third.ok).toBe(true);
+
+    expect(receiver.received.map(r => r.headers['webhook-id'])).toEqual(['msg_2', 'msg_2', 'msg_2']);
+  } finally {
+    await receiver.close();
+  }
+});
+
+test('sendWebhook gives up on receivers that do not answer in time', async () => {
+  const receiver = await startReceiver([200], 2000);
+  const target = { url: receiver.url, secret: createWebhookSecret() };
+
+  try {
+    const result = await sendWebhook(target, { id: 'msg_3', payload: buildJobPayload('job.failed', job) }, {
+      timeoutMs: 200,
+    });
+    expect(result).toEqual({ ok: false, error: 'No response within 200 ms' });
+  } finally {
+    await receiver.close();
+  }
+
+  const unreachable = await sendWebhook(target, { id: 'msg_4', payload: buildJobPayload('job.failed', job) });
+  expect(unreachable.ok).toBe(false);
+  expect(unreachable.error).toBeTruthy();
+});
+
+test('job payloads summarize results', () => {
+  const payload = buildJobPayload('job.completed', job, new Date('2026-03-01T10:05:01.000Z'));
+  expect(payload.type).toBe('job.completed');
+  expect(payload.timestamp).toBe('2026-03-01T10:05:01.000Z');
+  expect(payload.data.job).toMatchObject({ id: 'job-1', total: 3, posted: 1, failed: 1, skipped: 1 });
+});
+
+test('getRetryDelayMs backs off and stops after the last attempt', () => {
+  const delays = WEBHOOK_CONSTANTS.RETRY_DELAYS_MS;
+  expect(getRetryDelayMs(1)).toBe(delays[0]);
+  expect(getRetryDelayMs(2)).toBe(delays[1]);
+  expect(getRetryDelayMs(WEBHOOK_CONSTANTS.MAX_ATTEMPTS - 1)).toBe(delays[delays.length - 1]);
+  expect(getRetryDelayMs(WEBHOOK_CONSTANTS.MAX_ATTEMPTS)).toBeNull();
+});
+
+test('parseWebhookEndpointInput validates URLs and events', () => {
+  expect(parseWebhookEndpointInput({ url: ' https://example.com/hook ' })).toEqual({
+    endpoint: { url: 'https://example.com/hook', events: ['job.completed', 'job.failed', 'item.posted'] },
+  });
+  expect(parseWebhookEndpointInput({ url: 'http://127.0.0.1:3000/hook', events: ['job.failed', 'job.failed'] }))
+    .toEqual({ endpoint: { url: 'http://127.0.0.1:3000/hook', events: ['job.failed'] } });
+
+  expect(parseWebhookEndpointInput({ url: 'http://example.com/hook' }).error).toBe('URL must use https');
+  expect(parseWebhookEndpointInput({ url: 'https://user:pw@example.com' }).error).toBeTruthy();
+  expect(parseWebhookEndpointInput({ url: 'not a url' }).error).toBe('Enter a valid URL');
+  expect(parseWebhookEndpointInput({ url: 'https://example.com', events: [] }).error).toBeTruthy();
+  expect(parseWebhookEndpointInput({ url: 'https://example.com', events: ['job.started'] }).error).toBeTruthy();
+});
+
+test('isPublicAddress rejects private, loopback and link-local addresses', () => {
+  for (const ip of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+    expect(isPublicAddress(ip)).toBe(true);
+  }
+  for (const ip of [
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '64:ff9b::a9fe:a9fe', 'not an ip',
+  ]) {
+    expect(isPublicAddress(ip)).toBe(false);
+  }
+});
+
+test('validateWebhookUrl rejects internal hosts', () => {
+  expect(validateWebhookUrl('https://hooks.example.com/in')).toBeNull();
+  for (const url of [
+    'https://169.254.169.254/latest/meta-data',
+    'https://2852039166/', // 169.254.169.254 as one number
+    'https://localhost/hook',
+    'https://[::1]/hook',
+    'https://[::ffff:10.0.0.1]/hook',
+    'https://metadata.google.internal/',
+    'https://intranet/hook',
+  ]) {
+    expect(validateWebhookUrl(url)).toBe(PRIVATE_ADDRESS_ERROR);
+  }
+});
+
+test('webhooks are not sent to hosts that resolve to private addresses', async () => {
+  // localhost resolves from the hosts file, without network access
+  const error = await new Promise<Error | null>(resolve => {
+    lookupPublicAddress('localhost', {}, err => resolve(err));
+  });
+  expect(error?.message).toContain(PRIVATE_ADDRESS_ERROR);
+
+  const receiver = await startReceiver([204]);
+  try {
+    const result = await sendWebhook(
+      { url: receiver.url.replace('http://', 'https://'), secret: createWebhookSecret() },
+      { id: 'msg_5', payload: buildJobPayload('job.failed', job) }
+    );
+    expect(result).toEqual({ ok: false, error: PRIVATE_ADDRESS_ERROR });
+    expect(receiver.received).toHaveLength(0);
+  } finally {
+    await receiver.close();
+  }
+
+  expect(await checkWebhookTarget('https://10.0.0.1/hook')).toBe(PRIVATE_ADDRESS_ERROR);
+});
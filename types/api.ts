@@ -56,6 +56,12 @@ export interface UnifiedSubredditData {
   allowImages: boolean;
   allowVideos: boolean;
   allowGifs: boolean;
+  /** Default for the NSFW flag of posts (missing in data cached before it was added) */
+  over18?: boolean;
+  /** The subreddit enables Reddit's OC tag */
+  allowOriginalContent?: boolean;
+  /** Moderators allow poll posts (left out when Reddit did not say) */
+  allowPolls?: boolean;
   
   // User-specific status - ONLY present if Reddit explicitly returns it
   // IMPORTANT: Do NOT default these to false - only include if Reddit returns the field
@@ -1,3 +1,5 @@
+import type { GalleryItemDetails, PollDetails, PostFlags } from '@/lib/queueJob';
+
 export interface SelectedSubreddit {
   name: string;
   flairId?: string;
@@ -9,17 +11,20 @@ export interface MediaItem {
   url?: string;
 }
 
-export interface QueueItem {
+export interface QueueItem extends PostFlags {
   subreddit: string;
   title?: string;
   flairId?: string;
+  flairText?: string; // Own text for an editable flair
   titleSuffix?: string; // Per-subreddit custom title suffix
   customTitle?: string;
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'poll';
   text?: string;
   url?: string;
   file?: File;
   files?: File[]; // Support for multiple files
+  galleryItems?: GalleryItemDetails[]; // Per-image captions and links for galleries
+  poll?: PollDetails; // Options and duration for poll posts
   status?: 'queued' | 'posting' | 'success' | 'error' | 'retrying' | 'cancelled';
   error?: string;
   attempt?: number;
@@ -34,6 +34,13 @@ export interface SubredditSettings {
   allowImages: boolean;
   allowVideos: boolean;
   allowGifs: boolean;
+  // Post flag defaults - left out when Reddit did not say
+  over18?: boolean;
+  allowOriginalContent?: boolean;
+  // Moderators allow crossposting - left out when Reddit did not say
+  allowCrossposts?: boolean;
+  // Moderators allow poll posts - left out when Reddit did not say
+  allowPolls?: boolean;
 }
 
 // User's relationship with a subreddit - per-user, client-only cache
@@ -59,6 +66,7 @@ export interface EnhancedSubredditInfo extends SubredditEligibility {
   activeUsers: number;
   wikiEnabled: boolean;
   over18: boolean;
+  allowOriginalContent: boolean;
   createdUtc: number;
 }
 
@@ -66,7 +74,10 @@ export interface FlairOption {
   id: string;
   text: string;
   text_editable: boolean;
-  richtext?: Array<{ e: string; t?: string }>;
+  // Text and emoji parts ({ e: 'emoji', a: ':name:', u: image URL })
+  richtext?: Array<{ e: string; t?: string; a?: string; u?: string }>;
+  background_color?: string; // '#rrggbb', left out when the flair has none
+  text_color?: 'dark' | 'light';
 }
 
 export interface SubredditRules {
@@ -100,7 +111,7 @@ export function getAuthUrl(state: string) {
   url.searchParams.set('state', state);
   url.searchParams.set('redirect_uri', process.env.REDDIT_REDIRECT_URI!);
   url.searchParams.set('duration', 'permanent');
-  url.searchParams.set('scope', 'identity submit read flair mysubreddits history privatemessages');
+  url.searchParams.set('scope', 'identity submit edit modposts read flair mysubreddits history privatemessages');
   return url.toString();
 }
 
@@ -217,6 +228,12 @@ export async function getSubredditSettings(
       allowImages: subData.allow_images !== false,
       allowVideos: subData.allow_videos !== false,
       allowGifs: subData.allow_videogifs !== false,
+      over18: subData.over18 === true,
+      allowOriginalContent: subData.original_content_tag_enabled === true,
+      ...(typeof subData.is_crosspostable_subreddit === 'boolean' && {
+        allowCrossposts: subData.is_crosspostable_subreddit,
+      }),
+      ...(typeof subData.allow_polls === 'boolean' && { allowPolls: subData.allow_polls }),
     };
   } catch (error) {
     // Return safe defaults if we can't fetch settings
@@ -327,6 +344,7 @@ export async function getSubredditEligibility(
       allowImages: subData.allow_images !== false,
       allowVideos: subData.allow_videos !== false,
       allowGifs: subData.allow_videogifs !== false,
+      ...(typeof subData.allow_polls === 'boolean' && { allowPolls: subData.allow_polls }),
     };
   } catch (error) {
     // Return safe defaults if we can't fetch eligibility
@@ -434,11 +452,13 @@ export async function getFlairs(client: AxiosInstance, subreddit: string): Promi
     // Only fetch available flairs - requirement status comes from post_requirements endpoint
     const flairsResp = await client.get(`/r/${subreddit}/api/link_flair_v2`, { params: { raw_json: 1 } });
     
-    const flairs = (flairsResp.data as any[]).map((f) => ({ 
+    const flairs = (flairsResp.data as any[]).map((f): FlairOption => ({ 
       id: f.id, 
       text: f.text, 
       text_editable: !!f.text_editable, 
-      richtext: f.richtext 
+      richtext: f.richtext,
+      ...(/^#[0-9a-f]{6}$/i.test(f.background_color ?? '') && { background_color: f.background_color }),
+      ...((f.text_color === 'dark' || f.text_color === 'light') && { text_color: f.text_color }),
     }));
     
     return { flairs };
@@ -607,18 +627,35 @@ export async function getSubredditRules(client: AxiosInstance, subreddit: string
 export interface SubmitParams {
   subreddit: string;
   title: string;
-  kind: 'self' | 'link' | 'image' | 'video' | 'gallery';
+  kind: 'self' | 'link' | 'image' | 'video' | 'gallery' | 'crosspost' | 'poll';
   text?: string;
   url?: string;
+  crosspost_fullname?: string; // Post to crosspost (t3_...), for kind 'crosspost'
+  poll_options?: string[]; // 2-6 answers, for kind 'poll'
+  poll_duration?: number; // Voting days (1-7), for kind 'poll'
   flair_id?: string;
+  flair_text?: string; // Own text for an editable flair template
   nsfw?: boolean;
   spoiler?: boolean;
+  sendreplies?: boolean; // Defaults to true
+  original_content?: boolean;
   video_poster_url?: string;
   // For file uploads
   file?: File;
   files?: File[]; // For gallery posts (multiple images)
   media_asset?: string; // Reddit media asset ID
   media_assets?: string[]; // For gallery posts
+  gallery_items?: { caption?: string; outbound_url?: string }[]; // Per-image caption and link, in file order
+  buildRichtext?: (assetIds: string[]) => object; // Self posts with inline images: the richtext_json body for the uploaded files
+  onMediaUploaded?: (assetIds: string[]) => void; // Called once files are uploaded to Reddit
+}
+
+/** Reply of Reddit's JSON submit endpoints (api_type: 'json') */
+interface SubmitJsonResponse {
+  json?: {
+    errors?: string[][];
+    data?: { url?: string; id?: string; name?: string };
+  };
 }
 
 export async function submitPost(client: AxiosInstance, params: SubmitParams): Promise<{ url: string; id: string }>
@@ -632,20 +669,28 @@ export async function submitPost(client: AxiosInstance, params: SubmitParams): P
     console.log('File details:', params.files.map(f => ({ name: f.name, size: f.size, type: f.type })));
     mediaAssetIds = await uploadMultipleMedia(client, params.files, params.subreddit);
     console.log('Gallery files uploaded, asset IDs:', mediaAssetIds);
+    params.onMediaUploaded?.(mediaAssetIds);
   }
   // Handle single file
   else if (params.file && !mediaAssetId) {
     console.log('Uploading file to Reddit...', params.file.name);
     mediaAssetId = await uploadMedia(client, params.file, params.subreddit);
     console.log('File uploaded, asset ID:', mediaAssetId);
+    params.onMediaUploaded?.([mediaAssetId]);
   }
   // Handle single file from files array
   else if (params.files && params.files.length === 1 && !mediaAssetId) {
     console.log('Uploading single file from files array...', params.files[0].name);
     mediaAssetId = await uploadMedia(client, params.files[0], params.subreddit);
     console.log('File uploaded, asset ID:', mediaAssetId);
+    params.onMediaUploaded?.([mediaAssetId]);
   }
   
+  // Polls have their own endpoint
+  if (params.kind === 'poll') {
+    return submitPollPost(client, params);
+  }
+
   // Use Reddit's Gallery API for multiple images (separate endpoint)
   if (params.kind === 'gallery' && mediaAssetIds && mediaAssetIds.length > 1) {
     return submitGalleryPost(client, params, mediaAssetIds);
@@ -656,7 +701,7 @@ export async function submitPost(client: AxiosInstance, params: SubmitParams): P
   form.set('sr', params.subreddit);
   form.set('title', params.title);
   form.set('resubmit', 'true');
-  form.set('sendreplies', 'true');
+  form.set('sendreplies', params.sendreplies === false ? 'false' : 'true');
   
   // Handle different post types
   if (params.kind === 'self') {
@@ -668,6 +713,12 @@ export async function submitPost(client: AxiosInstance, params: SubmitParams): P
     }
     form.set('kind', 'link');
     form.set('url', params.url);
+  } else if (params.kind === 'crosspost') {
+    if (!params.crosspost_fullname) {
+      throw new Error('The original post is required for crossposts');
+    }
+    form.set('kind', 'crosspost');
+    form.set('crosspost_fullname', params.crosspost_fullname);
   } else if (params.kind === 'image' || params.kind === 'video') {
     // For image/video posts, we need a media asset ID from file upload
     if (!mediaAssetId) {
@@ -692,8 +743,11 @@ export async function submitPost(client: AxiosInstance, params: SubmitParams): P
     form.set('kind', 'self');
   }
 
-  // Always add text/body if present
-  if (params.text) {
+  // Add the body: richtext for self posts with inline images, otherwise text if present
+  const inlineAssetIds = mediaAssetIds ?? (mediaAssetId ? [mediaAssetId] : []);
+  if (params.kind === 'self' && params.buildRichtext && inlineAssetIds.length > 0) {
+    form.set('richtext_json', JSON.stringify(params.buildRichtext(inlineAssetIds)));
+  } else if (params.text) {
     form.set('text', params.text);
   } else if (params.kind === 'self') {
     // Ensure self posts have at least empty text if missing
@@ -701,8 +755,10 @@ export async function submitPost(client: AxiosInstance, params: SubmitParams): P
   }
   
   if (params.flair_id) form.set('flair_id', params.flair_id);
+  if (params.flair_text) form.set('flair_text', params.flair_text);
   if (params.nsfw) form.set('nsfw', 'true');
   if (params.spoiler) form.set('spoiler', 'true');
+  if (params.original_content) form.set('original_content', 'true');
 
   const { data } = await client.post('/api/submit', form, {
     headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
@@ -762,6 +818,63 @@ export async function submitPost(client: AxiosInstance, params: SubmitParams): P
   return { url: url || '', id: id || '' };
 }
 
+/**
+ * Submit a poll post. The body text goes above the poll.
+ */
+async function submitPollPost(
+  client: AxiosInstance,
+  params: SubmitParams
+): Promise<{ url: string; id: string }> {
+  if (!params.poll_options || params.poll_options.length < 2) {
+    throw new Error('Poll options are required for poll posts');
+  }
+
+  const payload = {
+    api_type: 'json',
+    sr: params.subreddit,
+    title: params.title,
+    text: params.text || '',
+    options: params.poll_options,
+    duration: params.poll_duration ?? 3,
+    sendreplies: params.sendreplies !== false,
+    resubmit: true,
+    nsfw: params.nsfw || false,
+    spoiler: params.spoiler || false,
+    flair_id: params.flair_id || undefined,
+    flair_text: params.flair_text || undefined,
+    validate_on_submit: true,
+  };
+
+  const { data } = await client.post<SubmitJsonResponse>('/api/submit_poll_post.json', payload, {
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  if (data?.json?.errors?.length) {
+    throw new Error(data.json.errors.map(e => e.join(': ')).join('; '));
+  }
+
+  let url = data?.json?.data?.url;
+  let id = data?.json?.data?.id;
+
+  if (url && url.startsWith('//')) {
+    url = `https:${url}`;
+  }
+
+  if (id && id.startsWith('t3_')) {
+    id = id.substring(3);
+  }
+
+  if (!url && id) {
+    url = `https://www.reddit.com/r/${params.subreddit}/comments/${id}/`;
+  }
+
+  if (!url) {
+    throw new Error('No URL in poll response');
+  }
+
+  return { url, id: id || '' };
+}
+
 /**
  * Submit a gallery post using Reddit's API.
  * This is required for posting multiple images as a single post.
@@ -780,20 +893,31 @@ async function submitGalleryPost(
   form.set('title', params.title);
   form.set('kind', 'self');  // Use 'self' with gallery_data
   form.set('resubmit', 'true');
-  form.set('sendreplies', 'true');
+  form.set('sendreplies', params.sendreplies === false ? 'false' : 'true');
   
+  // Caption and outbound link of each uploaded image
+  const galleryItems = mediaAssetIds.map((mediaId, index) => {
+    const details = params.gallery_items?.[index];
+    return {
+      media_id: mediaId,
+      caption: details?.caption || '',
+      ...(details?.outbound_url && { outbound_url: details.outbound_url }),
+    };
+  });
+
   // Gallery data format - items array with media_id for each uploaded image
-  const items = mediaAssetIds.map((mediaId, index) => ({
-    media_id: mediaId,
+  const items = galleryItems.map((item, index) => ({
+    ...item,
     id: index + 1,
-    caption: '',
   }));
   
   form.set('items', JSON.stringify(items));
   
   if (params.flair_id) form.set('flair_id', params.flair_id);
+  if (params.flair_text) form.set('flair_text', params.flair_text);
   if (params.nsfw) form.set('nsfw', 'true');
   if (params.spoiler) form.set('spoiler', 'true');
+  if (params.original_content) form.set('original_content', 'true');
   
   console.log('Gallery form data:', {
     sr: params.subreddit,
@@ -808,15 +932,14 @@ async function submitGalleryPost(
       api_type: 'json',
       sr: params.subreddit,
       title: params.title,
-      items: mediaAssetIds.map((assetId) => ({
-        media_id: assetId,
-        caption: '',
-      })),
-      sendreplies: true,
+      items: galleryItems,
+      sendreplies: params.sendreplies !== false,
       resubmit: true,
       nsfw: params.nsfw || false,
       spoiler: params.spoiler || false,
+      original_content: params.original_content || false,
       flair_id: params.flair_id || undefined,
+      flair_text: params.flair_text || undefined,
       validate_on_submit: false,
       text: params.text || undefined,
     };
@@ -877,14 +1000,16 @@ async function submitGalleryPost(
     fallbackForm.set('title', params.title);
     fallbackForm.set('kind', 'image');
     fallbackForm.set('resubmit', 'true');
-    fallbackForm.set('sendreplies', 'true');
+    fallbackForm.set('sendreplies', params.sendreplies === false ? 'false' : 'true');
     
     // Use the first image URL as the main media
     fallbackForm.set('url', `https://reddit-uploaded-media.s3-accelerate.amazonaws.com/${mediaAssetIds[0]}`);
     
     if (params.flair_id) fallbackForm.set('flair_id', params.flair_id);
+    if (params.flair_text) fallbackForm.set('flair_text', params.flair_text);
     if (params.nsfw) fallbackForm.set('nsfw', 'true');
     if (params.spoiler) fallbackForm.set('spoiler', 'true');
+    if (params.original_content) fallbackForm.set('original_content', 'true');
     
     const { data: fallbackData } = await client.post('/api/submit', fallbackForm, {
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
@@ -1055,6 +1180,156 @@ export async function getUserSubmissions(
   }
 }
 
+/**
+ * Find a post the user just submitted by its subreddit and title.
+ * Media submissions are processed by Reddit after the submit call, so
+ * their response has no post ID; this looks the post up afterwards.
+ * @returns The post ID (without t3_) and its URL, or null when not found
+ */
+export async function findRecentSubmission(
+  client: AxiosInstance,
+  username: string,
+  subreddit: string,
+  title: string
+): Promise<{ id: string; url: string } | null> {
+  try {
+    const { data } = await client.get(`/user/${username}/submitted`, {
+      params: { limit: 10, sort: 'new', raw_json: 1 },
+    });
+
+    const children = data?.data?.children || [];
+    const post = children
+      .map((child: any) => child.data)
+      .find((post: any) =>
+        post?.id &&
+        post.title === title &&
+        String(post.subreddit).toLowerCase() === subreddit.toLowerCase()
+      );
+
+    return post ? { id: post.id, url: `https://www.reddit.com${post.permalink}` } : null;
+  } catch (error) {
+    console.error(`Failed to find the new post in r/${subreddit}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the moderation state and numbers of posts by ID (up to 100, without
+ * t3_) from /api/info. Posts Reddit no longer returns are missing from the
+ * result. Throws when the request fails.
+ * @returns State per post ID
+ */
+export async function getPostsInfo(
+  client: AxiosInstance,
+  postIds: string[]
+): Promise<Record<string, {
+  removed_by_category: string | null;
+  removal_reason: string | null;
+  spam: boolean;
+  locked: boolean;
+  score: number;
+  upvote_ratio: number;
+  num_comments: number;
+}>> {
+  if (postIds.length === 0) {
+    return {};
+  }
+
+  const { data } = await client.get('/api/info', {
+    params: { id: postIds.map(id => `t3_${id.replace(/^t3_/, '')}`).join(','), raw_json: 1 },
+  });
+
+  const posts: Awaited<ReturnType<typeof getPostsInfo>> = {};
+  for (const child of data?.data?.children || []) {
+    const post = child?.data;
+    if (!post?.id) continue;
+    posts[post.id] = {
+      removed_by_category: post.removed_by_category ?? null,
+      removal_reason: typeof post.removal_reason === 'string' ? post.removal_reason : null,
+      spam: post.spam === true,
+      locked: post.locked === true,
+      score: Number(post.score) || 0,
+      upvote_ratio: Number(post.upvote_ratio) || 0,
+      num_comments: Number(post.num_comments) || 0,
+    };
+  }
+  return posts;
+}
+
+/**
+ * Throw the errors of an api_type=json response, if any.
+ */
+function throwJsonErrors(data: any): void {
+  const errors = data?.json?.errors;
+  if (Array.isArray(errors) && errors.length > 0) {
+    throw new Error(errors.map((e: any) => e.join(': ')).join('; '));
+  }
+}
+
+const FORM_HEADERS = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+/**
+ * Replace the body of one of the user's text posts (id without t3_).
+ */
+export async function editPostText(client: AxiosInstance, postId: string, text: string): Promise<void> {
+  const form = new URLSearchParams();
+  form.set('api_type', 'json');
+  form.set('thing_id', `t3_${postId.replace(/^t3_/, '')}`);
+  form.set('text', text);
+
+  const { data } = await client.post('/api/editusertext', form, { headers: FORM_HEADERS });
+  throwJsonErrors(data);
+}
+
+/**
+ * Delete one of the user's posts (id without t3_).
+ */
+export async function deletePost(client: AxiosInstance, postId: string): Promise<void> {
+  const form = new URLSearchParams();
+  form.set('id', `t3_${postId.replace(/^t3_/, '')}`);
+
+  await client.post('/api/del', form, { headers: FORM_HEADERS });
+}
+
+/**
+ * Mark or unmark one of the user's posts as NSFW or spoiler (id without t3_).
+ */
+export async function setPostTag(
+  client: AxiosInstance,
+  postId: string,
+  tag: 'nsfw' | 'spoiler',
+  value: boolean
+): Promise<void> {
+  const form = new URLSearchParams();
+  form.set('id', `t3_${postId.replace(/^t3_/, '')}`);
+
+  const endpoint = tag === 'nsfw'
+    ? (value ? '/api/marknsfw' : '/api/unmarknsfw')
+    : (value ? '/api/spoiler' : '/api/unspoiler');
+  await client.post(endpoint, form, { headers: FORM_HEADERS });
+}
+
+/**
+ * Set the flair of one of the user's posts (id without t3_). `text` only
+ * applies to editable flair templates.
+ */
+export async function selectPostFlair(
+  client: AxiosInstance,
+  subreddit: string,
+  postId: string,
+  flairId: string,
+  text?: string
+): Promise<void> {
+  const form = new URLSearchParams();
+  form.set('api_type', 'json');
+  form.set('link', `t3_${postId.replace(/^t3_/, '')}`);
+  form.set('flair_template_id', flairId);
+  if (text) form.set('text', text);
+
+  const { data } = await client.post(`/r/${subreddit}/api/selectflair`, form, { headers: FORM_HEADERS });
+  throwJsonErrors(data);
+}
+
 export async function getEnhancedSubredditInfo(
   client: AxiosInstance, 
   subreddit: string
@@ -1100,6 +1375,7 @@ export async function getEnhancedSubredditInfo(
       allowImages: subData.allow_images !== false,
       allowVideos: subData.allow_videos !== false,
       allowGifs: subData.allow_videogifs !== false,
+      ...(typeof subData.allow_polls === 'boolean' && { allowPolls: subData.allow_polls }),
       // Enhanced text fields
       publicDescription: subData.public_description || '',
       sidebarDescription: subData.description || '',
@@ -1109,6 +1385,7 @@ export async function getEnhancedSubredditInfo(
       activeUsers: subData.accounts_active || 0,
       wikiEnabled: subData.wiki_enabled || false,
       over18: subData.over18 || false,
+      allowOriginalContent: subData.original_content_tag_enabled === true,
       createdUtc: subData.created_utc || 0,
     };
   } catch (error) {
@@ -1133,6 +1410,7 @@ export async function getEnhancedSubredditInfo(
       activeUsers: 0,
       wikiEnabled: false,
       over18: false,
+      allowOriginalContent: false,
       createdUtc: 0,
     };
   }